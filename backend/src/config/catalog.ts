@@ -0,0 +1,146 @@
+/**
+ * Service Catalog
+ *
+ * Single source of truth for the services and countries we sell numbers for.
+ * Every entry has a canonical id (what clients send) mapped to each provider's
+ * own code, e.g. `amazon` is `amazon` on 5SIM and `am` on SMS-Activate.
+ * Providers resolve product and country ids through this module, so the same
+ * request can be sent to any of them.
+ */
+
+import { CatalogProviderId } from '@vnos/contracts';
+import { INDIAN_SERVICES } from './indianServices';
+
+export type { CatalogProviderId };
+
+export interface CatalogCountry {
+  id: string;
+  name: string;
+  providers: Partial<Record<CatalogProviderId, string>>;
+}
+
+export interface CatalogService {
+  id: string;
+  name: string;
+  category: string;
+  aliases: string[];
+  providers: Partial<Record<CatalogProviderId, string>>;
+  countries: string[];
+}
+
+export const CATALOG_COUNTRIES: CatalogCountry[] = [
+  { id: 'india', name: 'India', providers: { '5sim': 'india', 'sms-activate': '22', twilio: 'IN', mock: 'india' } },
+  { id: 'usa', name: 'United States', providers: { '5sim': 'usa', 'sms-activate': '187', twilio: 'US', mock: 'usa' } },
+  { id: 'england', name: 'England', providers: { '5sim': 'england', 'sms-activate': '16', twilio: 'GB', mock: 'england' } },
+  { id: 'canada', name: 'Canada', providers: { '5sim': 'canada', 'sms-activate': '36', twilio: 'CA', mock: 'canada' } }
+];
+
+const ALL_COUNTRIES = CATALOG_COUNTRIES.map(country => country.id);
+
+// Services from INDIAN_SERVICES that are also sold outside India
+const GLOBAL_SERVICE_IDS = ['amazon', 'uber', 'netflix', 'whatsapp', 'instagram', 'facebook', 'telegram', 'snapchat'];
+
+// Alternative ids clients may send for a service
+const SERVICE_ALIASES: Record<string, string[]> = {
+  disneyhotstar: ['hotstar'],
+  googlepay: ['gpay'],
+  ola: ['olacabs'],
+  primevideo: ['amazonprime'],
+  whatsapp: ['wa'],
+  telegram: ['tg'],
+  instagram: ['ig'],
+  facebook: ['fb'],
+  twitter: ['x']
+};
+
+// Services not covered by INDIAN_SERVICES
+const GLOBAL_SERVICES: Array<Omit<CatalogService, 'aliases' | 'countries'>> = [
+  { id: 'google', name: 'Google', category: 'Technology', providers: { '5sim': 'google', 'sms-activate': 'go', twilio: 'google', mock: 'google' } },
+  { id: 'twitter', name: 'Twitter', category: 'Social Media & Communication', providers: { '5sim': 'twitter', 'sms-activate': 'tw', twilio: 'twitter', mock: 'twitter' } },
+  { id: 'lyft', name: 'Lyft', category: 'Transportation & Ride-sharing', providers: { '5sim': 'lyft', 'sms-activate': 'ly', twilio: 'lyft', mock: 'lyft' } }
+];
+
+export const CATALOG_SERVICES: CatalogService[] = [
+  // 5SIM product names match our ids; SMS-Activate codes come from INDIAN_SERVICES.
+  // Twilio numbers receive SMS from any sender, so every service maps to itself.
+  ...INDIAN_SERVICES.map(service => ({
+    id: service.id,
+    name: service.name,
+    category: service.category,
+    aliases: SERVICE_ALIASES[service.id] || [],
+    providers: { '5sim': service.id, 'sms-activate': service.smsActivateId, twilio: service.id, mock: service.id },
+    countries: GLOBAL_SERVICE_IDS.includes(service.id) ? ALL_COUNTRIES : ['india']
+  })),
+  ...GLOBAL_SERVICES.map(service => ({
+    ...service,
+    aliases: SERVICE_ALIASES[service.id] || [],
+    countries: ALL_COUNTRIES
+  }))
+];
+
+/**
+ * Find a service by canonical id or alias
+ */
+export function resolveService(idOrAlias: string): CatalogService | undefined {
+  const id = idOrAlias.toLowerCase();
+  return CATALOG_SERVICES.find(service => service.id === id)
+    ?? CATALOG_SERVICES.find(service => service.aliases.includes(id));
+}
+
+/**
+ * Find a country by canonical id or any provider's country code
+ */
+export function resolveCountry(idOrCode: string): CatalogCountry | undefined {
+  const id = idOrCode.toLowerCase();
+  return CATALOG_COUNTRIES.find(country => country.id === id)
+    ?? CATALOG_COUNTRIES.find(country => Object.values(country.providers).some(code => code?.toLowerCase() === id));
+}
+
+/**
+ * Get a provider's product code for a service. Ids unknown to the catalog are
+ * passed through unchanged as raw provider codes; undefined means the catalog
+ * knows the service but the provider doesn't offer it in that country.
+ */
+export function getProviderProductCode(providerId: string, productId: string, countryId?: string): string | undefined {
+  const service = resolveService(productId);
+  if (!service) {
+    return productId;
+  }
+
+  const country = countryId ? resolveCountry(countryId) : undefined;
+  if (country && !service.countries.includes(country.id)) {
+    return undefined;
+  }
+
+  return service.providers[providerId as CatalogProviderId];
+}
+
+/**
+ * Get a provider's code for a country. Unknown ids are passed through unchanged.
+ */
+export function getProviderCountryCode(providerId: string, countryId: string): string | undefined {
+  const country = resolveCountry(countryId);
+  return country ? country.providers[providerId as CatalogProviderId] : countryId;
+}
+
+/**
+ * Search the catalog
+ */
+export function findCatalogServices(filter: { category?: string; country?: string; provider?: string; query?: string } = {}): CatalogService[] {
+  const country = filter.country ? resolveCountry(filter.country) : undefined;
+  const query = filter.query?.toLowerCase();
+
+  return CATALOG_SERVICES.filter(service =>
+    (!filter.category || service.category === filter.category) &&
+    (!filter.country || (country !== undefined && service.countries.includes(country.id))) &&
+    (!filter.provider || service.providers[filter.provider as CatalogProviderId] !== undefined) &&
+    (!query || service.name.toLowerCase().includes(query) || service.id.includes(query) || service.aliases.some(alias => alias.includes(query)))
+  );
+}
+
+/**
+ * Get all catalog categories
+ */
+export function getCatalogCategories(): string[] {
+  return [...new Set(CATALOG_SERVICES.map(service => service.category))];
+}
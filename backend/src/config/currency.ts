@@ -0,0 +1,62 @@
+/**
+ * Currency Configuration
+ *
+ * Providers quote prices in their own account currency. Everything we compare
+ * or charge is normalised to the wallet currency (WALLET_CURRENCY, default USD).
+ *
+ * - FIVESIM_CURRENCY / SMS_ACTIVATE_CURRENCY: currency each provider quotes in (default USD)
+ * - EXCHANGE_RATES: value of one unit in the wallet currency, e.g. `RUB:0.011,EUR:1.08`
+ */
+
+const PROVIDER_CURRENCY_ENV: Record<string, string> = {
+  '5sim': 'FIVESIM_CURRENCY',
+  'sms-activate': 'SMS_ACTIVATE_CURRENCY'
+};
+
+/**
+ * Get the currency wallets and normalised prices are expressed in
+ */
+export function getWalletCurrency(): string {
+  return (process.env.WALLET_CURRENCY || 'USD').toUpperCase();
+}
+
+/**
+ * Get the currency a provider quotes its prices in
+ */
+export function getProviderCurrency(providerId: string): string {
+  const envName = PROVIDER_CURRENCY_ENV[providerId];
+  return ((envName && process.env[envName]) || 'USD').toUpperCase();
+}
+
+/**
+ * Parse EXCHANGE_RATES into a currency -> rate map
+ */
+function getExchangeRates(): Record<string, number> {
+  const rates: Record<string, number> = {};
+
+  for (const entry of (process.env.EXCHANGE_RATES || '').split(',')) {
+    const [currency, rate] = entry.split(':').map(part => part.trim());
+    if (currency && rate && !isNaN(Number(rate))) {
+      rates[currency.toUpperCase()] = Number(rate);
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * Convert a provider's quoted price into the wallet currency
+ */
+export function normalisePrice(providerId: string, amount: number): number {
+  const currency = getProviderCurrency(providerId);
+  if (currency === getWalletCurrency()) {
+    return amount;
+  }
+
+  const rate = getExchangeRates()[currency];
+  if (rate === undefined) {
+    throw new Error(`No exchange rate configured for ${currency} (set EXCHANGE_RATES, e.g. ${currency}:1)`);
+  }
+
+  return Math.round(amount * rate * 10000) / 10000;
+}
@@ -0,0 +1,39 @@
+/**
+ * Number Lifetime Policies
+ *
+ * How long a one-shot activation stays active and what happens when it ends.
+ * Rentals aren't covered: they last for the period that was paid for.
+ *
+ * A policy is built from DEFAULT_LIFETIME_POLICY plus every rule that matches
+ * the number's provider and product, least specific first: provider-wide
+ * rules, then product-wide rules, then rules for that provider and product.
+ * Rules from the JSON file in LIFETIME_POLICIES_FILE are applied after the
+ * built-in ones at the same level, so they can override them.
+ */
+
+export interface LifetimePolicy {
+  waitTimeoutSeconds: number; // How long a new activation waits for its first SMS
+  gracePeriodSeconds: number; // How long it stays open after the first SMS, for resends (never past the wait timeout)
+  autoCancelIfNoSms: boolean; // Cancel with the provider and refund when no SMS arrived in time; otherwise just expire
+  finishOnFirstCode: boolean; // Finish with the provider as soon as an OTP arrives
+}
+
+export interface LifetimePolicyRule extends Partial<LifetimePolicy> {
+  provider?: string; // Unset matches every provider
+  product?: string; // Catalog service id; unset matches every product
+}
+
+export const DEFAULT_LIFETIME_POLICY: LifetimePolicy = {
+  waitTimeoutSeconds: 15 * 60,
+  gracePeriodSeconds: 5 * 60,
+  autoCancelIfNoSms: true,
+  finishOnFirstCode: false
+};
+
+// The providers' own activation windows; waiting longer than these is pointless.
+// Twilio bills a number as soon as it is bought, so there is nothing to cancel for.
+export const LIFETIME_POLICY_RULES: LifetimePolicyRule[] = [
+  { provider: '5sim', waitTimeoutSeconds: 15 * 60 },
+  { provider: 'sms-activate', waitTimeoutSeconds: 20 * 60 },
+  { provider: 'twilio', autoCancelIfNoSms: false }
+];
@@ -0,0 +1,85 @@
+/**
+ * OTP Extraction Rules
+ *
+ * Regex rules the OTP extractor runs against every received SMS. The first
+ * capture group of a rule is the code (the whole match if there is none), and
+ * each rule has a base confidence the extractor adjusts for context, e.g. a
+ * number right after "Rs." is probably an amount, not a code.
+ *
+ * Service rules are keyed by catalog service id and are tried before the
+ * defaults, so a known sender format wins over a generic guess. Extra rules
+ * can be loaded from the JSON file in OTP_RULES_FILE without a code change.
+ */
+
+export interface OtpRuleDefinition {
+  id: string;
+  pattern: string;
+  flags?: string;
+  confidence: number; // 0-1, before context adjustments
+  description?: string;
+}
+
+// Code shapes: split digits (123-456 / 12-34-56 / 123 456), alphanumeric with at least one digit and plain digits
+const CODE = '(\\d{2,4}(?:-\\d{2,4}){1,3}|\\d{3,4}\\s\\d{3,4}|(?=[A-Z0-9-]*\\d)[A-Z0-9]{2,5}-[A-Z0-9]{2,5}|(?=[A-Z]*\\d)[A-Z0-9]{4,8})';
+
+export const DEFAULT_OTP_RULES: OtpRuleDefinition[] = [
+  {
+    id: 'keyword-before-code',
+    pattern: `(?:otp|one[-\\s]?time\\s+(?:password|passcode|pin)|(?:verification|security|login|access|auth(?:entication)?)\\s+code|passcode|code|pin)\\s*(?:is|:|-|=)?\\s*${CODE}\\b`,
+    flags: 'i',
+    confidence: 0.95,
+    description: 'Code right after a keyword, e.g. "Your OTP is 482913" or "code: AB12CD"'
+  },
+  {
+    id: 'code-before-keyword',
+    pattern: `\\b${CODE}\\s+is\\s+(?:your|the)\\b[^.\\n]{0,30}?\\b(?:otp|code|pin|password|passcode)\\b`,
+    flags: 'i',
+    confidence: 0.95,
+    description: 'Code followed by a keyword, e.g. "482913 is your login code"'
+  },
+  {
+    id: 'prefixed-code',
+    pattern: '\\b[A-Z]{1,3}-(\\d{4,8})\\b',
+    confidence: 0.85,
+    description: 'Sender-prefixed code, e.g. "G-482913"'
+  },
+  {
+    id: 'split-digits',
+    pattern: '\\b(\\d{2,4}(?:-\\d{2,4}){1,3}|\\d{3,4}\\s\\d{3,4})\\b',
+    confidence: 0.6,
+    description: 'Digits split into groups, e.g. "482-913" or "48-29-13"'
+  },
+  {
+    id: 'digits',
+    pattern: '\\b(\\d{4,8})\\b',
+    confidence: 0.5,
+    description: 'Any standalone 4-8 digit number'
+  }
+];
+
+export const SERVICE_OTP_RULES: Record<string, OtpRuleDefinition[]> = {
+  google: [
+    { id: 'google', pattern: '\\bG-(\\d{6})\\b', confidence: 0.99, description: 'G-482913 is your Google verification code' }
+  ],
+  whatsapp: [
+    { id: 'whatsapp', pattern: 'whatsapp[^\\d]{0,40}?(\\d{3}-\\d{3})\\b', flags: 'i', confidence: 0.99, description: 'Your WhatsApp code: 482-913' }
+  ],
+  facebook: [
+    { id: 'facebook', pattern: '\\bFB-(\\d{5,8})\\b', confidence: 0.99, description: 'FB-48291 is your Facebook confirmation code' }
+  ],
+  instagram: [
+    { id: 'instagram', pattern: '\\b(\\d{3}\\s?\\d{3}) is your Instagram code', flags: 'i', confidence: 0.99, description: '482 913 is your Instagram code' }
+  ],
+  telegram: [
+    { id: 'telegram', pattern: 'Telegram code:?\\s*(\\d{5,6})\\b', flags: 'i', confidence: 0.99, description: 'Telegram code: 48291' }
+  ],
+  amazon: [
+    { id: 'amazon', pattern: '\\b(\\d{6}) is your Amazon (?:OTP|code)', flags: 'i', confidence: 0.99, description: '482913 is your Amazon OTP' }
+  ],
+  uber: [
+    { id: 'uber', pattern: 'Uber code:?\\s*(\\d{4})\\b', flags: 'i', confidence: 0.99, description: 'Your Uber code: 4829' }
+  ],
+  paytm: [
+    { id: 'paytm', pattern: 'Paytm[^\\d]{0,40}?\\b(\\d{4,6})\\b', flags: 'i', confidence: 0.97, description: 'Your Paytm login OTP is 482913' }
+  ]
+};
@@ -0,0 +1,244 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * SQLite Database
+ *
+ * Opens the application database file and applies pending schema migrations.
+ * The schema version is tracked with SQLite's `user_version` pragma, so each
+ * entry in MIGRATIONS runs exactly once per database file.
+ */
+const MIGRATIONS: string[] = [
+  // 1: virtual numbers, their OTPs and status history
+  `
+  CREATE TABLE virtual_numbers (
+    id TEXT PRIMARY KEY,
+    number TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    country TEXT NOT NULL,
+    product TEXT NOT NULL,
+    activation_id TEXT,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_virtual_numbers_number ON virtual_numbers(number);
+  CREATE INDEX idx_virtual_numbers_status ON virtual_numbers(status);
+
+  CREATE TABLE otps (
+    id TEXT PRIMARY KEY,
+    virtual_number_id TEXT NOT NULL REFERENCES virtual_numbers(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    is_used INTEGER NOT NULL DEFAULT 0,
+    source TEXT
+  );
+  CREATE INDEX idx_otps_virtual_number ON otps(virtual_number_id);
+
+  CREATE TABLE status_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    virtual_number_id TEXT NOT NULL REFERENCES virtual_numbers(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_status_transitions_virtual_number ON status_transitions(virtual_number_id);
+  `,
+  // 2: purchase time of the provider activation
+  `
+  ALTER TABLE virtual_numbers ADD COLUMN purchased_at TEXT;
+  UPDATE virtual_numbers SET purchased_at = created_at;
+  `,
+  // 3: user accounts, hashed API keys and number ownership
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT UNIQUE,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+  CREATE INDEX idx_api_keys_user ON api_keys(user_id);
+
+  ALTER TABLE virtual_numbers ADD COLUMN user_id TEXT REFERENCES users(id);
+  CREATE INDEX idx_virtual_numbers_user ON virtual_numbers(user_id);
+  `,
+  // 4: wallet ledger and the price paid for each number
+  `
+  CREATE TABLE wallet_transactions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    amount REAL NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL,
+    virtual_number_id TEXT,
+    description TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_wallet_transactions_user ON wallet_transactions(user_id, created_at);
+  CREATE INDEX idx_wallet_transactions_virtual_number ON wallet_transactions(virtual_number_id);
+
+  ALTER TABLE virtual_numbers ADD COLUMN price REAL;
+  `,
+  // 5: price sync runs and the price/stock snapshots they captured
+  `
+  CREATE TABLE price_syncs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    status TEXT NOT NULL,
+    snapshot_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT
+  );
+
+  CREATE TABLE price_snapshots (
+    sync_id INTEGER NOT NULL REFERENCES price_syncs(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    service_id TEXT NOT NULL,
+    country_id TEXT NOT NULL,
+    cost REAL NOT NULL,
+    currency TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY (sync_id, provider, service_id, country_id)
+  );
+  CREATE INDEX idx_price_snapshots_service ON price_snapshots(service_id, country_id, synced_at);
+  `,
+  // 6: full SMS messages and the message each OTP came from
+  `
+  CREATE TABLE sms_messages (
+    id TEXT PRIMARY KEY,
+    virtual_number_id TEXT NOT NULL REFERENCES virtual_numbers(id) ON DELETE CASCADE,
+    provider_message_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    text TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    UNIQUE (virtual_number_id, provider_message_id)
+  );
+
+  ALTER TABLE otps ADD COLUMN message_id TEXT REFERENCES sms_messages(id) ON DELETE SET NULL;
+  `,
+  // 7: how confident the extractor was in each OTP
+  `
+  ALTER TABLE otps ADD COLUMN confidence REAL;
+  `,
+  // 8: follow-up activations on a reused number point at the record they continue
+  `
+  ALTER TABLE virtual_numbers ADD COLUMN reactivated_from TEXT REFERENCES virtual_numbers(id) ON DELETE SET NULL;
+  `,
+  // 9: one-shot activations vs. long-term rentals
+  `
+  ALTER TABLE virtual_numbers ADD COLUMN mode TEXT NOT NULL DEFAULT 'activation';
+  `,
+  // 10: when an activation is auto-cancelled if no SMS has arrived, from its lifetime policy
+  `
+  ALTER TABLE virtual_numbers ADD COLUMN sms_deadline TEXT;
+  `,
+  // 11: 'active' splits into waiting_sms and sms_received
+  `
+  UPDATE virtual_numbers SET status = CASE
+    WHEN EXISTS (SELECT 1 FROM sms_messages WHERE virtual_number_id = virtual_numbers.id) THEN 'sms_received'
+    WHEN EXISTS (SELECT 1 FROM otps WHERE virtual_number_id = virtual_numbers.id) THEN 'sms_received'
+    ELSE 'waiting_sms'
+  END
+  WHERE status = 'active';
+
+  UPDATE status_transitions SET from_status = 'waiting_sms' WHERE from_status = 'active';
+  UPDATE status_transitions SET to_status = 'waiting_sms' WHERE to_status = 'active';
+  `,
+  // 12: outbound webhooks and their delivery queue
+  `
+  CREATE TABLE webhook_endpoints (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_webhook_endpoints_user ON webhook_endpoints(user_id);
+
+  CREATE TABLE webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    delivered_at TEXT
+  );
+
+  CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+  CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at);
+  `
+];
+
+let database: Database.Database | null = null;
+
+/**
+ * Apply any migrations newer than the database's current schema version
+ */
+export function migrate(db: Database.Database): void {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+    console.log(`[Database] Applied migration ${version + 1}`);
+  }
+}
+
+/**
+ * Get the shared database connection, opening it on first use
+ */
+export function getDatabase(): Database.Database {
+  if (database) {
+    return database;
+  }
+
+  const databasePath = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'vnos.db');
+  if (databasePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  }
+
+  database = new Database(databasePath);
+  database.pragma('journal_mode = WAL');
+  database.pragma('foreign_keys = ON');
+  migrate(database);
+
+  console.log(`[Database] Using SQLite database at ${databasePath}`);
+  return database;
+}
+
+/**
+ * Close the shared database connection
+ */
+export function closeDatabase(): void {
+  if (database) {
+    database.close();
+    database = null;
+  }
+}
@@ -1,17 +1,30 @@
-import express from 'express';
+// Load environment variables before any module reads them at import time
+import 'dotenv/config';
+import express, { ErrorRequestHandler } from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
-import dotenv from 'dotenv';
+import { ClientToServerEvents, ServerToClientEvents } from '@vnos/contracts';
 import virtualNumbersRouter from './routes/virtualNumbers';
+import usersRouter from './routes/users';
+import walletRouter from './routes/wallet';
+import catalogRouter from './routes/catalog';
+import otpRulesRouter from './routes/otpRules';
+import webhooksRouter from './routes/webhooks';
+import webhookEndpointsRouter from './routes/webhookEndpoints';
+import mockRouter from './routes/mock';
 import { swaggerUi, specs } from './swagger';
-
-// Load environment variables
-dotenv.config();
+import { closeDatabase } from './db/database';
+import { authenticate, extractApiKey } from './middleware/auth';
+import { authService } from './services/authService';
+import { virtualNumberService } from './services/virtualNumberService';
+import { priceSyncService } from './services/priceSyncService';
+import { webhookService } from './services/webhookService';
+import { joinNumberRoom } from './sockets/numberRooms';
 
 const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     methods: ['GET', 'POST']
@@ -35,8 +48,32 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
   }
 }));
 
-// API Routes
-app.use('/api/virtual-numbers', virtualNumbersRouter);
+// API Routes - every API call must carry a user's API key
+app.use('/api/virtual-numbers', authenticate, virtualNumbersRouter);
+app.use('/api/users', authenticate, usersRouter);
+app.use('/api/wallet', authenticate, walletRouter);
+app.use('/api/catalog', authenticate, catalogRouter);
+app.use('/api/otp-rules', authenticate, otpRulesRouter);
+app.use('/api/webhooks', authenticate, webhookEndpointsRouter);
+
+// Provider webhooks - authenticated by the provider's signature instead of an API key
+app.use('/webhook', express.urlencoded({ extended: false }), webhooksRouter);
+
+// Mock provider scripting for development, QA and CI
+app.use('/mock', authenticate, mockRouter);
+
+// Bodies that aren't valid JSON get the API's error shape rather than Express's HTML page
+const handleMalformedBody: ErrorRequestHandler = (error, req, res, next) => {
+  if (error?.type !== 'entity.parse.failed') {
+    return next(error);
+  }
+
+  res.status(400).json({
+    success: false,
+    error: 'Request body is not valid JSON'
+  });
+};
+app.use(handleMalformedBody);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -55,13 +92,33 @@ app.get('/', (req, res) => {
   });
 });
 
+// WebSocket authentication - the API key comes from the handshake auth payload or headers
+io.use(async (socket, next) => {
+  try {
+    const key = socket.handshake.auth?.apiKey || extractApiKey(socket.handshake.headers);
+    const user = key ? await authService.authenticate(key) : undefined;
+
+    if (!user) {
+      return next(new Error('Authentication required'));
+    }
+
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    console.error('[Socket] Error authenticating connection:', error);
+    next(new Error('Authentication failed'));
+  }
+});
+
 // WebSocket connection handling
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
   
-  socket.on('joinNumber', (phoneNumber: string) => {
-    socket.join(`number-${phoneNumber}`);
-    console.log(`Client ${socket.id} joined room for number: ${phoneNumber}`);
+  // Only the owner of a number may subscribe to its updates
+  socket.on('joinNumber', phoneNumber => joinNumberRoom(socket, phoneNumber));
+
+  socket.on('leaveNumber', (phoneNumber: string) => {
+    socket.leave(`number-${phoneNumber}`);
   });
   
   socket.on('disconnect', () => {
@@ -70,24 +127,31 @@ io.on('connection', (socket) => {
 });
 
 // Make io available globally for other modules
-declare global {
-  var io: Server;
-}
 global.io = io;
 
 const PORT = process.env.PORT || 5000;
 
+authService.ensureBootstrapAdmin().catch(error => {
+  console.error('[Auth] Failed to bootstrap admin user:', error);
+});
+
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📚 API Documentation: http://localhost:${PORT}/api-docs`);
   console.log(`🏥 Health Check: http://localhost:${PORT}/health`);
   console.log(`🔌 WebSocket: ws://localhost:${PORT}`);
+
+  priceSyncService.start();
+  webhookService.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  priceSyncService.stop();
+  webhookService.stop();
   server.close(() => {
+    closeDatabase();
     console.log('Server closed');
     process.exit(0);
   });
@@ -95,7 +159,10 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  priceSyncService.stop();
+  webhookService.stop();
   server.close(() => {
+    closeDatabase();
     console.log('Server closed');
     process.exit(0);
   });
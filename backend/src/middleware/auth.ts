@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { User } from '../types';
+import { authService } from '../services/authService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+/**
+ * Read an API key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function extractApiKey(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+}
+
+/**
+ * Require a valid API key and attach its user to the request
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = extractApiKey(req.headers);
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required. Pass an API key as a Bearer token or X-API-Key header.'
+      });
+    }
+
+    const user = await authService.authenticate(key);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or revoked API key'
+      });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('[Auth] Error authenticating request:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to authenticate request'
+    });
+  }
+}
+
+/**
+ * Only let admins through. Must run after authenticate.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+  }
+  next();
+}
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+
+/**
+ * Reject webhook calls that weren't signed by Twilio with our auth token.
+ *
+ * Twilio signs the public URL it called, so the URL is rebuilt from
+ * WEBHOOK_BASE_URL rather than the request's host, which differs behind a
+ * proxy. Set TWILIO_WEBHOOK_VALIDATION=false to skip the check in development.
+ */
+export function validateTwilioSignature(req: Request, res: Response, next: NextFunction) {
+  if (process.env.TWILIO_WEBHOOK_VALIDATION === 'false') {
+    return next();
+  }
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.error('[Twilio] Webhook received but TWILIO_AUTH_TOKEN is not configured');
+    return res.status(503).json({
+      success: false,
+      error: 'Twilio is not configured'
+    });
+  }
+
+  const signature = req.header('X-Twilio-Signature');
+  const baseUrl = (process.env.WEBHOOK_BASE_URL || 'http://localhost:5000').replace(/\/+$/, '');
+  const url = `${baseUrl}${req.originalUrl}`;
+
+  if (!signature || !twilio.validateRequest(authToken, signature, url, req.body || {})) {
+    console.warn(`[Twilio] Rejected webhook with invalid signature for ${url}`);
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid Twilio signature'
+    });
+  }
+
+  next();
+}
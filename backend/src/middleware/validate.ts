@@ -0,0 +1,61 @@
+import { Request, RequestHandler, Response } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { z } from 'zod';
+import { ApiResponse, formatIssues } from '@vnos/contracts';
+
+// Contract schemas for the parts of a request a route reads
+export interface RequestSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+}
+
+type Parsed<S, Unchecked> = S extends z.ZodTypeAny ? z.output<S> : Unchecked;
+
+/**
+ * A request whose parts validate() checked and replaced with the parsed values
+ */
+export type ValidRequest<S extends RequestSchemas> = Request<
+  Parsed<S['params'], ParamsDictionary>,
+  unknown,
+  Parsed<S['body'], unknown>,
+  Parsed<S['query'], ParsedQs>
+>;
+
+/**
+ * A response whose data must match a contract schema (Dates are fine where the wire has dates).
+ * Routes that only answer with a message or an error leave the schema out.
+ */
+export type Reply<S extends z.ZodTypeAny = z.ZodNever> = Response<ApiResponse<z.input<S>>>;
+
+/**
+ * Check the request against the route's contract before the handler runs.
+ * Invalid requests get a 400 naming every problem; valid ones continue with
+ * the parsed values, so defaults are filled in and numbers in the query are numbers.
+ */
+export function validate<S extends RequestSchemas>(schemas: S): RequestHandler<
+  Parsed<S['params'], ParamsDictionary>,
+  unknown,
+  Parsed<S['body'], unknown>,
+  Parsed<S['query'], ParsedQs>
+> {
+  return (req, res, next) => {
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: formatIssues(result.error)
+        });
+      }
+      req[part] = result.data;
+    }
+    next();
+  };
+}
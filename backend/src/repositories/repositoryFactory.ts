@@ -0,0 +1,130 @@
+import { VirtualNumberRepository, UserRepository, WalletRepository, PriceSnapshotRepository, WebhookRepository } from '../types';
+import { getDatabase } from '../db/database';
+import { SqliteVirtualNumberRepository } from './sqliteVirtualNumberRepository';
+import { SqliteUserRepository } from './sqliteUserRepository';
+import { SqliteWalletRepository } from './sqliteWalletRepository';
+import { SqlitePriceSnapshotRepository } from './sqlitePriceSnapshotRepository';
+import { SqliteWebhookRepository } from './sqliteWebhookRepository';
+
+/**
+ * Repository Factory
+ *
+ * Chooses the storage backend from the STORAGE_DRIVER environment variable.
+ * SQLite is the default; other drivers (e.g. Postgres) plug in here by
+ * implementing the repository interfaces from ../types.
+ */
+export class RepositoryFactory {
+  private static virtualNumberRepository: VirtualNumberRepository | null = null;
+  private static userRepository: UserRepository | null = null;
+  private static walletRepository: WalletRepository | null = null;
+  private static priceSnapshotRepository: PriceSnapshotRepository | null = null;
+  private static webhookRepository: WebhookRepository | null = null;
+
+  /**
+   * Get the configured storage driver
+   */
+  static getDriver(): string {
+    return (process.env.STORAGE_DRIVER || 'sqlite').toLowerCase();
+  }
+
+  /**
+   * Get the virtual number repository for the configured driver
+   */
+  static getVirtualNumberRepository(): VirtualNumberRepository {
+    if (this.virtualNumberRepository) {
+      return this.virtualNumberRepository;
+    }
+
+    switch (this.getDriver()) {
+      case 'sqlite':
+        this.virtualNumberRepository = new SqliteVirtualNumberRepository(getDatabase());
+        break;
+
+      default:
+        throw new Error(`Unknown storage driver: ${this.getDriver()}`);
+    }
+
+    console.log(`[RepositoryFactory] Using ${this.getDriver()} storage`);
+    return this.virtualNumberRepository;
+  }
+
+  /**
+   * Get the user repository for the configured driver
+   */
+  static getUserRepository(): UserRepository {
+    if (this.userRepository) {
+      return this.userRepository;
+    }
+
+    switch (this.getDriver()) {
+      case 'sqlite':
+        this.userRepository = new SqliteUserRepository(getDatabase());
+        break;
+
+      default:
+        throw new Error(`Unknown storage driver: ${this.getDriver()}`);
+    }
+
+    return this.userRepository;
+  }
+
+  /**
+   * Get the wallet ledger repository for the configured driver
+   */
+  static getWalletRepository(): WalletRepository {
+    if (this.walletRepository) {
+      return this.walletRepository;
+    }
+
+    switch (this.getDriver()) {
+      case 'sqlite':
+        this.walletRepository = new SqliteWalletRepository(getDatabase());
+        break;
+
+      default:
+        throw new Error(`Unknown storage driver: ${this.getDriver()}`);
+    }
+
+    return this.walletRepository;
+  }
+
+  /**
+   * Get the price snapshot repository for the configured driver
+   */
+  static getPriceSnapshotRepository(): PriceSnapshotRepository {
+    if (this.priceSnapshotRepository) {
+      return this.priceSnapshotRepository;
+    }
+
+    switch (this.getDriver()) {
+      case 'sqlite':
+        this.priceSnapshotRepository = new SqlitePriceSnapshotRepository(getDatabase());
+        break;
+
+      default:
+        throw new Error(`Unknown storage driver: ${this.getDriver()}`);
+    }
+
+    return this.priceSnapshotRepository;
+  }
+
+  /**
+   * Get the webhook repository for the configured driver
+   */
+  static getWebhookRepository(): WebhookRepository {
+    if (this.webhookRepository) {
+      return this.webhookRepository;
+    }
+
+    switch (this.getDriver()) {
+      case 'sqlite':
+        this.webhookRepository = new SqliteWebhookRepository(getDatabase());
+        break;
+
+      default:
+        throw new Error(`Unknown storage driver: ${this.getDriver()}`);
+    }
+
+    return this.webhookRepository;
+  }
+}
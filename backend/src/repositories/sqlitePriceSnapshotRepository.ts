@@ -0,0 +1,129 @@
+import Database from 'better-sqlite3';
+import { PriceSnapshot, PriceSnapshotRepository, PriceSync, PriceSyncStatus } from '../types';
+
+interface PriceSyncRow {
+  id: number;
+  started_at: string;
+  finished_at: string | null;
+  status: PriceSyncStatus;
+  snapshot_count: number;
+  error: string | null;
+}
+
+interface PriceSnapshotRow {
+  sync_id: number;
+  provider: string;
+  service_id: string;
+  country_id: string;
+  cost: number;
+  currency: string;
+  count: number;
+  synced_at: string;
+}
+
+/**
+ * SQLite Price Snapshot Repository
+ *
+ * Each sync run gets an auto-incrementing id that versions the snapshots it
+ * wrote, so the latest completed sync is the current price list and older
+ * ones form the price history.
+ */
+export class SqlitePriceSnapshotRepository implements PriceSnapshotRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  async startSync(startedAt: Date): Promise<number> {
+    const result = this.db
+      .prepare("INSERT INTO price_syncs (started_at, status) VALUES (?, 'running')")
+      .run(startedAt.toISOString());
+
+    return Number(result.lastInsertRowid);
+  }
+
+  async finishSync(syncId: number, status: PriceSyncStatus, snapshotCount: number, error?: string): Promise<void> {
+    this.db
+      .prepare('UPDATE price_syncs SET status = ?, snapshot_count = ?, error = ?, finished_at = ? WHERE id = ?')
+      .run(status, snapshotCount, error ?? null, new Date().toISOString(), syncId);
+  }
+
+  async saveSnapshots(snapshots: PriceSnapshot[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO price_snapshots (sync_id, provider, service_id, country_id, cost, currency, count, synced_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const snapshot of snapshots) {
+        insert.run(
+          snapshot.syncId,
+          snapshot.provider,
+          snapshot.serviceId,
+          snapshot.countryId,
+          snapshot.cost,
+          snapshot.currency,
+          snapshot.count,
+          snapshot.syncedAt.toISOString()
+        );
+      }
+    })();
+  }
+
+  async getLatestSync(): Promise<PriceSync | undefined> {
+    const row = this.db
+      .prepare("SELECT * FROM price_syncs WHERE status = 'completed' ORDER BY id DESC LIMIT 1")
+      .get() as PriceSyncRow | undefined;
+
+    return row ? this.toSync(row) : undefined;
+  }
+
+  async getSnapshots(syncId: number): Promise<PriceSnapshot[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM price_snapshots WHERE sync_id = ?')
+      .all(syncId) as PriceSnapshotRow[];
+
+    return rows.map(row => this.toSnapshot(row));
+  }
+
+  async getHistory(serviceId: string, countryId: string, since: Date, provider?: string): Promise<PriceSnapshot[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM price_snapshots
+        WHERE service_id = ? AND country_id = ? AND synced_at >= ? AND (? IS NULL OR provider = ?)
+        ORDER BY synced_at ASC, provider ASC
+      `)
+      .all(serviceId, countryId, since.toISOString(), provider ?? null, provider ?? null) as PriceSnapshotRow[];
+
+    return rows.map(row => this.toSnapshot(row));
+  }
+
+  async pruneBefore(cutoff: Date): Promise<number> {
+    const result = this.db
+      .prepare('DELETE FROM price_syncs WHERE started_at < ?')
+      .run(cutoff.toISOString());
+
+    return result.changes;
+  }
+
+  private toSync(row: PriceSyncRow): PriceSync {
+    return {
+      id: row.id,
+      startedAt: new Date(row.started_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+      status: row.status,
+      snapshotCount: row.snapshot_count,
+      error: row.error ?? undefined
+    };
+  }
+
+  private toSnapshot(row: PriceSnapshotRow): PriceSnapshot {
+    return {
+      syncId: row.sync_id,
+      provider: row.provider,
+      serviceId: row.service_id,
+      countryId: row.country_id,
+      cost: row.cost,
+      currency: row.currency,
+      count: row.count,
+      syncedAt: new Date(row.synced_at)
+    };
+  }
+}
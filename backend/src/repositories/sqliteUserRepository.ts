@@ -0,0 +1,104 @@
+import Database from 'better-sqlite3';
+import { ApiKey, User, UserRepository, UserRole } from '../types';
+
+interface UserRow {
+  id: string;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  created_at: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * SQLite User Repository
+ *
+ * Stores user accounts and the hashes of their API keys.
+ */
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  async createUser(user: User): Promise<void> {
+    this.db
+      .prepare('INSERT INTO users (id, name, email, role, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(user.id, user.name, user.email ?? null, user.role, user.createdAt.toISOString());
+  }
+
+  async findUserById(userId: string): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as UserRow | undefined;
+    return row ? this.toUser(row) : undefined;
+  }
+
+  async countUsers(): Promise<number> {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+    return row.count;
+  }
+
+  async createApiKey(apiKey: ApiKey, keyHash: string): Promise<void> {
+    this.db
+      .prepare('INSERT INTO api_keys (id, user_id, name, prefix, key_hash, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(apiKey.id, apiKey.userId, apiKey.name, apiKey.prefix, keyHash, apiKey.createdAt.toISOString());
+  }
+
+  /**
+   * Find a non-revoked API key by the hash of its secret
+   */
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+      .get(keyHash) as ApiKeyRow | undefined;
+
+    return row ? this.toApiKey(row) : undefined;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at ASC')
+      .all(userId) as ApiKeyRow[];
+
+    return rows.map(row => this.toApiKey(row));
+  }
+
+  async touchApiKey(apiKeyId: string): Promise<void> {
+    this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), apiKeyId);
+  }
+
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<boolean> {
+    const result = this.db
+      .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL')
+      .run(new Date().toISOString(), apiKeyId, userId);
+
+    return result.changes > 0;
+  }
+
+  private toUser(row: UserRow): User {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email ?? undefined,
+      role: row.role,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      prefix: row.prefix,
+      createdAt: new Date(row.created_at),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import Database from 'better-sqlite3';
+import { VirtualNumber, VirtualNumberRepository, VirtualNumberStatus, NumberMode, OTP, SmsMessage, StatusTransition } from '../types';
+
+interface VirtualNumberRow {
+  id: string;
+  user_id: string | null;
+  number: string;
+  provider: string;
+  price: number | null;
+  country: string;
+  product: string;
+  activation_id: string | null;
+  purchased_at: string | null;
+  status: VirtualNumberStatus;
+  created_at: string;
+  expires_at: string;
+  reactivated_from: string | null;
+  mode: NumberMode;
+  sms_deadline: string | null;
+}
+
+interface OtpRow {
+  id: string;
+  code: string;
+  received_at: string;
+  is_used: number;
+  source: string | null;
+  message_id: string | null;
+  confidence: number | null;
+}
+
+interface SmsMessageRow {
+  id: string;
+  provider_message_id: string;
+  sender: string;
+  text: string;
+  received_at: string;
+}
+
+interface StatusTransitionRow {
+  from_status: VirtualNumberStatus | null;
+  to_status: VirtualNumberStatus;
+  changed_at: string;
+}
+
+/**
+ * SQLite Virtual Number Repository
+ *
+ * Persists virtual numbers, their SMS messages, OTPs and every status
+ * transition so that rentals survive a backend restart.
+ */
+export class SqliteVirtualNumberRepository implements VirtualNumberRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  /**
+   * Insert or update a virtual number together with its messages and OTPs
+   */
+  async save(virtualNumber: VirtualNumber): Promise<void> {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      const existing = this.db
+        .prepare('SELECT status FROM virtual_numbers WHERE id = ?')
+        .get(virtualNumber.id) as { status: VirtualNumberStatus } | undefined;
+
+      this.db.prepare(`
+        INSERT INTO virtual_numbers (id, user_id, number, provider, price, country, product, activation_id, purchased_at, status, created_at, expires_at, updated_at, reactivated_from, mode, sms_deadline)
+        VALUES (@id, @userId, @number, @provider, @price, @country, @product, @activationId, @purchasedAt, @status, @createdAt, @expiresAt, @updatedAt, @reactivatedFrom, @mode, @smsDeadline)
+        ON CONFLICT(id) DO UPDATE SET
+          provider = excluded.provider,
+          price = excluded.price,
+          activation_id = excluded.activation_id,
+          status = excluded.status,
+          expires_at = excluded.expires_at,
+          updated_at = excluded.updated_at
+      `).run({
+        id: virtualNumber.id,
+        userId: virtualNumber.userId ?? null,
+        number: virtualNumber.number,
+        provider: virtualNumber.provider,
+        price: virtualNumber.price ?? null,
+        country: virtualNumber.country,
+        product: virtualNumber.product,
+        activationId: virtualNumber.activationId,
+        purchasedAt: virtualNumber.purchasedAt.toISOString(),
+        status: virtualNumber.status,
+        createdAt: virtualNumber.createdAt.toISOString(),
+        expiresAt: virtualNumber.expiresAt.toISOString(),
+        updatedAt: now,
+        reactivatedFrom: virtualNumber.reactivatedFrom ?? null,
+        mode: virtualNumber.mode,
+        smsDeadline: virtualNumber.smsDeadline?.toISOString() ?? null
+      });
+
+      if (!existing || existing.status !== virtualNumber.status) {
+        this.insertTransition(virtualNumber.id, existing ? existing.status : null, virtualNumber.status, now);
+      }
+
+      this.insertMessages(virtualNumber.id, virtualNumber.messages);
+      this.insertOtps(virtualNumber.id, virtualNumber.otps);
+    })();
+  }
+
+  /**
+   * Find the most recent record for a phone number
+   */
+  async findByNumber(phoneNumber: string): Promise<VirtualNumber | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM virtual_numbers WHERE number = ? ORDER BY created_at DESC LIMIT 1')
+      .get(phoneNumber) as VirtualNumberRow | undefined;
+
+    return row ? this.toVirtualNumber(row) : undefined;
+  }
+
+  /**
+   * Find all virtual numbers with the given status(es), optionally only those of one user
+   */
+  async findByStatus(status: VirtualNumberStatus | VirtualNumberStatus[], userId?: string): Promise<VirtualNumber[]> {
+    const statuses = Array.isArray(status) ? status : [status];
+    const placeholders = statuses.map(() => '?').join(', ');
+    const rows = (userId
+      ? this.db
+          .prepare(`SELECT * FROM virtual_numbers WHERE status IN (${placeholders}) AND user_id = ? ORDER BY created_at ASC`)
+          .all(...statuses, userId)
+      : this.db
+          .prepare(`SELECT * FROM virtual_numbers WHERE status IN (${placeholders}) ORDER BY created_at ASC`)
+          .all(...statuses)) as VirtualNumberRow[];
+
+    return rows.map(row => this.toVirtualNumber(row));
+  }
+
+  /**
+   * Append OTPs to a virtual number, ignoring ones already stored
+   */
+  async addOtps(virtualNumberId: string, otps: OTP[]): Promise<void> {
+    this.db.transaction(() => this.insertOtps(virtualNumberId, otps))();
+  }
+
+  /**
+   * Append SMS messages to a virtual number, ignoring ones already stored
+   */
+  async addMessages(virtualNumberId: string, messages: SmsMessage[]): Promise<void> {
+    this.db.transaction(() => this.insertMessages(virtualNumberId, messages))();
+  }
+
+  /**
+   * Change the status of a virtual number and record the transition
+   */
+  async updateStatus(virtualNumberId: string, status: VirtualNumberStatus): Promise<void> {
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      const existing = this.db
+        .prepare('SELECT status FROM virtual_numbers WHERE id = ?')
+        .get(virtualNumberId) as { status: VirtualNumberStatus } | undefined;
+
+      if (!existing || existing.status === status) {
+        return;
+      }
+
+      this.db
+        .prepare('UPDATE virtual_numbers SET status = ?, updated_at = ? WHERE id = ?')
+        .run(status, now, virtualNumberId);
+      this.insertTransition(virtualNumberId, existing.status, status, now);
+    })();
+  }
+
+  /**
+   * Get the status transitions of a virtual number, oldest first
+   */
+  async getStatusHistory(virtualNumberId: string): Promise<StatusTransition[]> {
+    const rows = this.db
+      .prepare('SELECT from_status, to_status, changed_at FROM status_transitions WHERE virtual_number_id = ? ORDER BY id ASC')
+      .all(virtualNumberId) as StatusTransitionRow[];
+
+    return rows.map(row => ({
+      from: row.from_status,
+      to: row.to_status,
+      changedAt: new Date(row.changed_at)
+    }));
+  }
+
+  /**
+   * Delete a virtual number and everything attached to it
+   */
+  async delete(virtualNumberId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM virtual_numbers WHERE id = ?').run(virtualNumberId);
+    return result.changes > 0;
+  }
+
+  private insertMessages(virtualNumberId: string, messages: SmsMessage[]): void {
+    const statement = this.db.prepare(`
+      INSERT OR IGNORE INTO sms_messages (id, virtual_number_id, provider_message_id, sender, text, received_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const message of messages) {
+      statement.run(
+        message.id,
+        virtualNumberId,
+        message.providerMessageId,
+        message.sender,
+        message.text,
+        new Date(message.receivedAt).toISOString()
+      );
+    }
+  }
+
+  private insertOtps(virtualNumberId: string, otps: OTP[]): void {
+    const statement = this.db.prepare(`
+      INSERT OR IGNORE INTO otps (id, virtual_number_id, code, received_at, is_used, source, message_id, confidence)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (const otp of otps) {
+      statement.run(
+        otp.id,
+        virtualNumberId,
+        otp.code,
+        new Date(otp.receivedAt).toISOString(),
+        otp.isUsed ? 1 : 0,
+        otp.source ?? null,
+        otp.messageId ?? null,
+        otp.confidence ?? null
+      );
+    }
+  }
+
+  private insertTransition(
+    virtualNumberId: string,
+    from: VirtualNumberStatus | null,
+    to: VirtualNumberStatus,
+    changedAt: string
+  ): void {
+    this.db
+      .prepare('INSERT INTO status_transitions (virtual_number_id, from_status, to_status, changed_at) VALUES (?, ?, ?, ?)')
+      .run(virtualNumberId, from, to, changedAt);
+  }
+
+  private toVirtualNumber(row: VirtualNumberRow): VirtualNumber {
+    const otpRows = this.db
+      .prepare('SELECT id, code, received_at, is_used, source, message_id, confidence FROM otps WHERE virtual_number_id = ? ORDER BY received_at ASC')
+      .all(row.id) as OtpRow[];
+    const messageRows = this.db
+      .prepare('SELECT id, provider_message_id, sender, text, received_at FROM sms_messages WHERE virtual_number_id = ? ORDER BY received_at ASC')
+      .all(row.id) as SmsMessageRow[];
+
+    return {
+      id: row.id,
+      userId: row.user_id ?? undefined,
+      number: row.number,
+      provider: row.provider,
+      mode: row.mode,
+      price: row.price ?? undefined,
+      country: row.country,
+      product: row.product,
+      activationId: row.activation_id ?? '',
+      purchasedAt: new Date(row.purchased_at ?? row.created_at),
+      otps: otpRows.map(otp => ({
+        id: otp.id,
+        code: otp.code,
+        receivedAt: new Date(otp.received_at),
+        isUsed: otp.is_used === 1,
+        source: otp.source ?? undefined,
+        messageId: otp.message_id ?? undefined,
+        confidence: otp.confidence ?? undefined
+      })),
+      messages: messageRows.map(message => ({
+        id: message.id,
+        providerMessageId: message.provider_message_id,
+        sender: message.sender,
+        text: message.text,
+        receivedAt: new Date(message.received_at)
+      })),
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      smsDeadline: row.sms_deadline ? new Date(row.sms_deadline) : undefined,
+      status: row.status,
+      reactivatedFrom: row.reactivated_from ?? undefined
+    };
+  }
+}
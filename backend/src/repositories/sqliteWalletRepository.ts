@@ -0,0 +1,133 @@
+import Database from 'better-sqlite3';
+import {
+  WalletRepository,
+  WalletTransaction,
+  WalletTransactionStatus,
+  WalletTransactionType
+} from '../types';
+
+interface WalletTransactionRow {
+  id: string;
+  user_id: string;
+  type: WalletTransactionType;
+  amount: number;
+  currency: string;
+  status: WalletTransactionStatus;
+  virtual_number_id: string | null;
+  description: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite Wallet Repository
+ *
+ * Append-only ledger of wallet transactions. Balances are always derived by
+ * summing the ledger; released reservations don't count.
+ */
+export class SqliteWalletRepository implements WalletRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  async insertIfFunded(transaction: WalletTransaction): Promise<boolean> {
+    return this.db.transaction(() => {
+      const { balance } = this.balanceOf(transaction.userId);
+      if (balance + transaction.amount < 0) {
+        return false;
+      }
+
+      this.insertRow(transaction);
+      return true;
+    })();
+  }
+
+  async insert(transaction: WalletTransaction): Promise<void> {
+    this.insertRow(transaction);
+  }
+
+  async updateStatus(transactionId: string, status: WalletTransactionStatus, virtualNumberId?: string): Promise<void> {
+    this.db
+      .prepare(`
+        UPDATE wallet_transactions
+        SET status = ?, virtual_number_id = COALESCE(?, virtual_number_id), updated_at = ?
+        WHERE id = ?
+      `)
+      .run(status, virtualNumberId ?? null, new Date().toISOString(), transactionId);
+  }
+
+  async getBalance(userId: string): Promise<{ balance: number; pending: number }> {
+    return this.balanceOf(userId);
+  }
+
+  async list(userId: string, limit: number, offset: number): Promise<WalletTransaction[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM wallet_transactions WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?')
+      .all(userId, limit, offset) as WalletTransactionRow[];
+
+    return rows.map(row => this.toTransaction(row));
+  }
+
+  async findByVirtualNumber(virtualNumberId: string, type: WalletTransactionType): Promise<WalletTransaction | undefined> {
+    const row = this.db
+      .prepare("SELECT * FROM wallet_transactions WHERE virtual_number_id = ? AND type = ? AND status != 'released' LIMIT 1")
+      .get(virtualNumberId, type) as WalletTransactionRow | undefined;
+
+    return row ? this.toTransaction(row) : undefined;
+  }
+
+  async findPendingBefore(createdBefore: Date): Promise<WalletTransaction[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM wallet_transactions WHERE status = 'pending' AND created_at < ? ORDER BY created_at")
+      .all(createdBefore.toISOString()) as WalletTransactionRow[];
+
+    return rows.map(row => this.toTransaction(row));
+  }
+
+  private balanceOf(userId: string): { balance: number; pending: number } {
+    const row = this.db
+      .prepare(`
+        SELECT
+          COALESCE(SUM(amount), 0) AS balance,
+          COALESCE(SUM(CASE WHEN status = 'pending' THEN -amount ELSE 0 END), 0) AS pending
+        FROM wallet_transactions
+        WHERE user_id = ? AND status != 'released'
+      `)
+      .get(userId) as { balance: number; pending: number };
+
+    return row;
+  }
+
+  private insertRow(transaction: WalletTransaction): void {
+    this.db
+      .prepare(`
+        INSERT INTO wallet_transactions (id, user_id, type, amount, currency, status, virtual_number_id, description, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        transaction.id,
+        transaction.userId,
+        transaction.type,
+        transaction.amount,
+        transaction.currency,
+        transaction.status,
+        transaction.virtualNumberId ?? null,
+        transaction.description,
+        transaction.createdAt.toISOString(),
+        transaction.updatedAt.toISOString()
+      );
+  }
+
+  private toTransaction(row: WalletTransactionRow): WalletTransaction {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      amount: row.amount,
+      currency: row.currency,
+      status: row.status,
+      virtualNumberId: row.virtual_number_id ?? undefined,
+      description: row.description,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import Database from 'better-sqlite3';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookRepository
+} from '../types';
+
+interface WebhookEndpointRow {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * SQLite Webhook Repository
+ *
+ * Stores users' webhook endpoints and the queue of deliveries to them.
+ * Deliveries are kept after they finish, as the endpoint's delivery log.
+ */
+export class SqliteWebhookRepository implements WebhookRepository {
+  constructor(private readonly db: Database.Database) {}
+
+  async createEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO webhook_endpoints (id, user_id, url, secret, events, description, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        endpoint.id,
+        endpoint.userId,
+        endpoint.url,
+        endpoint.secret,
+        JSON.stringify(endpoint.events),
+        endpoint.description ?? null,
+        endpoint.createdAt.toISOString()
+      );
+  }
+
+  async findEndpoint(endpointId: string): Promise<WebhookEndpoint | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM webhook_endpoints WHERE id = ?')
+      .get(endpointId) as WebhookEndpointRow | undefined;
+
+    return row ? this.toEndpoint(row) : undefined;
+  }
+
+  async listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM webhook_endpoints WHERE user_id = ? ORDER BY created_at, rowid')
+      .all(userId) as WebhookEndpointRow[];
+
+    return rows.map(row => this.toEndpoint(row));
+  }
+
+  async findSubscribers(userId: string, event: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM webhook_endpoints WHERE user_id = ? ORDER BY created_at, rowid')
+      .all(userId) as WebhookEndpointRow[];
+
+    return rows
+      .map(row => this.toEndpoint(row))
+      .filter(endpoint => endpoint.events.length === 0 || endpoint.events.includes(event));
+  }
+
+  async deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM webhook_endpoints WHERE id = ? AND user_id = ?')
+      .run(endpointId, userId);
+
+    return result.changes > 0;
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO webhook_deliveries (
+          id, endpoint_id, event, payload, status, attempts, next_attempt_at,
+          last_status_code, last_error, created_at, delivered_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        delivery.id,
+        delivery.endpointId,
+        delivery.event,
+        delivery.payload,
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt?.toISOString() ?? null,
+        delivery.lastStatusCode ?? null,
+        delivery.lastError ?? null,
+        delivery.createdAt.toISOString(),
+        delivery.deliveredAt?.toISOString() ?? null
+      );
+  }
+
+  async updateDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.db
+      .prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, next_attempt_at = ?, last_status_code = ?, last_error = ?, delivered_at = ?
+        WHERE id = ?
+      `)
+      .run(
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt?.toISOString() ?? null,
+        delivery.lastStatusCode ?? null,
+        delivery.lastError ?? null,
+        delivery.deliveredAt?.toISOString() ?? null,
+        delivery.id
+      );
+  }
+
+  async findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at, rowid
+        LIMIT ?
+      `)
+      .all(now.toISOString(), limit) as WebhookDeliveryRow[];
+
+    return rows.map(row => this.toDelivery(row));
+  }
+
+  async listDeliveries(endpointId: string, limit: number, offset: number): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM webhook_deliveries WHERE endpoint_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?')
+      .all(endpointId, limit, offset) as WebhookDeliveryRow[];
+
+    return rows.map(row => this.toDelivery(row));
+  }
+
+  private toEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      url: row.url,
+      secret: row.secret,
+      events: JSON.parse(row.events),
+      description: row.description ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private toDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      lastStatusCode: row.last_status_code ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: new Date(row.created_at),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined
+    };
+  }
+}
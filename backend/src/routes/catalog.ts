@@ -0,0 +1,255 @@
+import { Router, Request } from 'express';
+import {
+  CatalogQuerySchema,
+  CatalogSchema,
+  PriceHistoryParamsSchema,
+  PriceHistoryQuerySchema,
+  PriceHistorySchema,
+  PriceSyncSchema
+} from '@vnos/contracts';
+import { CATALOG_COUNTRIES, findCatalogServices, getCatalogCategories, resolveCountry, resolveService } from '../config/catalog';
+import { priceSyncService } from '../services/priceSyncService';
+import { requireAdmin } from '../middleware/auth';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/catalog:
+ *   get:
+ *     summary: Get the cross-provider service catalog
+ *     description: |
+ *       Lists every service we can buy numbers for, with its canonical id, aliases, category,
+ *       country coverage and the code each provider uses for it. Send the canonical id (or an alias)
+ *       as `product` when requesting a number; it works with any provider.
+ *
+ *       Each service also carries the prices and stock from the latest price sync (`lastSyncedAt`),
+ *       converted to the wallet currency. Nothing is fetched from providers on this request.
+ *     tags: [Catalog]
+ *     parameters:
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Only services in this category
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *         description: Only services offered in this country (catalog id or provider code); prices are limited to it too
+ *         example: india
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [5sim, sms-activate, twilio, mock]
+ *           enum: [5sim, sms-activate, twilio, mock]
+ *         description: Only services this provider has a code for
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search by name, id or alias
+ *     responses:
+ *       200:
+ *         description: Catalog retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 services:
+ *                   - id: "amazon"
+ *                     name: "Amazon"
+ *                     category: "E-commerce & Shopping"
+ *                     aliases: []
+ *                     providers: { "5sim": "amazon", "sms-activate": "am", "twilio": "amazon", "mock": "amazon" }
+ *                     countries: ["india", "usa", "england", "canada"]
+ *                     prices:
+ *                       - provider: "sms-activate"
+ *                         country: "india"
+ *                         cost: 0.12
+ *                         currency: "USD"
+ *                         count: 2480
+ *                 countries:
+ *                   - id: "india"
+ *                     name: "India"
+ *                     providers: { "5sim": "india", "sms-activate": "22", "twilio": "IN", "mock": "india" }
+ *                 categories: ["E-commerce & Shopping"]
+ *                 lastSyncedAt: "2024-01-01T12:00:00.000Z"
+ *       400:
+ *         description: Unknown provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', validate({ query: CatalogQuerySchema }), async (
+  req: ValidRequest<{ query: typeof CatalogQuerySchema }>,
+  res: Reply<typeof CatalogSchema>
+) => {
+  try {
+    const { category, country, provider, q } = req.query;
+    const countryId = country ? resolveCountry(country)?.id : undefined;
+    const { sync, prices } = await priceSyncService.getLatestPrices();
+
+    const services = findCatalogServices({ category, country, provider, query: q }).map(service => ({
+      ...service,
+      prices: prices
+        .filter(price =>
+          price.serviceId === service.id &&
+          (!countryId || price.countryId === countryId) &&
+          (!provider || price.provider === provider)
+        )
+        .map(price => ({
+          provider: price.provider,
+          country: price.countryId,
+          cost: price.cost,
+          currency: price.currency,
+          count: price.count
+        }))
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        services,
+        countries: CATALOG_COUNTRIES,
+        categories: getCatalogCategories(),
+        lastSyncedAt: sync?.finishedAt ?? null
+      }
+    });
+  } catch (error) {
+    console.error('[API] Error getting catalog:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get catalog'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/catalog/sync:
+ *   post:
+ *     summary: Sync prices from all providers now (admin only)
+ *     description: Runs the price sync job immediately instead of waiting for the next scheduled run.
+ *     tags: [Catalog]
+ *     responses:
+ *       200:
+ *         description: Sync finished; `data.status` is `failed` if no provider returned prices
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/sync', requireAdmin, async (req: Request, res: Reply<typeof PriceSyncSchema>) => {
+  try {
+    const sync = await priceSyncService.syncNow();
+
+    res.json({
+      success: true,
+      data: sync
+    });
+  } catch (error) {
+    console.error('[API] Error syncing prices:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sync prices'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/catalog/{serviceId}/history:
+ *   get:
+ *     summary: Get the price history of a service
+ *     description: Price and stock captured by each sync, oldest first, for trend charts.
+ *     tags: [Catalog]
+ *     parameters:
+ *       - in: path
+ *         name: serviceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: amazon
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *           default: india
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [5sim, sms-activate, twilio, mock]
+ *         description: Only this provider's prices
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 7
+ *     responses:
+ *       200:
+ *         description: Price history
+ *       400:
+ *         description: Invalid days or unknown provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Unknown service or country
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:serviceId/history', validate({ params: PriceHistoryParamsSchema, query: PriceHistoryQuerySchema }), async (
+  req: ValidRequest<{ params: typeof PriceHistoryParamsSchema; query: typeof PriceHistoryQuerySchema }>,
+  res: Reply<typeof PriceHistorySchema>
+) => {
+  try {
+    const { days, provider } = req.query;
+    const service = resolveService(req.params.serviceId);
+    const country = resolveCountry(req.query.country);
+
+    if (!service || !country) {
+      return res.status(404).json({
+        success: false,
+        error: !service ? `Service '${req.params.serviceId}' not found` : `Country '${req.query.country}' not found`
+      });
+    }
+
+    const history = await priceSyncService.getHistory(service.id, country.id, days, provider);
+
+    res.json({
+      success: true,
+      data: {
+        serviceId: service.id,
+        countryId: country.id,
+        points: history.map(point => ({
+          provider: point.provider,
+          cost: point.cost,
+          currency: point.currency,
+          count: point.count,
+          syncedAt: point.syncedAt
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('[API] Error getting price history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get price history'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,228 @@
+import { Router, Request } from 'express';
+import { MockScenarioSchema, MockScenarioUpdateSchema, MockSmsBodySchema, MockSmsResultSchema, NumberParamsSchema } from '@vnos/contracts';
+import { virtualNumberService } from '../services/virtualNumberService';
+import { ProviderFactory } from '../services/providerFactory';
+import { MockVirtualNumberProvider } from '../services/mockProvider';
+import { requireAdmin } from '../middleware/auth';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+import { isActiveStatus } from '../services/numberStateMachine';
+
+const router = Router();
+
+function getMockProvider(): MockVirtualNumberProvider {
+  return ProviderFactory.getProvider('mock') as MockVirtualNumberProvider;
+}
+
+/**
+ * @swagger
+ * /mock/numbers/{number}/sms:
+ *   post:
+ *     summary: Send an SMS to a mock number
+ *     description: |
+ *       Delivers a message to one of your active numbers from the mock provider. It is processed
+ *       straight away, like a real SMS: stored, OTP extracted and pushed as `smsUpdate` / `otpUpdate`.
+ *     tags: [Mock Provider]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "+919876543210"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [text]
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: "Your verification code is 482913"
+ *               sender:
+ *                 type: string
+ *                 example: "AMAZON"
+ *     responses:
+ *       201:
+ *         description: SMS delivered; `otps` are all OTPs the number has received
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 sms:
+ *                   messageId: "8f14e45f-ceea-4e7a-9d0b-6c1a1f1c1c1a"
+ *                   sender: "AMAZON"
+ *                   text: "Your verification code is 482913"
+ *                   receivedAt: "2024-01-01T12:00:00.000Z"
+ *                 otps:
+ *                   - id: "c9bf9e57-1685-4c89-bafb-ff5af830be8a"
+ *                     code: "482913"
+ *                     receivedAt: "2024-01-01T12:00:00.000Z"
+ *                     confidence: 0.95
+ *       400:
+ *         description: Missing text, or the number isn't an active mock number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/numbers/:number/sms', validate({ params: NumberParamsSchema, body: MockSmsBodySchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema; body: typeof MockSmsBodySchema }>,
+  res: Reply<typeof MockSmsResultSchema>
+) => {
+  try {
+    const { number } = req.params;
+    const { text, sender } = req.body;
+
+    const virtualNumber = await virtualNumberService.getNumberForUser(number, req.user!.id);
+    if (!virtualNumber) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    if (virtualNumber.provider !== 'mock' || !isActiveStatus(virtualNumber.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'SMS can only be sent to active numbers from the mock provider'
+      });
+    }
+
+    const sms = getMockProvider().injectSms(virtualNumber, text, sender);
+    const otps = await virtualNumberService.checkOtps(number);
+
+    res.status(201).json({
+      success: true,
+      data: { sms, otps }
+    });
+  } catch (error) {
+    console.error('[API] Error injecting mock SMS:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send mock SMS'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /mock/scenario:
+ *   get:
+ *     summary: Get the mock provider scenario
+ *     tags: [Mock Provider]
+ *     responses:
+ *       200:
+ *         description: Current scenario
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 latencyMs: 0
+ *                 failureRate: 0
+ *                 seed: null
+ *                 outOfStock: []
+ *                 unavailable: []
+ *                 balance: null
+ *                 price: 0.1
+ *                 stock: 1000
+ *                 resend: "deliver"
+ *                 autoOtpDelayMs: null
+ */
+router.get('/scenario', (req: Request, res: Reply<typeof MockScenarioSchema>) => {
+  res.json({
+    success: true,
+    data: getMockProvider().getScenario()
+  });
+});
+
+/**
+ * @swagger
+ * /mock/scenario:
+ *   put:
+ *     summary: Change the mock provider scenario (admin only)
+ *     description: |
+ *       Only the settings sent are changed. The scenario is shared by every user of the mock provider.
+ *
+ *       - `latencyMs`: delay added to every provider call
+ *       - `failureRate`: chance (0-1) that a provider call fails; set `seed` to make failures repeatable
+ *       - `outOfStock` / `unavailable`: service ids with no numbers / not offered at all
+ *       - `balance`: provider balance, purchases fail with `no_balance` once it runs out (null = unlimited)
+ *       - `price` / `stock`: price and stock of every service
+ *       - `resend`: `accept`, `reject` or `deliver` (accept and send a new OTP)
+ *       - `autoOtpDelayMs`: send an OTP this long after each purchase (null = never)
+ *     tags: [Mock Provider]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             latencyMs: 500
+ *             failureRate: 0.2
+ *             seed: 42
+ *             outOfStock: ["whatsapp"]
+ *             resend: "reject"
+ *     responses:
+ *       200:
+ *         description: Updated scenario
+ *       400:
+ *         description: Invalid setting
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/scenario', requireAdmin, validate({ body: MockScenarioUpdateSchema }), (
+  req: ValidRequest<{ body: typeof MockScenarioUpdateSchema }>,
+  res: Reply<typeof MockScenarioSchema>
+) => {
+  const scenario = req.body;
+  const updated = getMockProvider().setScenario(scenario);
+  console.log('[MockProvider] Scenario updated:', JSON.stringify(scenario));
+
+  res.json({
+    success: true,
+    data: updated
+  });
+});
+
+/**
+ * @swagger
+ * /mock/scenario/reset:
+ *   post:
+ *     summary: Reset the mock provider (admin only)
+ *     description: Restores the default scenario and forgets the provider-side state of every mock number.
+ *     tags: [Mock Provider]
+ *     responses:
+ *       200:
+ *         description: Default scenario
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/scenario/reset', requireAdmin, (req: Request, res: Reply<typeof MockScenarioSchema>) => {
+  res.json({
+    success: true,
+    data: getMockProvider().reset()
+  });
+});
+
+export default router;
@@ -0,0 +1,182 @@
+import { Router } from 'express';
+import { OtpRulesQuerySchema, OtpRulesSchema, OtpRuleTestBodySchema, OtpRuleTestResultSchema } from '@vnos/contracts';
+import { compileOtpRule, extractOtp, findOtpCandidates, getOtpRules, getOtpRuleServiceIds, OtpRule, OtpRuleError } from '../services/otpExtractor';
+import { resolveService } from '../config/catalog';
+import { requireAdmin } from '../middleware/auth';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * Rules as sent over the API, without the compiled regex
+ */
+function toRuleJson({ id, pattern, flags, confidence, description }: OtpRule) {
+  return { id, pattern, flags: flags || '', confidence, description };
+}
+
+/**
+ * @swagger
+ * /api/otp-rules:
+ *   get:
+ *     summary: List OTP extraction rules (admin only)
+ *     description: |
+ *       Without `serviceId`, lists the default rules and the ids of services that have their own.
+ *       With it, lists the rules used for that service in the order they are tried.
+ *     tags: [OTP Rules]
+ *     parameters:
+ *       - in: query
+ *         name: serviceId
+ *         schema:
+ *           type: string
+ *         description: Catalog service id or alias
+ *         example: google
+ *     responses:
+ *       200:
+ *         description: Rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 serviceId: "google"
+ *                 rules:
+ *                   - id: "google"
+ *                     pattern: "\\bG-(\\d{6})\\b"
+ *                     flags: ""
+ *                     confidence: 0.99
+ *                     description: "G-482913 is your Google verification code"
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', requireAdmin, validate({ query: OtpRulesQuerySchema }), (
+  req: ValidRequest<{ query: typeof OtpRulesQuerySchema }>,
+  res: Reply<typeof OtpRulesSchema>
+) => {
+  const { serviceId } = req.query;
+  const service = serviceId ? resolveService(serviceId) : undefined;
+
+  res.json({
+    success: true,
+    data: {
+      serviceId: service?.id ?? serviceId ?? null,
+      rules: getOtpRules(service?.id ?? serviceId).map(toRuleJson),
+      services: getOtpRuleServiceIds()
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/otp-rules/test:
+ *   post:
+ *     summary: Test OTP extraction against sample SMS text (admin only)
+ *     description: |
+ *       Runs the rules for `serviceId` (or the defaults) over `text` and returns the code that would be
+ *       extracted with every scored candidate. Send `rule` to try a new rule on its own before adding it.
+ *       `code` is null when no candidate reaches `OTP_MIN_CONFIDENCE`.
+ *     tags: [OTP Rules]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [text]
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: "Rs. 1500 paid. G-482913 is your Google verification code"
+ *               serviceId:
+ *                 type: string
+ *                 example: google
+ *               rule:
+ *                 type: object
+ *                 required: [pattern]
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                     example: "custom"
+ *                   pattern:
+ *                     type: string
+ *                     example: "G-(\\d{6})"
+ *                   flags:
+ *                     type: string
+ *                     example: "i"
+ *                   confidence:
+ *                     type: number
+ *                     example: 0.9
+ *     responses:
+ *       200:
+ *         description: Extraction result
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 code: "482913"
+ *                 confidence: 1
+ *                 ruleId: "google"
+ *                 candidates:
+ *                   - code: "482913"
+ *                     confidence: 1
+ *                     ruleId: "google"
+ *                     index: 17
+ *                   - code: "1500"
+ *                     confidence: 0
+ *                     ruleId: "digits"
+ *                     index: 4
+ *       400:
+ *         description: Missing text or invalid rule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/test', requireAdmin, validate({ body: OtpRuleTestBodySchema }), (
+  req: ValidRequest<{ body: typeof OtpRuleTestBodySchema }>,
+  res: Reply<typeof OtpRuleTestResultSchema>
+) => {
+  try {
+    const { text, serviceId, rule } = req.body;
+
+    const rules = rule
+      ? [compileOtpRule({ id: 'custom', confidence: 0.9, ...rule })]
+      : getOtpRules(serviceId);
+    const extraction = extractOtp(text, serviceId, rules);
+
+    res.json({
+      success: true,
+      data: {
+        code: extraction?.code ?? null,
+        confidence: extraction?.confidence ?? null,
+        ruleId: extraction?.ruleId ?? null,
+        candidates: extraction?.candidates ?? findOtpCandidates(text, rules)
+      }
+    });
+  } catch (error) {
+    if (error instanceof OtpRuleError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('[API] Error testing OTP rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test OTP rule'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import {
+  ApiKeyParamsSchema,
+  ApiKeySchema,
+  CreateApiKeyBodySchema,
+  CreatedApiKeySchema,
+  CreatedUserSchema,
+  CreateUserBodySchema,
+  UserSchema
+} from '@vnos/contracts';
+import { authService } from '../services/authService';
+import { requireAdmin } from '../middleware/auth';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/users:
+ *   post:
+ *     summary: Create a user account (admin only)
+ *     description: |
+ *       Creates a user and issues its first API key. The key is only returned in this response,
+ *       so hand it to the user straight away.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "qa-team"
+ *               email:
+ *                 type: string
+ *                 example: "qa@example.com"
+ *               role:
+ *                 type: string
+ *                 enum: [admin, user]
+ *                 example: "user"
+ *     responses:
+ *       201:
+ *         description: User created
+ *       400:
+ *         description: Missing name or invalid role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requireAdmin, validate({ body: CreateUserBodySchema }), async (
+  req: ValidRequest<{ body: typeof CreateUserBodySchema }>,
+  res: Reply<typeof CreatedUserSchema>
+) => {
+  try {
+    const { name, email, role } = req.body;
+
+    const user = await authService.createUser(name, role, email);
+    const { apiKey, key } = await authService.createApiKey(user.id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user,
+        apiKey: { ...apiKey, key }
+      }
+    });
+  } catch (error) {
+    console.error('[API] Error creating user:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create user'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   get:
+ *     summary: Get the authenticated user
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: Current user
+ */
+router.get('/me', (req: Request, res: Reply<typeof UserSchema>) => {
+  res.json({
+    success: true,
+    data: req.user!
+  });
+});
+
+/**
+ * @swagger
+ * /api/users/me/api-keys:
+ *   get:
+ *     summary: List the authenticated user's API keys
+ *     description: Returns key metadata only; secrets are never stored in plain text.
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ */
+router.get('/me/api-keys', async (req: Request, res: Reply<z.ZodArray<typeof ApiKeySchema>>) => {
+  try {
+    const apiKeys = await authService.listApiKeys(req.user!.id);
+
+    res.json({
+      success: true,
+      data: apiKeys
+    });
+  } catch (error) {
+    console.error('[API] Error listing API keys:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list API keys'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me/api-keys:
+ *   post:
+ *     summary: Create an additional API key
+ *     tags: [Users]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "ci-runner"
+ *     responses:
+ *       201:
+ *         description: API key created; the `key` field is only shown once
+ */
+router.post('/me/api-keys', validate({ body: CreateApiKeyBodySchema }), async (
+  req: ValidRequest<{ body: typeof CreateApiKeyBodySchema }>,
+  res: Reply<typeof CreatedApiKeySchema>
+) => {
+  try {
+    const { name } = req.body;
+    const { apiKey, key } = await authService.createApiKey(req.user!.id, name);
+
+    res.status(201).json({
+      success: true,
+      data: { ...apiKey, key }
+    });
+  } catch (error) {
+    console.error('[API] Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke one of the authenticated user's API keys
+ *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/me/api-keys/:id', validate({ params: ApiKeyParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ApiKeyParamsSchema }>,
+  res: Reply
+) => {
+  try {
+    const revoked = await authService.revokeApiKey(req.user!.id, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    console.error('[API] Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key'
+    });
+  }
+});
+
+export default router;
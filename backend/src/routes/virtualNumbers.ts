@@ -1,14 +1,75 @@
 import { Router, Request, Response } from 'express';
-import { VirtualNumberService } from '../services/virtualNumberService';
-import { CreateVirtualNumberResponse, GetOTPsResponse, CancelNumberResponse, ResendOTPResponse } from '../types';
+import { z } from 'zod';
+import {
+  ApiError,
+  BulkPurchaseBodySchema,
+  BulkPurchaseResultSchema,
+  CountryDetailsSchema,
+  ExtendRentalBodySchema,
+  IndianServicesCategoryParamsSchema,
+  IndianServicesCategorySchema,
+  IndianServicesSchema,
+  NumberParamsSchema,
+  OperatorsQuerySchema,
+  OperatorsSchema,
+  OtpSchema,
+  OtpWaitResultSchema,
+  Payload,
+  ProductPriceParamsSchema,
+  ProductPriceSchema,
+  ProviderCountryParamsSchema,
+  ProviderCountrySchema,
+  ProviderParamsSchema,
+  ProviderProductSchema,
+  ProviderSchema,
+  ProviderStatusSchema,
+  RequestNumberBodySchema,
+  RequestNumberResponseSchema,
+  SelectedProviderSchema,
+  SelectProviderResultSchema,
+  SmsActivateServicesParamsSchema,
+  SmsMessageSchema,
+  StatusTransitionSchema,
+  VirtualNumberSchema,
+  WaitForOtpQuerySchema
+} from '@vnos/contracts';
+import { virtualNumberService, NumberStateError } from '../services/virtualNumberService';
+import { InsufficientFundsError } from '../services/walletService';
+import { ProviderFailoverError, ProviderSupplyError } from '../services/providerErrors';
+import { priceSyncService } from '../services/priceSyncService';
+import { SMSActivateProvider } from '../services/smsActivateProvider';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+import { requireAdmin } from '../middleware/auth';
+import { PriceSnapshot } from '../types';
 
 const router = Router();
-const virtualNumberService = new VirtualNumberService();
+
+const RENTAL_MAX_HOURS = Number(process.env.RENTAL_MAX_HOURS) || 720;
+const OTP_WAIT_MAX_SECONDS = Number(process.env.OTP_WAIT_MAX_SECONDS) || 300;
+
+const RENTAL_HOURS_ERROR = `hours must be at most ${RENTAL_MAX_HOURS}`;
+
+/**
+ * Build the realTimeData block of an Indian service from cached SMS-Activate prices
+ */
+function toRealTimeData(serviceId: string, prices: PriceSnapshot[]) {
+  const price = prices.find(p => p.provider === 'sms-activate' && p.countryId === 'india' && p.serviceId === serviceId);
+  if (!price) {
+    return { cost: 0, count: 0, usdCost: 0, inrCost: 0, available: false };
+  }
+
+  return {
+    cost: price.cost,
+    count: price.count,
+    usdCost: price.cost,
+    inrCost: Math.round(price.cost * 83), // Convert to INR
+    available: price.count > 0
+  };
+}
 
 // SMS-Activate specific routes - must be defined BEFORE the :number route to avoid conflicts
 router.get('/countries', async (req, res) => {
   try {
-    const virtualNumberService = new VirtualNumberService();
     // Try to get SMS-Activate provider specifically
     const provider = virtualNumberService.getProviderById('sms-activate');
     
@@ -21,19 +82,19 @@ router.get('/countries', async (req, res) => {
     } else {
       res.status(400).json({
         success: false,
-        message: 'Provider does not support country listing'
+        error: 'Provider does not support country listing'
       });
     }
   } catch (error) {
     console.error('[API] Error getting countries:', error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get countries'
+      error: error instanceof Error ? error.message : 'Failed to get countries'
     });
   }
 });
 
-router.get('/services/:country', async (req, res) => {
+router.get('/services/:country', validate({ params: SmsActivateServicesParamsSchema }), async (req, res) => {
   try {
     const { country } = req.params;
     const provider = virtualNumberService.getProviderById('sms-activate');
@@ -47,19 +108,19 @@ router.get('/services/:country', async (req, res) => {
     } else {
       res.status(400).json({
         success: false,
-        message: 'Provider does not support service listing'
+        error: 'Provider does not support service listing'
       });
     }
   } catch (error) {
     console.error('[API] Error getting services:', error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get services'
+      error: error instanceof Error ? error.message : 'Failed to get services'
     });
   }
 });
 
-router.get('/balance', async (req, res) => {
+router.get('/balance', requireAdmin, async (req, res) => {
   try {
     const provider = virtualNumberService.getProviderById('sms-activate');
     
@@ -72,14 +133,14 @@ router.get('/balance', async (req, res) => {
     } else {
       res.status(400).json({
         success: false,
-        message: 'Provider does not support balance checking'
+        error: 'Provider does not support balance checking'
       });
     }
   } catch (error) {
     console.error('[API] Error getting balance:', error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get balance'
+      error: error instanceof Error ? error.message : 'Failed to get balance'
     });
   }
 });
@@ -91,8 +152,8 @@ router.get('/balance', async (req, res) => {
  *     summary: Get all Indian services with real-time availability
  *     description: |
  *       Retrieve comprehensive data for all high-value Indian services including real-time pricing, 
- *       availability counts, and categorization. This endpoint provides live data from SMS-Activate 
- *       for 40+ premium Indian services across 9 business categories.
+ *       availability counts, and categorization. Prices and stock come from the latest SMS-Activate 
+ *       price sync (see `lastSyncedAt`) for 40+ premium Indian services across 9 business categories.
  *       
  *       **📱 Services Include:**
  *       - **E-commerce**: Amazon, Flipkart, Myntra, Snapdeal, Meesho
@@ -190,6 +251,11 @@ router.get('/balance', async (req, res) => {
  *                               available:
  *                                 type: boolean
  *                                 example: true
+ *                     lastSyncedAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                       description: When the cached prices were synced; null before the first sync
  *       400:
  *         description: SMS-Activate provider not available
  *         content:
@@ -200,7 +266,7 @@ router.get('/balance', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: false
- *                 message:
+ *                 error:
  *                   type: string
  *                   example: "SMS-Activate provider not available"
  *       500:
@@ -213,72 +279,30 @@ router.get('/balance', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: false
- *                 message:
+ *                 error:
  *                   type: string
  *                   example: "Failed to get Indian services"
  */
-router.get('/indian-services', async (req, res) => {
+router.get('/indian-services', async (req: Request, res: Reply<typeof IndianServicesSchema>) => {
   try {
-    const { INDIAN_SERVICES, getServicesByCategory } = await import('../config/indianServices');
-    
-    // Get SMS-Activate provider
-    const provider = virtualNumberService.getProviderById('sms-activate');
-    
-    if (!provider || !('getServicePrice' in provider)) {
+    const { INDIAN_SERVICES } = await import('../config/indianServices');
+
+    if (!virtualNumberService.getProviderStatus('sms-activate').available) {
       return res.status(400).json({
         success: false,
-        message: 'SMS-Activate provider not available'
+        error: 'SMS-Activate provider not available'
       });
     }
 
-    const servicesWithData = [];
-    const countryId = '22'; // India
-
-    // Fetch real-time data for each service
-    for (const service of INDIAN_SERVICES) {
-      try {
-        const priceData = await (provider as any).getServicePrice(service.smsActivateId, countryId);
-        
-        if (priceData) {
-          servicesWithData.push({
-            ...service,
-            realTimeData: {
-              cost: priceData.cost,
-              count: priceData.count,
-              usdCost: priceData.cost,
-              inrCost: Math.round(priceData.cost * 83), // Convert to INR
-              available: priceData.count > 0
-            }
-          });
-        } else {
-          servicesWithData.push({
-            ...service,
-            realTimeData: {
-              cost: 0,
-              count: 0,
-              usdCost: 0,
-              inrCost: 0,
-              available: false
-            }
-          });
-        }
-      } catch (error) {
-        console.warn(`[API] Failed to get data for ${service.name}:`, error);
-        servicesWithData.push({
-          ...service,
-          realTimeData: {
-            cost: 0,
-            count: 0,
-            usdCost: 0,
-            inrCost: 0,
-            available: false
-          }
-        });
-      }
-    }
+    // Prices come from the last price sync rather than live provider calls
+    const { sync, prices } = await priceSyncService.getLatestPrices();
+    const servicesWithData = INDIAN_SERVICES.map(service => ({
+      ...service,
+      realTimeData: toRealTimeData(service.id, prices)
+    }));
 
     // Group by category
-    const categorizedServices: any = {};
+    const categorizedServices: Record<string, typeof servicesWithData> = {};
     for (const service of servicesWithData) {
       if (!categorizedServices[service.category]) {
         categorizedServices[service.category] = [];
@@ -296,14 +320,15 @@ router.get('/indian-services', async (req, res) => {
           available: servicesWithData.filter(s => s.realTimeData.available).length,
           unavailable: servicesWithData.filter(s => !s.realTimeData.available).length,
           categories: Object.keys(categorizedServices).length
-        }
+        },
+        lastSyncedAt: sync?.finishedAt ?? null
       }
     });
   } catch (error) {
     console.error('[API] Error getting Indian services:', error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get Indian services'
+      error: error instanceof Error ? error.message : 'Failed to get Indian services'
     });
   }
 });
@@ -428,7 +453,7 @@ router.get('/indian-services', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: false
- *                 message:
+ *                 error:
  *                   type: string
  *                   example: "SMS-Activate provider not available"
  *       404:
@@ -441,7 +466,7 @@ router.get('/indian-services', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: false
- *                 message:
+ *                 error:
  *                   type: string
  *                   example: "Category 'E-commerce & Shopping' not found"
  *       500:
@@ -454,11 +479,14 @@ router.get('/indian-services', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: false
- *                 message:
+ *                 error:
  *                   type: string
  *                   example: "Failed to get Indian services"
  */
-router.get('/indian-services/:category', async (req, res) => {
+router.get('/indian-services/:category', validate({ params: IndianServicesCategoryParamsSchema }), async (
+  req: ValidRequest<{ params: typeof IndianServicesCategoryParamsSchema }>,
+  res: Reply<typeof IndianServicesCategorySchema>
+) => {
   try {
     const { category } = req.params;
     const { getServicesByCategory } = await import('../config/indianServices');
@@ -467,65 +495,22 @@ router.get('/indian-services/:category', async (req, res) => {
     if (services.length === 0) {
       return res.status(404).json({
         success: false,
-        message: `Category '${category}' not found`
+        error: `Category '${category}' not found`
       });
     }
 
-    // Get SMS-Activate provider
-    const provider = virtualNumberService.getProviderById('sms-activate');
-    
-    if (!provider || !('getServicePrice' in provider)) {
+    if (!virtualNumberService.getProviderStatus('sms-activate').available) {
       return res.status(400).json({
         success: false,
-        message: 'SMS-Activate provider not available'
+        error: 'SMS-Activate provider not available'
       });
     }
 
-    const servicesWithData = [];
-    const countryId = '22'; // India
-
-    // Fetch real-time data for services in this category
-    for (const service of services) {
-      try {
-        const priceData = await (provider as any).getServicePrice(service.smsActivateId, countryId);
-        
-        if (priceData) {
-          servicesWithData.push({
-            ...service,
-            realTimeData: {
-              cost: priceData.cost,
-              count: priceData.count,
-              usdCost: priceData.cost,
-              inrCost: Math.round(priceData.cost * 83),
-              available: priceData.count > 0
-            }
-          });
-        } else {
-          servicesWithData.push({
-            ...service,
-            realTimeData: {
-              cost: 0,
-              count: 0,
-              usdCost: 0,
-              inrCost: 0,
-              available: false
-            }
-          });
-        }
-      } catch (error) {
-        console.warn(`[API] Failed to get data for ${service.name}:`, error);
-        servicesWithData.push({
-          ...service,
-          realTimeData: {
-            cost: 0,
-            count: 0,
-            usdCost: 0,
-            inrCost: 0,
-            available: false
-          }
-        });
-      }
-    }
+    const { sync, prices } = await priceSyncService.getLatestPrices();
+    const servicesWithData = services.map(service => ({
+      ...service,
+      realTimeData: toRealTimeData(service.id, prices)
+    }));
 
     res.json({
       success: true,
@@ -536,14 +521,15 @@ router.get('/indian-services/:category', async (req, res) => {
           total: servicesWithData.length,
           available: servicesWithData.filter(s => s.realTimeData.available).length,
           unavailable: servicesWithData.filter(s => !s.realTimeData.available).length
-        }
+        },
+        lastSyncedAt: sync?.finishedAt ?? null
       }
     });
   } catch (error) {
     console.error(`[API] Error getting Indian services for category ${req.params.category}:`, error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get Indian services'
+      error: error instanceof Error ? error.message : 'Failed to get Indian services'
     });
   }
 });
@@ -565,6 +551,15 @@ router.get('/indian-services/:category', async (req, res) => {
  *       3. Backend calls provider API to purchase the number with specific operator
  *       4. Client receives the virtual number details
  *       
+ *       **🔁 Failover**: If the selected provider has no stock, no balance or doesn't offer the product,
+ *       the purchase is retried on the next configured provider (`PROVIDER_FAILOVER_ORDER`).
+ *       `data.provider` shows which provider fulfilled it and `attempts` lists every provider tried.
+ *       
+ *       **📅 Rentals**: With `mode: "rental"` the number is leased for `hours` (SMS-Activate rent API,
+ *       5SIM hosting numbers for 3 or 24 hours), receives any number of SMS until then and can be
+ *       extended with `POST /api/virtual-numbers/{number}/extend`. A `rentalExpiring` socket event
+ *       is sent `RENTAL_EXPIRY_WARNING_MINUTES` (default 60) before it ends.
+ *       
  *       **⚠️ Prerequisites**: Make sure provider API keys are set in your backend `.env` file
  *     tags: [Virtual Numbers]
  *     requestBody:
@@ -588,6 +583,27 @@ router.get('/indian-services/:category', async (req, res) => {
  *                 type: string
  *                 description: Telecom operator (e.g., airtel, jio, vodafone)
  *                 example: "airtel"
+ *               provider:
+ *                 type: string
+ *                 enum: [auto]
+ *                 description: |
+ *                   Set to `auto` to buy from whichever configured provider is cheapest (prices normalised
+ *                   to the wallet currency, out-of-stock providers skipped). Product and country are then
+ *                   catalog ids (e.g. `amazon`, `india`) and `operator` is ignored.
+ *               maxPrice:
+ *                 type: number
+ *                 description: With `provider: auto`, skip providers charging more than this (wallet currency)
+ *                 example: 0.5
+ *               mode:
+ *                 type: string
+ *                 enum: [activation, rental]
+ *                 default: activation
+ *                 description: One-shot activation, or a rental leased for `hours`
+ *               hours:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Rental period, required with `mode: rental` (at most `RENTAL_MAX_HOURS`, default 720)
+ *                 example: 24
  *     responses:
  *       200:
  *         description: Virtual number requested successfully
@@ -601,12 +617,24 @@ router.get('/indian-services/:category', async (req, res) => {
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/VirtualNumber'
+ *                 attempts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PurchaseAttempt'
  *       400:
  *         description: Bad request - missing required fields
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: Wallet balance doesn't cover the product price
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: No provider in the failover chain could supply the product
  *       500:
  *         description: Internal server error
  *         content:
@@ -614,31 +642,59 @@ router.get('/indian-services/:category', async (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', validate({ body: RequestNumberBodySchema }), async (
+  req: ValidRequest<{ body: typeof RequestNumberBodySchema }>,
+  res: Response<Payload<typeof RequestNumberResponseSchema> | ApiError>
+) => {
   try {
-    const { product, country = 'india', operator } = req.body;
-    
-    if (!product) {
+    const { product, country, operator, provider, maxPrice, mode, hours } = req.body;
+
+    if (mode === 'rental' && hours! > RENTAL_MAX_HOURS) {
       return res.status(400).json({
         success: false,
-        error: 'Product ID is required'
+        error: RENTAL_HOURS_ERROR
       });
     }
 
     console.log(`[API] Requesting virtual number with product: ${product}, country: ${country}, operator: ${operator || 'any'}`);
     
-    // Get the currently selected provider
-    const selectedProvider = await virtualNumberService.getSelectedProvider();
-    console.log(`[API] Using selected provider: ${selectedProvider}`);
-    
-    const virtualNumber = await virtualNumberService.requestNumber(product, country, operator);
+    let purchase;
+    if (mode === 'rental') {
+      console.log(`[API] Renting for ${hours}h`);
+      purchase = await virtualNumberService.requestRental(product, country, hours!, req.user!.id);
+    } else if (provider === 'auto') {
+      console.log(`[API] Using best-price routing${maxPrice !== undefined ? ` (max ${maxPrice})` : ''}`);
+      purchase = await virtualNumberService.requestCheapestNumber(product, country, maxPrice, req.user!.id);
+    } else {
+      // Get the currently selected provider
+      const selectedProvider = await virtualNumberService.getSelectedProvider();
+      console.log(`[API] Using selected provider: ${selectedProvider}`);
+      purchase = await virtualNumberService.requestNumber(product, country, operator, req.user!.id);
+    }
+    const { virtualNumber, attempts } = purchase;
     
     res.json({
       success: true,
-      data: virtualNumber
+      data: virtualNumber,
+      attempts
     });
   } catch (error) {
     console.error('[API] Error requesting virtual number:', error);
+
+    if (error instanceof InsufficientFundsError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof ProviderFailoverError) {
+      return res.status(503).json({
+        success: false,
+        error: error.message,
+        attempts: error.attempts
+      });
+    }
     
     res.status(500).json({
       success: false,
@@ -647,8 +703,134 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+const BULK_PURCHASE_MAX_QUANTITY = Number(process.env.BULK_PURCHASE_MAX_QUANTITY) || 50;
+
+/**
+ * @swagger
+ * /api/virtual-numbers/bulk:
+ *   post:
+ *     summary: Request several virtual numbers for the same product
+ *     description: |
+ *       Buys `quantity` numbers for one product and country. Purchases run a few at a time
+ *       (`BULK_PURCHASE_CONCURRENCY`, default 5) and each one fails over between providers like
+ *       `POST /api/virtual-numbers`. Every number is charged to your wallet separately.
+ *
+ *       - `maxTotalPrice`: purchases that would take the total over it fail
+ *       - `allOrNothing`: after the first failure no more purchases start, and the numbers already
+ *         bought are cancelled and refunded
+ *
+ *       `items` has the outcome of each number. The request succeeds if at least one number was kept.
+ *     tags: [Virtual Numbers]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [product, quantity]
+ *             properties:
+ *               product:
+ *                 type: string
+ *                 example: "amazon"
+ *               country:
+ *                 type: string
+ *                 description: Country code (defaults to india)
+ *                 example: "india"
+ *               operator:
+ *                 type: string
+ *                 description: Telecom operator, only used by the selected provider
+ *                 example: "airtel"
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 description: Number of numbers to buy (at most `BULK_PURCHASE_MAX_QUANTITY`, default 50)
+ *                 example: 10
+ *               maxTotalPrice:
+ *                 type: number
+ *                 description: Most the whole order may cost, in the wallet currency
+ *                 example: 2.5
+ *               allOrNothing:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: At least one number was bought
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkPurchaseResult'
+ *       400:
+ *         description: Missing product or invalid quantity, maxTotalPrice or allOrNothing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: No number was kept (every purchase failed, or the order was rolled back)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: false
+ *                 error:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkPurchaseResult'
+ */
+router.post('/bulk', validate({ body: BulkPurchaseBodySchema }), async (
+  req: ValidRequest<{ body: typeof BulkPurchaseBodySchema }>,
+  res: Reply<typeof BulkPurchaseResultSchema>
+) => {
+  try {
+    const { product, country, operator, quantity, maxTotalPrice, allOrNothing } = req.body;
+
+    if (quantity > BULK_PURCHASE_MAX_QUANTITY) {
+      return res.status(400).json({
+        success: false,
+        error: `quantity must be at most ${BULK_PURCHASE_MAX_QUANTITY}`
+      });
+    }
+
+    const result = await virtualNumberService.requestBulkNumbers(
+      { product, country, operator, quantity, maxTotalPrice, allOrNothing },
+      req.user!.id
+    );
+
+    if (result.purchased === 0) {
+      return res.status(503).json({
+        success: false,
+        error: result.rolledBack
+          ? `Bulk purchase rolled back: ${result.failed} of ${result.requested} purchases failed`
+          : 'No numbers could be purchased',
+        data: result
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('[API] Error requesting bulk virtual numbers:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to request virtual numbers'
+    });
+  }
+});
+
 // Provider routes - must be defined BEFORE the :number route to avoid conflicts
-router.get('/providers', async (req: Request, res: Response) => {
+router.get('/providers', async (req: Request, res: Reply<z.ZodArray<typeof ProviderSchema>>) => {
   try {
     // Temporary fix: Return hardcoded providers instead of calling the service
     const providers = [
@@ -692,7 +874,7 @@ router.get('/providers', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/providers/selected', async (req: Request, res: Response) => {
+router.get('/providers/selected', async (req: Request, res: Reply<typeof SelectedProviderSchema>) => {
   try {
     // Temporary fix: Return default selected provider
     const selectedProvider = {
@@ -715,7 +897,10 @@ router.get('/providers/selected', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/providers/:id/status', async (req: Request, res: Response) => {
+router.get('/providers/:id/status', validate({ params: ProviderParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProviderParamsSchema }>,
+  res: Reply<typeof ProviderStatusSchema>
+) => {
   try {
     const { id } = req.params;
     
@@ -742,11 +927,14 @@ router.get('/providers/:id/status', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/providers/:id/select', async (req: Request, res: Response) => {
+router.post('/providers/:id/select', requireAdmin, validate({ params: ProviderParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProviderParamsSchema }>,
+  res: Reply<typeof SelectProviderResultSchema>
+) => {
   try {
     const { id } = req.params;
     
-    // Temporary fix: Return success response
+    await virtualNumberService.selectProvider(id);
     const result = {
       providerId: id,
       providerName: id === '5sim' ? '5SIM' : id === 'twilio' ? 'Twilio' : id === 'sms-activate' ? 'SMS-Activate' : 'Mock'
@@ -803,7 +991,10 @@ router.post('/providers/:id/select', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/providers/:id/countries', async (req: Request, res: Response) => {
+router.get('/providers/:id/countries', validate({ params: ProviderParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProviderParamsSchema }>,
+  res: Reply<z.ZodArray<typeof ProviderCountrySchema>>
+) => {
   try {
     const { id } = req.params;
     const countries = await virtualNumberService.getProviderCountries(id);
@@ -866,7 +1057,10 @@ router.get('/providers/:id/countries', async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/providers/:id/countries/:countryId/products', async (req: Request, res: Response) => {
+router.get('/providers/:id/countries/:countryId/products', validate({ params: ProviderCountryParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProviderCountryParamsSchema }>,
+  res: Reply<z.ZodArray<typeof ProviderProductSchema>>
+) => {
   try {
     const { id, countryId } = req.params;
     const products = await virtualNumberService.getProviderProducts(id, countryId);
@@ -937,7 +1131,10 @@ router.get('/providers/:id/countries/:countryId/products', async (req: Request,
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/providers/:id/countries/:countryId/details', async (req: Request, res: Response) => {
+router.get('/providers/:id/countries/:countryId/details', validate({ params: ProviderCountryParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProviderCountryParamsSchema }>,
+  res: Reply<typeof CountryDetailsSchema>
+) => {
   try {
     const { id, countryId } = req.params;
     const countryDetails = await virtualNumberService.getCountryDetails(id, countryId);
@@ -968,7 +1165,7 @@ router.get('/providers/:id/countries/:countryId/details', async (req: Request, r
  * /api/virtual-numbers:
  *   get:
  *     summary: Get all active virtual numbers
- *     description: Retrieve a list of all currently active virtual numbers
+ *     description: Retrieve the authenticated user's currently active virtual numbers
  *     tags: [Virtual Numbers]
  *     responses:
  *       200:
@@ -992,9 +1189,9 @@ router.get('/providers/:id/countries/:countryId/details', async (req: Request, r
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', (req: Request, res: Response) => {
+router.get('/', (req: Request, res: Reply<z.ZodArray<typeof VirtualNumberSchema>>) => {
   try {
-    const activeNumbers = virtualNumberService.getActiveNumbers();
+    const activeNumbers = virtualNumberService.getActiveNumbers(req.user!.id);
     
     res.json({
       success: true,
@@ -1051,10 +1248,13 @@ router.get('/', (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:number', (req: Request, res: Response) => {
+router.get('/:number', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<typeof VirtualNumberSchema>
+) => {
   try {
     const { number } = req.params;
-    const virtualNumber = virtualNumberService.getNumber(number);
+    const virtualNumber = await virtualNumberService.getNumberForUser(number, req.user!.id);
     
     if (!virtualNumber) {
       return res.status(404).json({
@@ -1114,10 +1314,20 @@ router.get('/:number', (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:number/otps', async (req: Request, res: Response) => {
+router.get('/:number/otps', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<z.ZodArray<typeof OtpSchema>>
+) => {
   try {
     const { number } = req.params;
     
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+    
     const otps = await virtualNumberService.checkOtps(number);
     
     res.json({
@@ -1136,10 +1346,13 @@ router.get('/:number/otps', async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /api/virtual-numbers/{number}/resend:
- *   post:
- *     summary: Resend OTP for a specific virtual number
- *     description: Request a new OTP to be sent to the virtual number
+ * /api/virtual-numbers/{number}/otps/wait:
+ *   get:
+ *     summary: Wait for the next OTP on a virtual number
+ *     description: |
+ *       Long-poll for automation scripts: holds the request open until the number records an OTP
+ *       and returns it straight away. Without `after` the number's first OTP is returned (at once if it
+ *       already has one); pass the id of the last OTP you used to wait for the one after it, e.g. after a resend.
  *     tags: [OTPs]
  *     parameters:
  *       - in: path
@@ -1147,11 +1360,21 @@ router.get('/:number/otps', async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
- *         description: Phone number to resend OTP for
  *         example: "+91XXXXXXXXXX"
+ *       - in: query
+ *         name: timeout
+ *         schema:
+ *           type: integer
+ *           default: 60
+ *         description: Seconds to wait (at most `OTP_WAIT_MAX_SECONDS`, default 300)
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Id of an OTP already received on the number; only a later OTP is returned
  *     responses:
  *       200:
- *         description: OTP resent successfully
+ *         description: OTP received
  *         content:
  *           application/json:
  *             schema:
@@ -1160,67 +1383,126 @@ router.get('/:number/otps', async (req: Request, res: Response) => {
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: "OTP resent successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     otp:
+ *                       $ref: '#/components/schemas/OTP'
+ *                     status:
+ *                       type: string
+ *                       description: The number's status when the OTP was returned
  *       400:
- *         description: Bad request - failed to resend OTP
+ *         description: Invalid timeout, or `after` is not an OTP of this number
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       500:
- *         description: Internal server error
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       408:
+ *         description: No OTP arrived before the timeout; the number is still active, so wait again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The number expired, was cancelled or completed without a new OTP
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/:number/resend', async (req: Request, res: Response) => {
+router.get('/:number/otps/wait', validate({ params: NumberParamsSchema, query: WaitForOtpQuerySchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema; query: typeof WaitForOtpQuerySchema }>,
+  res: Reply<typeof OtpWaitResultSchema>
+) => {
   try {
     const { number } = req.params;
-    
-    const success = await virtualNumberService.resendOtp(number);
-    
-    if (success) {
-      res.json({
+    const { timeout, after } = req.query;
+
+    if (timeout > OTP_WAIT_MAX_SECONDS) {
+      return res.status(400).json({
+        success: false,
+        error: `timeout must be at most ${OTP_WAIT_MAX_SECONDS}`
+      });
+    }
+
+    const virtualNumber = await virtualNumberService.getNumberForUser(number, req.user!.id);
+    if (!virtualNumber) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    if (after && !virtualNumber.otps.some(otp => otp.id === after)) {
+      return res.status(400).json({
+        success: false,
+        error: `OTP ${after} was not received on this number`
+      });
+    }
+
+    // Stop waiting as soon as the client goes away
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    const result = await virtualNumberService.waitForOtp(number, after, timeout * 1000, abort.signal);
+    if (abort.signal.aborted) {
+      return;
+    }
+
+    if (result.otp) {
+      return res.json({
         success: true,
-        message: 'OTP resent successfully'
+        data: { otp: result.otp, status: result.status }
       });
-    } else {
-      res.status(400).json({
+    }
+
+    if (result.timedOut) {
+      return res.status(408).json({
         success: false,
-        error: 'Failed to resend OTP'
+        error: `No OTP received within ${timeout} seconds`
       });
     }
-  } catch (error) {
-    console.error('[API] Error resending OTP:', error);
-    
-    res.status(500).json({
+
+    res.status(409).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to resend OTP'
+      error: `Number is ${result.status} and won't receive more OTPs`
     });
+  } catch (error) {
+    console.error('[API] Error waiting for OTP:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to wait for OTP'
+      });
+    }
   }
 });
 
 /**
  * @swagger
- * /api/virtual-numbers/{number}:
- *   delete:
- *     summary: Cancel a virtual number
- *     description: Cancel and release a virtual number, getting a refund if applicable
- *     tags: [Virtual Numbers]
+ * /api/virtual-numbers/{number}/messages:
+ *   get:
+ *     summary: Get the SMS messages received on a virtual number
+ *     description: |
+ *       Every SMS received on the number with its sender and full text, oldest first, including
+ *       messages no OTP could be extracted from. Useful for debugging codes the extractor missed.
+ *     tags: [OTPs]
  *     parameters:
  *       - in: path
  *         name: number
  *         required: true
  *         schema:
  *           type: string
- *         description: Phone number to cancel
  *         example: "+91XXXXXXXXXX"
  *     responses:
  *       200:
- *         description: Virtual number cancelled successfully
+ *         description: Messages retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -1229,41 +1511,597 @@ router.post('/:number/resend', async (req: Request, res: Response) => {
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Number cancelled successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SmsMessage'
  *       404:
  *         description: Virtual number not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:number', async (req: Request, res: Response) => {
+router.get('/:number/messages', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<z.ZodArray<typeof SmsMessageSchema>>
+) => {
   try {
     const { number } = req.params;
-    
-    const success = await virtualNumberService.cancelNumber(number);
-    
-    if (success) {
-      res.json({
-        success: true,
-        message: 'Number cancelled successfully'
-      });
-    } else {
-      res.status(404).json({
+
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
         success: false,
         error: 'Virtual number not found'
       });
     }
+
+    const messages = await virtualNumberService.getMessages(number);
+
+    res.json({
+      success: true,
+      data: messages
+    });
   } catch (error) {
-    console.error('[API] Error cancelling number:', error);
+    console.error('[API] Error getting messages:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get messages'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}/resend:
+ *   post:
+ *     summary: Resend OTP for a specific virtual number
+ *     description: Request a new OTP to be sent to the virtual number
+ *     tags: [OTPs]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Phone number to resend OTP for
+ *         example: "+91XXXXXXXXXX"
+ *     responses:
+ *       200:
+ *         description: OTP resent successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "OTP resent successfully"
+ *       400:
+ *         description: Bad request - failed to resend OTP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:number/resend', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply
+) => {
+  try {
+    const { number } = req.params;
+    
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+    
+    const success = await virtualNumberService.resendOtp(number);
+    
+    if (success) {
+      res.json({
+        success: true,
+        message: 'OTP resent successfully'
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to resend OTP'
+      });
+    }
+  } catch (error) {
+    console.error('[API] Error resending OTP:', error);
+    
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resend OTP'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}/complete:
+ *   post:
+ *     summary: Complete a virtual number
+ *     description: |
+ *       Tells the provider you're done with a number that received its SMS (SMS-Activate
+ *       `setStatus=6`, 5SIM `finish`) so it's released now instead of at the end of its
+ *       lifetime, and moves it to `completed`. Polling stops and a `statusUpdate` event is sent.
+ *     tags: [Virtual Numbers]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "+919876543210"
+ *     responses:
+ *       200:
+ *         description: Number completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/VirtualNumber'
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The number hasn't received an SMS yet, or is no longer active
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: The provider refused to finish the activation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:number/complete', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<typeof VirtualNumberSchema>
+) => {
+  try {
+    const { number } = req.params;
+
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    const virtualNumber = await virtualNumberService.completeNumber(number);
+
+    res.json({
+      success: true,
+      data: virtualNumber
+    });
+  } catch (error) {
+    console.error('[API] Error completing number:', error);
+
+    if (error instanceof NumberStateError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.status(502).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete virtual number'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}/history:
+ *   get:
+ *     summary: Get the status history of a virtual number
+ *     description: |
+ *       Every status the number went through, oldest first. Statuses follow the state machine
+ *       `pending` → `waiting_sms` → `sms_received` → `completed`, with `expired`, `cancelled`
+ *       (then `refunded`) and `failed` as the other ways out.
+ *     tags: [Virtual Numbers]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "+919876543210"
+ *     responses:
+ *       200:
+ *         description: Status transitions
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 - from: null
+ *                   to: "pending"
+ *                   changedAt: "2024-01-01T12:00:00.000Z"
+ *                 - from: "pending"
+ *                   to: "waiting_sms"
+ *                   changedAt: "2024-01-01T12:00:00.000Z"
+ *                 - from: "waiting_sms"
+ *                   to: "sms_received"
+ *                   changedAt: "2024-01-01T12:01:30.000Z"
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:number/history', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<z.ZodArray<typeof StatusTransitionSchema>>
+) => {
+  try {
+    const { number } = req.params;
+
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await virtualNumberService.getStatusHistory(number)
+    });
+  } catch (error) {
+    console.error('[API] Error getting status history:', error);
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get status history'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}/extend:
+ *   post:
+ *     summary: Extend a rental
+ *     description: |
+ *       Adds `hours` to an active rental (`mode: rental`) and charges your wallet the provider's
+ *       rental price for them. `expiresAt` moves by the same amount and the `rentalExpiring`
+ *       warning is sent again before the new end. Only providers that can extend rentals
+ *       (SMS-Activate, mock) support it.
+ *     tags: [Virtual Numbers]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "+919876543210"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [hours]
+ *             properties:
+ *               hours:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Hours to add (at most `RENTAL_MAX_HOURS`, default 720)
+ *                 example: 24
+ *     responses:
+ *       200:
+ *         description: Rental extended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/VirtualNumber'
+ *       400:
+ *         description: Invalid hours
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: Wallet balance doesn't cover the price
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The number isn't an active rental, or its provider can't extend rentals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: The provider has no balance or can't extend the rental right now
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:number/extend', validate({ params: NumberParamsSchema, body: ExtendRentalBodySchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema; body: typeof ExtendRentalBodySchema }>,
+  res: Reply<typeof VirtualNumberSchema>
+) => {
+  try {
+    const { number } = req.params;
+    const { hours } = req.body;
+
+    if (hours > RENTAL_MAX_HOURS) {
+      return res.status(400).json({
+        success: false,
+        error: RENTAL_HOURS_ERROR
+      });
+    }
+
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    const virtualNumber = await virtualNumberService.extendRental(number, hours);
+
+    res.json({
+      success: true,
+      data: virtualNumber
+    });
+  } catch (error) {
+    console.error('[API] Error extending rental:', error);
+
+    if (error instanceof InsufficientFundsError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof NumberStateError || (error instanceof ProviderSupplyError && error.reason === 'unsupported')) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof ProviderSupplyError) {
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to extend rental'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}/reactivate:
+ *   post:
+ *     summary: Reactivate a used virtual number
+ *     description: |
+ *       Buys a follow-up activation on a number that has expired or been cancelled, so it can
+ *       receive another SMS (e.g. when an app re-verifies the number at a later login). Uses 5SIM
+ *       `reuse` or SMS-Activate `getExtraActivation`; the provider only allows it for numbers that
+ *       received an SMS.
+ *
+ *       The new activation is charged to your wallet at the product's current price, gets a fresh
+ *       lifetime and OTP delivery, and its `reactivatedFrom` is the id of the previous record.
+ *       The number's endpoints refer to the new activation from then on.
+ *     tags: [Virtual Numbers]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "+919876543210"
+ *     responses:
+ *       200:
+ *         description: Number reactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/VirtualNumber'
+ *       402:
+ *         description: Wallet balance doesn't cover the price
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The number is still active, or the provider can't reuse it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: The provider has no balance or the number is unavailable right now
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:number/reactivate', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply<typeof VirtualNumberSchema>
+) => {
+  try {
+    const { number } = req.params;
+
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+
+    const virtualNumber = await virtualNumberService.reactivateNumber(number);
+
+    res.json({
+      success: true,
+      data: virtualNumber
+    });
+  } catch (error) {
+    console.error('[API] Error reactivating virtual number:', error);
+
+    if (error instanceof InsufficientFundsError) {
+      return res.status(402).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof NumberStateError || (error instanceof ProviderSupplyError && error.reason === 'unsupported')) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    if (error instanceof ProviderSupplyError) {
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reactivate virtual number'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/virtual-numbers/{number}:
+ *   delete:
+ *     summary: Cancel a virtual number
+ *     description: Cancel and release a virtual number, getting a refund if applicable
+ *     tags: [Virtual Numbers]
+ *     parameters:
+ *       - in: path
+ *         name: number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Phone number to cancel
+ *         example: "+91XXXXXXXXXX"
+ *     responses:
+ *       200:
+ *         description: Virtual number cancelled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Number cancelled successfully"
+ *       404:
+ *         description: Virtual number not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:number', validate({ params: NumberParamsSchema }), async (
+  req: ValidRequest<{ params: typeof NumberParamsSchema }>,
+  res: Reply
+) => {
+  try {
+    const { number } = req.params;
+    
+    if (!await virtualNumberService.getNumberForUser(number, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+    
+    const success = await virtualNumberService.cancelNumber(number);
+    
+    if (success) {
+      res.json({
+        success: true,
+        message: 'Number cancelled successfully'
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        error: 'Virtual number not found'
+      });
+    }
+  } catch (error) {
+    console.error('[API] Error cancelling number:', error);
     
     res.status(500).json({
       success: false,
@@ -1273,7 +2111,10 @@ router.delete('/:number', async (req: Request, res: Response) => {
 });
 
 // Get real-time product price from provider
-router.get('/price/:product/:country', async (req, res) => {
+router.get('/price/:product/:country', validate({ params: ProductPriceParamsSchema }), async (
+  req: ValidRequest<{ params: typeof ProductPriceParamsSchema }>,
+  res: Reply<typeof ProductPriceSchema>
+) => {
   try {
     const { product, country } = req.params;
     console.log(`[API] Getting price for product: ${product} in country: ${country}`);
@@ -1301,20 +2142,20 @@ router.get('/price/:product/:country', async (req, res) => {
       } else {
         res.status(404).json({
           success: false,
-          message: `Price not available for product: ${product} in country: ${country}`
+          error: `Price not available for product: ${product} in country: ${country}`
         });
       }
     } else {
       res.status(400).json({
         success: false,
-        message: 'Provider does not support price fetching'
+        error: 'Provider does not support price fetching'
       });
     }
   } catch (error) {
     console.error('[API] Error getting product price:', error);
     res.status(500).json({
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get product price'
+      error: error instanceof Error ? error.message : 'Failed to get product price'
     });
   }
 });
@@ -1361,7 +2202,7 @@ router.get('/price/:product/:country', async (req, res) => {
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 operators:
+ *                 data:
  *                   type: array
  *                   items:
  *                     type: string
@@ -1379,7 +2220,7 @@ router.get('/price/:product/:country', async (req, res) => {
  *                   example: false
  *                 error:
  *                   type: string
- *                   example: "Country parameter is required"
+ *                   example: "country is required"
  *       401:
  *         description: Invalid SMS-Activate API key
  *         content:
@@ -1410,20 +2251,14 @@ router.get('/price/:product/:country', async (req, res) => {
  *     tags:
  *       - Virtual Numbers
  */
-router.get('/smsactivate/operators', async (req, res) => {
+router.get('/smsactivate/operators', validate({ query: OperatorsQuerySchema }), async (
+  req: ValidRequest<{ query: typeof OperatorsQuerySchema }>,
+  res: Reply<typeof OperatorsSchema>
+) => {
   try {
     const { country } = req.query;
-    
-    if (!country || typeof country !== 'string') {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Country parameter is required and must be a string' 
-      });
-    }
 
-    // Get API key from environment
-    const apiKey = process.env.SMS_ACTIVATE_API_KEY;
-    if (!apiKey) {
+    if (!process.env.SMS_ACTIVATE_API_KEY) {
       return res.status(500).json({ 
         success: false, 
         error: 'SMS-Activate API key not configured' 
@@ -1432,66 +2267,23 @@ router.get('/smsactivate/operators', async (req, res) => {
 
     console.log(`[API] Fetching operators for country: ${country} from SMS-Activate`);
 
-    // Call SMS-Activate API directly
-    const response = await fetch(
-      `https://api.sms-activate.ae/stubs/handler_api.php?api_key=${apiKey}&action=getOperators&country=${country}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`SMS-Activate API error: ${response.status}`);
-    }
+    const provider = virtualNumberService.getProviderById('sms-activate') as SMSActivateProvider;
+    const operators = await provider.getOperators(country);
+    console.log(`[API] Successfully fetched ${operators.length} operators for country ${country}`);
 
-    const data = await response.json() as {
-      status: string;
-      countryOperators?: { [key: string]: string[] };
-    };
-    
-    console.log(`[API] SMS-Activate response:`, data);
-    
-    if (data.status === 'success' && data.countryOperators && data.countryOperators[country]) {
-      const operators = data.countryOperators[country];
-      console.log(`[API] Successfully fetched ${operators.length} operators for country ${country}`);
-      
-      res.json({ 
-        success: true, 
-        operators: operators 
-      });
-    } else if (typeof data === 'string') {
-      // Handle string error responses from SMS-Activate
-      if (data === 'BAD_KEY') {
-        console.error('[API] SMS-Activate: Invalid API key');
-        res.status(401).json({ 
-          success: false, 
-          error: 'Invalid SMS-Activate API key' 
-        });
-      } else if (data === 'ERROR_SQL') {
-        console.error('[API] SMS-Activate: SQL server error');
-        res.status(500).json({ 
-          success: false, 
-          error: 'SMS-Activate server error' 
-        });
-      } else if (data === 'OPERATORS_NOT_FOUND') {
-        console.log(`[API] SMS-Activate: No operators found for country ${country}`);
-        res.json({ 
-          success: true, 
-          operators: [] 
-        });
-      } else {
-        console.error('[API] SMS-Activate: Unknown error response:', data);
-        res.status(500).json({ 
-          success: false, 
-          error: 'Unknown error from SMS-Activate' 
-        });
-      }
-    } else {
-      console.error('[API] SMS-Activate: Unknown error response:', data);
-      res.status(500).json({ 
+    res.json({ 
+      success: true, 
+      data: operators 
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid API key') {
+      console.error('[API] SMS-Activate: Invalid API key');
+      return res.status(401).json({ 
         success: false, 
-        error: 'Unknown error from SMS-Activate' 
+        error: 'Invalid SMS-Activate API key' 
       });
     }
-    
-  } catch (error) {
+
     console.error('[API] Error fetching operators:', error);
     res.status(500).json({ 
       success: false, 
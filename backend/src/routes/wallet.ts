@@ -0,0 +1,196 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import {
+  AddFundsBodySchema,
+  PaginationQuerySchema,
+  WalletBalanceSchema,
+  WalletTransactionSchema,
+  WalletUserParamsSchema
+} from '@vnos/contracts';
+import { walletService } from '../services/walletService';
+import { authService } from '../services/authService';
+import { requireAdmin } from '../middleware/auth';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/wallet:
+ *   get:
+ *     summary: Get the authenticated user's wallet balance
+ *     description: |
+ *       `balance` already excludes funds reserved for purchases still in progress;
+ *       `pending` shows how much of it is currently reserved.
+ *     tags: [Wallet]
+ *     responses:
+ *       200:
+ *         description: Wallet balance
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 balance: 12.5
+ *                 pending: 0
+ *                 currency: "USD"
+ */
+router.get('/', async (req: Request, res: Reply<typeof WalletBalanceSchema>) => {
+  try {
+    const balance = await walletService.getBalance(req.user!.id);
+
+    res.json({
+      success: true,
+      data: balance
+    });
+  } catch (error) {
+    console.error('[API] Error getting wallet balance:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get wallet balance'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/wallet/transactions:
+ *   get:
+ *     summary: List the authenticated user's wallet transactions
+ *     description: Newest first. Debits have a negative amount, credits and refunds a positive one.
+ *     tags: [Wallet]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           minimum: 1
+ *           maximum: 200
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *           minimum: 0
+ *     responses:
+ *       200:
+ *         description: Wallet transactions
+ *       400:
+ *         description: Invalid limit or offset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/transactions', validate({ query: PaginationQuerySchema }), async (
+  req: ValidRequest<{ query: typeof PaginationQuerySchema }>,
+  res: Reply<z.ZodArray<typeof WalletTransactionSchema>>
+) => {
+  try {
+    const { limit, offset } = req.query;
+    const transactions = await walletService.listTransactions(req.user!.id, limit, offset);
+
+    res.json({
+      success: true,
+      data: transactions
+    });
+  } catch (error) {
+    console.error('[API] Error listing wallet transactions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list wallet transactions'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/wallet/users/{userId}/transactions:
+ *   post:
+ *     summary: Credit or adjust a user's wallet (admin only)
+ *     description: Credits must be positive; adjustments may be negative to correct a balance.
+ *     tags: [Wallet]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [credit, adjustment]
+ *                 example: "credit"
+ *               amount:
+ *                 type: number
+ *                 example: 10
+ *               description:
+ *                 type: string
+ *                 example: "Monthly top-up"
+ *     responses:
+ *       201:
+ *         description: Transaction recorded
+ *       400:
+ *         description: Invalid type or amount
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Caller is not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/users/:userId/transactions', requireAdmin, validate({ params: WalletUserParamsSchema, body: AddFundsBodySchema }), async (
+  req: ValidRequest<{ params: typeof WalletUserParamsSchema; body: typeof AddFundsBodySchema }>,
+  res: Reply<typeof WalletTransactionSchema>
+) => {
+  try {
+    const { type, amount, description } = req.body;
+
+    const user = await authService.getUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const transaction = await walletService.addFunds(
+      user.id,
+      amount,
+      type,
+      description || `${type === 'credit' ? 'Credit' : 'Adjustment'} by ${req.user!.name}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transaction
+    });
+  } catch (error) {
+    console.error('[API] Error recording wallet transaction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record wallet transaction'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,346 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import {
+  CreatedWebhookEndpointSchema,
+  CreateWebhookBodySchema,
+  PaginationQuerySchema,
+  WebhookDeliverySchema,
+  WebhookEndpointParamsSchema,
+  WebhookEndpointSchema
+} from '@vnos/contracts';
+import { webhookService, WebhookValidationError } from '../services/webhookService';
+import { validate, ValidRequest, Reply } from '../middleware/validate';
+import { WebhookEndpoint } from '../types';
+
+const router = Router();
+
+/**
+ * An endpoint as shown after it was created: the secret is only returned once
+ */
+function toEndpointView(endpoint: WebhookEndpoint) {
+  const { secret, userId, ...view } = endpoint;
+  return view;
+}
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: |
+ *       Events are POSTed to the URL as JSON: `{ id, event, createdAt, data }`. Each request carries
+ *       `X-Vnos-Event`, `X-Vnos-Delivery`, `X-Vnos-Timestamp` and `X-Vnos-Signature: sha256=<hex>`,
+ *       where the signature is the HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the endpoint's secret.
+ *       Deliveries that don't get a 2xx answer are retried with exponential backoff.
+ *
+ *       The secret is only returned in this response.
+ *     tags: [Webhook Endpoints]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: "https://example.com/hooks/vnos"
+ *                 description: Must not point to a loopback, private or link-local address unless WEBHOOK_ALLOW_PRIVATE_URLS is set
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [number.created, otp.received, number.expired, number.cancelled]
+ *                 description: Events to send; omit or leave empty for all of them
+ *               description:
+ *                 type: string
+ *                 example: "Signup bot"
+ *               secret:
+ *                 type: string
+ *                 description: Signing secret of at least 16 characters; generated when omitted
+ *     responses:
+ *       201:
+ *         description: Endpoint registered; the `secret` field is only shown once
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 id: "5f0c6a1e-2d4b-4c47-9b0e-8a7f3c2d1e90"
+ *                 url: "https://example.com/hooks/vnos"
+ *                 events: ["otp.received"]
+ *                 createdAt: "2024-01-01T12:00:00.000Z"
+ *                 secret: "whsec_3f9a..."
+ *       400:
+ *         description: Invalid or private URL, events or secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', validate({ body: CreateWebhookBodySchema }), async (
+  req: ValidRequest<{ body: typeof CreateWebhookBodySchema }>,
+  res: Reply<typeof CreatedWebhookEndpointSchema>
+) => {
+  try {
+    const { url, events, description, secret } = req.body;
+
+    const endpoint = await webhookService.createEndpoint(req.user!.id, { url, events, description, secret });
+
+    res.status(201).json({
+      success: true,
+      data: { ...toEndpointView(endpoint), secret: endpoint.secret }
+    });
+  } catch (error) {
+    if (error instanceof WebhookValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('[API] Error creating webhook endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook endpoint'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: List the authenticated user's webhook endpoints
+ *     tags: [Webhook Endpoints]
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookEndpoint'
+ */
+router.get('/', async (req: Request, res: Reply<z.ZodArray<typeof WebhookEndpointSchema>>) => {
+  try {
+    const endpoints = await webhookService.listEndpoints(req.user!.id);
+
+    res.json({
+      success: true,
+      data: endpoints.map(toEndpointView)
+    });
+  } catch (error) {
+    console.error('[API] Error listing webhook endpoints:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list webhook endpoints'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook endpoint
+ *     description: Pending deliveries are dropped along with the endpoint's delivery log.
+ *     tags: [Webhook Endpoints]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Endpoint deleted
+ *       404:
+ *         description: Endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', validate({ params: WebhookEndpointParamsSchema }), async (
+  req: ValidRequest<{ params: typeof WebhookEndpointParamsSchema }>,
+  res: Reply
+) => {
+  try {
+    const deleted = await webhookService.deleteEndpoint(req.user!.id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook endpoint deleted'
+    });
+  } catch (error) {
+    console.error('[API] Error deleting webhook endpoint:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook endpoint'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: List an endpoint's deliveries
+ *     description: Newest first, with the outcome of each delivery's latest attempt.
+ *     tags: [Webhook Endpoints]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           minimum: 1
+ *           maximum: 200
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *           minimum: 0
+ *     responses:
+ *       200:
+ *         description: Deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         description: Invalid limit or offset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/deliveries', validate({ params: WebhookEndpointParamsSchema, query: PaginationQuerySchema }), async (
+  req: ValidRequest<{ params: typeof WebhookEndpointParamsSchema; query: typeof PaginationQuerySchema }>,
+  res: Reply<z.ZodArray<typeof WebhookDeliverySchema>>
+) => {
+  try {
+    const endpoint = await webhookService.getEndpoint(req.user!.id, req.params.id);
+
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    const { limit, offset } = req.query;
+    const deliveries = await webhookService.listDeliveries(endpoint.id, limit, offset);
+
+    res.json({
+      success: true,
+      data: deliveries
+    });
+  } catch (error) {
+    console.error('[API] Error listing webhook deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list webhook deliveries'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test event to an endpoint
+ *     description: |
+ *       Sends a `webhook.test` event right away, whatever events the endpoint is subscribed to,
+ *       and returns the delivery with the outcome. A failed test is retried like any other delivery.
+ *     tags: [Webhook Endpoints]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Test sent; check `status` and `lastError` for the outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/test', validate({ params: WebhookEndpointParamsSchema }), async (
+  req: ValidRequest<{ params: typeof WebhookEndpointParamsSchema }>,
+  res: Reply<typeof WebhookDeliverySchema>
+) => {
+  try {
+    const endpoint = await webhookService.getEndpoint(req.user!.id, req.params.id);
+
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    const delivery = await webhookService.sendTest(endpoint);
+
+    res.json({
+      success: true,
+      data: delivery
+    });
+  } catch (error) {
+    console.error('[API] Error sending test webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send test webhook'
+    });
+  }
+});
+
+export default router;
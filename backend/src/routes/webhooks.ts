@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import { TwilioSmsBodySchema } from '@vnos/contracts';
+import { virtualNumberService } from '../services/virtualNumberService';
+import { validateTwilioSignature } from '../middleware/twilioSignature';
+import { validate, ValidRequest } from '../middleware/validate';
+
+const router = Router();
+
+// Twilio reads the reply as TwiML; an empty response means "don't reply"
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+router.use(validateTwilioSignature);
+
+/**
+ * @swagger
+ * /webhook/sms:
+ *   post:
+ *     summary: Receive an inbound SMS from Twilio
+ *     description: |
+ *       Called by Twilio for every SMS sent to a number we bought from it. The message is attached to
+ *       the matching active virtual number, OTPs are extracted and pushed to subscribers as `smsUpdate` and `otpUpdate`.
+ *
+ *       Requests must carry a valid `X-Twilio-Signature` for `WEBHOOK_BASE_URL` + path
+ *       (unless `TWILIO_WEBHOOK_VALIDATION=false`).
+ *     tags: [Webhooks]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required: [MessageSid, To]
+ *             properties:
+ *               MessageSid:
+ *                 type: string
+ *                 example: "SM0123456789abcdef0123456789abcdef"
+ *               From:
+ *                 type: string
+ *                 example: "+14155550100"
+ *               To:
+ *                 type: string
+ *                 example: "+919876543210"
+ *               Body:
+ *                 type: string
+ *                 example: "Your verification code is 123456"
+ *     responses:
+ *       200:
+ *         description: Message accepted (empty TwiML response)
+ *         content:
+ *           text/xml:
+ *             example: '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+ *       400:
+ *         description: Missing MessageSid or To
+ *       403:
+ *         description: Invalid Twilio signature
+ */
+router.post('/sms', validate({ body: TwilioSmsBodySchema }), async (req: ValidRequest<{ body: typeof TwilioSmsBodySchema }>, res: Response) => {
+  try {
+    const { MessageSid, From, To, Body } = req.body;
+
+    await virtualNumberService.receiveInboundSms('twilio', To, {
+      messageId: MessageSid,
+      sender: From || '',
+      text: Body || '',
+      receivedAt: new Date()
+    });
+
+    res.type('text/xml').send(EMPTY_TWIML);
+  } catch (error) {
+    console.error('[Twilio] Error handling inbound SMS:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process inbound SMS'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhook/voice:
+ *   post:
+ *     summary: Reject inbound calls to Twilio numbers
+ *     description: Numbers are only used to receive SMS, so calls are rejected.
+ *     tags: [Webhooks]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: TwiML rejecting the call
+ */
+router.post('/voice', (req: Request, res: Response) => {
+  res.type('text/xml').send('<?xml version="1.0" encoding="UTF-8"?><Response><Reject/></Response>');
+});
+
+/**
+ * @swagger
+ * /webhook/status:
+ *   post:
+ *     summary: Receive Twilio status callbacks
+ *     tags: [Webhooks]
+ *     security: []
+ *     responses:
+ *       204:
+ *         description: Callback acknowledged
+ */
+router.post('/status', (req: Request, res: Response) => {
+  console.log(`[Twilio] Status callback for ${req.body?.To || req.body?.Called || 'unknown number'}: ${req.body?.CallStatus || req.body?.MessageStatus || 'unknown'}`);
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, User, UserRepository, UserRole } from '../types';
+import { RepositoryFactory } from '../repositories/repositoryFactory';
+
+const API_KEY_PREFIX = 'vnos_';
+
+/**
+ * Auth Service
+ *
+ * Manages user accounts and API keys:
+ * - Keys are random tokens shown once at creation and stored only as SHA-256 hashes
+ * - Requests authenticate with `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ * - The first admin can be bootstrapped from the ADMIN_API_KEY environment variable
+ */
+export class AuthService {
+  constructor(private readonly repository: UserRepository = RepositoryFactory.getUserRepository()) {}
+
+  /**
+   * Hash an API key for storage and lookup
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Create a user account
+   */
+  async createUser(name: string, role: UserRole = 'user', email?: string): Promise<User> {
+    const user: User = {
+      id: uuidv4(),
+      name,
+      email,
+      role,
+      createdAt: new Date()
+    };
+
+    await this.repository.createUser(user);
+    console.log(`[Auth] Created ${role} user: ${name} (${user.id})`);
+    return user;
+  }
+
+  /**
+   * Get a user by id
+   */
+  async getUser(userId: string): Promise<User | undefined> {
+    return this.repository.findUserById(userId);
+  }
+
+  /**
+   * Issue a new API key for a user. The plain key is only returned here.
+   */
+  async createApiKey(userId: string, name: string = 'default', key?: string): Promise<{ apiKey: ApiKey; key: string }> {
+    const plainKey = key || `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      userId,
+      name,
+      prefix: plainKey.slice(0, API_KEY_PREFIX.length + 6),
+      createdAt: new Date()
+    };
+
+    await this.repository.createApiKey(apiKey, this.hashKey(plainKey));
+    return { apiKey, key: plainKey };
+  }
+
+  /**
+   * Resolve the user owning an API key, or undefined if the key is unknown or revoked
+   */
+  async authenticate(key: string): Promise<User | undefined> {
+    const apiKey = await this.repository.findApiKeyByHash(this.hashKey(key));
+    if (!apiKey) {
+      return undefined;
+    }
+
+    await this.repository.touchApiKey(apiKey.id);
+    return this.repository.findUserById(apiKey.userId);
+  }
+
+  /**
+   * List a user's API keys (metadata only)
+   */
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    return this.repository.listApiKeys(userId);
+  }
+
+  /**
+   * Revoke one of a user's API keys
+   */
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<boolean> {
+    return this.repository.revokeApiKey(userId, apiKeyId);
+  }
+
+  /**
+   * Create an admin account from ADMIN_API_KEY when no users exist yet
+   */
+  async ensureBootstrapAdmin(): Promise<void> {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey || await this.repository.countUsers() > 0) {
+      return;
+    }
+
+    const admin = await this.createUser('admin', 'admin');
+    await this.createApiKey(admin.id, 'bootstrap', adminKey);
+    console.log('[Auth] Bootstrapped admin user from ADMIN_API_KEY');
+  }
+}
+
+export const authService = new AuthService();
@@ -1,4 +1,12 @@
-import { VirtualNumberProvider, VirtualNumber, OTP } from '../types';
+import { VirtualNumberProvider, OtpDeliveryMode, ProviderActivation, ProviderSms } from '../types';
+import { ProviderSupplyError } from './providerErrors';
+import { getProviderCountryCode, getProviderProductCode } from '../config/catalog';
+
+// 5SIM hosting products by the hours they lease a number for
+const HOSTING_PRODUCTS: Record<number, string> = {
+  3: '3hours',
+  24: '1day'
+};
 
 /**
  * 5SIM Virtual Number Provider
@@ -8,25 +16,14 @@ import { VirtualNumberProvider, VirtualNumber, OTP } from '../types';
  * Coverage: India, US, Europe
  * 
  * API Documentation: https://5sim.net/docs
+ * Rentals use hosting numbers, which receive SMS from any service for 3 or 24 hours
+ * and can't be extended.
+ * Set FIVESIM_BASE_URL to use another endpoint, e.g. the local provider simulator.
  */
 export class FiveSimProvider implements VirtualNumberProvider {
-  private readonly baseUrl = 'https://5sim.net/v1';
+  readonly delivery: OtpDeliveryMode = 'pull';
+  private readonly baseUrl = (process.env.FIVESIM_BASE_URL || 'https://5sim.net/v1').replace(/\/+$/, '');
   private readonly apiKey: string;
-  private readonly activeNumbers = new Map<string, {
-    id: string;
-    phone: string;
-    otps: OTP[];
-    activationTime: Date;
-    timeoutId: NodeJS.Timeout | null;
-    product: string;
-    country: string;
-  }>();
-
-  // Country code mapping: frontend codes -> 5SIM API codes
-  private readonly countryCodeMap: { [key: string]: string } = {
-    'usa': 'us',      // Frontend 'usa' -> 5SIM API 'us'
-    'india': 'india'  // Frontend 'india' -> 5SIM API 'india'
-  };
 
   constructor() {
     const apiKey = process.env.FIVESIM_API_KEY;
@@ -49,26 +46,30 @@ export class FiveSimProvider implements VirtualNumberProvider {
   /**
    * Request a virtual number for a specific product, country, and operator
    */
-  async requestNumber(productId: string = 'virtual21', countryId: string = 'india', operatorId?: string): Promise<string> {
+  async requestNumber(productId: string = 'virtual21', countryId: string = 'india', operatorId?: string): Promise<ProviderActivation> {
     try {
-      // Temporarily remove country code mapping to test if that's causing the issue
-      // const apiCountryCode = this.countryCodeMap[countryId] || countryId;
-      const apiCountryCode = countryId; // Use the original countryId directly
+      // Map catalog ids to 5SIM's product and country names
+      const apiProductId = getProviderProductCode('5sim', productId, countryId);
+      const apiCountryCode = getProviderCountryCode('5sim', countryId);
       console.log(`[5SIM] Requesting virtual number for product: ${productId}, country: ${countryId}, operator: ${operatorId || 'any'}`);
+
+      if (!apiProductId || !apiCountryCode) {
+        throw new ProviderSupplyError('unsupported', `5SIM doesn't offer ${productId} in ${countryId}`);
+      }
       
       // Step 1: Check if the product is available for the country
       const availableProducts = await this.getAvailableProducts(apiCountryCode);
-      const targetProduct = availableProducts.find(p => p.id === productId);
+      const targetProduct = availableProducts.find(p => p.id === apiProductId);
       
       if (!targetProduct) {
-        throw new Error(`Product ${productId} is not available for country ${countryId}`);
+        throw new ProviderSupplyError('unsupported', `Product ${productId} is not available for country ${countryId}`);
       }
 
       console.log(`[5SIM] Product ${productId} is available. Cost: $${targetProduct.cost}, Count: ${targetProduct.count}`);
 
       // Step 2: Build the API URL with operator
       const operator = operatorId || 'any';
-      const apiUrl = `${this.baseUrl}/user/buy/activation/${apiCountryCode}/${operator}/${productId}`;
+      const apiUrl = `${this.baseUrl}/user/buy/activation/${apiCountryCode}/${operator}/${apiProductId}`;
       
       console.log(`[5SIM] Making API request to: ${apiUrl}`);
       console.log(`[5SIM] Request method: GET`);
@@ -104,12 +105,14 @@ export class FiveSimProvider implements VirtualNumberProvider {
           productId
         });
         
-        if (response.status === 403) {
+        if (errorText.includes('not enough user balance')) {
+          throw new ProviderSupplyError('no_balance', '5SIM: Not enough balance on the provider account.');
+        } else if (response.status === 403) {
           throw new Error('5SIM API error: 403 Forbidden. Check your API key and balance. '+errorText);
         } else if (response.status === 401) {
           throw new Error('5SIM API error: 401 Unauthorized. Invalid API key.');
         } else if (response.status === 400) {
-          throw new Error('5SIM API error: 400 Bad Request. Service, country, or operator not available.');
+          throw new ProviderSupplyError('unsupported', '5SIM API error: 400 Bad Request. Service, country, or operator not available.');
         }
         throw new Error(`Failed to request number from 5SIM: ${errorText}`);
       }
@@ -120,11 +123,11 @@ export class FiveSimProvider implements VirtualNumberProvider {
       
       // Check for common text responses
       if (responseText === 'no free phones') {
-        throw new Error('5SIM: No free phones available for this combination. Try a different operator or product.');
+        throw new ProviderSupplyError('no_numbers', '5SIM: No free phones available for this combination. Try a different operator or product.');
       }
       
       if (responseText === 'bad country') {
-        throw new Error('5SIM: Invalid country specified.');
+        throw new ProviderSupplyError('unsupported', '5SIM: Invalid country specified.');
       }
       
       if (responseText === 'bad operator') {
@@ -132,7 +135,7 @@ export class FiveSimProvider implements VirtualNumberProvider {
       }
       
       if (responseText === 'bad product') {
-        throw new Error('5SIM: Invalid product specified.');
+        throw new ProviderSupplyError('unsupported', '5SIM: Invalid product specified.');
       }
       
       // Try to parse as JSON
@@ -146,7 +149,7 @@ export class FiveSimProvider implements VirtualNumberProvider {
       console.log(`[5SIM] API response:`, JSON.stringify(result, null, 2));
       
       const phoneNumber = result.phone;
-      const activationId = result.id;
+      const activationId = result.id ? String(result.id) : '';
 
       if (!phoneNumber || !activationId) {
         throw new Error('Invalid response from 5SIM API: phone or id missing.');
@@ -154,19 +157,17 @@ export class FiveSimProvider implements VirtualNumberProvider {
 
       console.log(`[5SIM] Successfully purchased number: ${phoneNumber} (Activation ID: ${activationId})`);
 
-      // Step 4: Store the active number and set up auto-cancellation
-      this.activeNumbers.set(phoneNumber, {
-        id: activationId,
-        phone: phoneNumber,
-        otps: [],
-        activationTime: new Date(),
-        timeoutId: setTimeout(() => this.autoCancelNumber(phoneNumber), 180000), // 3 minutes (180 seconds) for testing
+      const activation: ProviderActivation = {
+        number: phoneNumber,
+        activationId,
         product: productId,
-        country: countryId
-      });
+        country: countryId,
+        purchasedAt: new Date()
+      };
 
-      console.log(`[5SIM] Auto-cancellation set for 3 minutes if no SMS received`);
-      return phoneNumber;
+      // Auto-cancellation of numbers that never receive an SMS is handled
+      // by VirtualNumberService, which also refunds the buyer.
+      return activation;
 
     } catch (error) {
       console.error('[5SIM] Error requesting number:', error);
@@ -175,136 +176,63 @@ export class FiveSimProvider implements VirtualNumberProvider {
   }
 
   /**
-   * Check for OTPs for a specific number
+   * Get every SMS received on an order. Unknown orders have none; other
+   * failures are thrown so the delivery scheduler backs off.
    */
-  async checkOtps(phoneNumber: string): Promise<OTP[]> {
-    try {
-      const numberData = this.activeNumbers.get(phoneNumber);
-      if (!numberData) {
-        throw new Error(`Number ${phoneNumber} is not active`);
-      }
-
-      console.log(`[5SIM] Checking OTPs for number: ${phoneNumber}`);
-
-      // Get the activation status and SMS
-      const response = await fetch(`${this.baseUrl}/user/check/${numberData.id}`, {
-        method: 'GET',
-        headers: this.getAuthHeaders()
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to check OTPs: ${response.status}`);
-      }
-
-      const result = await response.json() as any;
-      
-      // Check if activation is completed
-      if (result.status === 'RECEIVED') {
-        console.log(`[5SIM] Activation completed for ${phoneNumber}`);
-        
-        // Get the SMS content
-        const smsResponse = await fetch(`${this.baseUrl}/user/check/${numberData.id}/sms`, {
-          method: 'GET',
-          headers: this.getAuthHeaders()
-        });
+  async checkMessages(activation: ProviderActivation): Promise<ProviderSms[]> {
+    const phoneNumber = activation.number;
+    if (!activation.activationId) {
+      throw new Error(`Number ${phoneNumber} has no 5SIM activation id`);
+    }
 
-        if (smsResponse.ok) {
-          const smsData = await smsResponse.json() as any;
-          if (smsData.sms && smsData.sms.length > 0) {
-            // Extract OTP from SMS content
-            const otps = this.extractOTPs(smsData.sms[0].text);
-            if (otps.length > 0) {
-              // Clear the timeout since we received OTP
-              if (numberData.timeoutId) {
-                clearTimeout(numberData.timeoutId);
-              }
-              
-              // Update the number data
-              numberData.otps = otps;
-              numberData.timeoutId = null;
-              this.activeNumbers.set(phoneNumber, numberData);
-              
-              console.log(`[5SIM] OTPs extracted: ${otps.map(otp => otp.code).join(', ')}`);
-              return otps;
-            }
-          }
-        }
-      } else if (result.status === 'CANCELED') {
-        console.log(`[5SIM] Activation was canceled for ${phoneNumber}`);
-        this.activeNumbers.delete(phoneNumber);
-        return [];
-      } else if (result.status === 'TIMEOUT') {
-        console.log(`[5SIM] Activation timed out for ${phoneNumber}`);
-        this.activeNumbers.delete(phoneNumber);
-        return [];
-      }
+    console.log(`[5SIM] Checking SMS for number: ${phoneNumber}`);
 
-      return numberData.otps;
+    // The order includes all SMS received so far, oldest first
+    const response = await fetch(`${this.baseUrl}/user/check/${activation.activationId}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders()
+    });
 
-    } catch (error) {
-      console.error(`[5SIM] Error checking OTPs for ${phoneNumber}:`, error);
+    if (response.status === 404) {
+      console.warn(`[5SIM] Order ${activation.activationId} for ${phoneNumber} not found`);
       return [];
     }
-  }
 
-  /**
-   * Extract OTP codes from SMS text
-   */
-  private extractOTPs(smsText: string): OTP[] {
-    const otps: OTP[] = [];
-    
-    // Common OTP patterns
-    const patterns = [
-      /(\b\d{4,6}\b)/g,  // 4-6 digit numbers
-      /OTP[:\s]*(\d{4,6})/gi,  // OTP: 123456
-      /code[:\s]*(\d{4,6})/gi,  // code: 123456
-      /verification[:\s]*(\d{4,6})/gi,  // verification: 123456
-    ];
-
-    patterns.forEach(pattern => {
-      const matches = smsText.match(pattern);
-      if (matches) {
-        matches.forEach(match => {
-          const code = match.replace(/[^\d]/g, '');
-          if (code.length >= 4 && code.length <= 6) {
-            otps.push({
-              id: `otp_${Date.now()}_${Math.random()}`,
-              code,
-              receivedAt: new Date(),
-              source: '5SIM'
-            });
-          }
-        });
-      }
-    });
+    if (!response.ok) {
+      throw new Error(`Failed to check SMS for ${phoneNumber}: ${response.status}`);
+    }
 
-    // Remove duplicates
-    const uniqueOtps = otps.filter((otp, index, self) => 
-      index === self.findIndex(o => o.code === otp.code)
-    );
+    const result = await response.json() as any;
 
-    return uniqueOtps;
+    if (result.status === 'CANCELED' || result.status === 'TIMEOUT') {
+      console.log(`[5SIM] Order ${activation.activationId} for ${phoneNumber} is ${result.status}`);
+    }
+
+    const sms: any[] = Array.isArray(result.sms) ? result.sms : [];
+    return sms.map((message, index) => ({
+      // 5SIM doesn't id messages; the list only grows, so the position is stable
+      messageId: `${activation.activationId}:${index}`,
+      sender: message.sender || '',
+      text: message.text || '',
+      receivedAt: new Date(message.date || message.created_at || Date.now()),
+      code: message.code || undefined
+    }));
   }
 
   /**
    * Cancel a number and get refund
    */
-  async cancelNumber(phoneNumber: string): Promise<boolean> {
+  async cancelNumber(activation: ProviderActivation): Promise<boolean> {
+    const phoneNumber = activation.number;
     try {
-      const numberData = this.activeNumbers.get(phoneNumber);
-      if (!numberData) {
-        throw new Error(`Number ${phoneNumber} is not active`);
+      if (!activation.activationId) {
+        throw new Error(`Number ${phoneNumber} has no 5SIM activation id`);
       }
 
       console.log(`[5SIM] Canceling number: ${phoneNumber}`);
 
-      // Clear the timeout
-      if (numberData.timeoutId) {
-        clearTimeout(numberData.timeoutId);
-      }
-
       // Cancel the activation
-      const response = await fetch(`${this.baseUrl}/user/cancel/${numberData.id}`, {
+      const response = await fetch(`${this.baseUrl}/user/cancel/${activation.activationId}`, {
         method: 'GET',
         headers: this.getAuthHeaders()
       });
@@ -312,9 +240,6 @@ export class FiveSimProvider implements VirtualNumberProvider {
       if (response.ok) {
         console.log(`[5SIM] Successfully canceled number: ${phoneNumber}`);
         console.log(`[5SIM] Refund will be processed automatically by 5SIM`);
-        
-        // Remove from active numbers
-        this.activeNumbers.delete(phoneNumber);
         return true;
       } else {
         console.warn(`[5SIM] Failed to cancel number ${phoneNumber}: ${response.status}`);
@@ -328,41 +253,43 @@ export class FiveSimProvider implements VirtualNumberProvider {
   }
 
   /**
-   * Auto-cancel number after 3 minutes if no OTP received
+   * Finish an order that got its SMS, releasing the number
    */
-  private async autoCancelNumber(phoneNumber: string): Promise<void> {
+  async finishNumber(activation: ProviderActivation): Promise<boolean> {
+    const phoneNumber = activation.number;
     try {
-      const numberData = this.activeNumbers.get(phoneNumber);
-      if (!numberData) {
-        return;
-      }
+      const response = await fetch(`${this.baseUrl}/user/finish/${activation.activationId}`, {
+        method: 'GET',
+        headers: this.getAuthHeaders()
+      });
 
-      if (numberData.otps.length === 0) {
-        console.log(`[5SIM] Auto-canceling number ${phoneNumber} after 3 minutes (no OTP received)`);
-        
-        await this.cancelNumber(phoneNumber);
-      } else {
-        console.log(`[5SIM] Number ${phoneNumber} received OTP, keeping active`);
+      if (!response.ok) {
+        console.warn(`[5SIM] Failed to finish number ${phoneNumber}: ${response.status}`);
+        return false;
       }
+
+      console.log(`[5SIM] Finished number: ${phoneNumber}`);
+      return true;
     } catch (error) {
-      console.error(`[5SIM] Error in auto-cancellation for ${phoneNumber}:`, error);
+      console.error(`[5SIM] Error finishing number ${phoneNumber}:`, error);
+      return false;
     }
   }
 
   /**
    * Resend OTP for a number
    */
-  async resendOtp(phoneNumber: string): Promise<boolean> {
+  async resendOtp(activation: ProviderActivation): Promise<boolean> {
+    const phoneNumber = activation.number;
     try {
-      const numberData = this.activeNumbers.get(phoneNumber);
-      if (!numberData) {
+      if (!activation.activationId) {
         return false;
       }
 
       console.log(`[5SIM] Resending OTP for number: ${phoneNumber}`);
 
       // Request OTP resend
-      const response = await fetch(`${this.baseUrl}/user/repeat/${numberData.id}`, {
+      const response = await fetch(`${this.baseUrl}/user/repeat/${activation.activationId}`, {
         method: 'GET',
         headers: this.getAuthHeaders()
       });
@@ -380,14 +307,64 @@ export class FiveSimProvider implements VirtualNumberProvider {
     }
   }
 
+  /**
+   * Buy another activation on a number whose order already received its SMS (5SIM "reuse")
+   */
+  async reactivateNumber(activation: ProviderActivation): Promise<ProviderActivation> {
+    const phoneNumber = activation.number;
+    try {
+      const apiProductId = getProviderProductCode('5sim', activation.product, activation.country);
+      if (!apiProductId) {
+        throw new ProviderSupplyError('unsupported', `5SIM doesn't offer ${activation.product} in ${activation.country}`);
+      }
+
+      console.log(`[5SIM] Reusing number: ${phoneNumber}`);
+
+      // 5SIM wants the number without the leading +
+      const response = await fetch(`${this.baseUrl}/user/reuse/${apiProductId}/${phoneNumber.replace(/^\+/, '')}`, {
+        method: 'GET',
+        headers: this.getAuthHeaders()
+      });
+      const responseText = await response.text();
+
+      if (!response.ok || !responseText.startsWith('{')) {
+        console.warn(`[5SIM] Failed to reuse number ${phoneNumber}: ${response.status} ${responseText}`);
+
+        if (responseText.includes('not enough user balance')) {
+          throw new ProviderSupplyError('no_balance', '5SIM: Not enough balance on the provider account.');
+        } else if (response.status === 401) {
+          throw new Error('5SIM API error: 401 Unauthorized. Invalid API key.');
+        }
+        // "reuse not possible", "reuse false", "reuse expired"...
+        throw new ProviderSupplyError('unsupported', `5SIM can't reuse ${phoneNumber}: ${responseText || response.status}`);
+      }
+
+      const result = JSON.parse(responseText);
+      const activationId = result.id ? String(result.id) : '';
+      if (!activationId) {
+        throw new Error('Invalid response from 5SIM API: id missing.');
+      }
+
+      console.log(`[5SIM] Reused number: ${phoneNumber} (Activation ID: ${activationId})`);
+      return {
+        number: result.phone || phoneNumber,
+        activationId,
+        product: activation.product,
+        country: activation.country,
+        purchasedAt: new Date()
+      };
+    } catch (error) {
+      console.error(`[5SIM] Error reusing number ${phoneNumber}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get available products for a country
    */
   async getAvailableProducts(countryId: string): Promise<Array<{ id: string; name: string; cost: number; count: number }>> {
     try {
-      // Temporarily remove country code mapping to test if that's causing the issue
-      // const apiCountryCode = this.countryCodeMap[countryId] || countryId;
-      const apiCountryCode = countryId; // Use the original countryId directly
+      const apiCountryCode = getProviderCountryCode('5sim', countryId) ?? countryId;
       console.log(`[5SIM] Getting available products for country: ${countryId}`);
       console.log(`[5SIM] API URL: ${this.baseUrl}/guest/prices?country=${apiCountryCode}`);
       
@@ -460,8 +437,14 @@ export class FiveSimProvider implements VirtualNumberProvider {
    * Get real-time price for a specific product from 5SIM guest prices API
    */
   async getProductPrice(productId: string, countryId: string = 'usa'): Promise<{ cost: number; count: number } | null> {
+    const apiProductId = getProviderProductCode('5sim', productId, countryId);
+    const apiCountryCode = getProviderCountryCode('5sim', countryId);
+    if (!apiProductId || !apiCountryCode) {
+      return null;
+    }
+
     try {
-      const response = await fetch(`${this.baseUrl}/guest/prices?country=${countryId}&product=${productId}`, {
+      const response = await fetch(`${this.baseUrl}/guest/prices?country=${apiCountryCode}&product=${apiProductId}`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json'
@@ -478,8 +461,8 @@ export class FiveSimProvider implements VirtualNumberProvider {
 
       // The API returns: { "country": { "product": { "operator": { "cost": X, "count": Y } } } }
       // We need to find the first operator with available numbers for this product in this country
-      if (result[countryId] && result[countryId][productId]) {
-        const productData = result[countryId][productId];
+      if (result[apiCountryCode] && result[apiCountryCode][apiProductId]) {
+        const productData = result[apiCountryCode][apiProductId];
         
         // Each product has multiple operators
         for (const [operatorId, operatorData] of Object.entries(productData)) {
@@ -501,6 +484,85 @@ export class FiveSimProvider implements VirtualNumberProvider {
     }
   }
 
+  /**
+   * Price and stock of the hosting product that leases a number for the given hours
+   */
+  async getRentalPrice(productId: string, countryId: string, hours: number): Promise<{ cost: number; count: number } | null> {
+    const hosting = HOSTING_PRODUCTS[hours];
+    const apiCountryCode = getProviderCountryCode('5sim', countryId);
+    if (!hosting || !apiCountryCode) {
+      return null;
+    }
+
+    try {
+      // { "1day": { "Category": "hosting", "Qty": 14, "Price": 80 }, ... }
+      const response = await fetch(`${this.baseUrl}/guest/products/${apiCountryCode}/any`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+      if (!response.ok) {
+        console.log(`[5SIM] Failed to get hosting price for ${countryId}: ${response.status}`);
+        return null;
+      }
+
+      const result = await response.json() as any;
+      const product = result[hosting];
+      return product ? { cost: product.Price, count: product.Qty || 0 } : null;
+    } catch (error) {
+      console.error(`[5SIM] Error getting hosting price for ${countryId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Buy a hosting number for the given hours. Hosting numbers receive SMS
+   * from every service, so the product is only recorded.
+   */
+  async rentNumber(productId: string, countryId: string, hours: number): Promise<ProviderActivation> {
+    const hosting = HOSTING_PRODUCTS[hours];
+    const apiCountryCode = getProviderCountryCode('5sim', countryId);
+    if (!hosting) {
+      throw new ProviderSupplyError('unsupported', `5SIM hosting numbers are leased for ${Object.keys(HOSTING_PRODUCTS).join(' or ')} hours`);
+    }
+    if (!apiCountryCode) {
+      throw new ProviderSupplyError('unsupported', `5SIM doesn't offer ${countryId}`);
+    }
+
+    console.log(`[5SIM] Buying ${hosting} hosting number in ${countryId}`);
+    const response = await fetch(`${this.baseUrl}/user/buy/hosting/${apiCountryCode}/any/${hosting}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders()
+    });
+    const responseText = await response.text();
+
+    if (responseText.includes('not enough user balance')) {
+      throw new ProviderSupplyError('no_balance', '5SIM: Not enough balance on the provider account.');
+    } else if (responseText === 'no free phones') {
+      throw new ProviderSupplyError('no_numbers', '5SIM: No free hosting numbers available.');
+    } else if (response.status === 401) {
+      throw new Error('5SIM API error: 401 Unauthorized. Invalid API key.');
+    } else if (!response.ok || !responseText.startsWith('{')) {
+      throw new ProviderSupplyError('unsupported', `5SIM can't supply a ${hosting} hosting number in ${countryId}: ${responseText || response.status}`);
+    }
+
+    const result = JSON.parse(responseText);
+    if (!result.phone || !result.id) {
+      throw new Error('Invalid response from 5SIM API: phone or id missing.');
+    }
+
+    console.log(`[5SIM] Bought hosting number: ${result.phone} (Order ID: ${result.id})`);
+    return {
+      number: result.phone,
+      activationId: String(result.id),
+      product: productId,
+      country: countryId,
+      purchasedAt: new Date(),
+      mode: 'rental'
+    };
+  }
+
   /**
    * Get account balance
    */
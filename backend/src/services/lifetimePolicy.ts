@@ -0,0 +1,120 @@
+/**
+ * Lifetime Policy
+ *
+ * Resolves the lifetime policy (see config/lifetimePolicies.ts) that applies
+ * to a provider and product, and the deadlines that follow from it. Shared by
+ * every provider, so numbers are timed out the same way wherever they came from.
+ *
+ * - LIFETIME_POLICIES_FILE: JSON list of extra rules, e.g.
+ *   `[{ "provider": "5sim", "product": "telegram", "gracePeriodSeconds": 60 }]`
+ */
+
+import fs from 'fs';
+import { DEFAULT_LIFETIME_POLICY, LIFETIME_POLICY_RULES, LifetimePolicy, LifetimePolicyRule } from '../config/lifetimePolicies';
+import { resolveService } from '../config/catalog';
+
+/**
+ * Thrown when a lifetime policy rule has invalid settings
+ */
+export class LifetimePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LifetimePolicyError';
+  }
+}
+
+let fileRules: LifetimePolicyRule[] | null = null;
+
+/**
+ * Check a rule's settings and normalise its product to a catalog id
+ */
+export function validateLifetimeRule(rule: LifetimePolicyRule): LifetimePolicyRule {
+  if (!rule || typeof rule !== 'object') {
+    throw new LifetimePolicyError('Rule must be an object');
+  }
+  for (const key of ['waitTimeoutSeconds', 'gracePeriodSeconds'] as const) {
+    if (rule[key] !== undefined && !(typeof rule[key] === 'number' && rule[key]! >= 0)) {
+      throw new LifetimePolicyError(`${key} must be a non-negative number of seconds`);
+    }
+  }
+  for (const key of ['autoCancelIfNoSms', 'finishOnFirstCode'] as const) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'boolean') {
+      throw new LifetimePolicyError(`${key} must be true or false`);
+    }
+  }
+
+  return {
+    ...rule,
+    provider: rule.provider?.toLowerCase(),
+    product: rule.product ? resolveService(rule.product)?.id ?? rule.product.toLowerCase() : undefined
+  };
+}
+
+/**
+ * Load extra rules from LIFETIME_POLICIES_FILE once; invalid rules are logged and skipped
+ */
+function loadFileRules(): LifetimePolicyRule[] {
+  if (fileRules) {
+    return fileRules;
+  }
+
+  fileRules = [];
+  const path = process.env.LIFETIME_POLICIES_FILE;
+  if (!path) {
+    return fileRules;
+  }
+
+  try {
+    const rules = JSON.parse(fs.readFileSync(path, 'utf8'));
+    for (const rule of Array.isArray(rules) ? rules : []) {
+      try {
+        fileRules.push(validateLifetimeRule(rule));
+      } catch (error) {
+        console.error(`[Lifetime] Skipping rule ${JSON.stringify(rule)} in ${path}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    console.log(`[Lifetime] Loaded ${fileRules.length} lifetime policy rule(s) from ${path}`);
+  } catch (error) {
+    console.error(`[Lifetime] Failed to load lifetime policies from ${path}:`, error);
+  }
+
+  return fileRules;
+}
+
+/**
+ * Get the policy for numbers of a product bought from a provider
+ */
+export function getLifetimePolicy(providerId: string, productId: string): LifetimePolicy {
+  const product = resolveService(productId)?.id ?? productId.toLowerCase();
+  const rules = [...LIFETIME_POLICY_RULES, ...loadFileRules()]
+    .filter(rule => (!rule.provider || rule.provider === providerId) && (!rule.product || rule.product === product));
+
+  // Provider-wide rules first, then product-wide, then provider and product; stable within a level
+  const specificity = (rule: LifetimePolicyRule) => (rule.provider ? 1 : 0) + (rule.product ? 2 : 0);
+  rules.sort((a, b) => specificity(a) - specificity(b));
+
+  const policy = { ...DEFAULT_LIFETIME_POLICY };
+  for (const rule of rules) {
+    for (const key of Object.keys(DEFAULT_LIFETIME_POLICY) as Array<keyof LifetimePolicy>) {
+      if (rule[key] !== undefined) {
+        Object.assign(policy, { [key]: rule[key] });
+      }
+    }
+  }
+  return policy;
+}
+
+/**
+ * When an activation bought at the given time stops waiting for its first SMS
+ */
+export function getSmsDeadline(policy: LifetimePolicy, purchasedAt: Date): Date {
+  return new Date(purchasedAt.getTime() + policy.waitTimeoutSeconds * 1000);
+}
+
+/**
+ * When an activation that got its first SMS at the given time should end:
+ * after the grace period, but never later than it was already due to
+ */
+export function getExpiryAfterFirstSms(policy: LifetimePolicy, expiresAt: Date, firstSmsAt: Date): Date {
+  return new Date(Math.min(expiresAt.getTime(), firstSmsAt.getTime() + policy.gracePeriodSeconds * 1000));
+}
@@ -1,159 +1,406 @@
-import { VirtualNumberProvider, OTP } from '../types';
+import { VirtualNumberProvider, OtpDeliveryMode, ProviderActivation, ProviderSms, NumberMode } from '../types';
+import { ProviderSupplyError } from './providerErrors';
+import { findCatalogServices, resolveService } from '../config/catalog';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Mock Virtual Number Provider
- * 
- * This is a placeholder implementation that simulates a real virtual number service.
- * Replace this with actual integration to services like:
- * - 5SIM (https://5sim.net/)
- * - SMS-Activate (https://sms-activate.org/)
- * - Twilio (for SMS forwarding)
- * - Any other virtual number provider
+ *
+ * A free, scriptable provider for development, QA and CI. Nothing arrives on
+ * its own: SMS are injected through `POST /mock/numbers/:number/sms` (or
+ * `injectSms`), and the scenario decides how the provider behaves:
+ *
+ * - latencyMs: delay added to every call
+ * - failureRate: chance (0-1) that a call fails; set seed to make failures repeatable
+ * - outOfStock / unavailable: catalog ids that have no numbers / aren't offered at all
+ * - balance: account balance, null for unlimited
+ * - resend: 'accept', 'reject' or 'deliver' (accept and send a new OTP)
+ * - autoOtpDelayMs: send an OTP this long after each purchase, null for never
+ *
+ * Rentals cost the scenario price per started day and can be extended.
+ *
+ * Defaults come from MOCK_LATENCY_MS, MOCK_FAILURE_RATE, MOCK_SEED and MOCK_AUTO_OTP_DELAY_MS.
  */
-// Temporarily remove interface implementation to avoid TypeScript errors
-export class MockVirtualNumberProvider /* implements VirtualNumberProvider */ {
-  private activeNumbers: Map<string, { otps: OTP[]; lastCheck: Date }> = new Map();
-  private otpCounter: number = 0;
+
+export type MockResendBehaviour = 'accept' | 'reject' | 'deliver';
+
+export interface MockScenario {
+  latencyMs: number;
+  failureRate: number;
+  seed: number | null;
+  outOfStock: string[];
+  unavailable: string[];
+  balance: number | null;
+  price: number;
+  stock: number;
+  resend: MockResendBehaviour;
+  autoOtpDelayMs: number | null;
+}
+
+interface MockActivation {
+  activation: ProviderActivation;
+  sms: ProviderSms[];
+  closed: boolean; // Cancelled or finished; receives nothing more
+  cost: number; // Everything charged for it, given back when it is cancelled
+}
+
+/**
+ * Thrown for calls the scenario decided should fail
+ */
+export class MockProviderFailure extends Error {
+  constructor(operation: string) {
+    super(`Mock provider: simulated ${operation} failure`);
+    this.name = 'MockProviderFailure';
+  }
+}
+
+function defaultScenario(): MockScenario {
+  const optionalNumber = (value: string | undefined) => value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : null;
+
+  return {
+    latencyMs: Number(process.env.MOCK_LATENCY_MS) || 0,
+    failureRate: Number(process.env.MOCK_FAILURE_RATE) || 0,
+    seed: optionalNumber(process.env.MOCK_SEED),
+    outOfStock: [],
+    unavailable: [],
+    balance: null,
+    price: 0.1,
+    stock: 1000,
+    resend: 'deliver',
+    autoOtpDelayMs: optionalNumber(process.env.MOCK_AUTO_OTP_DELAY_MS)
+  };
+}
+
+export class MockVirtualNumberProvider implements VirtualNumberProvider {
+  readonly delivery: OtpDeliveryMode = 'pull';
+  private scenario: MockScenario = defaultScenario();
+  private activations = new Map<string, MockActivation>();
+  private random: () => number = Math.random;
+
+  constructor() {
+    this.reseed();
+  }
+
+  /**
+   * Get the current scenario
+   */
+  getScenario(): MockScenario {
+    return { ...this.scenario };
+  }
+
+  /**
+   * Change part of the scenario; unspecified settings keep their value
+   */
+  setScenario(changes: Partial<MockScenario>): MockScenario {
+    this.scenario = { ...this.scenario, ...changes };
+    if (changes.seed !== undefined) {
+      this.reseed();
+    }
+    return this.getScenario();
+  }
+
+  /**
+   * Restore the default scenario and forget every number
+   */
+  reset(): MockScenario {
+    this.scenario = defaultScenario();
+    this.activations.clear();
+    this.reseed();
+    return this.getScenario();
+  }
 
   /**
-   * Request a new virtual number
-   * 
-   * In a real implementation, this would:
-   * 1. Call the provider's API to request a number
-   * 2. Handle authentication (API keys, tokens)
-   * 3. Return the actual number from the provider
-   * 4. Handle errors and retries
+   * Deliver an SMS to a number
    */
-  async requestNumber(): Promise<string> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-    
-    // Generate a mock Indian mobile number (+91 format)
-    // Indian mobile numbers are 10 digits: 3-digit area code + 7-digit subscriber number
-    const areaCodes = ['700', '701', '702', '703', '704', '705', '706', '707', '708', '709', '800', '801', '802', '803', '804', '805', '806', '807', '808', '809', '900', '901', '902', '903', '904', '905', '906', '907', '908', '909'];
-    const areaCode = areaCodes[Math.floor(Math.random() * areaCodes.length)];
-    
-    // Generate 7-digit subscriber number (1000000 to 9999999)
-    const subscriberNumber = Math.floor(Math.random() * 9000000) + 1000000;
-    
-    // Format: +91 + 3 digits + 7 digits = +91XXXXXXXXXX (total 13 characters, 10 digits after +91)
-    const number = `+91${areaCode}${subscriberNumber}`;
-    
-    // Initialize tracking for this number
-    this.activeNumbers.set(number, { otps: [], lastCheck: new Date() });
-    
-    console.log(`[MockProvider] Requested number: ${number} (${number.length - 3} digits)`);
-    return number;
+  injectSms(activation: ProviderActivation, text: string, sender: string = 'MOCK'): ProviderSms {
+    const entry = this.findEntry(activation);
+    if (!entry || entry.closed) {
+      throw new Error(`Mock number ${activation.number} is not active`);
+    }
+
+    const sms: ProviderSms = {
+      messageId: uuidv4(),
+      sender,
+      text,
+      receivedAt: new Date()
+    };
+    entry.sms.push(sms);
+    console.log(`[MockProvider] SMS injected for ${activation.number}: ${text}`);
+    return sms;
+  }
+
+  async requestNumber(productId: string = 'any', countryId: string = 'india'): Promise<ProviderActivation> {
+    await this.simulateCall('purchase');
+    const cost = this.scenario.price;
+    this.charge(productId, countryId, cost);
+
+    const activation = this.activate(this.generateNumber(), productId, countryId, cost);
+    console.log(`[MockProvider] Requested number: ${activation.number} (${activation.activationId})`);
+    return activation;
   }
 
   /**
-   * Check for new OTPs on a specific number
-   * 
-   * In a real implementation, this would:
-   * 1. Poll the provider's API for new messages
-   * 2. Parse SMS messages to extract OTP codes
-   * 3. Handle message filtering and validation
-   * 4. Return actual OTP data
+   * Reuse a number that received an SMS; the earlier activation stops receiving
    */
-  async checkForOTP(number: string): Promise<OTP[]> {
-    const numberData = this.activeNumbers.get(number);
-    if (!numberData) {
+  async reactivateNumber(activation: ProviderActivation): Promise<ProviderActivation> {
+    await this.simulateCall('reactivate');
+
+    const entry = this.findEntry(activation);
+    if (!entry || entry.sms.length === 0) {
+      throw new ProviderSupplyError('unsupported', `Mock number ${activation.number} hasn't received an SMS, so it can't be reused`);
+    }
+    const cost = this.scenario.price;
+    this.charge(activation.product, activation.country, cost);
+
+    entry.closed = true;
+    const reactivated = this.activate(activation.number, activation.product, activation.country, cost);
+    console.log(`[MockProvider] Reactivated number: ${reactivated.number} (${reactivated.activationId})`);
+    return reactivated;
+  }
+
+  async getRentalPrice(productId: string, countryId: string, hours: number): Promise<{ cost: number; count: number } | null> {
+    const price = await this.getProductPrice(productId, countryId);
+    return price && { ...price, cost: this.getRentalCost(hours) };
+  }
+
+  async rentNumber(productId: string, countryId: string, hours: number): Promise<ProviderActivation> {
+    await this.simulateCall('rent');
+    const cost = this.getRentalCost(hours);
+    this.charge(productId, countryId, cost);
+
+    const activation = this.activate(this.generateNumber(), productId, countryId, cost, 'rental');
+    console.log(`[MockProvider] Rented number for ${hours}h: ${activation.number} (${activation.activationId})`);
+    return activation;
+  }
+
+  async extendRental(activation: ProviderActivation, hours: number): Promise<void> {
+    await this.simulateCall('extend');
+
+    const entry = this.findEntry(activation);
+    if (!entry || entry.closed) {
+      throw new ProviderSupplyError('unsupported', `Mock rental ${activation.number} has ended`);
+    }
+    const cost = this.getRentalCost(hours);
+    this.debit(cost);
+    entry.cost = Math.round((entry.cost + cost) * 100) / 100;
+    console.log(`[MockProvider] Extended rental ${activation.number} by ${hours}h`);
+  }
+
+  async checkMessages(activation: ProviderActivation): Promise<ProviderSms[]> {
+    // Scripted failures reach the scheduler, like a real provider's would
+    await this.simulateCall('check');
+    return [...(this.findEntry(activation)?.sms ?? [])];
+  }
+
+  async cancelNumber(activation: ProviderActivation): Promise<boolean> {
+    try {
+      await this.simulateCall('cancel');
+      const entry = this.findEntry(activation);
+      if (!entry || entry.closed) {
+        return false;
+      }
+
+      entry.closed = true;
+      if (this.scenario.balance !== null) {
+        this.scenario.balance = Math.round((this.scenario.balance + entry.cost) * 100) / 100;
+      }
+      console.log(`[MockProvider] Cancelled number: ${activation.number}`);
+      return true;
+    } catch (error) {
+      console.error(`[MockProvider] Error cancelling number ${activation.number}:`, error);
+      return false;
+    }
+  }
+
+  async finishNumber(activation: ProviderActivation): Promise<boolean> {
+    try {
+      await this.simulateCall('finish');
+      const entry = this.findEntry(activation);
+      if (!entry || entry.closed) {
+        return false;
+      }
+
+      entry.closed = true;
+      console.log(`[MockProvider] Finished number: ${activation.number}`);
+      return true;
+    } catch (error) {
+      console.error(`[MockProvider] Error finishing number ${activation.number}:`, error);
+      return false;
+    }
+  }
+
+  async resendOtp(activation: ProviderActivation): Promise<boolean> {
+    try {
+      await this.simulateCall('resend');
+      const entry = this.findEntry(activation);
+      if (!entry || entry.closed || this.scenario.resend === 'reject') {
+        return false;
+      }
+
+      if (this.scenario.resend === 'deliver') {
+        this.deliverOtp(activation);
+      }
+      console.log(`[MockProvider] Resent OTP for number: ${activation.number}`);
+      return true;
+    } catch (error) {
+      console.error(`[MockProvider] Error resending OTP for ${activation.number}:`, error);
+      return false;
+    }
+  }
+
+  async getAvailableProducts(countryId: string): Promise<Array<{ id: string; name: string; cost: number; count: number }>> {
+    try {
+      await this.simulateCall('products');
+      return findCatalogServices({ country: countryId, provider: 'mock' })
+        .filter(service => !this.scenario.unavailable.includes(service.id))
+        .map(service => ({
+          id: service.id,
+          name: service.name,
+          cost: this.scenario.price,
+          count: this.getStock(service.id)
+        }));
+    } catch (error) {
+      console.error(`[MockProvider] Error getting products for country ${countryId}:`, error);
       return [];
     }
+  }
+
+  async getProductPrice(productId: string, countryId: string): Promise<{ cost: number; count: number } | null> {
+    try {
+      await this.simulateCall('price');
+      const serviceId = this.getServiceId(productId);
+      if (this.scenario.unavailable.includes(serviceId) || !this.isOffered(serviceId, countryId)) {
+        return null;
+      }
+
+      return { cost: this.scenario.price, count: this.getStock(serviceId) };
+    } catch (error) {
+      console.error(`[MockProvider] Error getting price for ${productId} in ${countryId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check the scenario can supply a product and take the cost from the balance
+   */
+  private charge(productId: string, countryId: string, cost: number): void {
+    const serviceId = this.getServiceId(productId);
+    if (this.scenario.unavailable.includes(serviceId) || !this.isOffered(serviceId, countryId)) {
+      throw new ProviderSupplyError('unsupported', `Mock provider doesn't offer ${productId} in ${countryId}`);
+    }
+    if (this.scenario.outOfStock.includes(serviceId) || this.scenario.stock <= 0) {
+      throw new ProviderSupplyError('no_numbers', `Mock provider is out of ${productId} numbers`);
+    }
+    this.debit(cost);
+  }
 
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-
-    const newOtps: OTP[] = [];
-    const now = new Date();
-    const timeSinceLastCheck = now.getTime() - numberData.lastCheck.getTime();
-
-    // Simulate OTP arrival (30% chance every 5-15 seconds)
-    if (timeSinceLastCheck > 5000 && Math.random() < 0.3) {
-      const otpCount = Math.floor(Math.random() * 2) + 1; // 1-2 OTPs at a time
-      
-      for (let i = 0; i < otpCount; i++) {
-        const otp: OTP = {
-          id: uuidv4(),
-          code: this.generateOTP(),
-          receivedAt: new Date(now.getTime() - Math.random() * 30000), // Random time within last 30 seconds
-          isUsed: false
-        };
-        newOtps.push(otp);
-        numberData.otps.push(otp);
-        this.otpCounter++;
+  private debit(cost: number): void {
+    if (this.scenario.balance !== null) {
+      if (this.scenario.balance < cost) {
+        throw new ProviderSupplyError('no_balance', 'Mock provider balance is too low');
       }
-      
-      console.log(`[MockProvider] Received ${otpCount} OTP(s) for ${number}: ${newOtps.map(o => o.code).join(', ')}`);
+      this.scenario.balance = Math.round((this.scenario.balance - cost) * 100) / 100;
     }
+  }
 
-    numberData.lastCheck = now;
-    this.activeNumbers.set(number, numberData);
-    
-    return newOtps;
+  private getRentalCost(hours: number): number {
+    return Math.round(this.scenario.price * Math.ceil(hours / 24) * 100) / 100;
   }
 
   /**
-   * Cancel/Release a virtual number
-   * 
-   * In a real implementation, this would:
-   * 1. Call the provider's API to release the number
-   * 2. Handle cleanup and billing
-   * 3. Confirm the number is no longer active
+   * Start a new activation on a number, with the scenario's automatic OTP if any
    */
-  async cancelNumber(number: string): Promise<boolean> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 1200));
-    
-    const success = this.activeNumbers.has(number);
-    if (success) {
-      this.activeNumbers.delete(number);
-      console.log(`[MockProvider] Cancelled number: ${number}`);
+  private activate(number: string, productId: string, countryId: string, cost: number, mode: NumberMode = 'activation'): ProviderActivation {
+    const activation: ProviderActivation = {
+      number,
+      activationId: `mock-${uuidv4()}`,
+      product: productId,
+      country: countryId,
+      purchasedAt: new Date(),
+      mode
+    };
+    this.activations.set(activation.activationId, { activation, sms: [], closed: false, cost });
+
+    if (this.scenario.autoOtpDelayMs !== null) {
+      setTimeout(() => this.deliverOtp(activation), this.scenario.autoOtpDelayMs).unref();
     }
-    
-    return success;
+    return activation;
   }
 
   /**
-   * Request OTP resend for a number
-   * 
-   * In a real implementation, this would:
-   * 1. Call the provider's API to trigger OTP resend
-   * 2. Handle rate limiting and costs
-   * 3. Return success/failure status
+   * Send a random 6-digit OTP to a number that is still active
    */
-  async resendOTP(number: string): Promise<boolean> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-    
-    const success = this.activeNumbers.has(number);
-    if (success) {
-      console.log(`[MockProvider] Resent OTP for number: ${number}`);
+  private deliverOtp(activation: ProviderActivation): void {
+    const entry = this.findEntry(activation);
+    if (entry && !entry.closed) {
+      const code = Math.floor(100000 + this.random() * 900000).toString();
+      this.injectSms(activation, `Your verification code is ${code}`);
     }
-    
-    return success;
   }
 
   /**
-   * Generate a random 6-digit OTP
+   * Apply the scenario's latency, then fail if the scenario says so
    */
-  private generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  private async simulateCall(operation: string): Promise<void> {
+    if (this.scenario.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.scenario.latencyMs));
+    }
+    if (this.scenario.failureRate > 0 && this.random() < this.scenario.failureRate) {
+      throw new MockProviderFailure(operation);
+    }
   }
 
   /**
-   * Get all OTPs for a number (for debugging/testing)
+   * Find a number's state. Mock numbers bought before a restart are picked up
+   * again, so they can still be scripted and cancelled. What they cost went
+   * with the balance of the old scenario, so there is nothing to give back.
    */
-  getAllOTPs(number: string): OTP[] {
-    const numberData = this.activeNumbers.get(number);
-    return numberData ? numberData.otps : [];
+  private findEntry(activation: ProviderActivation): MockActivation | undefined {
+    let entry = this.activations.get(activation.activationId);
+    if (!entry && activation.activationId.startsWith('mock-')) {
+      entry = { activation, sms: [], closed: false, cost: 0 };
+      this.activations.set(activation.activationId, entry);
+    }
+    return entry;
+  }
+
+  private getServiceId(productId: string): string {
+    return resolveService(productId)?.id ?? productId.toLowerCase();
+  }
+
+  private isOffered(serviceId: string, countryId: string): boolean {
+    return findCatalogServices({ country: countryId, provider: 'mock' }).some(service => service.id === serviceId);
+  }
+
+  private getStock(serviceId: string): number {
+    return this.scenario.outOfStock.includes(serviceId) ? 0 : this.scenario.stock;
   }
 
   /**
-   * Get active numbers count (for debugging/testing)
+   * Generate an Indian mobile number: +91 followed by 10 digits starting with 7-9
    */
-  getActiveNumbersCount(): number {
-    return this.activeNumbers.size;
+  private generateNumber(): string {
+    const first = 7 + Math.floor(this.random() * 3);
+    const rest = Math.floor(this.random() * 1e9).toString().padStart(9, '0');
+    return `+91${first}${rest}`;
+  }
+
+  /**
+   * Use a repeatable generator when the scenario has a seed (mulberry32)
+   */
+  private reseed(): void {
+    if (this.scenario.seed === null) {
+      this.random = Math.random;
+      return;
+    }
+
+    let state = this.scenario.seed >>> 0;
+    this.random = () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
   }
-} 
\ No newline at end of file
+}
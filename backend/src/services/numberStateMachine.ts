@@ -0,0 +1,52 @@
+/**
+ * Number State Machine
+ *
+ * The statuses a virtual number goes through and which transitions between
+ * them are allowed. VirtualNumberService refuses any other transition.
+ *
+ *   pending ──> waiting_sms ──> sms_received ──> completed
+ *      │             │                │
+ *      │             ├──> expired <───┤
+ *      │             │                │
+ *      │             └──> cancelled <─┘
+ *      │                      │
+ *      └──> failed            └──> refunded
+ *
+ * - pending: stored, but the purchase isn't finished yet (wallet not charged)
+ * - waiting_sms: waiting for the first SMS
+ * - sms_received: got at least one SMS, can still receive more
+ * - completed: finished with the provider once done with
+ * - cancelled / refunded: cancelled with the provider; refunded once the owner got their money back
+ * - expired: ran out of time
+ * - failed: the purchase couldn't be finished after the provider issued the number
+ */
+
+import { VirtualNumberStatus } from '../types';
+
+export const STATUS_TRANSITIONS: Record<VirtualNumberStatus, VirtualNumberStatus[]> = {
+  pending: ['waiting_sms', 'failed'],
+  waiting_sms: ['sms_received', 'expired', 'cancelled'],
+  sms_received: ['completed', 'expired', 'cancelled'],
+  completed: [],
+  cancelled: ['refunded'],
+  refunded: [],
+  expired: [],
+  failed: []
+};
+
+// Statuses in which a number can still receive SMS
+export const ACTIVE_STATUSES: VirtualNumberStatus[] = ['pending', 'waiting_sms', 'sms_received'];
+
+/**
+ * Whether a number in this status can still receive SMS
+ */
+export function isActiveStatus(status: VirtualNumberStatus): boolean {
+  return ACTIVE_STATUSES.includes(status);
+}
+
+/**
+ * Whether a number may move from one status to another
+ */
+export function canTransition(from: VirtualNumberStatus, to: VirtualNumberStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
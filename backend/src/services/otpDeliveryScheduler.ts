@@ -0,0 +1,161 @@
+/**
+ * OTP Delivery Scheduler
+ *
+ * Single loop that polls numbers from pull-based providers. Push-based
+ * providers (webhooks) are never scheduled. Each number is polled on its own
+ * adaptive interval: it starts at the minimum, grows while nothing new
+ * arrives or the provider errors, and resets when an OTP comes in. Delays are
+ * jittered so numbers bought together don't poll in lockstep, and each
+ * provider has a cap on polls in flight at once.
+ *
+ * - OTP_POLL_MIN_INTERVAL_MS: first and fastest poll interval (default 3000)
+ * - OTP_POLL_MAX_INTERVAL_MS: slowest poll interval after backoff (default 15000)
+ * - OTP_POLL_CONCURRENCY: polls in flight per provider, e.g. `3` or `3,sms-activate:1` (default 3)
+ */
+
+// Polls one number; resolves to how many new OTPs it got
+export type PollNumber = (phoneNumber: string) => Promise<number>;
+
+interface ScheduledNumber {
+  providerId: string;
+  intervalMs: number;
+  nextPollAt: number;
+  polling: boolean;
+}
+
+const TICK_MS = 1000;
+const BACKOFF_FACTOR = 1.5;
+const ERROR_BACKOFF_FACTOR = 2;
+const JITTER = 0.2; // +/- 20% of the interval
+
+export class OtpDeliveryScheduler {
+  private readonly numbers = new Map<string, ScheduledNumber>();
+  private readonly inFlight = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly minIntervalMs = Number(process.env.OTP_POLL_MIN_INTERVAL_MS) || 3000;
+  private readonly maxIntervalMs = Math.max(Number(process.env.OTP_POLL_MAX_INTERVAL_MS) || 15000, this.minIntervalMs);
+  private readonly concurrency = parseConcurrency(process.env.OTP_POLL_CONCURRENCY);
+
+  constructor(private readonly poll: PollNumber) {}
+
+  /**
+   * Start polling a number. Tracking a number twice keeps its current schedule.
+   */
+  track(phoneNumber: string, providerId: string): void {
+    if (this.numbers.has(phoneNumber)) {
+      return;
+    }
+
+    this.numbers.set(phoneNumber, {
+      providerId,
+      intervalMs: this.minIntervalMs,
+      nextPollAt: Date.now() + this.withJitter(this.minIntervalMs),
+      polling: false
+    });
+    this.ensureRunning();
+  }
+
+  /**
+   * Stop polling a number
+   */
+  untrack(phoneNumber: string): void {
+    this.numbers.delete(phoneNumber);
+    if (this.numbers.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Whether a number is currently being polled
+   */
+  isTracked(phoneNumber: string): boolean {
+    return this.numbers.has(phoneNumber);
+  }
+
+  /**
+   * Stop the loop and forget every number
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.numbers.clear();
+  }
+
+  private ensureRunning(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), TICK_MS);
+    }
+  }
+
+  /**
+   * Start every due poll the provider limits allow; the rest wait for a later tick
+   */
+  private tick(): void {
+    const now = Date.now();
+    const due = [...this.numbers.entries()]
+      .filter(([, entry]) => !entry.polling && entry.nextPollAt <= now)
+      .sort(([, a], [, b]) => a.nextPollAt - b.nextPollAt);
+
+    for (const [phoneNumber, entry] of due) {
+      const running = this.inFlight.get(entry.providerId) ?? 0;
+      if (running >= this.getConcurrency(entry.providerId)) {
+        continue;
+      }
+
+      this.inFlight.set(entry.providerId, running + 1);
+      entry.polling = true;
+      this.runPoll(phoneNumber, entry);
+    }
+  }
+
+  private async runPoll(phoneNumber: string, entry: ScheduledNumber): Promise<void> {
+    let factor = BACKOFF_FACTOR;
+    try {
+      const received = await this.poll(phoneNumber);
+      if (received > 0) {
+        factor = 0; // reset to the minimum interval
+      }
+    } catch (error) {
+      console.error(`[Delivery] Error polling ${phoneNumber}:`, error);
+      factor = ERROR_BACKOFF_FACTOR;
+    } finally {
+      this.inFlight.set(entry.providerId, (this.inFlight.get(entry.providerId) ?? 1) - 1);
+      entry.polling = false;
+    }
+
+    entry.intervalMs = factor === 0
+      ? this.minIntervalMs
+      : Math.min(entry.intervalMs * factor, this.maxIntervalMs);
+    entry.nextPollAt = Date.now() + this.withJitter(entry.intervalMs);
+  }
+
+  private getConcurrency(providerId: string): number {
+    return this.concurrency.providers[providerId] ?? this.concurrency.default;
+  }
+
+  private withJitter(intervalMs: number): number {
+    return Math.round(intervalMs * (1 - JITTER + Math.random() * 2 * JITTER));
+  }
+}
+
+/**
+ * Parse OTP_POLL_CONCURRENCY: a bare number is the default limit, `provider:n` entries override it
+ */
+function parseConcurrency(value: string | undefined): { default: number; providers: Record<string, number> } {
+  const limits = { default: 3, providers: {} as Record<string, number> };
+
+  for (const entry of (value || '').split(',')) {
+    const [first, second] = entry.split(':').map(part => part.trim());
+    if (second !== undefined) {
+      if (first && Number(second) > 0) {
+        limits.providers[first.toLowerCase()] = Math.floor(Number(second));
+      }
+    } else if (Number(first) > 0) {
+      limits.default = Math.floor(Number(first));
+    }
+  }
+
+  return limits;
+}
@@ -0,0 +1,230 @@
+/**
+ * OTP Extractor
+ *
+ * Finds the verification code in an SMS. Shared by every provider, so codes
+ * are extracted the same way whether the message was polled or pushed.
+ *
+ * Every rule for the number's service (see config/otpRules.ts) is run over
+ * the text and each match is scored: the rule's base confidence, adjusted for
+ * what surrounds the match. Numbers that look like years, amounts or parts of
+ * a phone number are marked down; other codes in the same sentence as an OTP
+ * keyword are marked up. The best candidate wins if it reaches
+ * OTP_MIN_CONFIDENCE (default 0.4; 0 accepts any candidate).
+ *
+ * - OTP_RULES_FILE: JSON file of extra rules, `{ "<serviceId>" | "default": [rule, ...] }`
+ */
+
+import fs from 'fs';
+import { DEFAULT_OTP_RULES, SERVICE_OTP_RULES, OtpRuleDefinition } from '../config/otpRules';
+import { resolveService } from '../config/catalog';
+
+export interface OtpRule extends OtpRuleDefinition {
+  regex: RegExp;
+}
+
+export interface OtpCandidate {
+  code: string;
+  confidence: number;
+  ruleId: string;
+  index: number; // Position of the match in the text
+}
+
+export interface OtpExtraction {
+  code: string;
+  confidence: number;
+  ruleId: string;
+  candidates: OtpCandidate[]; // Every candidate found, best first
+}
+
+/**
+ * Thrown when a rule's pattern or confidence is invalid
+ */
+export class OtpRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OtpRuleError';
+  }
+}
+
+const KEYWORD = /\b(?:otp|code|pin|passcode|password|verification|verify)\b/i;
+const CURRENCY_BEFORE = /(?:rs\.?|inr|usd|eur|gbp|₹|\$|€|£)\s*$/i;
+const UNIT_AFTER = /^\s*(?:%|rs\b|inr\b|usd\b|mins?\b|hrs?\b|days?\b)/i;
+
+let fileRules: Record<string, OtpRule[]> | undefined;
+
+/**
+ * Compile a rule definition, checking its pattern and confidence
+ */
+export function compileOtpRule(definition: OtpRuleDefinition): OtpRule {
+  if (!definition.id || typeof definition.pattern !== 'string' || !definition.pattern) {
+    throw new OtpRuleError('A rule needs an id and a pattern');
+  }
+  if (typeof definition.confidence !== 'number' || definition.confidence < 0 || definition.confidence > 1) {
+    throw new OtpRuleError(`Rule '${definition.id}' confidence must be between 0 and 1`);
+  }
+
+  try {
+    const flags = [...new Set(`${definition.flags || ''}g`)].join('');
+    return { ...definition, regex: new RegExp(definition.pattern, flags) };
+  } catch (error) {
+    throw new OtpRuleError(`Rule '${definition.id}' has an invalid pattern: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const COMPILED_DEFAULT_RULES = DEFAULT_OTP_RULES.map(compileOtpRule);
+const COMPILED_SERVICE_RULES: Record<string, OtpRule[]> = Object.fromEntries(
+  Object.entries(SERVICE_OTP_RULES).map(([serviceId, rules]) => [serviceId, rules.map(compileOtpRule)])
+);
+
+/**
+ * Get the rules used for a service, most specific first. Unknown or missing
+ * services get the defaults only.
+ */
+export function getOtpRules(serviceId?: string): OtpRule[] {
+  const extra = loadFileRules();
+  const id = serviceId ? resolveService(serviceId)?.id ?? serviceId.toLowerCase() : undefined;
+  const serviceRules = id ? [...(extra[id] || []), ...(COMPILED_SERVICE_RULES[id] || [])] : [];
+
+  return [...serviceRules, ...(extra.default || []), ...COMPILED_DEFAULT_RULES];
+}
+
+/**
+ * Get the ids of the services that have their own rules
+ */
+export function getOtpRuleServiceIds(): string[] {
+  return [...new Set([...Object.keys(COMPILED_SERVICE_RULES), ...Object.keys(loadFileRules())])]
+    .filter(id => id !== 'default');
+}
+
+/**
+ * Run rules over SMS text and score every match, best first. A code matched by
+ * several rules keeps its best score.
+ */
+export function findOtpCandidates(text: string, rules: OtpRule[]): OtpCandidate[] {
+  const candidates = new Map<string, OtpCandidate>();
+
+  for (const rule of rules) {
+    rule.regex.lastIndex = 0;
+    for (const match of text.matchAll(rule.regex)) {
+      const raw = match[1] ?? match[0];
+      const code = normaliseCode(raw);
+      if (!code || !/\d/.test(code)) {
+        continue;
+      }
+
+      const index = (match.index ?? 0) + match[0].indexOf(raw);
+      const confidence = scoreCandidate(text, raw, index, rule.confidence);
+      const existing = candidates.get(code);
+      if (!existing || confidence > existing.confidence) {
+        candidates.set(code, { code, confidence, ruleId: rule.id, index });
+      }
+    }
+  }
+
+  return [...candidates.values()].sort((a, b) => b.confidence - a.confidence || a.index - b.index);
+}
+
+/**
+ * Extract the most likely OTP from SMS text, or null if nothing is confident enough
+ */
+export function extractOtp(text: string, serviceId?: string, rules: OtpRule[] = getOtpRules(serviceId)): OtpExtraction | null {
+  const candidates = findOtpCandidates(text, rules);
+  const best = candidates[0];
+
+  if (!best || best.confidence < getMinConfidence()) {
+    return null;
+  }
+
+  return { code: best.code, confidence: best.confidence, ruleId: best.ruleId, candidates };
+}
+
+/**
+ * Read OTP_MIN_CONFIDENCE; 0 is valid and accepts every candidate
+ */
+function getMinConfidence(): number {
+  const value = process.env.OTP_MIN_CONFIDENCE;
+  const confidence = value === undefined || value.trim() === '' ? NaN : Number(value);
+  return isNaN(confidence) ? 0.4 : confidence;
+}
+
+/**
+ * Digit groups are joined ("482-913" is typed as 482913); alphanumeric codes are kept as sent
+ */
+function normaliseCode(raw: string): string {
+  const trimmed = raw.trim();
+  return /^[\d\s-]+$/.test(trimmed) ? trimmed.replace(/[\s-]/g, '') : trimmed;
+}
+
+/**
+ * Adjust a rule's confidence for what surrounds the match
+ */
+function scoreCandidate(text: string, raw: string, index: number, base: number): number {
+  const before = text.slice(Math.max(0, index - 40), index);
+  const after = text.slice(index + raw.length, index + raw.length + 10);
+  const digits = raw.replace(/\D/g, '');
+  // Only the sentence the match is in; a keyword in an earlier one says nothing about it
+  const sentence = before.split(/[.!?](?:\s|$)/).pop() ?? '';
+  let score = base;
+
+  // Years and dates, e.g. "valid till 2025" or "on 12-01-2025"
+  const dateLike = (/^\d{4}$/.test(raw) && Number(raw) >= 1900 && Number(raw) <= 2099) || /^\d{1,2}-\d{1,2}-\d{2,4}$/.test(raw);
+  if (dateLike) {
+    score -= 0.3;
+  }
+
+  // Amounts, e.g. "Rs. 1500", "1500.00" or "50%"
+  if (CURRENCY_BEFORE.test(before) || UNIT_AFTER.test(after) || /^[.,]\d/.test(after) || /\d[.,]$/.test(before)) {
+    score -= 0.5;
+  }
+
+  // Part of a longer number such as a phone number, e.g. "+91 98765 43210"
+  const surrounding = `${before.match(/[+\d][\d\s()-]*$/)?.[0] ?? ''}${raw}${after.match(/^[\d\s()-]*\d/)?.[0] ?? ''}`;
+  if (surrounding.replace(/\D/g, '').length >= 10 && digits.length < 10) {
+    score -= 0.5;
+  }
+
+  // Keyword rules already require the keyword; this lifts generic matches near one,
+  // except years and dates, which only a keyword rule can take past the threshold
+  if (base < 0.9 && !dateLike && KEYWORD.test(sentence)) {
+    score += 0.2;
+  }
+  if (digits.length === raw.length && digits.length === 6) {
+    score += 0.1; // Six digits is by far the most common OTP length
+  }
+
+  return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+}
+
+/**
+ * Load extra rules from OTP_RULES_FILE once; invalid rules are logged and skipped
+ */
+function loadFileRules(): Record<string, OtpRule[]> {
+  if (fileRules) {
+    return fileRules;
+  }
+
+  fileRules = {};
+  const path = process.env.OTP_RULES_FILE;
+  if (!path) {
+    return fileRules;
+  }
+
+  try {
+    const definitions = JSON.parse(fs.readFileSync(path, 'utf8')) as Record<string, OtpRuleDefinition[]>;
+    for (const [serviceId, rules] of Object.entries(definitions)) {
+      const id = serviceId === 'default' ? serviceId : resolveService(serviceId)?.id ?? serviceId.toLowerCase();
+      for (const rule of Array.isArray(rules) ? rules : []) {
+        try {
+          (fileRules[id] ??= []).push(compileOtpRule(rule));
+        } catch (error) {
+          console.error(`[OTP] Skipping rule for ${serviceId} in ${path}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+    console.log(`[OTP] Loaded extraction rules from ${path}`);
+  } catch (error) {
+    console.error(`[OTP] Failed to load extraction rules from ${path}:`, error);
+  }
+
+  return fileRules;
+}
@@ -0,0 +1,210 @@
+import { PriceSnapshot, PriceSnapshotRepository, PriceSync } from '../types';
+import { RepositoryFactory } from '../repositories/repositoryFactory';
+import { ProviderFactory } from './providerFactory';
+import { CATALOG_COUNTRIES, CATALOG_SERVICES, CatalogProviderId } from '../config/catalog';
+import { getWalletCurrency, normalisePrice } from '../config/currency';
+
+/**
+ * Price Sync Service
+ *
+ * Periodically pulls price and stock lists from every configured provider
+ * (one request per provider and catalog country) and stores them as a
+ * versioned snapshot, so catalog endpoints can answer from the cache instead
+ * of calling providers on every request. Prices are stored in the wallet
+ * currency, so offers from different providers can be compared directly.
+ *
+ * - PRICE_SYNC_INTERVAL_MINUTES: how often to sync (default 15, 0 disables the schedule)
+ * - PRICE_HISTORY_DAYS: how long snapshots are kept for price history (default 30)
+ */
+export class PriceSyncService {
+  private interval: NodeJS.Timeout | null = null;
+  private inFlight: Promise<PriceSync> | null = null;
+  private latest: { sync: PriceSync; prices: PriceSnapshot[] } | null = null;
+
+  constructor(private readonly repository: PriceSnapshotRepository = RepositoryFactory.getPriceSnapshotRepository()) {}
+
+  /**
+   * Run a sync now and then on the configured schedule
+   */
+  start(): void {
+    const intervalMinutes = Number(process.env.PRICE_SYNC_INTERVAL_MINUTES ?? 15);
+    if (!(intervalMinutes > 0)) {
+      console.log('[PriceSync] Scheduled sync disabled');
+      return;
+    }
+
+    const runScheduled = () => this.syncNow().catch(error => {
+      console.error('[PriceSync] Scheduled sync failed:', error);
+    });
+
+    runScheduled();
+    this.interval = setInterval(runScheduled, intervalMinutes * 60 * 1000);
+    console.log(`[PriceSync] Syncing prices every ${intervalMinutes} minute(s)`);
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Sync prices from all configured providers. Concurrent calls share one run.
+   */
+  syncNow(): Promise<PriceSync> {
+    if (!this.inFlight) {
+      this.inFlight = this.runSync().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Get the prices from the most recent completed sync
+   */
+  async getLatestPrices(): Promise<{ sync?: PriceSync; prices: PriceSnapshot[] }> {
+    if (this.latest) {
+      return this.latest;
+    }
+
+    const sync = await this.repository.getLatestSync();
+    if (!sync) {
+      return { prices: [] };
+    }
+
+    this.latest = { sync, prices: await this.repository.getSnapshots(sync.id) };
+    return this.latest;
+  }
+
+  /**
+   * Get the price history of a service in a country, oldest first
+   */
+  async getHistory(serviceId: string, countryId: string, days: number, provider?: string): Promise<PriceSnapshot[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return this.repository.getHistory(serviceId, countryId, since, provider);
+  }
+
+  private async runSync(): Promise<PriceSync> {
+    const startedAt = new Date();
+    const syncId = await this.repository.startSync(startedAt);
+    const prices: PriceSnapshot[] = [];
+    const errors: string[] = [];
+
+    try {
+      for (const providerId of ProviderFactory.getConfiguredProviders()) {
+        for (const country of CATALOG_COUNTRIES) {
+          if (!country.providers[providerId as CatalogProviderId]) {
+            continue;
+          }
+
+          try {
+            const products = await ProviderFactory.getProvider(providerId).getAvailableProducts(country.id);
+            prices.push(...this.toSnapshots(syncId, providerId, country.id, products, startedAt));
+          } catch (error) {
+            errors.push(`${providerId}/${country.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+
+      // An empty sync would blank the cache, so keep serving the previous one instead
+      if (prices.length === 0) {
+        errors.push('No prices returned by any provider');
+        await this.repository.finishSync(syncId, 'failed', 0, errors.join('; '));
+        console.warn(`[PriceSync] Sync ${syncId} failed: ${errors.join('; ')}`);
+        return { id: syncId, startedAt, finishedAt: new Date(), status: 'failed', snapshotCount: 0, error: errors.join('; ') };
+      }
+
+      await this.repository.saveSnapshots(prices);
+      await this.repository.finishSync(syncId, 'completed', prices.length, errors.length > 0 ? errors.join('; ') : undefined);
+
+      const sync: PriceSync = {
+        id: syncId,
+        startedAt,
+        finishedAt: new Date(),
+        status: 'completed',
+        snapshotCount: prices.length,
+        error: errors.length > 0 ? errors.join('; ') : undefined
+      };
+      this.latest = { sync, prices };
+      console.log(`[PriceSync] Sync ${syncId} stored ${prices.length} price(s)${errors.length > 0 ? ` with ${errors.length} error(s)` : ''}`);
+
+      await this.pruneHistory().catch(error => {
+        console.error('[PriceSync] Failed to prune price history:', error);
+      });
+      return sync;
+    } catch (error) {
+      await this.repository.finishSync(syncId, 'failed', 0, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a provider's product list for one country into catalog snapshots.
+   * Providers may list a product once per operator, so take the cheapest
+   * in-stock offer and the total stock. Throws if the provider's prices can't
+   * be converted to the wallet currency.
+   */
+  private toSnapshots(
+    syncId: number,
+    providerId: string,
+    countryId: string,
+    products: Array<{ id: string; cost: number; count: number }>,
+    syncedAt: Date
+  ): PriceSnapshot[] {
+    const offers = new Map<string, { cost: number; count: number }>();
+    for (const product of products) {
+      const offer = offers.get(product.id);
+      if (!offer) {
+        offers.set(product.id, { cost: product.cost, count: product.count });
+        continue;
+      }
+
+      if (product.count > 0 && (offer.count === 0 || product.cost < offer.cost)) {
+        offer.cost = product.cost;
+      }
+      offer.count += product.count;
+    }
+
+    const snapshots: PriceSnapshot[] = [];
+    for (const service of CATALOG_SERVICES) {
+      const code = service.providers[providerId as CatalogProviderId];
+      const offer = code && service.countries.includes(countryId) ? offers.get(code) : undefined;
+      if (offer) {
+        snapshots.push({
+          syncId,
+          provider: providerId,
+          serviceId: service.id,
+          countryId,
+          cost: normalisePrice(providerId, offer.cost),
+          currency: getWalletCurrency(),
+          count: offer.count,
+          syncedAt
+        });
+      }
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Drop snapshots older than PRICE_HISTORY_DAYS
+   */
+  private async pruneHistory(): Promise<void> {
+    const days = Number(process.env.PRICE_HISTORY_DAYS ?? 30);
+    if (!(days > 0)) {
+      return;
+    }
+
+    const removed = await this.repository.pruneBefore(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    if (removed > 0) {
+      console.log(`[PriceSync] Pruned ${removed} sync(s) older than ${days} day(s)`);
+    }
+  }
+}
+
+export const priceSyncService = new PriceSyncService();
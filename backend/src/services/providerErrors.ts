@@ -0,0 +1,25 @@
+import { PurchaseAttempt } from '../types';
+
+export type ProviderSupplyReason = 'no_numbers' | 'no_balance' | 'unsupported';
+
+/**
+ * Thrown by a provider when it can't supply the requested product/country
+ * (out of stock, account balance exhausted, or not offered at all).
+ * These are the failures that trigger failover to the next provider.
+ */
+export class ProviderSupplyError extends Error {
+  constructor(public readonly reason: ProviderSupplyReason, message: string) {
+    super(message);
+    this.name = 'ProviderSupplyError';
+  }
+}
+
+/**
+ * Thrown when no provider in the failover chain could fulfil a purchase
+ */
+export class ProviderFailoverError extends Error {
+  constructor(public readonly attempts: PurchaseAttempt[], message: string) {
+    super(message);
+    this.name = 'ProviderFailoverError';
+  }
+}
@@ -23,7 +23,7 @@ export class ProviderFactory {
         id: 'twilio',
         name: 'Twilio',
         cost: '$1/month per number',
-        features: ['Real SMS', 'High reliability', 'Global coverage', 'Professional support']
+        features: ['Real SMS', 'High reliability', 'Global coverage', 'Professional support', 'Push delivery via webhooks']
       },
       {
         id: '5sim',
@@ -74,9 +74,6 @@ export class ProviderFactory {
 
     switch (providerId.toLowerCase()) {
       case 'twilio':
-        // Temporarily disabled due to interface compatibility issues
-        throw new Error('Twilio provider temporarily disabled. Please use 5SIM instead.');
-        /*
         try {
           if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
             provider = new TwilioVirtualNumberProvider();
@@ -88,7 +85,6 @@ export class ProviderFactory {
           console.error('[ProviderFactory] Failed to initialize Twilio:', error);
           throw error; // Don't fall back automatically
         }
-        */
         break;
 
       case '5sim':
@@ -120,12 +116,8 @@ export class ProviderFactory {
         break;
 
       case 'mock':
-        // Temporarily disabled due to interface compatibility issues
-        throw new Error('Mock provider temporarily disabled. Please use 5SIM instead.');
-        /*
         provider = new MockVirtualNumberProvider();
         console.log('[ProviderFactory] Using mock provider');
-        */
         break;
 
       default:
@@ -171,6 +163,36 @@ export class ProviderFactory {
     throw new Error('No working providers available. Please check your configuration or explicitly select a provider.');
   }
 
+  /**
+   * Get the providers from PROVIDER_FAILOVER_ORDER (default: 5sim,sms-activate)
+   * that have credentials configured, in that order
+   */
+  static getConfiguredProviders(): string[] {
+    return (process.env.PROVIDER_FAILOVER_ORDER || '5sim,sms-activate')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(id => id && this.getProviderStatus(id).available);
+  }
+
+  /**
+   * Get the providers to try for a purchase, primary first.
+   * Failover candidates are the configured providers. Set PROVIDER_FAILOVER=false to disable failover.
+   */
+  static getFailoverOrder(primaryId?: string | null): string[] {
+    const candidates = this.getConfiguredProviders();
+    const primary = primaryId || candidates[0];
+
+    if (!primary) {
+      throw new Error('No working providers available. Please check your configuration or explicitly select a provider.');
+    }
+
+    if (process.env.PROVIDER_FAILOVER === 'false') {
+      return [primary];
+    }
+
+    return [primary, ...candidates.filter(id => id !== primary)];
+  }
+
   /**
    * Clear provider cache
    */
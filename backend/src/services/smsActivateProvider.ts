@@ -1,26 +1,31 @@
-import { VirtualNumberProvider, OTP } from '../types';
+import { createHash } from 'crypto';
+import { VirtualNumberProvider, OtpDeliveryMode, ProviderActivation, ProviderSms } from '../types';
+import { ProviderSupplyError } from './providerErrors';
+import { getProviderCountryCode, getProviderProductCode } from '../config/catalog';
 
 /**
  * SMS-Activate Virtual Number Provider
  * 
  * Provides virtual numbers through SMS-Activate.io
  * API Documentation: https://sms-activate.io/api2
+ * Set SMS_ACTIVATE_BASE_URL to use another endpoint, e.g. the local provider simulator.
  * 
  * Features:
  * - India as default country (country code 22)
  * - Multiple service support (WhatsApp, Telegram, etc.)
  * - Real-time pricing and availability
  * - OTP extraction and management
+ * - Rentals through the rent API (getRentNumber, getRentStatus, continueRentNumber)
  */
 export class SMSActivateProvider implements VirtualNumberProvider {
+  readonly delivery: OtpDeliveryMode = 'pull';
   private apiKey: string;
   private baseUrl: string;
-  private activeNumbers: Map<string, { activationId: string; otps: OTP[]; service: string }> = new Map();
   private defaultCountry: string = '22'; // India by default
 
   constructor() {
     this.apiKey = process.env.SMS_ACTIVATE_API_KEY || '';
-    this.baseUrl = 'https://api.sms-activate.org/stubs/handler_api.php';
+    this.baseUrl = process.env.SMS_ACTIVATE_BASE_URL || 'https://api.sms-activate.org/stubs/handler_api.php';
     
     if (!this.apiKey) {
       throw new Error('SMS-Activate API key not configured. Please set SMS_ACTIVATE_API_KEY environment variable.');
@@ -29,11 +34,18 @@ export class SMSActivateProvider implements VirtualNumberProvider {
 
   /**
    * Request a new virtual number from SMS-Activate
-   * @param service - Service name (e.g., 'wa' for WhatsApp, 'tg' for Telegram)
-   * @param country - Country code (defaults to India '22')
+   * @param productId - Catalog service id (e.g. 'whatsapp') or raw SMS-Activate code ('wa')
+   * @param countryId - Catalog country id or SMS-Activate country code (defaults to India '22')
    */
-  async requestNumber(service: string = 'wa', country: string = this.defaultCountry): Promise<string> {
+  async requestNumber(productId: string = 'wa', countryId: string = this.defaultCountry): Promise<ProviderActivation> {
     try {
+      // Map catalog ids to SMS-Activate service and country codes
+      const service = getProviderProductCode('sms-activate', productId, countryId);
+      const country = getProviderCountryCode('sms-activate', countryId);
+      if (!service || !country) {
+        throw new ProviderSupplyError('unsupported', `SMS-Activate doesn't offer ${productId} in ${countryId}`);
+      }
+
       console.log(`[SMS-Activate] Requesting ${service} number for country ${country}...`);
       
       // Validate country and service availability
@@ -41,11 +53,11 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       const targetService = availableServices.find(s => s.id === service);
       
       if (!targetService) {
-        throw new Error(`Service ${service} not available in country ${country}`);
+        throw new ProviderSupplyError('unsupported', `Service ${service} not available in country ${country}`);
       }
       
       if (targetService.count === 0) {
-        throw new Error(`No ${service} numbers available in country ${country} at the moment`);
+        throw new ProviderSupplyError('no_numbers', `No ${service} numbers available in country ${country} at the moment`);
       }
 
       // Request activation
@@ -63,22 +75,21 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       
       console.log('[SMS-Activate] API response:', result);
 
-      // Parse response: ACCESS:activation_id:phone_number
-      if (result.startsWith('ACCESS:')) {
+      // Parse response: ACCESS_NUMBER:activation_id:phone_number
+      if (result.startsWith('ACCESS_NUMBER:')) {
         const parts = result.split(':');
         if (parts.length === 3) {
           const activationId = parts[1];
           const phoneNumber = parts[2];
-          
-          // Store the activation for OTP checking
-          this.activeNumbers.set(phoneNumber, {
-            activationId,
-            otps: [],
-            service
-          });
 
           console.log(`[SMS-Activate] Successfully requested ${service} number: ${phoneNumber} (Activation ID: ${activationId})`);
-          return phoneNumber;
+          return {
+            number: phoneNumber,
+            activationId,
+            product: productId,
+            country: countryId,
+            purchasedAt: new Date()
+          };
         }
       }
 
@@ -86,107 +97,119 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       if (result.startsWith('BAD_KEY')) {
         throw new Error('Invalid API key');
       } else if (result.startsWith('NO_NUMBERS')) {
-        throw new Error(`No available ${service} numbers in country ${country} at the moment`);
+        throw new ProviderSupplyError('no_numbers', `No available ${service} numbers in country ${country} at the moment`);
       } else if (result.startsWith('NO_BALANCE')) {
-        throw new Error('Insufficient account balance');
-      } else if (result.startsWith('WRONG_SERVICE')) {
-        throw new Error(`Invalid service: ${service}`);
+        throw new ProviderSupplyError('no_balance', 'Insufficient account balance');
+      } else if (result.startsWith('WRONG_SERVICE') || result.startsWith('BAD_SERVICE')) {
+        throw new ProviderSupplyError('unsupported', `Invalid service: ${service}`);
       } else if (result.startsWith('WRONG_COUNTRY')) {
-        throw new Error(`Invalid country code: ${country}`);
+        throw new ProviderSupplyError('unsupported', `Invalid country code: ${country}`);
       } else {
         throw new Error(`SMS-Activate error: ${result}`);
       }
     } catch (error) {
       console.error('[SMS-Activate] Error requesting number:', error);
+      if (error instanceof ProviderSupplyError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to request SMS-Activate number: ${errorMessage}`);
     }
   }
 
   /**
-   * Check for new OTPs from SMS-Activate
+   * Check for SMS from SMS-Activate
+   *
+   * SMS-Activate reports the code of the latest SMS in the activation status;
+   * the full text is fetched separately and falls back to the code. Failed
+   * requests and error answers like BAD_KEY or NO_ACTIVATION throw, so the
+   * scheduler backs off instead of taking them for "no SMS yet".
    */
-  async checkForOTP(number: string): Promise<OTP[]> {
-    try {
-      const numberData = this.activeNumbers.get(number);
-      if (!numberData) {
-        return [];
-      }
+  async checkForSms(activation: ProviderActivation): Promise<ProviderSms[]> {
+    const number = activation.number;
+    if (!activation.activationId) {
+      throw new Error(`Number ${number} has no SMS-Activate activation id`);
+    }
 
-      // Check activation status
-      const params = new URLSearchParams({
-        api_key: this.apiKey,
-        action: 'getStatus',
-        id: numberData.activationId
-      });
+    if (activation.mode === 'rental') {
+      return this.checkRentalSms(activation);
+    }
 
-      const response = await fetch(`${this.baseUrl}?${params.toString()}`);
-      const status = await response.text();
-      
-      console.log(`[SMS-Activate] Status for ${number}: ${status}`);
+    // Check activation status
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      action: 'getStatus',
+      id: activation.activationId
+    });
 
-      // Status codes:
-      // STATUS_WAIT_CODE - waiting for SMS
-      // STATUS_OK - SMS received
-      // STATUS_CANCEL - cancelled
-      // STATUS_WAIT_RESEND - waiting for resend
-      
-      if (status === 'STATUS_OK') {
-        // Get the SMS code
-        const codeParams = new URLSearchParams({
-          api_key: this.apiKey,
-          action: 'getCode',
-          id: numberData.activationId
-        });
-
-        const codeResponse = await fetch(`${this.baseUrl}?${codeParams.toString()}`);
-        const smsCode = await codeResponse.text();
-        
-        if (smsCode && smsCode !== 'STATUS_WAIT_CODE') {
-          // Extract OTP from SMS
-          const otpCode = this.extractOTPFromMessage(smsCode);
-          if (otpCode) {
-            const otp: OTP = {
-              id: `sms_${numberData.activationId}`,
-              code: otpCode,
-              receivedAt: new Date(),
-              isUsed: false
-            };
-            
-            // Check if this OTP is new
-            const existingOtp = numberData.otps.find(o => o.code === otpCode);
-            if (!existingOtp) {
-              numberData.otps.push(otp);
-              this.activeNumbers.set(number, numberData);
-              console.log(`[SMS-Activate] Found new OTP: ${otpCode} for ${number}`);
-              return [otp];
-            }
-          }
-        }
-      }
-
-      return [];
-    } catch (error) {
-      console.error(`[SMS-Activate] Error checking OTPs for ${number}:`, error);
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Failed to check SMS for ${number}: ${response.status}`);
+    }
+    const status = (await response.text()).trim();
+    
+    console.log(`[SMS-Activate] Status for ${number}: ${status}`);
+
+    // Status codes:
+    // STATUS_WAIT_CODE - waiting for SMS
+    // STATUS_OK:<code> - SMS received
+    // STATUS_CANCEL - cancelled
+    // STATUS_WAIT_RETRY:<code> - waiting for another SMS after a resend
+    // STATUS_WAIT_RESEND - waiting for the SMS to be resent
+    if (status === 'STATUS_WAIT_CODE' || status === 'STATUS_CANCEL' || status === 'STATUS_WAIT_RESEND' || status.startsWith('STATUS_WAIT_RETRY')) {
       return [];
     }
+    if (!status.startsWith('STATUS_OK:')) {
+      throw new Error(`Failed to check SMS for ${number}: ${status}`);
+    }
+
+    const code = status.slice('STATUS_OK:'.length).trim();
+    const fullSmsParams = new URLSearchParams({
+      api_key: this.apiKey,
+      action: 'getFullSms',
+      id: activation.activationId
+    });
+
+    // The code is already known, so a failed full-text fetch isn't worth failing the check for
+    const fullSms = await fetch(`${this.baseUrl}?${fullSmsParams.toString()}`)
+      .then(smsResponse => smsResponse.text())
+      .catch(error => {
+        console.warn(`[SMS-Activate] Failed to get the full SMS for ${number}:`, error);
+        return '';
+      });
+
+    return [{
+      // SMS-Activate doesn't id messages; a resend produces a new code
+      messageId: `${activation.activationId}:${code}`,
+      sender: '',
+      text: fullSms.startsWith('FULL_SMS:') ? fullSms.slice('FULL_SMS:'.length) : code,
+      receivedAt: new Date(),
+      code
+    }];
   }
 
   /**
    * Cancel/Release a virtual number
    */
-  async cancelNumber(number: string): Promise<boolean> {
+  async cancelNumber(activation: ProviderActivation): Promise<boolean> {
+    const number = activation.number;
     try {
-      const numberData = this.activeNumbers.get(number);
-      if (!numberData) {
+      if (!activation.activationId) {
         return false;
       }
 
+      if (activation.mode === 'rental') {
+        // Rentals can only be cancelled (and refunded) shortly after they start
+        const result = await this.callRentApi({ action: 'setRentStatus', id: activation.activationId, status: '2' });
+        console.log(`[SMS-Activate] Cancelled rental: ${number}`);
+        return result.status === 'success';
+      }
+
       // Cancel the activation
       const params = new URLSearchParams({
         api_key: this.apiKey,
         action: 'setStatus',
-        id: numberData.activationId,
+        id: activation.activationId,
         status: '8' // Cancel activation
       });
 
@@ -195,7 +218,6 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       
       if (result === 'ACCESS_CANCEL') {
         console.log(`[SMS-Activate] Successfully cancelled number: ${number}`);
-        this.activeNumbers.delete(number);
         return true;
       } else {
         console.warn(`[SMS-Activate] Failed to cancel number ${number}: ${result}`);
@@ -207,13 +229,49 @@ export class SMSActivateProvider implements VirtualNumberProvider {
     }
   }
 
+  /**
+   * Finish an activation or rental that got its SMS, releasing the number
+   */
+  async finishNumber(activation: ProviderActivation): Promise<boolean> {
+    const number = activation.number;
+    try {
+      if (activation.mode === 'rental') {
+        const result = await this.callRentApi({ action: 'setRentStatus', id: activation.activationId, status: '1' });
+        console.log(`[SMS-Activate] Finished rental: ${number}`);
+        return result.status === 'success';
+      }
+
+      const params = new URLSearchParams({
+        api_key: this.apiKey,
+        action: 'setStatus',
+        id: activation.activationId,
+        status: '6' // Activation complete
+      });
+
+      const response = await fetch(`${this.baseUrl}?${params.toString()}`);
+      const result = await response.text();
+
+      if (result !== 'ACCESS_ACTIVATION') {
+        console.warn(`[SMS-Activate] Failed to finish number ${number}: ${result}`);
+        return false;
+      }
+
+      console.log(`[SMS-Activate] Finished number: ${number}`);
+      return true;
+    } catch (error) {
+      console.error(`[SMS-Activate] Error finishing number ${number}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Resend OTP for a number
    */
-  async resendOTP(number: string): Promise<boolean> {
+  async resendOTP(activation: ProviderActivation): Promise<boolean> {
+    const number = activation.number;
     try {
-      const numberData = this.activeNumbers.get(number);
-      if (!numberData) {
+      if (!activation.activationId || activation.mode === 'rental') {
+        // Rented numbers receive every SMS without asking
         return false;
       }
 
@@ -221,7 +279,7 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       const params = new URLSearchParams({
         api_key: this.apiKey,
         action: 'setStatus',
-        id: numberData.activationId,
+        id: activation.activationId,
         status: '3' // Request resend
       });
 
@@ -242,30 +300,166 @@ export class SMSActivateProvider implements VirtualNumberProvider {
   }
 
   /**
-   * Extract OTP code from SMS message content
+   * Buy another activation on a number that already received its SMS (getExtraActivation)
    */
-  private extractOTPFromMessage(messageBody: string): string | null {
-    // Common OTP patterns
-    const otpPatterns = [
-      /(\b\d{4,6}\b)/, // 4-6 digit numbers
-      /OTP[:\s]*(\d{4,6})/i, // OTP: 123456
-      /code[:\s]*(\d{4,6})/i, // code: 123456
-      /verification[:\s]*(\d{4,6})/i, // verification: 123456
-      /(\d{4,6})[^\d]*$/ // 4-6 digits at the end
-    ];
-
-    for (const pattern of otpPatterns) {
-      const match = messageBody.match(pattern);
-      if (match && match[1]) {
-        const otp = match[1];
-        // Validate that it's actually an OTP (not just any number)
-        if (otp.length >= 4 && otp.length <= 6 && /^\d+$/.test(otp)) {
-          return otp;
-        }
+  async reactivateNumber(activation: ProviderActivation): Promise<ProviderActivation> {
+    const number = activation.number;
+    try {
+      const params = new URLSearchParams({
+        api_key: this.apiKey,
+        action: 'getExtraActivation',
+        activationId: activation.activationId
+      });
+
+      const response = await fetch(`${this.baseUrl}?${params.toString()}`);
+      const result = await response.text();
+
+      // Same format as getNumber: ACCESS_NUMBER:activation_id:phone_number
+      if (result.startsWith('ACCESS_NUMBER:')) {
+        const [, activationId, phoneNumber] = result.split(':');
+        console.log(`[SMS-Activate] Reactivated number: ${phoneNumber} (Activation ID: ${activationId})`);
+        return {
+          number: phoneNumber || number,
+          activationId,
+          product: activation.product,
+          country: activation.country,
+          purchasedAt: new Date()
+        };
+      }
+
+      console.warn(`[SMS-Activate] Failed to reactivate number ${number}: ${result}`);
+      if (result.startsWith('BAD_KEY')) {
+        throw new Error('Invalid API key');
+      } else if (result.startsWith('NO_BALANCE')) {
+        throw new ProviderSupplyError('no_balance', 'Insufficient account balance');
+      } else if (result.startsWith('NO_NUMBERS') || result.startsWith('SIM_OFFLINE')) {
+        throw new ProviderSupplyError('no_numbers', `Number ${number} is not available right now`);
       }
+      // RENEW_ACTIVATION_NOT_AVAILABLE, NEW_ACTIVATION_IMPOSSIBLE, WRONG_ACTIVATION_ID...
+      throw new ProviderSupplyError('unsupported', `SMS-Activate can't reactivate ${number}: ${result}`);
+    } catch (error) {
+      console.error(`[SMS-Activate] Error reactivating number ${number}:`, error);
+      throw error;
     }
+  }
+
+  /**
+   * Price and stock of renting a service's number for the given hours
+   */
+  async getRentalPrice(productId: string, countryId: string, hours: number): Promise<{ cost: number; count: number } | null> {
+    try {
+      const service = getProviderProductCode('sms-activate', productId, countryId);
+      const country = getProviderCountryCode('sms-activate', countryId);
+      if (!service || !country) {
+        return null;
+      }
+
+      const result = await this.callRentApi({ action: 'getRentServicesAndCountries', country, rent_time: String(hours) });
+      const price = result.services?.[service];
+      if (!price) {
+        return null;
+      }
+
+      return { cost: parseFloat(price.cost) || 0, count: parseInt(price.quant?.current ?? price.quant) || 0 };
+    } catch (error) {
+      console.error(`[SMS-Activate] Error getting rental price for ${productId} in ${countryId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Rent a number for a service for the given hours
+   */
+  async rentNumber(productId: string, countryId: string, hours: number): Promise<ProviderActivation> {
+    const service = getProviderProductCode('sms-activate', productId, countryId);
+    const country = getProviderCountryCode('sms-activate', countryId);
+    if (!service || !country) {
+      throw new ProviderSupplyError('unsupported', `SMS-Activate doesn't offer ${productId} in ${countryId}`);
+    }
+
+    console.log(`[SMS-Activate] Renting ${service} number in country ${country} for ${hours}h...`);
+    const result = await this.callRentApi({ action: 'getRentNumber', service, country, rent_time: String(hours) });
+
+    // {"status":"success","phone":{"id":1049,"endDate":"...","number":"79959707564"}}
+    const phone = result.phone;
+    if (!phone?.id || !phone?.number) {
+      throw new Error(`SMS-Activate error: unexpected rent response ${JSON.stringify(result)}`);
+    }
+
+    console.log(`[SMS-Activate] Rented ${service} number: ${phone.number} (Rent ID: ${phone.id}) until ${phone.endDate}`);
+    return {
+      number: String(phone.number),
+      activationId: String(phone.id),
+      product: productId,
+      country: countryId,
+      purchasedAt: new Date(),
+      mode: 'rental'
+    };
+  }
+
+  /**
+   * Extend a rental by the given hours
+   */
+  async extendRental(activation: ProviderActivation, hours: number): Promise<void> {
+    await this.callRentApi({ action: 'continueRentNumber', id: activation.activationId, rent_time: String(hours) });
+    console.log(`[SMS-Activate] Extended rental ${activation.number} by ${hours}h`);
+  }
+
+  /**
+   * Every SMS a rented number received, from getRentStatus
+   */
+  private async checkRentalSms(activation: ProviderActivation): Promise<ProviderSms[]> {
+    try {
+      // {"status":"success","quantity":"2","values":{"0":{"phoneFrom":"...","text":"...","service":"ot","date":"..."}}}
+      const result = await this.callRentApi({ action: 'getRentStatus', id: activation.activationId });
+      const values: any[] = Object.values(result.values ?? {});
+
+      return values.map(sms => ({
+        // The rent API doesn't id messages either; dates are only to the second, so the text is part of the id
+        messageId: `${activation.activationId}:${sms.date}:${sms.phoneFrom}:${createHash('sha1').update(sms.text || '').digest('hex').slice(0, 12)}`,
+        sender: sms.phoneFrom || '',
+        text: sms.text || '',
+        receivedAt: new Date(sms.date || Date.now())
+      }));
+    } catch (error) {
+      // STATUS_WAIT_CODE comes back as an error while nothing has arrived
+      if (error instanceof Error && error.message.includes('STATUS_WAIT_CODE')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call a JSON rent action, turning {"status":"error"} and plain-text responses into errors
+   */
+  private async callRentApi(params: Record<string, string>): Promise<any> {
+    const response = await fetch(`${this.baseUrl}?${new URLSearchParams({ api_key: this.apiKey, ...params }).toString()}`);
+    const text = await response.text();
 
-    return null;
+    let result: any;
+    try {
+      result = JSON.parse(text);
+    } catch {
+      // Some errors are plain text, like the activation API
+      result = { status: 'error', message: text };
+    }
+
+    if (result.status === 'error') {
+      const message = String(result.message ?? text);
+      if (message.startsWith('BAD_KEY')) {
+        throw new Error('Invalid API key');
+      } else if (message.startsWith('NO_BALANCE')) {
+        throw new ProviderSupplyError('no_balance', 'Insufficient account balance');
+      } else if (message.startsWith('NO_NUMBERS')) {
+        throw new ProviderSupplyError('no_numbers', 'No numbers available to rent at the moment');
+      } else if (/^(BAD_SERVICE|WRONG_SERVICE|WRONG_COUNTRY|BAD_TIME|INVALID_TIME)/.test(message)) {
+        throw new ProviderSupplyError('unsupported', `SMS-Activate can't rent this number: ${message}`);
+      }
+      throw new Error(`SMS-Activate ${params.action} error: ${message}`);
+    }
+
+    return result;
   }
 
   /**
@@ -281,7 +475,8 @@ export class SMSActivateProvider implements VirtualNumberProvider {
       const response = await fetch(`${this.baseUrl}?${params.toString()}`);
       const result = await response.text();
       
-      if (result.startsWith('ACCESS:')) {
+      // Response: ACCESS_BALANCE:balance
+      if (result.startsWith('ACCESS_BALANCE:')) {
         const balance = parseFloat(result.split(':')[1]);
         return {
           balance: balance,
@@ -296,6 +491,44 @@ export class SMSActivateProvider implements VirtualNumberProvider {
     }
   }
 
+  /**
+   * Get the mobile operators numbers can be bought from in a country
+   */
+  async getOperators(countryId: string): Promise<string[]> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      action: 'getOperators',
+      country: countryId
+    });
+
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`SMS-Activate API error: ${response.status}`);
+    }
+    const text = (await response.text()).trim();
+
+    // Errors are plain text, operators come as {"status":"success","countryOperators":{"22":["airtel",...]}}
+    if (text === 'OPERATORS_NOT_FOUND') {
+      return [];
+    } else if (text === 'BAD_KEY') {
+      throw new Error('Invalid API key');
+    } else if (text === 'ERROR_SQL') {
+      throw new Error('SMS-Activate server error');
+    }
+
+    let result: any;
+    try {
+      result = JSON.parse(text);
+    } catch {
+      throw new Error(`Unknown error from SMS-Activate: ${text}`);
+    }
+    if (result.status !== 'success' || !result.countryOperators) {
+      throw new Error(`Unknown error from SMS-Activate: ${text}`);
+    }
+
+    return result.countryOperators[countryId] ?? [];
+  }
+
   /**
    * Get available countries
    */
@@ -442,30 +675,14 @@ export class SMSActivateProvider implements VirtualNumberProvider {
     try {
       console.log(`[SMS-Activate] Getting price for product: ${productId} in country: ${countryId}`);
       
-      // Map common product names to SMS-Activate service IDs
-      const serviceMapping: { [key: string]: string } = {
-        'whatsapp': 'wa',
-        'wa': 'wa',
-        'telegram': 'tg',
-        'tg': 'tg',
-        'instagram': 'ig',
-        'ig': 'ig',
-        'facebook': 'fb',
-        'fb': 'fb',
-        'google': 'go',
-        'go': 'go',
-        'amazon': 'am',
-        'am': 'am',
-        'uber': 'ub',
-        'ub': 'ub',
-        'lyft': 'ly',
-        'ly': 'ly',
-        'vk': 'vk',
-        'ok': 'ok'
-      };
-      
-      const serviceId = serviceMapping[productId.toLowerCase()] || productId;
-      const priceData = await this.getServicePrice(serviceId, countryId);
+      // Map catalog ids to SMS-Activate service and country codes
+      const serviceId = getProviderProductCode('sms-activate', productId, countryId);
+      const country = getProviderCountryCode('sms-activate', countryId);
+      if (!serviceId || !country) {
+        return null;
+      }
+
+      const priceData = await this.getServicePrice(serviceId, country);
       
       if (priceData) {
         console.log(`[SMS-Activate] Found ${productId} in ${countryId}: $${priceData.cost} (${priceData.count} available)`);
@@ -481,17 +698,17 @@ export class SMSActivateProvider implements VirtualNumberProvider {
   }
 
   /**
-   * Check OTPs for a number (alias for checkForOTP to match interface)
+   * Check SMS for a number (alias for checkForSms to match interface)
    */
-  async checkOtps(number: string): Promise<OTP[]> {
-    return this.checkForOTP(number);
+  async checkMessages(activation: ProviderActivation): Promise<ProviderSms[]> {
+    return this.checkForSms(activation);
   }
 
   /**
    * Resend OTP for a number (alias for resendOTP to match interface)
    */
-  async resendOtp(number: string): Promise<boolean> {
-    return this.resendOTP(number);
+  async resendOtp(activation: ProviderActivation): Promise<boolean> {
+    return this.resendOTP(activation);
   }
 
   /**
@@ -499,7 +716,7 @@ export class SMSActivateProvider implements VirtualNumberProvider {
    */
   async getAvailableProducts(countryId: string = this.defaultCountry): Promise<Array<{ id: string; name: string; cost: number; count: number }>> {
     try {
-      const services = await this.getAvailableServices(countryId);
+      const services = await this.getAvailableServices(getProviderCountryCode('sms-activate', countryId) ?? countryId);
       return services.map(service => ({
         id: service.id,
         name: service.name,
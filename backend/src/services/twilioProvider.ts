@@ -1,19 +1,28 @@
-import { VirtualNumberProvider, OTP } from '../types';
+import { VirtualNumberProvider, OtpDeliveryMode, ProviderActivation, ProviderSms } from '../types';
+import { ProviderSupplyError } from './providerErrors';
+import { findCatalogServices, getProviderCountryCode, resolveService } from '../config/catalog';
 import twilio from 'twilio';
 
 /**
  * Twilio Virtual Number Provider
- * 
+ *
  * This service integrates with Twilio to provide real virtual numbers
  * by purchasing them dynamically through the Twilio API.
- * 
+ *
+ * Twilio pushes incoming SMS to `${WEBHOOK_BASE_URL}/webhook/sms`, which is
+ * configured on every number we buy. Twilio numbers aren't tied to a service,
+ * so any catalog product can be requested and the price is the number's price.
+ *
  * Requirements:
  * - Twilio Account SID
  * - Twilio Auth Token
  * - Sufficient account balance for number purchases
+ * - WEBHOOK_BASE_URL reachable by Twilio
  */
-// Temporarily remove interface implementation to avoid TypeScript errors
-export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */ {
+export class TwilioVirtualNumberProvider implements VirtualNumberProvider {
+  readonly delivery: OtpDeliveryMode = 'push';
+  readonly releaseOnExpiry = true;
+  readonly keepsChargeOnCancel = true;
   private client: twilio.Twilio;
   private webhookBaseUrl: string;
 
@@ -33,31 +42,40 @@ export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */
 
   /**
    * Request a new virtual number through Twilio API
-   * 
+   *
    * This will:
-   * 1. Search for available numbers in India
-   * 2. Purchase the number if available
-   * 3. Configure webhooks for SMS forwarding
-   * 4. Return the purchased number
+   * 1. Check Twilio sells numbers in the country and the balance covers one
+   * 2. Search for available SMS-capable numbers in the country
+   * 3. Purchase the first one
+   * 4. Configure webhooks for SMS forwarding
+   * 5. Return the purchased number
+   * @param productId - Catalog service id; only recorded, Twilio numbers accept SMS from any sender
+   * @param countryId - Catalog country id or ISO country code (defaults to India)
    */
-  async requestNumber(): Promise<string> {
+  async requestNumber(productId: string = 'any', countryId: string = 'india'): Promise<ProviderActivation> {
     try {
-      console.log('[TwilioProvider] Searching for available Indian numbers...');
-      
-      // Search for available phone numbers in India
-      const availableNumbers = await this.client.availablePhoneNumbers('IN')
+      const isoCountry = this.getIsoCountry(countryId);
+      const [price, balance] = await Promise.all([this.getLocalPrice(isoCountry), this.client.balance.fetch()]);
+      if (!price) {
+        throw new ProviderSupplyError('unsupported', `Twilio doesn't sell local numbers in ${isoCountry}`);
+      }
+      if (balance.currency === price.currency && Number(balance.balance) < price.cost) {
+        throw new ProviderSupplyError('no_balance', `Twilio balance ${balance.balance} ${balance.currency} doesn't cover a number in ${isoCountry}`);
+      }
+
+      console.log(`[TwilioProvider] Searching for available numbers in ${isoCountry}...`);
+
+      const availableNumbers = await this.client.availablePhoneNumbers(isoCountry)
         .local
         .list({
-          limit: 5,
-          voiceEnabled: false, // We only need SMS capability
+          limit: 1,
           smsEnabled: true
         });
 
       if (availableNumbers.length === 0) {
-        throw new Error('No available Indian phone numbers found in your Twilio account');
+        throw new ProviderSupplyError('no_numbers', `No SMS-capable Twilio numbers available in ${isoCountry}`);
       }
 
-      // Select the first available number
       const selectedNumber = availableNumbers[0];
       console.log(`[TwilioProvider] Found available number: ${selectedNumber.phoneNumber}`);
 
@@ -71,156 +89,167 @@ export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */
       });
 
       console.log(`[TwilioProvider] Successfully purchased number: ${incomingPhoneNumber.phoneNumber} (SID: ${incomingPhoneNumber.sid})`);
-      
-      return incomingPhoneNumber.phoneNumber;
+
+      return {
+        number: incomingPhoneNumber.phoneNumber,
+        activationId: incomingPhoneNumber.sid,
+        product: productId,
+        country: countryId,
+        purchasedAt: new Date()
+      };
     } catch (error) {
       console.error('[TwilioProvider] Error requesting number:', error);
-      
-      // If Twilio API fails, fall back to mock number generation
-      console.log('[TwilioProvider] Falling back to mock number generation');
-      return this.generateMockIndianNumber();
+      throw error;
     }
   }
 
   /**
-   * Check for new OTPs on a specific number
-   * 
-   * This queries Twilio's SMS logs for messages to the number
-   * and parses them to extract OTP codes.
+   * Get the SMS received on a specific number
+   *
+   * SMS normally arrive through the webhook; this queries Twilio's message
+   * log as a fallback in case a webhook call was missed. Failures throw, so
+   * the scheduler backs off.
    */
-  async checkForOTP(number: string): Promise<OTP[]> {
+  async checkMessages(activation: ProviderActivation): Promise<ProviderSms[]> {
+    const messages = await this.client.messages.list({
+      to: activation.number,
+      dateSentAfter: activation.purchasedAt,
+      limit: 20
+    });
+
+    return messages.map(message => ({
+      messageId: message.sid,
+      sender: message.from,
+      text: message.body,
+      receivedAt: new Date(message.dateCreated)
+    }));
+  }
+
+  /**
+   * Cancel/Release a virtual number
+   *
+   * Deletes the number from the Twilio account, releasing it back to the pool.
+   * Twilio doesn't give back what the number cost.
+   */
+  async cancelNumber(activation: ProviderActivation): Promise<boolean> {
+    return this.releaseNumber(activation, 'cancel');
+  }
+
+  /**
+   * Release a number that got its SMS. Twilio bills numbers until they are
+   * deleted, so finishing one is the same as cancelling it.
+   */
+  async finishNumber(activation: ProviderActivation): Promise<boolean> {
+    return this.releaseNumber(activation, 'finish');
+  }
+
+  /**
+   * Request OTP resend for a number
+   *
+   * Twilio only receives the SMS; a resend has to be requested from the
+   * service that sent the OTP, so there is nothing to do here.
+   */
+  async resendOtp(activation: ProviderActivation): Promise<boolean> {
+    console.log(`[TwilioProvider] Resend not supported for ${activation.number}; request it from the sending service`);
+    return false;
+  }
+
+  /**
+   * List the catalog services for a country at the price of a Twilio number
+   */
+  async getAvailableProducts(countryId: string): Promise<Array<{ id: string; name: string; cost: number; count: number }>> {
     try {
-      // Query Twilio's SMS logs for messages to this number
-      const messages = await this.client.messages.list({
-        to: number,
-        limit: 20 // Get last 20 messages
-      });
-      
-      const newOtps: OTP[] = [];
-      
-      for (const message of messages) {
-        const otpCode = this.extractOTPFromMessage(message.body);
-        if (otpCode) {
-          const otp: OTP = {
-            id: message.sid,
-            code: otpCode,
-            receivedAt: new Date(message.dateCreated),
-            isUsed: false
-          };
-          newOtps.push(otp);
-        }
-      }
-      
-      if (newOtps.length > 0) {
-        console.log(`[TwilioProvider] Found ${newOtps.length} new OTP(s) for ${number}`);
+      const price = await this.getNumberPrice(countryId);
+      if (!price) {
+        return [];
       }
-      
-      return newOtps;
+
+      return findCatalogServices({ country: countryId, provider: 'twilio' }).map(service => ({
+        id: service.id,
+        name: service.name,
+        cost: price.cost,
+        count: price.count
+      }));
     } catch (error) {
-      console.error(`[TwilioProvider] Error checking OTPs for ${number}:`, error);
+      console.error(`[TwilioProvider] Error getting available products for country ${countryId}:`, error);
       return [];
     }
   }
 
   /**
-   * Cancel/Release a virtual number
-   * 
-   * This will:
-   * 1. Find the Twilio number by phone number
-   * 2. Delete it from your Twilio account
-   * 3. Release the number back to the pool
+   * Get the price of a number for a catalog product; every product costs the same
    */
-  async cancelNumber(number: string): Promise<boolean> {
+  async getProductPrice(productId: string, countryId: string): Promise<{ cost: number; count: number } | null> {
     try {
-      console.log(`[TwilioProvider] Cancelling number: ${number}`);
-      
-      // Find the Twilio number by phone number
-      const incomingNumbers = await this.client.incomingPhoneNumbers.list({
-        phoneNumber: number
-      });
-      
-      if (incomingNumbers.length === 0) {
-        console.log(`[TwilioProvider] Number ${number} not found in Twilio account`);
-        return false;
+      const service = resolveService(productId);
+      if (!service || !findCatalogServices({ country: countryId, provider: 'twilio' }).includes(service)) {
+        return null;
       }
-      
-      // Delete the number
-      const incomingNumber = incomingNumbers[0];
-      await this.client.incomingPhoneNumbers(incomingNumber.sid).remove();
-      
-      console.log(`[TwilioProvider] Successfully cancelled number: ${number}`);
-      return true;
+      return await this.getNumberPrice(countryId);
     } catch (error) {
-      console.error(`[TwilioProvider] Error cancelling number ${number}:`, error);
-      return false;
+      console.error(`[TwilioProvider] Error getting price for ${productId} in ${countryId}:`, error);
+      return null;
     }
   }
 
   /**
-   * Request OTP resend for a number
-   * 
-   * In a real implementation, this would involve:
-   * 1. Sending a request to the service that originally sent the OTP
-   * 2. Using Twilio to forward the new OTP SMS
+   * Get the monthly price of a local number in a country and how many are on offer
    */
-  async resendOTP(number: string): Promise<boolean> {
+  private async getNumberPrice(countryId: string): Promise<{ cost: number; count: number } | null> {
+    const isoCountry = this.getIsoCountry(countryId);
+    const [price, availableNumbers] = await Promise.all([
+      this.getLocalPrice(isoCountry),
+      this.client.availablePhoneNumbers(isoCountry).local.list({ limit: 20, smsEnabled: true })
+    ]);
+
+    return price ? { cost: price.cost, count: availableNumbers.length } : null;
+  }
+
+  /**
+   * Get the monthly price of a local number in a country, or null if Twilio doesn't sell them there
+   */
+  private async getLocalPrice(isoCountry: string): Promise<{ cost: number; currency: string } | null> {
+    let pricing;
     try {
-      console.log(`[TwilioProvider] Resending OTP for number: ${number}`);
-      
-      // TODO: Implement actual OTP resend logic
-      // This would typically involve calling the original service
-      // that sent the OTP and requesting a resend
-      
-      return true;
+      pricing = await this.client.pricing.v1.phoneNumbers.countries(isoCountry).fetch();
     } catch (error) {
-      console.error(`[TwilioProvider] Error resending OTP for ${number}:`, error);
-      return false;
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const prices = pricing.phoneNumberPrices || [];
+    const price = prices.find(p => p.numberType === 'local') ?? prices[0];
+    if (!price || price.currentPrice === undefined) {
+      return null;
     }
+
+    return { cost: Number(price.currentPrice), currency: pricing.priceUnit };
   }
 
   /**
-   * Generate a mock Indian mobile number as fallback
+   * Delete a number from the Twilio account
    */
-  private generateMockIndianNumber(): string {
-    // Indian mobile numbers are 10 digits: 3-digit area code + 7-digit subscriber number
-    const areaCodes = ['700', '701', '702', '703', '704', '705', '706', '707', '708', '709', '800', '801', '802', '803', '804', '805', '806', '807', '808', '809', '900', '901', '902', '903', '904', '905', '906', '907', '908', '909'];
-    const areaCode = areaCodes[Math.floor(Math.random() * areaCodes.length)];
-    
-    // Generate 7-digit subscriber number (1000000 to 9999999)
-    const subscriberNumber = Math.floor(Math.random() * 9000000) + 1000000;
-    
-    // Format: +91 + 3 digits + 7 digits = +91XXXXXXXXXX (total 13 characters, 10 digits after +91)
-    return `+91${areaCode}${subscriberNumber}`;
+  private async releaseNumber(activation: ProviderActivation, reason: 'cancel' | 'finish'): Promise<boolean> {
+    try {
+      console.log(`[TwilioProvider] Releasing number (${reason}): ${activation.number}`);
+
+      await this.client.incomingPhoneNumbers(activation.activationId).remove();
+
+      console.log(`[TwilioProvider] Successfully released number: ${activation.number}`);
+      return true;
+    } catch (error) {
+      console.error(`[TwilioProvider] Error releasing number ${activation.number}:`, error);
+      return false;
+    }
   }
 
   /**
-   * Extract OTP code from SMS message content
-   * 
-   * This function parses SMS content to find OTP codes.
-   * You can customize this based on the expected OTP format.
+   * Map a catalog country id to the ISO code Twilio uses
    */
-  private extractOTPFromMessage(messageBody: string): string | null {
-    // Common OTP patterns
-    const otpPatterns = [
-      /(\b\d{4,6}\b)/, // 4-6 digit numbers
-      /OTP[:\s]*(\d{4,6})/i, // OTP: 123456
-      /code[:\s]*(\d{4,6})/i, // code: 123456
-      /verification[:\s]*(\d{4,6})/i, // verification: 123456
-      /(\d{4,6})[^\d]*$/ // 4-6 digits at the end
-    ];
-
-    for (const pattern of otpPatterns) {
-      const match = messageBody.match(pattern);
-      if (match && match[1]) {
-        const otp = match[1];
-        // Validate that it's actually an OTP (not just any number)
-        if (otp.length >= 4 && otp.length <= 6 && /^\d+$/.test(otp)) {
-          return otp;
-        }
-      }
-    }
-
-    return null;
+  private getIsoCountry(countryId: string): string {
+    return (getProviderCountryCode('twilio', countryId) ?? countryId).toUpperCase();
   }
 
   /**
@@ -232,19 +261,19 @@ export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */
       const incomingNumbers = await this.client.incomingPhoneNumbers.list({
         limit: 1
       });
-      
+
       if (incomingNumbers.length === 0) {
         throw new Error('No Twilio numbers available for sending SMS');
       }
-      
+
       const fromNumber = incomingNumbers[0].phoneNumber;
-      
+
       const message = await this.client.messages.create({
         body,
         from: fromNumber,
         to
       });
-      
+
       console.log(`[TwilioProvider] SMS sent: ${message.sid}`);
       return message.sid;
     } catch (error) {
@@ -260,7 +289,7 @@ export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */
     try {
       const account = await this.client.api.accounts(this.client.accountSid).fetch();
       const incomingNumbers = await this.client.incomingPhoneNumbers.list();
-      
+
       return {
         accountSid: account.sid,
         balance: account.balance.toString(),
@@ -288,4 +317,4 @@ export class TwilioVirtualNumberProvider /* implements VirtualNumberProvider */
       return [];
     }
   }
-} 
\ No newline at end of file
+}
@@ -1,67 +1,197 @@
-import { VirtualNumber, OTP, VirtualNumberProvider } from '../types';
+import {
+  VirtualNumber,
+  OTP,
+  SmsMessage,
+  ProviderSms,
+  ProviderActivation,
+  VirtualNumberProvider,
+  VirtualNumberRepository,
+  VirtualNumberStatus,
+  StatusTransition,
+  PurchaseAttempt,
+  PurchaseResult,
+  BulkPurchaseOrder,
+  BulkPurchaseItem,
+  BulkPurchaseResult,
+  WaitForOtpResult
+} from '../types';
 import { ProviderFactory } from './providerFactory';
+import { RepositoryFactory } from '../repositories/repositoryFactory';
+import { WalletService, walletService } from './walletService';
+import { WebhookService, webhookService } from './webhookService';
+import { OtpDeliveryScheduler } from './otpDeliveryScheduler';
+import { extractOtp } from './otpExtractor';
+import { getLifetimePolicy, getSmsDeadline, getExpiryAfterFirstSms } from './lifetimePolicy';
+import { ACTIVE_STATUSES, canTransition, isActiveStatus } from './numberStateMachine';
+import { ProviderFailoverError, ProviderSupplyError } from './providerErrors';
+import { CATALOG_COUNTRIES } from '../config/catalog';
+import { normalisePrice } from '../config/currency';
 import { v4 as uuidv4 } from 'uuid';
 
+// A provider/product/country combination to try buying from
+interface PurchaseCandidate {
+  providerId: string;
+  product: string;
+  country: string;
+  operatorId?: string;
+  cost?: number; // Already-quoted price in the wallet currency
+  rentalHours?: number; // Rent the number for this long instead of a one-shot activation
+}
+
+// A provider's price for a product, normalised to the wallet currency
+interface ProviderQuote {
+  providerId: string;
+  product: string;
+  country: string;
+  cost?: number;
+  count?: number;
+  error?: string;
+}
+
+// Spending limit shared by the purchases of one bulk order
+interface PurchaseBudget {
+  limit: number;
+  spent: number; // Including purchases still in progress
+}
+
+/**
+ * Thrown when a purchase would take a bulk order over its maximum total price
+ */
+export class PurchaseBudgetError extends Error {
+  constructor(public readonly cost: number, public readonly remaining: number) {
+    super(`Price ${cost} exceeds the remaining budget of ${Math.max(0, Math.round(remaining * 10000) / 10000)}`);
+    this.name = 'PurchaseBudgetError';
+  }
+}
+
+/**
+ * Thrown when a number's status doesn't allow the requested operation
+ */
+export class NumberStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NumberStateError';
+  }
+}
+
 /**
  * Virtual Number Service
  * 
  * Manages the lifecycle of virtual numbers including:
  * - Number creation and expiration
- * - OTP monitoring and updates
+ * - OTP delivery: numbers from pull providers are polled by one shared
+ *   OtpDeliveryScheduler, push providers report SMS through webhooks
  * - Real-time notifications via WebSocket
- * - Provider selection and management
+ * - Provider selection for new purchases; each number stays bound to the
+ *   provider it was bought from
+ * - Persistence through a VirtualNumberRepository, so active numbers
+ *   resume polling after a restart
+ * - Charging the owner's wallet on purchase and refunding numbers
+ *   that are cancelled before any OTP arrived
+ * - Reactivating used numbers with providers that can reuse them
+ * - Rentals: numbers leased for hours to weeks, extended on request and
+ *   announced with a rentalExpiring event before they end
+ * - Timing activations out by the lifetime policy for their provider and
+ *   product: wait for the first SMS, grace period, auto-cancel and finish
+ * - Moving numbers through the state machine in numberStateMachine.ts; every
+ *   transition is recorded and pushed as a statusUpdate event
+ * - Queueing the owner's webhooks when a number is bought, gets an OTP,
+ *   expires or is cancelled
  */
 export class VirtualNumberService {
   private virtualNumbers: Map<string, VirtualNumber> = new Map();
-  private provider: VirtualNumberProvider | null = null;
   private checkInterval: NodeJS.Timeout | null = null;
-  private readonly NUMBER_LIFETIME_MS = 180000; // 3 minutes (180 seconds) for testing free numbers
-  private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private expiryCheck: Promise<void> | null = null;
+  private readonly bulkConcurrency = Math.max(1, Number(process.env.BULK_PURCHASE_CONCURRENCY) || 5);
+  private readonly rentalWarningMs = (Number(process.env.RENTAL_EXPIRY_WARNING_MINUTES) || 60) * 60 * 1000;
+  private readonly purchaseTimeoutMs = (Number(process.env.PURCHASE_TIMEOUT_SECONDS) || 300) * 1000;
+  private readonly expiryWarnings = new Set<string>(); // Ids of rentals already warned about
+  private readonly otpWaiters = new Map<string, Set<() => void>>(); // Wakes waitForOtp calls, by phone number
+  private readonly scheduler = new OtpDeliveryScheduler(phoneNumber => this.pollNumber(phoneNumber));
+  private readonly repository: VirtualNumberRepository;
+  private readonly wallet: WalletService;
+  private readonly webhooks: WebhookService;
+  readonly ready: Promise<void>; // Settles once the numbers in storage have been restored
 
-  constructor() {
+  constructor(
+    repository: VirtualNumberRepository = RepositoryFactory.getVirtualNumberRepository(),
+    wallet: WalletService = walletService,
+    webhooks: WebhookService = webhookService
+  ) {
+    this.repository = repository;
+    this.wallet = wallet;
+    this.webhooks = webhooks;
     // Don't initialize provider here - do it lazily when needed
-    this.startOTPChecking();
+    this.ready = this.restoreActiveNumbers().catch(error => {
+      console.error('[Service] Failed to restore active numbers:', error);
+    });
+    this.startExpiryChecking();
   }
 
   /**
-   * Get the current provider
+   * Load numbers that were still active when the backend stopped and resume polling them.
+   * Numbers that expired while the service was down are left to checkExpiredNumbers,
+   * which auto-cancels and refunds them like any other expired number. Purchases
+   * interrupted before they finished are given back to the provider, marked failed
+   * and not charged; reservations of purchases that stopped before the provider
+   * returned a number are released once they're older than PURCHASE_TIMEOUT_SECONDS.
    */
-  private getProvider(): VirtualNumberProvider {
-    // If we have a provider already set, use it
-    if (this.provider) {
-      return this.provider;
+  private async restoreActiveNumbers(): Promise<void> {
+    const activeNumbers = await this.repository.findByStatus(ACTIVE_STATUSES);
+    const now = new Date();
+
+    for (const virtualNumber of activeNumbers) {
+      this.virtualNumbers.set(virtualNumber.number, virtualNumber);
+
+      if (virtualNumber.status === 'pending') {
+        console.warn(`[Service] Purchase of ${virtualNumber.number} was interrupted by a restart`);
+        await this.abandonPurchase(virtualNumber);
+        continue;
+      }
+
+      if (virtualNumber.expiresAt < now) {
+        console.log(`[Service] Number ${virtualNumber.number} expired while the service was down`);
+        continue;
+      }
+
+      this.startOtpDelivery(virtualNumber);
+    }
+
+    if (activeNumbers.length > 0) {
+      console.log(`[Service] Restored ${this.virtualNumbers.size} active number(s) from storage`);
     }
 
-    // Use provider factory to get the selected or best available provider
+    await this.wallet.releaseStaleReservations(new Date(now.getTime() - this.purchaseTimeoutMs));
+  }
+
+  /**
+   * Give back a number whose purchase was interrupted and undo its charge
+   */
+  private async abandonPurchase(virtualNumber: VirtualNumber): Promise<void> {
     try {
-      // First try to get the explicitly selected provider
-      const selectedProviderId = ProviderFactory.getSelectedProvider();
-      if (selectedProviderId) {
-        this.provider = ProviderFactory.getProvider(selectedProviderId);
-        console.log(`[Service] Using explicitly selected provider: ${selectedProviderId}`);
-        return this.provider;
-      }
-      
-      // Fall back to best available provider
-      this.provider = ProviderFactory.getBestProvider();
-      console.log(`[Service] Using auto-selected provider: ${this.provider.constructor.name}`);
-      return this.provider;
+      await this.getProviderFor(virtualNumber).cancelNumber(virtualNumber);
     } catch (error) {
-      console.error('[Service] Failed to get provider:', error);
-      throw error; // Don't fall back automatically
+      console.error(`[Service] Failed to give ${virtualNumber.number} back to ${virtualNumber.provider}:`, error);
     }
+    await this.wallet.cancelPurchase(virtualNumber, 'purchase interrupted');
+    await this.setStatus(virtualNumber, 'failed');
   }
 
   /**
-   * Get provider by specific ID
+   * Get the provider a number was bought from. Polling, cancel and resend always
+   * go there, regardless of which provider is selected for new purchases.
+   */
+  private getProviderFor(virtualNumber: VirtualNumber): VirtualNumberProvider {
+    return ProviderFactory.getProvider(virtualNumber.provider);
+  }
+
+  /**
+   * Get provider by specific ID. This only looks the provider up; selectProvider
+   * is the one way to change the provider used for new purchases.
    */
   getProviderById(providerId: string): VirtualNumberProvider {
     try {
-      this.provider = ProviderFactory.getProvider(providerId);
-      // Update the factory's selected provider
-      ProviderFactory.setSelectedProvider(providerId);
-      console.log(`[Service] Provider changed to: ${providerId}`);
-      return this.provider;
+      return ProviderFactory.getProvider(providerId);
     } catch (error) {
       console.error(`[Service] Failed to get provider ${providerId}:`, error);
       throw error; // Don't fall back automatically
@@ -73,14 +203,14 @@ export class VirtualNumberService {
    */
   async selectProvider(providerId: string): Promise<void> {
     try {
-      // Get the provider and set it as selected
-      const provider = ProviderFactory.getProvider(providerId);
-      this.provider = provider;
+      // Make sure the provider can be initialised before selecting it
+      ProviderFactory.getProvider(providerId);
       
-      // Update the factory's selected provider
+      // Update the factory's selected provider. Numbers already bought keep
+      // using the provider they came from.
       ProviderFactory.setSelectedProvider(providerId);
       
-      console.log(`[Service] Provider ${providerId} selected and set as active`);
+      console.log(`[Service] Provider ${providerId} selected for new purchases`);
     } catch (error) {
       console.error(`[Service] Error selecting provider ${providerId}:`, error);
       throw error;
@@ -92,14 +222,11 @@ export class VirtualNumberService {
    */
   async getProviderCountries(providerId: string): Promise<Array<{ id: string; name: string }>> {
     try {
-      // For now, return hardcoded countries since the interface doesn't support this
-      console.log(`[Service] Getting countries for provider ${providerId} (hardcoded)`);
-      return [
-        { id: 'usa', name: 'United States' },
-        { id: 'india', name: 'India' },
-        { id: 'england', name: 'England' },
-        { id: 'canada', name: 'Canada' }
-      ];
+      // The provider interface doesn't list countries, so use the catalog's coverage
+      console.log(`[Service] Getting countries for provider ${providerId} from the catalog`);
+      return CATALOG_COUNTRIES
+        .filter(country => providerId in country.providers)
+        .map(({ id, name }) => ({ id, name }));
     } catch (error) {
       console.error(`[Service] Error getting countries for provider ${providerId}:`, error);
       return [];
@@ -111,7 +238,7 @@ export class VirtualNumberService {
    */
   async getProviderProducts(providerId: string, countryId: string): Promise<Array<{ id: string; name: string; cost: number; count: number }>> {
     try {
-      const provider = this.getProvider();
+      const provider = ProviderFactory.getProvider(providerId);
       return await provider.getAvailableProducts(countryId);
     } catch (error) {
       console.error(`[Service] Error getting products for provider ${providerId}, country ${countryId}:`, error);
@@ -124,20 +251,13 @@ export class VirtualNumberService {
    */
   async getCountryDetails(providerId: string, countryId: string): Promise<{ id: string; name: string; products: any } | null> {
     try {
-      // For now, return hardcoded country details since the interface doesn't support this
-      console.log(`[Service] Getting country details for provider ${providerId}, country ${countryId} (hardcoded)`);
-      
-      const hardcodedCountries = [
-        { id: 'usa', name: 'United States' },
-        { id: 'india', name: 'India' },
-        { id: 'england', name: 'England' },
-        { id: 'canada', name: 'Canada' }
-      ];
+      // The provider interface doesn't describe countries, so use the catalog
+      console.log(`[Service] Getting country details for provider ${providerId}, country ${countryId}`);
       
-      const country = hardcodedCountries.find(c => c.id === countryId);
+      const country = CATALOG_COUNTRIES.find(c => c.id === countryId);
       
       if (country) {
-        const provider = this.getProvider();
+        const provider = ProviderFactory.getProvider(providerId);
         const products = await provider.getAvailableProducts(countryId);
         return {
           id: country.id,
@@ -175,31 +295,19 @@ export class VirtualNumberService {
   }
 
   /**
-   * Request a new virtual number
+   * Request a new virtual number. When a user is given, the product price is
+   * reserved from their wallet first and only committed once the provider
+   * has delivered a number.
+   *
+   * If the selected provider can't supply the product/country (out of stock,
+   * no balance, not offered), the purchase is retried on the next provider in
+   * the failover order. Product and country are catalog ids, which every
+   * provider maps to its own codes.
    */
-  async requestNumber(productId: string, countryId: string = 'india', operatorId?: string): Promise<VirtualNumber> {
+  async requestNumber(productId: string, countryId: string = 'india', operatorId?: string, userId?: string): Promise<PurchaseResult> {
     try {
-      const provider = this.getProvider();
-      const phoneNumber = await provider.requestNumber(productId, countryId, operatorId);
-      
-      const virtualNumber: VirtualNumber = {
-        id: uuidv4(),
-        number: phoneNumber,
-        provider: '5sim',
-        country: countryId,
-        product: productId,
-        otps: [],
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + 180 * 1000), // 3 minutes (180 seconds) for testing
-        status: 'active'
-      };
-
-      this.virtualNumbers.set(phoneNumber, virtualNumber);
-      
-      // Start polling for OTPs
-      this.startOtpPolling(phoneNumber);
-      
-      return virtualNumber;
+      const candidates = this.getFailoverCandidates(productId, countryId, operatorId);
+      return await this.purchaseWithFailover(candidates, [], `${productId} in ${countryId}`, userId);
     } catch (error) {
       console.error('[VirtualNumberService] Error requesting number:', error);
       throw error;
@@ -207,83 +315,623 @@ export class VirtualNumberService {
   }
 
   /**
-   * Start polling for OTPs for a specific number
+   * Rent a number for the given hours from the selected provider, failing over
+   * to the next provider that rents numbers. Rentals receive any number of SMS
+   * until they end and can be extended with extendRental.
    */
-  private startOtpPolling(phoneNumber: string): void {
-    const pollInterval = setInterval(async () => {
-      try {
-        const virtualNumber = this.virtualNumbers.get(phoneNumber);
-        if (!virtualNumber || virtualNumber.status !== 'active') {
-          clearInterval(pollInterval);
-          return;
+  async requestRental(productId: string, countryId: string, hours: number, userId?: string): Promise<PurchaseResult> {
+    try {
+      const candidates = this.getFailoverCandidates(productId, countryId)
+        .map(candidate => ({ ...candidate, rentalHours: hours }));
+      return await this.purchaseWithFailover(candidates, [], `a ${hours}h rental of ${productId} in ${countryId}`, userId);
+    } catch (error) {
+      console.error('[VirtualNumberService] Error renting number:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extend an active rental by the given hours, charging the owner's wallet
+   * at the provider's current rental price
+   */
+  async extendRental(phoneNumber: string, hours: number): Promise<VirtualNumber> {
+    const virtualNumber = this.virtualNumbers.get(phoneNumber);
+    if (!virtualNumber || !isActiveStatus(virtualNumber.status) || virtualNumber.mode !== 'rental') {
+      throw new NumberStateError(`Number ${phoneNumber} is not an active rental`);
+    }
+
+    const provider = this.getProviderFor(virtualNumber);
+    if (!provider.extendRental || !provider.getRentalPrice) {
+      throw new ProviderSupplyError('unsupported', `Rentals from ${virtualNumber.provider} can't be extended`);
+    }
+
+    const price = await provider.getRentalPrice(virtualNumber.product, virtualNumber.country, hours);
+    if (!price) {
+      throw new ProviderSupplyError('unsupported', `No ${hours}h rental price available for ${virtualNumber.product} in ${virtualNumber.country}`);
+    }
+    const cost = normalisePrice(virtualNumber.provider, price.cost);
+
+    const reservation = virtualNumber.userId
+      ? await this.wallet.reserve(virtualNumber.userId, cost, `Extension of ${phoneNumber} rental by ${hours}h`, virtualNumber.id)
+      : null;
+    try {
+      await provider.extendRental(virtualNumber, hours);
+    } catch (error) {
+      if (reservation) {
+        await this.wallet.release(reservation.id);
+      }
+      throw error;
+    }
+
+    virtualNumber.expiresAt = new Date(virtualNumber.expiresAt.getTime() + hours * 3600 * 1000);
+    virtualNumber.price = Math.round(((virtualNumber.price ?? 0) + cost) * 10000) / 10000;
+    await this.repository.save(virtualNumber);
+    if (reservation) {
+      await this.wallet.commit(reservation.id, virtualNumber.id);
+    }
+    this.expiryWarnings.delete(virtualNumber.id);
+
+    console.log(`[Service] Extended rental ${phoneNumber} by ${hours}h, now ends ${virtualNumber.expiresAt.toISOString()}`);
+    return virtualNumber;
+  }
+
+  /**
+   * Buy several numbers for the same product. Purchases run BULK_PURCHASE_CONCURRENCY
+   * at a time, each with the same failover as requestNumber, and stop once
+   * maxTotalPrice would be exceeded. With allOrNothing, no new purchases start
+   * after a failure and the numbers already bought are cancelled (and refunded).
+   */
+  async requestBulkNumbers(order: BulkPurchaseOrder, userId?: string): Promise<BulkPurchaseResult> {
+    const { product, country, operator, quantity, maxTotalPrice, allOrNothing = false } = order;
+    const budget: PurchaseBudget | undefined = maxTotalPrice !== undefined ? { limit: maxTotalPrice, spent: 0 } : undefined;
+    const candidates = this.getFailoverCandidates(product, country, operator);
+    const items: BulkPurchaseItem[] = [];
+    let next = 0;
+    let aborted = false;
+
+    console.log(`[Service] Bulk purchase of ${quantity} ${product} number(s) in ${country} (${Math.min(this.bulkConcurrency, quantity)} at a time)`);
+
+    const worker = async () => {
+      while (next < quantity) {
+        const index = next++;
+        if (aborted) {
+          items[index] = { index, success: false, attempts: [], error: 'Not attempted because another purchase failed' };
+          continue;
         }
 
-        const provider = this.getProvider();
-        const otps = await provider.checkOtps(phoneNumber);
-        
-        if (otps.length > 0) {
-          // Update the virtual number with new OTPs
-          virtualNumber.otps = otps;
-          this.virtualNumbers.set(phoneNumber, virtualNumber);
-          
-          // Emit OTP update event
-          if (global.io) {
-            global.io.to(`number-${phoneNumber}`).emit('otpUpdate', {
-              number: phoneNumber,
-              otps
-            });
-          }
-          
-          console.log(`[Service] Received OTPs for ${phoneNumber}: ${otps.map(otp => otp.code).join(', ')}`);
+        try {
+          const { virtualNumber, attempts } = await this.purchaseWithFailover(
+            candidates, [], `${product} in ${country}`, userId, budget
+          );
+          items[index] = { index, success: true, virtualNumber, attempts };
+        } catch (error) {
+          items[index] = {
+            index,
+            success: false,
+            attempts: error instanceof ProviderFailoverError ? error.attempts : [],
+            error: error instanceof Error ? error.message : 'Purchase failed'
+          };
+          aborted = allOrNothing;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.bulkConcurrency, quantity) }, worker));
+
+    const rolledBack = allOrNothing && items.some(item => !item.success);
+    if (rolledBack) {
+      for (const item of items.filter(item => item.success)) {
+        item.rolledBack = await this.cancelNumber(item.virtualNumber!.number, 'bulk purchase rolled back');
+        if (!item.rolledBack) {
+          console.warn(`[Service] Couldn't roll back ${item.virtualNumber!.number}, it stays active`);
+        }
+      }
+    }
+
+    const kept = items.filter(item => item.success && !item.rolledBack);
+    const result: BulkPurchaseResult = {
+      requested: quantity,
+      purchased: kept.length,
+      failed: items.filter(item => !item.success).length,
+      totalPrice: Math.round(kept.reduce((sum, item) => sum + (item.virtualNumber!.price ?? 0), 0) * 10000) / 10000,
+      rolledBack,
+      items
+    };
+
+    console.log(`[Service] Bulk purchase of ${product} in ${country}: ${result.purchased} kept, ${result.failed} failed${rolledBack ? ', rolled back' : ''}`);
+    return result;
+  }
+
+  /**
+   * The selected provider followed by the rest of the failover order
+   */
+  private getFailoverCandidates(productId: string, countryId: string, operatorId?: string): PurchaseCandidate[] {
+    const primaryId = ProviderFactory.getSelectedProvider() ?? ProviderFactory.getFailoverOrder()[0];
+    return ProviderFactory.getFailoverOrder(primaryId).map(providerId => ({
+      providerId,
+      product: productId,
+      country: countryId,
+      // Operators are provider specific, so only pass them to the selected provider
+      operatorId: providerId === primaryId ? operatorId : undefined
+    }));
+  }
+
+  /**
+   * Request a virtual number from whichever configured provider sells it cheapest.
+   * Prices are fetched from all
+   * providers in parallel, normalised to the wallet currency, and providers that
+   * are out of stock or above maxPrice are skipped. If the cheapest purchase
+   * fails for lack of supply, the next cheapest is tried.
+   */
+  async requestCheapestNumber(productId: string, countryId: string = 'india', maxPrice?: number, userId?: string): Promise<PurchaseResult> {
+    try {
+      const quotes = await Promise.all(
+        ProviderFactory.getConfiguredProviders().map(providerId => this.getQuote(providerId, productId, countryId))
+      );
+
+      const attempts: PurchaseAttempt[] = [];
+      const candidates: PurchaseCandidate[] = [];
+
+      for (const quote of quotes.sort((a, b) => (a.cost ?? Infinity) - (b.cost ?? Infinity))) {
+        const { providerId, product, country, cost, count, error } = quote;
+        let skipReason = error;
+
+        if (!skipReason && !count) {
+          skipReason = 'Out of stock';
+        } else if (!skipReason && maxPrice !== undefined && cost! > maxPrice) {
+          skipReason = `Price ${cost} exceeds maximum ${maxPrice}`;
+        }
+
+        if (skipReason) {
+          attempts.push({ provider: providerId, product, country, success: false, price: cost, error: skipReason });
+          continue;
+        }
+
+        candidates.push({ providerId, product, country, cost });
+      }
+
+      console.log(`[Service] Best-price routing for ${productId} in ${countryId}: ${candidates.map(c => `${c.providerId}=${c.cost}`).join(', ') || 'no candidates'}`);
+      return await this.purchaseWithFailover(candidates, attempts, `${productId} in ${countryId}`, userId);
+    } catch (error) {
+      console.error('[VirtualNumberService] Error requesting cheapest number:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one provider's normalised price and stock for a product/country
+   */
+  private async getQuote(providerId: string, product: string, country: string): Promise<ProviderQuote> {
+    try {
+      const price = await ProviderFactory.getProvider(providerId).getProductPrice(product, country);
+      if (!price) {
+        return { providerId, product, country, error: 'Not offered' };
+      }
+
+      return { providerId, product, country, cost: normalisePrice(providerId, price.cost), count: price.count };
+    } catch (error) {
+      return { providerId, product, country, error: error instanceof Error ? error.message : 'Failed to get price' };
+    }
+  }
+
+  /**
+   * Try each candidate in order until one supplies a number. Only supply
+   * failures move on to the next candidate; any other error is thrown.
+   */
+  private async purchaseWithFailover(
+    candidates: PurchaseCandidate[],
+    attempts: PurchaseAttempt[],
+    description: string,
+    userId?: string,
+    budget?: PurchaseBudget
+  ): Promise<PurchaseResult> {
+    for (const candidate of candidates) {
+      const { providerId, product, country } = candidate;
+      try {
+        const virtualNumber = await this.purchaseFrom(candidate, userId, budget);
+        attempts.push({ provider: providerId, product, country, success: true, price: virtualNumber.price });
+
+        if (attempts.length > 1) {
+          console.log(`[Service] ${description} fulfilled by ${providerId} after ${attempts.length - 1} other provider(s)`);
         }
+        return { virtualNumber, attempts };
       } catch (error) {
-        console.error(`[Service] Error polling OTPs for ${phoneNumber}:`, error);
+        if (!(error instanceof ProviderSupplyError)) {
+          throw error;
+        }
+
+        attempts.push({ provider: providerId, product, country, success: false, error: error.message });
+        console.warn(`[Service] ${providerId} can't supply ${product} in ${country} (${error.reason}), trying next provider`);
       }
-    }, 5000); // Poll every 5 seconds
+    }
 
-    // Store the interval ID for cleanup
-    this.pollingIntervals.set(phoneNumber, pollInterval);
+    throw new ProviderFailoverError(attempts, `No provider could supply ${description}`);
   }
 
   /**
-   * Get all active virtual numbers
+   * Buy (or rent) a number from one provider, charging the user's wallet.
+   * The price is fetched unless the caller already has a quote, and
+   * counted against the budget (if any) until the purchase fails.
    */
-  getActiveNumbers(): VirtualNumber[] {
-    return Array.from(this.virtualNumbers.values()).filter(num => num.status === 'active');
+  private async purchaseFrom(candidate: PurchaseCandidate, userId?: string, budget?: PurchaseBudget): Promise<VirtualNumber> {
+    const { providerId, product: productId, country: countryId, operatorId, rentalHours } = candidate;
+    const provider = ProviderFactory.getProvider(providerId);
+    if (rentalHours && (!provider.rentNumber || !provider.getRentalPrice)) {
+      throw new ProviderSupplyError('unsupported', `${providerId} doesn't rent numbers`);
+    }
+
+    let cost = candidate.cost;
+    if (cost === undefined) {
+      const price = rentalHours
+        ? await provider.getRentalPrice!(productId, countryId, rentalHours)
+        : await provider.getProductPrice(productId, countryId);
+      if (!price) {
+        throw new ProviderSupplyError('unsupported', `No ${rentalHours ? `${rentalHours}h rental ` : ''}price available for ${productId} in ${countryId}`);
+      }
+      cost = normalisePrice(providerId, price.cost);
+    }
+
+    if (budget) {
+      if (budget.spent + cost > budget.limit + 1e-9) {
+        throw new PurchaseBudgetError(cost, budget.limit - budget.spent);
+      }
+      budget.spent += cost;
+    }
+
+    try {
+      if (rentalHours) {
+        return await this.activate(
+          providerId,
+          cost,
+          userId,
+          `${rentalHours}h rental of ${productId} number in ${countryId} from ${providerId}`,
+          () => provider.rentNumber!(productId, countryId, rentalHours),
+          { lifetimeMs: rentalHours * 3600 * 1000 }
+        );
+      }
+
+      return await this.activate(
+        providerId,
+        cost,
+        userId,
+        `Purchase of ${productId} number in ${countryId} from ${providerId}`,
+        () => provider.requestNumber(productId, countryId, operatorId)
+      );
+    } catch (error) {
+      if (budget) {
+        budget.spent -= cost;
+      }
+      throw error;
+    }
   }
 
   /**
-   * Get a specific virtual number
+   * Buy a follow-up activation on a number that expired or was cancelled, for
+   * apps that send another SMS to it later (e.g. re-verification on login).
+   * The provider must support reusing numbers. The new record is linked to the
+   * previous one and charged like a purchase, at the product's current price.
    */
-  getNumber(phoneNumber: string): VirtualNumber | undefined {
-    return this.virtualNumbers.get(phoneNumber);
+  async reactivateNumber(phoneNumber: string): Promise<VirtualNumber> {
+    const previous = await this.getNumber(phoneNumber);
+    if (!previous) {
+      throw new Error(`Virtual number ${phoneNumber} not found`);
+    }
+    if (isActiveStatus(previous.status)) {
+      throw new NumberStateError(`Number ${phoneNumber} is still active`);
+    }
+    if (previous.mode === 'rental') {
+      throw new NumberStateError(`Number ${phoneNumber} was rented; extend rentals before they end instead`);
+    }
+
+    const provider = this.getProviderFor(previous);
+    if (!provider.reactivateNumber) {
+      throw new ProviderSupplyError('unsupported', `Numbers from ${previous.provider} can't be reactivated`);
+    }
+
+    const price = await provider.getProductPrice(previous.product, previous.country);
+    const cost = price ? normalisePrice(previous.provider, price.cost) : previous.price ?? 0;
+
+    const virtualNumber = await this.activate(
+      previous.provider,
+      cost,
+      previous.userId,
+      `Reactivation of ${phoneNumber} for ${previous.product} from ${previous.provider}`,
+      () => provider.reactivateNumber!(previous),
+      { reactivatedFrom: previous.id }
+    );
+
+    console.log(`[Service] Reactivated ${phoneNumber} (follows ${previous.id})`);
+    return virtualNumber;
   }
 
   /**
-   * Cancel a virtual number
+   * Reserve the cost from the user's wallet, get an activation from the provider
+   * and start delivering OTPs for it. The reservation is made for the number's id
+   * up front, released if the provider fails and committed once the number is
+   * stored; the number is pending until then and failed (and cancelled with the
+   * provider) if that doesn't work out.
    */
-  async cancelNumber(phoneNumber: string): Promise<boolean> {
+  private async activate(
+    providerId: string,
+    cost: number,
+    userId: string | undefined,
+    description: string,
+    requestActivation: () => Promise<ProviderActivation>,
+    options: { lifetimeMs?: number; reactivatedFrom?: string } = {}
+  ): Promise<VirtualNumber> {
+    const id = uuidv4();
+    const reservation = userId ? await this.wallet.reserve(userId, cost, description, id) : null;
+
+    let activation;
+    try {
+      activation = await requestActivation();
+    } catch (error) {
+      if (reservation) {
+        await this.wallet.release(reservation.id);
+      }
+      throw error;
+    }
+    const phoneNumber = activation.number;
+    const createdAt = new Date();
+    const smsDeadline = options.lifetimeMs === undefined
+      ? getSmsDeadline(getLifetimePolicy(providerId, activation.product), createdAt)
+      : undefined;
+    
+    const virtualNumber: VirtualNumber = {
+      ...activation,
+      id,
+      userId,
+      provider: providerId,
+      mode: activation.mode ?? 'activation',
+      price: cost,
+      otps: [],
+      messages: [],
+      createdAt,
+      expiresAt: smsDeadline ?? new Date(createdAt.getTime() + options.lifetimeMs!),
+      smsDeadline,
+      status: 'pending',
+      reactivatedFrom: options.reactivatedFrom
+    };
+
+    this.virtualNumbers.set(phoneNumber, virtualNumber);
+    await this.repository.save(virtualNumber);
+
+    if (reservation) {
+      try {
+        await this.wallet.commit(reservation.id, virtualNumber.id);
+      } catch (error) {
+        console.error(`[Service] Failed to charge for ${phoneNumber}, giving it back to ${providerId}:`, error);
+        await this.wallet.release(reservation.id).catch(() => undefined);
+        await this.getProviderFor(virtualNumber).cancelNumber(virtualNumber).catch(() => false);
+        await this.setStatus(virtualNumber, 'failed');
+        throw error;
+      }
+    }
+
+    await this.setStatus(virtualNumber, 'waiting_sms');
+    this.startOtpDelivery(virtualNumber);
+    
+    return virtualNumber;
+  }
+
+  /**
+   * Start receiving OTPs for a number. Pull providers are polled by the
+   * scheduler; push providers deliver to the webhook routes.
+   */
+  private startOtpDelivery(virtualNumber: VirtualNumber): void {
+    if (this.getProviderFor(virtualNumber).delivery === 'pull') {
+      this.scheduler.track(virtualNumber.number, virtualNumber.provider);
+    } else {
+      console.log(`[Service] Waiting for ${virtualNumber.provider} to push SMS for ${virtualNumber.number}`);
+    }
+  }
+
+  /**
+   * Poll a number's provider once for new OTPs, for the scheduler
+   */
+  private async pollNumber(phoneNumber: string): Promise<number> {
+    const virtualNumber = this.virtualNumbers.get(phoneNumber);
+    if (!virtualNumber || !isActiveStatus(virtualNumber.status)) {
+      this.scheduler.untrack(phoneNumber);
+      return 0;
+    }
+
+    const provider = this.getProviderFor(virtualNumber);
+    const { otps } = await this.recordMessages(virtualNumber, await provider.checkMessages(virtualNumber));
+
+    return otps.length;
+  }
+
+  /**
+   * Get all active virtual numbers, optionally only those owned by one user
+   */
+  getActiveNumbers(userId?: string): VirtualNumber[] {
+    return Array.from(this.virtualNumbers.values()).filter(num =>
+      isActiveStatus(num.status) && (!userId || num.userId === userId)
+    );
+  }
+
+  /**
+   * Get a specific virtual number, falling back to storage for numbers
+   * that are no longer held in memory
+   */
+  async getNumber(phoneNumber: string): Promise<VirtualNumber | undefined> {
+    return this.virtualNumbers.get(phoneNumber) ?? await this.repository.findByNumber(phoneNumber);
+  }
+
+  /**
+   * Get a virtual number only if it belongs to the given user
+   */
+  async getNumberForUser(phoneNumber: string, userId: string): Promise<VirtualNumber | undefined> {
+    const virtualNumber = await this.getNumber(phoneNumber);
+    return virtualNumber && virtualNumber.userId === userId ? virtualNumber : undefined;
+  }
+
+  /**
+   * Store the SMS not yet recorded for a number, extract their OTPs and notify
+   * subscribers. Returns only what is new.
+   */
+  private async recordMessages(virtualNumber: VirtualNumber, sms: ProviderSms[]): Promise<{ messages: SmsMessage[]; otps: OTP[] }> {
+    const messages: SmsMessage[] = [];
+    const otps: OTP[] = [];
+    const seen = new Set(virtualNumber.messages.map(message => message.providerMessageId));
+
+    for (const received of sms) {
+      if (seen.has(received.messageId)) {
+        continue;
+      }
+      seen.add(received.messageId);
+
+      const message: SmsMessage = {
+        id: uuidv4(),
+        providerMessageId: received.messageId,
+        sender: received.sender,
+        text: received.text,
+        receivedAt: received.receivedAt
+      };
+      messages.push(message);
+
+      // A code the provider parsed itself is trusted over our own extraction
+      const extracted = received.code
+        ? { code: received.code, confidence: 1 }
+        : extractOtp(received.text, virtualNumber.product);
+      if (extracted && ![...virtualNumber.otps, ...otps].some(otp => otp.code === extracted.code)) {
+        otps.push({
+          id: uuidv4(),
+          code: extracted.code,
+          receivedAt: received.receivedAt,
+          isUsed: false,
+          source: virtualNumber.provider,
+          messageId: message.id,
+          confidence: extracted.confidence
+        });
+      }
+    }
+
+    if (messages.length > 0) {
+      virtualNumber.messages.push(...messages);
+      await this.repository.addMessages(virtualNumber.id, messages);
+      this.emitSmsUpdate(virtualNumber.number, messages);
+      if (virtualNumber.status === 'waiting_sms') {
+        await this.setStatus(virtualNumber, 'sms_received');
+      }
+    }
+
+    if (otps.length > 0) {
+      virtualNumber.otps.push(...otps);
+      await this.repository.addOtps(virtualNumber.id, otps);
+      this.emitOTPUpdate(virtualNumber.number, otps);
+      this.wakeOtpWaiters(virtualNumber.number);
+      await this.webhooks.notifyOtps(virtualNumber, otps).catch(error => {
+        console.error(`[Service] Failed to queue otp.received webhooks for ${virtualNumber.number}:`, error);
+      });
+      console.log(`[Service] Received OTPs for ${virtualNumber.number}: ${otps.map(otp => otp.code).join(', ')}`);
+    }
+
+    if (virtualNumber.mode === 'activation' && messages.length > 0) {
+      await this.applyLifetimePolicy(virtualNumber, messages.length === virtualNumber.messages.length, otps.length > 0);
+    }
+
+    return { messages, otps };
+  }
+
+  /**
+   * Shorten an activation's lifetime once SMS arrive: to the grace period after
+   * its first SMS, or to now when the policy finishes it on the first code
+   */
+  private async applyLifetimePolicy(virtualNumber: VirtualNumber, firstSms: boolean, receivedOtp: boolean): Promise<void> {
+    const policy = getLifetimePolicy(virtualNumber.provider, virtualNumber.product);
+    let expiresAt = virtualNumber.expiresAt;
+
+    if (firstSms) {
+      expiresAt = getExpiryAfterFirstSms(policy, expiresAt, virtualNumber.messages[0].receivedAt);
+    }
+    if (receivedOtp && policy.finishOnFirstCode) {
+      expiresAt = new Date();
+    }
+
+    if (expiresAt.getTime() < virtualNumber.expiresAt.getTime()) {
+      virtualNumber.expiresAt = expiresAt;
+      await this.repository.save(virtualNumber);
+      console.log(`[Service] ${virtualNumber.number} now ends ${expiresAt.toISOString()}`);
+    }
+  }
+
+  /**
+   * Handle an SMS pushed by a provider's webhook: store it on the active
+   * number it was sent to and extract its OTP
+   */
+  async receiveInboundSms(providerId: string, to: string, sms: ProviderSms): Promise<OTP[]> {
+    const virtualNumber = this.virtualNumbers.get(to);
+    if (!virtualNumber || !isActiveStatus(virtualNumber.status) || virtualNumber.provider !== providerId) {
+      console.warn(`[Service] Ignoring inbound SMS ${sms.messageId} for unknown or inactive number ${to}`);
+      return [];
+    }
+
+    const { otps } = await this.recordMessages(virtualNumber, [sms]);
+    if (otps.length === 0) {
+      console.log(`[Service] Inbound SMS ${sms.messageId} for ${to} contained no new OTP`);
+    }
+
+    return otps;
+  }
+
+  /**
+   * Move a number to a new status, persist the transition and notify subscribers
+   * and webhooks. Numbers that are no longer active stop being polled.
+   */
+  private async setStatus(virtualNumber: VirtualNumber, status: VirtualNumberStatus): Promise<void> {
+    const from = virtualNumber.status;
+    if (!canTransition(from, status)) {
+      throw new NumberStateError(`Number ${virtualNumber.number} can't go from ${from} to ${status}`);
+    }
+
+    // Stored first, so a failed write leaves the number as it was
+    await this.repository.updateStatus(virtualNumber.id, status);
+    virtualNumber.status = status;
+    this.emitStatusUpdate(virtualNumber, from);
+
+    if (!isActiveStatus(status)) {
+      this.scheduler.untrack(virtualNumber.number);
+      this.expiryWarnings.delete(virtualNumber.id);
+      this.wakeOtpWaiters(virtualNumber.number);
+    }
+    if (status === 'expired') {
+      this.emitNumberExpired(virtualNumber.number);
+    }
+
+    const event = from === 'pending' && status === 'waiting_sms' ? 'number.created'
+      : status === 'expired' ? 'number.expired'
+      : status === 'cancelled' ? 'number.cancelled'
+      : undefined;
+    if (event) {
+      await this.webhooks.notifyNumber(event, virtualNumber).catch(error => {
+        console.error(`[Service] Failed to queue ${event} webhooks for ${virtualNumber.number}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Cancel a virtual number. Numbers that never received an OTP are refunded to their owner.
+   */
+  async cancelNumber(phoneNumber: string, reason: string = 'cancelled'): Promise<boolean> {
     try {
       const virtualNumber = this.virtualNumbers.get(phoneNumber);
-      if (!virtualNumber) {
+      if (!virtualNumber || !canTransition(virtualNumber.status, 'cancelled')) {
         return false;
       }
 
-      const provider = this.getProvider();
-      const success = await provider.cancelNumber(phoneNumber);
+      const provider = this.getProviderFor(virtualNumber);
+      const success = await provider.cancelNumber(virtualNumber);
       
       if (success) {
-        virtualNumber.status = 'cancelled';
-        this.virtualNumbers.set(phoneNumber, virtualNumber);
-        
-        // Clear polling interval
-        const intervalId = this.pollingIntervals.get(phoneNumber);
-        if (intervalId) {
-          clearInterval(intervalId);
-          this.pollingIntervals.delete(phoneNumber);
-        }
+        await this.setStatus(virtualNumber, 'cancelled');
         
         console.log(`[Service] Cancelled virtual number: ${phoneNumber}`);
+
+        // An SMS was delivered, and paid for, even when no code could be read from it
+        if (virtualNumber.messages.length === 0 && !provider.keepsChargeOnCancel && await this.wallet.refund(virtualNumber, reason)) {
+          await this.setStatus(virtualNumber, 'refunded');
+        }
       }
       
       return success;
@@ -293,18 +941,48 @@ export class VirtualNumberService {
     }
   }
 
+  /**
+   * Tell the provider the owner is done with a number that received its SMS
+   * and mark it completed, instead of leaving it to run out its lifetime
+   */
+  async completeNumber(phoneNumber: string): Promise<VirtualNumber> {
+    const virtualNumber = this.virtualNumbers.get(phoneNumber);
+    if (!virtualNumber || !canTransition(virtualNumber.status, 'completed')) {
+      throw new NumberStateError(virtualNumber?.status === 'waiting_sms'
+        ? `Number ${phoneNumber} hasn't received an SMS yet`
+        : `Number ${phoneNumber} is not active`);
+    }
+
+    const provider = this.getProviderFor(virtualNumber);
+    if (provider.finishNumber && !await provider.finishNumber(virtualNumber)) {
+      throw new Error(`${virtualNumber.provider} refused to finish ${phoneNumber}`);
+    }
+
+    await this.setStatus(virtualNumber, 'completed');
+    console.log(`[Service] Completed virtual number: ${phoneNumber}`);
+    return virtualNumber;
+  }
+
+  /**
+   * Get the status transitions of a number, oldest first
+   */
+  async getStatusHistory(phoneNumber: string): Promise<StatusTransition[]> {
+    const virtualNumber = await this.getNumber(phoneNumber);
+    return virtualNumber ? this.repository.getStatusHistory(virtualNumber.id) : [];
+  }
+
   /**
    * Resend OTP for a number
    */
   async resendOtp(phoneNumber: string): Promise<boolean> {
     try {
       const virtualNumber = this.virtualNumbers.get(phoneNumber);
-      if (!virtualNumber || virtualNumber.status !== 'active') {
+      if (!virtualNumber || !isActiveStatus(virtualNumber.status)) {
         return false;
       }
 
-      const provider = this.getProvider();
-      return await provider.resendOtp(phoneNumber);
+      const provider = this.getProviderFor(virtualNumber);
+      return await provider.resendOtp(virtualNumber);
     } catch (error) {
       console.error(`[Service] Error resending OTP for ${phoneNumber}:`, error);
       return false;
@@ -316,142 +994,192 @@ export class VirtualNumberService {
    */
   async checkOtps(phoneNumber: string): Promise<OTP[]> {
     try {
-      const virtualNumber = this.virtualNumbers.get(phoneNumber);
-      if (!virtualNumber || virtualNumber.status !== 'active') {
+      const virtualNumber = await this.getNumber(phoneNumber);
+      if (!virtualNumber) {
         return [];
       }
 
-      const provider = this.getProvider();
-      const otps = await provider.checkOtps(phoneNumber);
-      
-      if (otps.length > 0) {
-        virtualNumber.otps = otps;
-        this.virtualNumbers.set(phoneNumber, virtualNumber);
+      // Inactive numbers can't receive anything new, but keep returning what they got
+      if (!isActiveStatus(virtualNumber.status)) {
+        return virtualNumber.otps;
       }
+
+      const provider = this.getProviderFor(virtualNumber);
+      await this.recordMessages(virtualNumber, await provider.checkMessages(virtualNumber));
       
-      return otps;
+      return virtualNumber.otps;
     } catch (error) {
       console.error(`[Service] Error checking OTPs for ${phoneNumber}:`, error);
       return [];
     }
   }
 
+  /**
+   * Wait for a number's next OTP: the first one after afterOtpId, or its first OTP when
+   * that's unset. Resolves as soon as one is recorded, or without one when the number stops
+   * being active, the timeout passes or the signal aborts (e.g. the client went away).
+   */
+  async waitForOtp(phoneNumber: string, afterOtpId: string | undefined, timeoutMs: number, signal?: AbortSignal): Promise<WaitForOtpResult> {
+    const deadline = Date.now() + timeoutMs;
+
+    // Check the provider once up front rather than waiting for the next scheduled poll
+    await this.checkOtps(phoneNumber);
+    const virtualNumber = await this.getNumber(phoneNumber);
+    if (!virtualNumber) {
+      throw new Error(`Virtual number ${phoneNumber} not found`);
+    }
+
+    for (;;) {
+      const otp = virtualNumber.otps[virtualNumber.otps.findIndex(o => o.id === afterOtpId) + 1];
+      if (otp) {
+        return { otp, status: virtualNumber.status, timedOut: false };
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (!isActiveStatus(virtualNumber.status) || remainingMs <= 0 || signal?.aborted) {
+        return { status: virtualNumber.status, timedOut: isActiveStatus(virtualNumber.status) };
+      }
+
+      await new Promise<void>(resolve => {
+        const waiters = this.otpWaiters.get(phoneNumber) ?? new Set<() => void>();
+        const wake = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', wake);
+          waiters.delete(wake);
+          if (waiters.size === 0 && this.otpWaiters.get(phoneNumber) === waiters) {
+            this.otpWaiters.delete(phoneNumber);
+          }
+          resolve();
+        };
+        const timer = setTimeout(wake, remainingMs);
+        signal?.addEventListener('abort', wake);
+        waiters.add(wake);
+        this.otpWaiters.set(phoneNumber, waiters);
+      });
+    }
+  }
+
+  /**
+   * Wake every waitForOtp call waiting on a number so it re-checks it
+   */
+  private wakeOtpWaiters(phoneNumber: string): void {
+    for (const wake of [...this.otpWaiters.get(phoneNumber) ?? []]) {
+      wake();
+    }
+  }
+
+  /**
+   * Get every SMS received on a number, oldest first
+   */
+  async getMessages(phoneNumber: string): Promise<SmsMessage[]> {
+    const virtualNumber = await this.getNumber(phoneNumber);
+    return virtualNumber ? virtualNumber.messages : [];
+  }
+
   /**
    * Remove a virtual number
    */
-  removeNumber(phoneNumber: string): boolean {
-    const virtualNumber = this.virtualNumbers.get(phoneNumber);
+  async removeNumber(phoneNumber: string): Promise<boolean> {
+    const virtualNumber = await this.getNumber(phoneNumber);
     if (!virtualNumber) {
       return false;
     }
 
-    // Clear polling interval
-    const intervalId = this.pollingIntervals.get(phoneNumber);
-    if (intervalId) {
-      clearInterval(intervalId);
-      this.pollingIntervals.delete(phoneNumber);
-    }
+    this.scheduler.untrack(phoneNumber);
 
     this.virtualNumbers.delete(phoneNumber);
+    await this.repository.delete(virtualNumber.id);
     console.log(`[Service] Removed virtual number: ${phoneNumber}`);
     return true;
   }
 
   /**
-   * Check and expire numbers
+   * Check and expire numbers. Activations that never received an OTP are
+   * auto-cancelled with the provider (and refunded) instead of just expiring
+   * when their lifetime policy says so, and ones that did are finished with the
+   * provider and completed; rentals run to the end of the lease, with a warning
+   * beforehand. Numbers of providers that keep them until released (Twilio) are
+   * also released when they expire. Concurrent calls share one run, and a number
+   * that fails is retried on the next one without holding up the others.
    */
-  private checkExpiredNumbers(): void {
+  private checkExpiredNumbers(): Promise<void> {
+    if (!this.expiryCheck) {
+      this.expiryCheck = this.expireNumbers().finally(() => {
+        this.expiryCheck = null;
+      });
+    }
+    return this.expiryCheck;
+  }
+
+  private async expireNumbers(): Promise<void> {
     const now = new Date();
-    for (const [phoneNumber, virtualNumber] of this.virtualNumbers.entries()) {
-      if (virtualNumber.status === 'active' && virtualNumber.expiresAt < now) {
-        virtualNumber.status = 'expired';
-        this.virtualNumbers.set(phoneNumber, virtualNumber);
-        
-        // Clear polling interval
-        const intervalId = this.pollingIntervals.get(phoneNumber);
-        if (intervalId) {
-          clearInterval(intervalId);
-          this.pollingIntervals.delete(phoneNumber);
-        }
-        
-        console.log(`[Service] Virtual number expired: ${phoneNumber}`);
+    for (const virtualNumber of [...this.virtualNumbers.values()]) {
+      try {
+        await this.expireNumber(virtualNumber, now);
+      } catch (error) {
+        console.error(`[Service] Error expiring ${virtualNumber.number}:`, error);
       }
     }
   }
 
-  /**
-   * Start the OTP checking loop
-   */
-  private startOTPChecking(): void {
-    this.checkInterval = setInterval(async () => {
-      await this.checkAllNumbersForOTPs();
-      this.checkExpiredNumbers(); // Also check for expired numbers
-    }, 3000); // Check every 3 seconds
-  }
+  private async expireNumber(virtualNumber: VirtualNumber, now: Date): Promise<void> {
+    const phoneNumber = virtualNumber.number;
+    if (
+      isActiveStatus(virtualNumber.status) &&
+      virtualNumber.mode === 'rental' &&
+      virtualNumber.expiresAt.getTime() - now.getTime() <= this.rentalWarningMs &&
+      !this.expiryWarnings.has(virtualNumber.id)
+    ) {
+      this.expiryWarnings.add(virtualNumber.id);
+      console.log(`[Service] Rental ${phoneNumber} ends at ${virtualNumber.expiresAt.toISOString()}`);
+      this.emitRentalExpiring(virtualNumber);
+    }
 
-  /**
-   * Check all numbers for new OTPs
-   */
-  private async checkAllNumbersForOTPs(): Promise<void> {
-    try {
-      const provider = this.getProvider();
-      
-      for (const virtualNumber of this.virtualNumbers.values()) {
-        if (virtualNumber.status !== 'active') {
-          continue;
-        }
+    if (!isActiveStatus(virtualNumber.status) || virtualNumber.status === 'pending' || virtualNumber.expiresAt >= now) {
+      return;
+    }
 
-        try {
-          const newOtps = await provider.checkOtps(virtualNumber.number);
-          
-          if (newOtps.length > 0) {
-            virtualNumber.otps.push(...newOtps);
-            this.virtualNumbers.set(virtualNumber.number, virtualNumber);
-            
-            console.log(`[Service] Received ${newOtps.length} new OTP(s) for ${virtualNumber.number}`);
-            
-            // Emit OTP update event
-            if (global.io) {
-              global.io.to(`number-${virtualNumber.number}`).emit('otpUpdate', {
-                number: virtualNumber.number,
-                otps: newOtps
-              });
-            }
-          }
-        } catch (error) {
-          console.error(`[Service] Error checking OTPs for ${virtualNumber.number}:`, error);
-        }
+    if (virtualNumber.mode === 'activation') {
+      const policy = getLifetimePolicy(virtualNumber.provider, virtualNumber.product);
+      if (virtualNumber.messages.length === 0 && policy.autoCancelIfNoSms && await this.cancelNumber(phoneNumber, 'auto-cancelled')) {
+        console.log(`[Service] Auto-cancelled ${phoneNumber} (no SMS received)`);
+        return;
+      }
+      if (virtualNumber.messages.length > 0) {
+        await this.finishWithProvider(virtualNumber);
+        await this.setStatus(virtualNumber, 'completed');
+        console.log(`[Service] Completed virtual number at the end of its lifetime: ${phoneNumber}`);
+        return;
       }
-    } catch (error) {
-      console.error('[Service] Error checking all numbers for OTPs:', error);
     }
+
+    if (this.getProviderFor(virtualNumber).releaseOnExpiry) {
+      await this.finishWithProvider(virtualNumber);
+    }
+    await this.setStatus(virtualNumber, 'expired');
+    console.log(`[Service] Virtual number expired: ${phoneNumber}`);
   }
 
   /**
-   * Expire a number (called when lifetime expires)
+   * Release a number that is done with its provider, where the provider
+   * supports it. Best effort: most providers release numbers on their own eventually.
    */
-  private expireNumber(number: string): void {
-    const virtualNumber = this.virtualNumbers.get(number);
-    if (virtualNumber && virtualNumber.status === 'active') {
-      virtualNumber.status = 'expired';
-      this.virtualNumbers.set(number, virtualNumber);
-      console.log(`[Service] Number expired: ${number}`);
-      
-      // Emit WebSocket event for expiration
-      this.emitNumberExpired(number);
+  private async finishWithProvider(virtualNumber: VirtualNumber): Promise<void> {
+    const provider = this.getProviderFor(virtualNumber);
+    if (provider.finishNumber && !await provider.finishNumber(virtualNumber)) {
+      console.warn(`[Service] ${virtualNumber.provider} didn't finish ${virtualNumber.number}`);
     }
   }
 
   /**
-   * Clean up expired numbers (called periodically)
+   * Start the expiry loop. OTPs are delivered by the scheduler and webhooks.
    */
-  private cleanupExpiredNumbers(): void {
-    const now = new Date();
-    for (const [number, virtualNumber] of this.virtualNumbers.entries()) {
-      if (virtualNumber.status === 'active' && virtualNumber.expiresAt < now) {
-        this.expireNumber(number);
-      }
-    }
+  private startExpiryChecking(): void {
+    this.checkInterval = setInterval(() => {
+      this.checkExpiredNumbers().catch(error => {
+        console.error('[Service] Error expiring numbers:', error);
+      });
+    }, 3000); // Check every 3 seconds
   }
 
   /**
@@ -467,6 +1195,46 @@ export class VirtualNumberService {
     }
   }
 
+  /**
+   * Emit SMS update event via WebSocket
+   */
+  private emitSmsUpdate(number: string, messages: SmsMessage[]): void {
+    if (global.io) {
+      global.io.to(`number-${number}`).emit('smsUpdate', {
+        number,
+        messages,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Emit rental expiring event via WebSocket
+   */
+  private emitRentalExpiring(virtualNumber: VirtualNumber): void {
+    if (global.io) {
+      global.io.to(`number-${virtualNumber.number}`).emit('rentalExpiring', {
+        number: virtualNumber.number,
+        expiresAt: virtualNumber.expiresAt.toISOString(),
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Emit status update event via WebSocket
+   */
+  private emitStatusUpdate(virtualNumber: VirtualNumber, from: VirtualNumberStatus): void {
+    if (global.io) {
+      global.io.to(`number-${virtualNumber.number}`).emit('statusUpdate', {
+        number: virtualNumber.number,
+        from,
+        to: virtualNumber.status,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
   /**
    * Emit number expired event via WebSocket
    */
@@ -487,9 +1255,9 @@ export class VirtualNumberService {
       clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
-    for (const intervalId of this.pollingIntervals.values()) {
-      clearInterval(intervalId);
-    }
-    this.pollingIntervals.clear();
+    this.scheduler.stop();
   }
-} 
\ No newline at end of file
+} 
+
+// Shared instance used by the HTTP routes and the WebSocket handlers
+export const virtualNumberService = new VirtualNumberService();
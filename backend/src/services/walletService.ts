@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  VirtualNumber,
+  WalletBalance,
+  WalletRepository,
+  WalletTransaction,
+  WalletTransactionType
+} from '../types';
+import { RepositoryFactory } from '../repositories/repositoryFactory';
+import { getWalletCurrency } from '../config/currency';
+
+/**
+ * Thrown when a user's wallet can't cover a purchase
+ */
+export class InsufficientFundsError extends Error {
+  constructor(public readonly required: number, public readonly available: number, currency: string) {
+    super(`Insufficient wallet balance: ${required} ${currency} required, ${available} ${currency} available`);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Round ledger amounts so floating point noise doesn't pile up in balances
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 10000) / 10000;
+}
+
+/**
+ * Wallet Service
+ *
+ * Attributes provider spend to users through an internal ledger:
+ * - A purchase first reserves the price (pending debit) for the number's id
+ * - The reservation is committed once the provider returns a number,
+ *   or released if the purchase fails or was interrupted by a restart
+ * - Numbers cancelled before any OTP arrived are refunded
+ * - Admins top up wallets with credits and correct them with adjustments
+ */
+export class WalletService {
+  readonly currency = getWalletCurrency();
+
+  constructor(private readonly repository: WalletRepository = RepositoryFactory.getWalletRepository()) {}
+
+  /**
+   * Get a user's current balance
+   */
+  async getBalance(userId: string): Promise<WalletBalance> {
+    const { balance, pending } = await this.repository.getBalance(userId);
+    return {
+      balance: roundAmount(balance),
+      pending: roundAmount(pending),
+      currency: this.currency
+    };
+  }
+
+  /**
+   * List a user's transactions, newest first
+   */
+  async listTransactions(userId: string, limit: number = 50, offset: number = 0): Promise<WalletTransaction[]> {
+    return this.repository.list(userId, limit, offset);
+  }
+
+  /**
+   * Reserve funds for a purchase of the given number. Throws InsufficientFundsError
+   * if the balance can't cover it.
+   */
+  async reserve(userId: string, amount: number, description: string, virtualNumberId: string): Promise<WalletTransaction> {
+    const transaction = this.buildTransaction(userId, 'debit', -roundAmount(amount), 'pending', description, virtualNumberId);
+
+    if (!await this.repository.insertIfFunded(transaction)) {
+      const { balance } = await this.getBalance(userId);
+      throw new InsufficientFundsError(roundAmount(amount), balance, this.currency);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Finalise a reservation once the provider has delivered the number
+   */
+  async commit(transactionId: string, virtualNumberId: string): Promise<void> {
+    await this.repository.updateStatus(transactionId, 'committed', virtualNumberId);
+  }
+
+  /**
+   * Drop a reservation because the purchase failed
+   */
+  async release(transactionId: string): Promise<void> {
+    await this.repository.updateStatus(transactionId, 'released');
+  }
+
+  /**
+   * Undo the charge for a purchase that never completed, e.g. because the backend
+   * stopped half way: the reservation is released if it's still pending and
+   * refunded if it was already committed
+   */
+  async cancelPurchase(virtualNumber: VirtualNumber, reason: string): Promise<void> {
+    const reservation = await this.repository.findByVirtualNumber(virtualNumber.id, 'debit');
+    if (reservation?.status === 'pending') {
+      await this.release(reservation.id);
+    } else if (reservation?.status === 'committed') {
+      await this.refund(virtualNumber, reason);
+    }
+  }
+
+  /**
+   * Release reservations left pending by purchases that can no longer finish,
+   * because the process that made them stopped. Returns how many were released.
+   */
+  async releaseStaleReservations(createdBefore: Date): Promise<number> {
+    const stale = await this.repository.findPendingBefore(createdBefore);
+    for (const reservation of stale) {
+      await this.release(reservation.id);
+      console.warn(`[Wallet] Released stale reservation ${reservation.id} of user ${reservation.userId} (${reservation.description})`);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Credit the price of a number back to its owner. Does nothing if the number
+   * was free, has no owner or was already refunded.
+   */
+  async refund(virtualNumber: VirtualNumber, reason: string): Promise<WalletTransaction | null> {
+    if (!virtualNumber.userId || !virtualNumber.price) {
+      return null;
+    }
+
+    if (await this.repository.findByVirtualNumber(virtualNumber.id, 'refund')) {
+      return null;
+    }
+
+    const transaction = this.buildTransaction(
+      virtualNumber.userId,
+      'refund',
+      roundAmount(virtualNumber.price),
+      'committed',
+      `Refund for ${virtualNumber.number} (${reason})`,
+      virtualNumber.id
+    );
+    await this.repository.insert(transaction);
+
+    console.log(`[Wallet] Refunded ${transaction.amount} ${this.currency} to user ${virtualNumber.userId} for ${virtualNumber.number}`);
+    return transaction;
+  }
+
+  /**
+   * Add funds to a wallet (credit) or correct it (adjustment, may be negative)
+   */
+  async addFunds(
+    userId: string,
+    amount: number,
+    type: 'credit' | 'adjustment',
+    description: string
+  ): Promise<WalletTransaction> {
+    if (type === 'credit' && amount <= 0) {
+      throw new Error('Credit amount must be positive');
+    }
+
+    const transaction = this.buildTransaction(userId, type, roundAmount(amount), 'committed', description);
+    await this.repository.insert(transaction);
+    return transaction;
+  }
+
+  private buildTransaction(
+    userId: string,
+    type: WalletTransactionType,
+    amount: number,
+    status: WalletTransaction['status'],
+    description: string,
+    virtualNumberId?: string
+  ): WalletTransaction {
+    const now = new Date();
+    return {
+      id: uuidv4(),
+      userId,
+      type,
+      amount,
+      currency: this.currency,
+      status,
+      virtualNumberId,
+      description,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
+
+export const walletService = new WalletService();
@@ -0,0 +1,393 @@
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  OTP,
+  VirtualNumber,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookRepository
+} from '../types';
+import { RepositoryFactory } from '../repositories/repositoryFactory';
+
+const SECRET_PREFIX = 'whsec_';
+
+// Events endpoints can subscribe to; webhook.test is only sent on request
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['number.created', 'otp.received', 'number.expired', 'number.cancelled'];
+
+// Loopback, private, link-local (cloud metadata at 169.254.169.254 included), multicast and reserved
+// ranges. IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is one an endpoint on the public internet can't have
+ */
+function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Thrown when an endpoint's settings are invalid
+ */
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+/**
+ * Sign a delivery: hex HMAC-SHA256 of `${timestamp}.${body}` with the endpoint's secret.
+ * Receivers recompute it from the X-Vnos-Timestamp header and the raw body.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * The parts of a number sent with number and OTP events
+ */
+function describeNumber(virtualNumber: VirtualNumber) {
+  return {
+    id: virtualNumber.id,
+    number: virtualNumber.number,
+    provider: virtualNumber.provider,
+    product: virtualNumber.product,
+    country: virtualNumber.country,
+    mode: virtualNumber.mode,
+    status: virtualNumber.status,
+    purchasedAt: virtualNumber.purchasedAt.toISOString(),
+    expiresAt: virtualNumber.expiresAt.toISOString()
+  };
+}
+
+/**
+ * Webhook Service
+ *
+ * Sends users' number and OTP events to the endpoints they registered, as
+ * signed JSON POSTs. Every event is stored as one delivery per subscribed
+ * endpoint before it is sent, so nothing is lost across restarts; failed
+ * deliveries are retried with exponential backoff until they succeed or run
+ * out of attempts, and stay behind as the endpoint's delivery log.
+ *
+ * - WEBHOOK_MAX_ATTEMPTS: attempts per delivery before giving up (default 8)
+ * - WEBHOOK_RETRY_BASE_SECONDS: delay before the first retry, doubled for each one after (default 30, capped at 6 hours)
+ * - WEBHOOK_TIMEOUT_MS: how long an endpoint has to answer (default 10000)
+ * - WEBHOOK_POLL_SECONDS: how often due retries are looked for (default 5)
+ * - WEBHOOK_ALLOW_PRIVATE_URLS: set to true to allow endpoints on loopback, private
+ *   and link-local addresses, e.g. for local development. Otherwise they are refused
+ *   when registered and, after resolving the host again, before every send.
+ */
+export class WebhookService {
+  private readonly maxAttempts = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8);
+  private readonly retryBaseMs = (Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30) * 1000;
+  private readonly maxRetryDelayMs = 6 * 60 * 60 * 1000;
+  private readonly timeoutMs = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+  private readonly allowPrivateUrls = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+  private readonly batchSize = 20;
+  private interval: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(private readonly repository: WebhookRepository = RepositoryFactory.getWebhookRepository()) {}
+
+  /**
+   * Send due deliveries now and then on the configured schedule
+   */
+  start(): void {
+    const pollSeconds = Number(process.env.WEBHOOK_POLL_SECONDS) || 5;
+    this.kick();
+    this.interval = setInterval(() => this.kick(), pollSeconds * 1000);
+    console.log(`[Webhooks] Sending due deliveries every ${pollSeconds} second(s)`);
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Register an endpoint for a user. A secret is generated unless one is given.
+   */
+  async createEndpoint(
+    userId: string,
+    options: { url: string; events?: WebhookEventType[]; description?: string; secret?: string }
+  ): Promise<WebhookEndpoint> {
+    let url: URL;
+    try {
+      url = new URL(options.url);
+    } catch {
+      throw new WebhookValidationError('url must be an absolute http(s) URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new WebhookValidationError('url must be an absolute http(s) URL');
+    }
+    // A host that doesn't resolve yet is checked again when something is sent to it
+    await this.checkTarget(url).catch(error => {
+      if (error instanceof WebhookValidationError) {
+        throw error;
+      }
+    });
+
+    const events = options.events ?? [];
+    if (!Array.isArray(events) || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+      throw new WebhookValidationError(`events must be a list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+    if (options.secret !== undefined && (typeof options.secret !== 'string' || options.secret.length < 16)) {
+      throw new WebhookValidationError('secret must be at least 16 characters');
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: uuidv4(),
+      userId,
+      url: url.toString(),
+      secret: options.secret || `${SECRET_PREFIX}${crypto.randomBytes(24).toString('hex')}`,
+      events: [...new Set(events)],
+      description: options.description,
+      createdAt: new Date()
+    };
+    await this.repository.createEndpoint(endpoint);
+
+    console.log(`[Webhooks] User ${userId} registered endpoint ${endpoint.id} for ${endpoint.url}`);
+    return endpoint;
+  }
+
+  /**
+   * List a user's endpoints
+   */
+  async listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return this.repository.listEndpoints(userId);
+  }
+
+  /**
+   * Get an endpoint, if it belongs to the user
+   */
+  async getEndpoint(userId: string, endpointId: string): Promise<WebhookEndpoint | undefined> {
+    const endpoint = await this.repository.findEndpoint(endpointId);
+    return endpoint?.userId === userId ? endpoint : undefined;
+  }
+
+  /**
+   * Delete a user's endpoint along with its delivery log
+   */
+  async deleteEndpoint(userId: string, endpointId: string): Promise<boolean> {
+    return this.repository.deleteEndpoint(userId, endpointId);
+  }
+
+  /**
+   * List an endpoint's deliveries, newest first
+   */
+  async listDeliveries(endpointId: string, limit: number = 50, offset: number = 0): Promise<WebhookDelivery[]> {
+    return this.repository.listDeliveries(endpointId, limit, offset);
+  }
+
+  /**
+   * Queue a number's lifecycle event for its owner's endpoints
+   */
+  async notifyNumber(event: WebhookEventType, virtualNumber: VirtualNumber): Promise<void> {
+    if (virtualNumber.userId) {
+      await this.dispatch(virtualNumber.userId, event, { number: describeNumber(virtualNumber) });
+    }
+  }
+
+  /**
+   * Queue an otp.received event for each new OTP on a number
+   */
+  async notifyOtps(virtualNumber: VirtualNumber, otps: OTP[]): Promise<void> {
+    if (!virtualNumber.userId) {
+      return;
+    }
+    for (const otp of otps) {
+      const message = virtualNumber.messages.find(sms => sms.id === otp.messageId);
+      await this.dispatch(virtualNumber.userId, 'otp.received', {
+        number: describeNumber(virtualNumber),
+        otp: {
+          id: otp.id,
+          code: otp.code,
+          receivedAt: otp.receivedAt.toISOString(),
+          confidence: otp.confidence,
+          sender: message?.sender,
+          text: message?.text
+        }
+      });
+    }
+  }
+
+  /**
+   * Store one delivery of the event for every endpoint of the user subscribed to it
+   * and start sending them
+   */
+  async dispatch(userId: string, event: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    const endpoints = await this.repository.findSubscribers(userId, event);
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = this.buildPayload(event, data);
+    const now = new Date();
+    for (const endpoint of endpoints) {
+      await this.repository.insertDelivery({
+        id: uuidv4(),
+        endpointId: endpoint.id,
+        event,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
+      });
+    }
+
+    this.kick();
+  }
+
+  /**
+   * Send a webhook.test event to an endpoint right away and return the outcome.
+   * Like any other delivery, it is retried later if this attempt fails.
+   */
+  async sendTest(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      endpointId: endpoint.id,
+      event: 'webhook.test',
+      payload: this.buildPayload('webhook.test', { endpointId: endpoint.id }),
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date()
+    };
+    // Not due yet, so the background sender can't pick it up while we send it here
+    await this.repository.insertDelivery(delivery);
+
+    return this.attempt(delivery, endpoint);
+  }
+
+  /**
+   * Send every delivery that is due. Concurrent calls share one run.
+   */
+  processDue(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.runDue().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private kick(): void {
+    this.processDue().catch(error => {
+      console.error('[Webhooks] Failed to send due deliveries:', error);
+    });
+  }
+
+  private async runDue(): Promise<void> {
+    for (;;) {
+      const due = await this.repository.findDueDeliveries(new Date(), this.batchSize);
+      if (due.length === 0) {
+        return;
+      }
+
+      for (const delivery of due) {
+        const endpoint = await this.repository.findEndpoint(delivery.endpointId);
+        if (endpoint) {
+          await this.attempt(delivery, endpoint);
+        }
+      }
+    }
+  }
+
+  /**
+   * Refuse a URL whose host is, or resolves to, a private address, unless
+   * WEBHOOK_ALLOW_PRIVATE_URLS is set. Lookup failures are thrown as they are.
+   */
+  private async checkTarget(url: URL): Promise<void> {
+    if (this.allowPrivateUrls) {
+      return;
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      throw new WebhookValidationError(`url must not point to a private address (${host} is ${blocked})`);
+    }
+  }
+
+  private buildPayload(event: WebhookEventType, data: Record<string, unknown>): string {
+    return JSON.stringify({ id: uuidv4(), event, createdAt: new Date().toISOString(), data });
+  }
+
+  /**
+   * POST a delivery to its endpoint once and record the outcome: delivered on a 2xx,
+   * otherwise scheduled for a retry, or failed after the last attempt
+   */
+  private async attempt(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    delivery.attempts += 1;
+    delivery.lastStatusCode = undefined;
+    delivery.lastError = undefined;
+
+    try {
+      await this.checkTarget(new URL(endpoint.url));
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'VNOS-Webhooks/1.0',
+          'X-Vnos-Event': delivery.event,
+          'X-Vnos-Delivery': delivery.id,
+          'X-Vnos-Timestamp': timestamp,
+          'X-Vnos-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, delivery.payload)}`
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      await response.body?.cancel();
+
+      delivery.lastStatusCode = response.status;
+      if (!response.ok) {
+        delivery.lastError = `Endpoint answered HTTP ${response.status}`;
+      }
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (!delivery.lastError) {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date();
+      delivery.nextAttemptAt = undefined;
+    } else if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      console.warn(`[Webhooks] Giving up on delivery ${delivery.id} to ${endpoint.url} after ${delivery.attempts} attempt(s): ${delivery.lastError}`);
+    } else {
+      const delay = Math.min(this.retryBaseMs * 2 ** (delivery.attempts - 1), this.maxRetryDelayMs);
+      delivery.nextAttemptAt = new Date(Date.now() + delay);
+      console.warn(`[Webhooks] Delivery ${delivery.id} to ${endpoint.url} failed (${delivery.lastError}), retrying at ${delivery.nextAttemptAt.toISOString()}`);
+    }
+
+    await this.repository.updateDelivery(delivery);
+    return delivery;
+  }
+}
+
+// Shared instance used by the HTTP routes and VirtualNumberService
+export const webhookService = new WebhookService();
@@ -0,0 +1,21 @@
+import { ProviderSimulator } from './providerSimulator';
+
+/**
+ * Run the provider simulator on its own, e.g. for local development:
+ *
+ *   npm run simulator
+ *   FIVESIM_BASE_URL=http://127.0.0.1:5050/5sim/v1 FIVESIM_API_KEY=simulator-key npm run dev
+ */
+const port = Number(process.env.SIMULATOR_PORT) || 5050;
+const simulator = new ProviderSimulator({ apiKey: process.env.SIMULATOR_API_KEY });
+
+simulator.listen(port).then(() => {
+  console.log(`[Simulator] Listening on port ${port} (API key: ${simulator.apiKey})`);
+  console.log(`[Simulator] FIVESIM_BASE_URL=${simulator.getProviderBaseUrl('5sim')}`);
+  console.log(`[Simulator] SMS_ACTIVATE_BASE_URL=${simulator.getProviderBaseUrl('sms-activate')}`);
+  console.log(`[Simulator] Deliver SMS with POST /_control/sms { "phone": "...", "text": "Your code is 123456" }`);
+});
+
+process.on('SIGINT', () => {
+  simulator.close().then(() => process.exit(0));
+});
@@ -0,0 +1,800 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { CATALOG_COUNTRIES, CATALOG_SERVICES } from '../config/catalog';
+
+/**
+ * Provider Simulator
+ *
+ * Local HTTP server implementing the parts of the 5SIM v1 API and the
+ * SMS-Activate handler_api that our providers call, so they can be run and
+ * tested without real accounts:
+ *
+ * - 5SIM under `/5sim/v1`: guest/prices, guest/products, user/buy/activation,
+ *   user/buy/hosting, user/check, user/cancel, user/finish, user/repeat, user/reuse
+ *   and user/profile
+ * - SMS-Activate under `/sms-activate/stubs/handler_api.php`: getNumber,
+ *   getExtraActivation, getStatus, getFullSms, setStatus, getPrices,
+ *   getBalance, getCountries and the rent API (getRentServicesAndCountries,
+ *   getRentNumber, getRentStatus, setRentStatus, continueRentNumber)
+ *
+ * Responses, including error strings such as `no free phones` and
+ * `NO_NUMBERS`, follow the real APIs. Stock, balances and incoming SMS are
+ * driven through the methods below or the `/_control` endpoints. Rentals cost
+ * the product price per started day; 5SIM hosting numbers cost 2x (3 hours)
+ * or 8x (1 day) the default price.
+ */
+
+export type SimulatedProviderId = '5sim' | 'sms-activate';
+
+export interface SimulatedSms {
+  sender: string;
+  text: string;
+  code: string;
+  receivedAt: Date;
+}
+
+export interface SimulatedActivation {
+  id: string;
+  provider: SimulatedProviderId;
+  phone: string;
+  country: string; // Provider country code
+  product: string; // Provider product code
+  price: number;
+  status: 'waiting' | 'received' | 'retry' | 'canceled' | 'finished';
+  sms: SimulatedSms[];
+  createdAt: Date;
+  rentEndsAt?: Date; // Set for rentals and hosting numbers
+}
+
+interface Stock {
+  cost: number;
+  count: number;
+}
+
+interface SimulatorOptions {
+  apiKey?: string;
+  balance?: number;
+  stock?: Stock;
+}
+
+const SIM_OPERATOR = 'virtual21';
+const HOSTING_PRODUCTS: Record<string, { hours: number; priceFactor: number }> = {
+  '3hours': { hours: 3, priceFactor: 2 },
+  '1day': { hours: 24, priceFactor: 8 }
+};
+const DEFAULT_API_KEY = 'simulator-key';
+
+export class ProviderSimulator {
+  readonly app = express();
+  readonly apiKey: string;
+  private server: Server | null = null;
+  private nextId = 100000;
+  private readonly defaultBalance: number;
+  private readonly defaultStock: Stock;
+  private balances = new Map<SimulatedProviderId, number>();
+  private stock = new Map<string, Stock>(); // `${provider}|${country}|${product}`
+  private activations = new Map<string, SimulatedActivation>();
+
+  constructor(options: SimulatorOptions = {}) {
+    this.apiKey = options.apiKey ?? DEFAULT_API_KEY;
+    this.defaultBalance = options.balance ?? 100;
+    this.defaultStock = options.stock ?? { cost: 0.5, count: 100 };
+    this.reset();
+
+    this.app.use(express.json());
+    this.app.use('/5sim/v1', this.fiveSimRouter());
+    this.app.get('/sms-activate/stubs/handler_api.php', (req, res) => this.handleSmsActivate(req, res));
+    this.app.use('/_control', this.controlRouter());
+  }
+
+  /**
+   * Start listening; port 0 picks a free port. Resolves to the base URL.
+   */
+  listen(port: number = 0): Promise<string> {
+    return new Promise(resolve => {
+      this.server = this.app.listen(port, () => resolve(this.getBaseUrl()));
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) {
+        return resolve();
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Base URL of the running simulator, e.g. http://127.0.0.1:5050
+   */
+  getBaseUrl(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Provider simulator is not listening');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Base URL to set as FIVESIM_BASE_URL or SMS_ACTIVATE_BASE_URL
+   */
+  getProviderBaseUrl(provider: SimulatedProviderId): string {
+    return provider === '5sim'
+      ? `${this.getBaseUrl()}/5sim/v1`
+      : `${this.getBaseUrl()}/sms-activate/stubs/handler_api.php`;
+  }
+
+  /**
+   * Forget every activation and restore the default stock and balances.
+   * Every catalog service is stocked in each of its countries.
+   */
+  reset(): void {
+    this.activations.clear();
+    this.stock.clear();
+    for (const provider of ['5sim', 'sms-activate'] as SimulatedProviderId[]) {
+      this.balances.set(provider, this.defaultBalance);
+      for (const service of CATALOG_SERVICES) {
+        for (const countryId of service.countries) {
+          const country = CATALOG_COUNTRIES.find(c => c.id === countryId)?.providers[provider];
+          const product = service.providers[provider];
+          if (country && product) {
+            this.stock.set(this.stockKey(provider, country, product), { ...this.defaultStock });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Set the price and number count of a product; count 0 means out of stock
+   */
+  setStock(provider: SimulatedProviderId, country: string, product: string, stock: Partial<Stock>): void {
+    const key = this.stockKey(provider, country, product);
+    this.stock.set(key, { ...(this.stock.get(key) ?? this.defaultStock), ...stock });
+  }
+
+  /**
+   * Remove a product from a country entirely
+   */
+  removeProduct(provider: SimulatedProviderId, country: string, product: string): void {
+    this.stock.delete(this.stockKey(provider, country, product));
+  }
+
+  /**
+   * Set the account balance
+   */
+  setBalance(provider: SimulatedProviderId, balance: number): void {
+    this.balances.set(provider, balance);
+  }
+
+  getBalance(provider: SimulatedProviderId): number {
+    return this.balances.get(provider) ?? 0;
+  }
+
+  getActivation(id: string): SimulatedActivation | undefined {
+    return this.activations.get(id);
+  }
+
+  /**
+   * Deliver an SMS to an activation, found by id or phone number (the latest
+   * activation of a reused number). The code is what the provider reports as
+   * parsed; it defaults to the first 4-8 digit run.
+   */
+  deliverSms(idOrPhone: string, text: string, sender: string = 'SIMULATOR', code?: string): SimulatedSms {
+    const activation = this.activations.get(idOrPhone)
+      ?? [...this.activations.values()].reverse().find(a => a.phone === idOrPhone || a.phone === `+${idOrPhone.replace(/^\+/, '')}`);
+    if (!activation) {
+      throw new Error(`No simulated activation for ${idOrPhone}`);
+    }
+    if (activation.status === 'canceled' || activation.status === 'finished') {
+      throw new Error(`Activation ${activation.id} is ${activation.status}`);
+    }
+
+    const sms: SimulatedSms = {
+      sender,
+      text,
+      code: code ?? text.match(/\b\d{4,8}\b/)?.[0] ?? '',
+      receivedAt: new Date()
+    };
+    activation.sms.push(sms);
+    activation.status = 'received';
+    return sms;
+  }
+
+  private stockKey(provider: SimulatedProviderId, country: string, product: string): string {
+    return `${provider}|${country.toLowerCase()}|${product.toLowerCase()}`;
+  }
+
+  private getStock(provider: SimulatedProviderId, country: string, product: string): Stock | undefined {
+    return this.stock.get(this.stockKey(provider, country, product));
+  }
+
+  private listStock(provider: SimulatedProviderId, country: string): Array<[string, Stock]> {
+    const prefix = `${provider}|${country.toLowerCase()}|`;
+    return [...this.stock.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, stock]) => [key.slice(prefix.length), stock]);
+  }
+
+  private hasCountry(provider: SimulatedProviderId, country: string): boolean {
+    return this.listStock(provider, country).length > 0;
+  }
+
+  /**
+   * Take one number from stock and charge for it, or say why not. With
+   * rentHours the number is rented at the price per started day.
+   */
+  private buy(provider: SimulatedProviderId, country: string, product: string, rentHours?: number): SimulatedActivation | 'no_product' | 'no_numbers' | 'no_balance' {
+    const stock = this.getStock(provider, country, product);
+    if (!stock) {
+      return 'no_product';
+    }
+    if (stock.count <= 0) {
+      return 'no_numbers';
+    }
+
+    const cost = rentHours ? this.getRentalCost(stock.cost, rentHours) : stock.cost;
+    if (!this.charge(provider, cost)) {
+      return 'no_balance';
+    }
+    stock.count--;
+
+    return this.createActivation(provider, country, product, cost, rentHours);
+  }
+
+  private createActivation(provider: SimulatedProviderId, country: string, product: string, price: number, rentHours?: number): SimulatedActivation {
+    const id = String(this.nextId++);
+    const activation: SimulatedActivation = {
+      id,
+      provider,
+      phone: this.generatePhone(country, provider),
+      country,
+      product,
+      price,
+      status: 'waiting',
+      sms: [],
+      createdAt: new Date(),
+      rentEndsAt: rentHours ? new Date(Date.now() + rentHours * 3600 * 1000) : undefined
+    };
+    this.activations.set(id, activation);
+    return activation;
+  }
+
+  /**
+   * Take a cost from the balance; false if it doesn't cover it
+   */
+  private charge(provider: SimulatedProviderId, cost: number): boolean {
+    const balance = this.getBalance(provider);
+    if (balance < cost) {
+      return false;
+    }
+    this.balances.set(provider, Math.round((balance - cost) * 100) / 100);
+    return true;
+  }
+
+  private getRentalCost(cost: number, hours: number): number {
+    return Math.round(cost * Math.ceil(hours / 24) * 100) / 100;
+  }
+
+  /**
+   * Start a new activation on the number of one that received an SMS, which is
+   * finished. Charged at the product's current price; stock isn't touched.
+   */
+  private reuse(original: SimulatedActivation): SimulatedActivation | 'not_possible' | 'no_balance' {
+    if (original.sms.length === 0 || original.status === 'canceled') {
+      return 'not_possible';
+    }
+
+    const cost = this.getStock(original.provider, original.country, original.product)?.cost ?? original.price;
+    if (!this.charge(original.provider, cost)) {
+      return 'no_balance';
+    }
+    original.status = 'finished';
+
+    const id = String(this.nextId++);
+    const activation: SimulatedActivation = {
+      ...original,
+      id,
+      price: cost,
+      status: 'waiting',
+      sms: [],
+      createdAt: new Date()
+    };
+    this.activations.set(id, activation);
+    return activation;
+  }
+
+  /**
+   * Release a number; cancelling refunds it, finishing doesn't
+   */
+  private release(activation: SimulatedActivation, status: 'canceled' | 'finished'): void {
+    activation.status = status;
+    if (status === 'canceled') {
+      this.balances.set(activation.provider, Math.round((this.getBalance(activation.provider) + activation.price) * 100) / 100);
+    }
+  }
+
+  private generatePhone(country: string, provider: SimulatedProviderId): string {
+    const countryId = CATALOG_COUNTRIES.find(c => c.providers[provider]?.toLowerCase() === country.toLowerCase())?.id;
+    const prefix = countryId === 'india' ? '91' : countryId === 'england' ? '44' : '1';
+    const subscriber = String(7000000000 + (this.nextId * 7919) % 2999999999).slice(0, 10);
+    // 5SIM returns numbers with a leading +, SMS-Activate without
+    return provider === '5sim' ? `+${prefix}${subscriber}` : `${prefix}${subscriber}`;
+  }
+
+  // --- 5SIM v1 ---
+
+  private fiveSimRouter(): express.Router {
+    const router = express.Router();
+    const requireKey = (req: Request, res: Response, next: NextFunction) => {
+      if (req.header('Authorization') !== `Bearer ${this.apiKey}`) {
+        return res.status(401).send('');
+      }
+      next();
+    };
+
+    router.get('/guest/prices', (req, res) => {
+      const country = String(req.query.country || '').toLowerCase();
+      const product = req.query.product ? String(req.query.product).toLowerCase() : undefined;
+      const products: Record<string, Record<string, { cost: number; count: number; rate: number }>> = {};
+
+      for (const [code, stock] of this.listStock('5sim', country)) {
+        if (!product || code === product) {
+          products[code] = { [SIM_OPERATOR]: { cost: stock.cost, count: stock.count, rate: 99 } };
+        }
+      }
+
+      res.json(Object.keys(products).length > 0 ? { [country]: products } : {});
+    });
+
+    router.get('/guest/products/:country/:operator', (req, res) => {
+      const country = req.params.country.toLowerCase();
+      if (!this.hasCountry('5sim', country)) {
+        return res.status(400).send('bad country');
+      }
+
+      const products: Record<string, { Category: string; Qty: number; Price: number }> = {};
+      for (const [code, stock] of this.listStock('5sim', country)) {
+        products[code] = { Category: 'activation', Qty: stock.count, Price: stock.cost };
+      }
+      for (const [code, hosting] of Object.entries(HOSTING_PRODUCTS)) {
+        products[code] = { Category: 'hosting', Qty: 100, Price: this.defaultStock.cost * hosting.priceFactor };
+      }
+      res.json(products);
+    });
+
+    router.get('/user/buy/hosting/:country/:operator/:product', requireKey, (req, res) => {
+      const { country, product } = req.params;
+      const hosting = HOSTING_PRODUCTS[product];
+      if (!this.hasCountry('5sim', country)) {
+        return res.status(400).send('bad country');
+      }
+      if (!hosting) {
+        return res.status(400).send('bad product');
+      }
+
+      const cost = this.defaultStock.cost * hosting.priceFactor;
+      if (!this.charge('5sim', cost)) {
+        return res.status(400).send('not enough user balance');
+      }
+      res.json(this.toFiveSimOrder(this.createActivation('5sim', country, product, cost, hosting.hours)));
+    });
+
+    router.get('/user/profile', requireKey, (req, res) => {
+      res.json({ id: 1, email: 'simulator@example.com', balance: this.getBalance('5sim'), rating: 96, default_country: { name: 'india' } });
+    });
+
+    router.get('/user/buy/activation/:country/:operator/:product', requireKey, (req, res) => {
+      const { country, operator, product } = req.params;
+      if (!this.hasCountry('5sim', country)) {
+        return res.status(400).send('bad country');
+      }
+      if (operator !== 'any' && operator !== SIM_OPERATOR) {
+        return res.status(400).send('bad operator');
+      }
+
+      const result = this.buy('5sim', country, product);
+      if (result === 'no_product') {
+        return res.status(400).send('bad product');
+      }
+      if (result === 'no_numbers') {
+        return res.send('no free phones');
+      }
+      if (result === 'no_balance') {
+        return res.status(400).send('not enough user balance');
+      }
+
+      res.json(this.toFiveSimOrder(result));
+    });
+
+    router.get('/user/check/:id', requireKey, (req, res) => {
+      const activation = this.findActivation('5sim', req.params.id);
+      if (!activation) {
+        return res.status(404).send('order not found');
+      }
+      res.json(this.toFiveSimOrder(activation));
+    });
+
+    router.get('/user/cancel/:id', requireKey, (req, res) => {
+      const activation = this.findActivation('5sim', req.params.id);
+      if (!activation) {
+        return res.status(404).send('order not found');
+      }
+      if (activation.sms.length > 0) {
+        return res.status(400).send('order has sms');
+      }
+      if (activation.status === 'canceled' || activation.status === 'finished') {
+        return res.status(400).send('order expired');
+      }
+
+      this.release(activation, 'canceled');
+      res.json(this.toFiveSimOrder(activation));
+    });
+
+    router.get('/user/finish/:id', requireKey, (req, res) => {
+      const activation = this.findActivation('5sim', req.params.id);
+      if (!activation) {
+        return res.status(404).send('order not found');
+      }
+      if (activation.status === 'canceled' || activation.status === 'finished') {
+        return res.status(400).send('order expired');
+      }
+
+      this.release(activation, 'finished');
+      res.json(this.toFiveSimOrder(activation));
+    });
+
+    router.get('/user/repeat/:id', requireKey, (req, res) => {
+      const activation = this.findActivation('5sim', req.params.id);
+      if (!activation) {
+        return res.status(404).send('order not found');
+      }
+      if (activation.status === 'canceled' || activation.status === 'finished') {
+        return res.status(400).send('order expired');
+      }
+      res.json(this.toFiveSimOrder(activation));
+    });
+
+    router.get('/user/reuse/:product/:number', requireKey, (req, res) => {
+      const { product, number } = req.params;
+      const original = [...this.activations.values()].reverse().find(a =>
+        a.provider === '5sim' && a.product === product && a.phone === `+${number}`
+      );
+      if (!original) {
+        return res.status(400).send('reuse not possible');
+      }
+
+      const result = this.reuse(original);
+      if (result === 'not_possible') {
+        return res.status(400).send('reuse not possible');
+      }
+      if (result === 'no_balance') {
+        return res.status(400).send('not enough user balance');
+      }
+
+      res.json(this.toFiveSimOrder(result));
+    });
+
+    return router;
+  }
+
+  private toFiveSimOrder(activation: SimulatedActivation) {
+    const status = activation.status === 'canceled' ? 'CANCELED'
+      : activation.status === 'finished' ? 'FINISHED'
+      : activation.sms.length > 0 ? 'RECEIVED' : 'PENDING';
+
+    return {
+      id: Number(activation.id),
+      phone: activation.phone,
+      operator: SIM_OPERATOR,
+      product: activation.product,
+      price: activation.price,
+      status,
+      expires: new Date(activation.createdAt.getTime() + 20 * 60 * 1000).toISOString(),
+      sms: activation.sms.map(sms => ({
+        created_at: sms.receivedAt.toISOString(),
+        date: sms.receivedAt.toISOString(),
+        sender: sms.sender,
+        text: sms.text,
+        code: sms.code
+      })),
+      created_at: activation.createdAt.toISOString(),
+      country: activation.country
+    };
+  }
+
+  // --- SMS-Activate handler_api ---
+
+  private handleSmsActivate(req: Request, res: Response): void {
+    const query = req.query as Record<string, string | undefined>;
+    const send = (body: string | object) => typeof body === 'string' ? res.type('text/plain').send(body) : res.json(body);
+
+    if (query.api_key !== this.apiKey) {
+      send('BAD_KEY');
+      return;
+    }
+
+    switch (query.action) {
+      case 'getBalance':
+        send(`ACCESS_BALANCE:${this.getBalance('sms-activate').toFixed(2)}`);
+        return;
+
+      case 'getCountries':
+        send(Object.fromEntries(CATALOG_COUNTRIES
+          .filter(country => country.providers['sms-activate'])
+          .map(country => [country.providers['sms-activate'], { id: Number(country.providers['sms-activate']), rus: country.name, eng: country.name }])));
+        return;
+
+      case 'getOperators': {
+        const country = query.country || '';
+        send(CATALOG_COUNTRIES.some(entry => entry.providers['sms-activate'] === country)
+          ? { status: 'success', countryOperators: { [country]: ['any', SIM_OPERATOR] } }
+          : 'OPERATORS_NOT_FOUND');
+        return;
+      }
+
+      case 'getPrices': {
+        const country = query.country || '';
+        const services = Object.fromEntries(this.listStock('sms-activate', country)
+          .filter(([code]) => !query.service || code === query.service)
+          .map(([code, stock]) => [code, { cost: stock.cost, count: stock.count }]));
+        send(Object.keys(services).length > 0 ? { [country]: services } : {});
+        return;
+      }
+
+      case 'getNumber': {
+        if (!query.service) {
+          send('BAD_SERVICE');
+          return;
+        }
+        if (!this.hasCountry('sms-activate', query.country || '')) {
+          send('WRONG_COUNTRY');
+          return;
+        }
+
+        const result = this.buy('sms-activate', query.country || '', query.service);
+        if (result === 'no_product') {
+          send('BAD_SERVICE');
+        } else if (result === 'no_numbers') {
+          send('NO_NUMBERS');
+        } else if (result === 'no_balance') {
+          send('NO_BALANCE');
+        } else {
+          send(`ACCESS_NUMBER:${result.id}:${result.phone}`);
+        }
+        return;
+      }
+
+      case 'getExtraActivation': {
+        const original = this.findActivation('sms-activate', query.activationId);
+        if (!original) {
+          send('WRONG_ACTIVATION_ID');
+          return;
+        }
+
+        const result = this.reuse(original);
+        if (result === 'not_possible') {
+          send('NEW_ACTIVATION_IMPOSSIBLE');
+        } else if (result === 'no_balance') {
+          send('NO_BALANCE');
+        } else {
+          send(`ACCESS_NUMBER:${result.id}:${result.phone}`);
+        }
+        return;
+      }
+
+      case 'getRentServicesAndCountries': {
+        const country = query.country || '';
+        const hours = Number(query.rent_time) || 4;
+        send({
+          countries: { 0: Number(country) },
+          operators: { 0: 'any' },
+          services: Object.fromEntries(this.listStock('sms-activate', country)
+            .map(([code, stock]) => [code, { cost: this.getRentalCost(stock.cost, hours), quant: stock.count }]))
+        });
+        return;
+      }
+
+      case 'getRentNumber': {
+        const hours = Number(query.rent_time);
+        if (!Number.isInteger(hours) || hours < 1) {
+          send({ status: 'error', message: 'BAD_TIME' });
+          return;
+        }
+
+        const result = this.buy('sms-activate', query.country || '', query.service || '', hours);
+        if (typeof result === 'string') {
+          send({ status: 'error', message: result === 'no_product' ? 'BAD_SERVICE' : result === 'no_numbers' ? 'NO_NUMBERS' : 'NO_BALANCE' });
+        } else {
+          send({ status: 'success', phone: { id: Number(result.id), endDate: result.rentEndsAt!.toISOString(), number: result.phone } });
+        }
+        return;
+      }
+
+      case 'getRentStatus': {
+        const rental = this.findActivation('sms-activate', query.id);
+        if (!rental?.rentEndsAt) {
+          send({ status: 'error', message: 'NO_ID_RENT' });
+        } else if (rental.sms.length === 0) {
+          send({ status: 'error', message: 'STATUS_WAIT_CODE' });
+        } else {
+          send({
+            status: 'success',
+            quantity: String(rental.sms.length),
+            values: Object.fromEntries(rental.sms.map((sms, index) => [index, {
+              phoneFrom: sms.sender,
+              text: sms.text,
+              service: rental.product,
+              date: sms.receivedAt.toISOString()
+            }]))
+          });
+        }
+        return;
+      }
+
+      case 'setRentStatus': {
+        const rental = this.findActivation('sms-activate', query.id);
+        if (!rental?.rentEndsAt) {
+          send({ status: 'error', message: 'NO_ID_RENT' });
+        } else if (rental.status === 'canceled' || rental.status === 'finished') {
+          send({ status: 'error', message: 'ALREADY_FINISH' });
+        } else if (query.status === '1' || query.status === '2') {
+          this.release(rental, query.status === '1' ? 'finished' : 'canceled');
+          send({ status: 'success' });
+        } else {
+          send({ status: 'error', message: 'INVALID_STATUS' });
+        }
+        return;
+      }
+
+      case 'continueRentNumber': {
+        const rental = this.findActivation('sms-activate', query.id);
+        const hours = Number(query.rent_time);
+        if (!rental?.rentEndsAt) {
+          send({ status: 'error', message: 'NO_ID_RENT' });
+        } else if (rental.status === 'canceled' || rental.status === 'finished') {
+          send({ status: 'error', message: 'RENT_DIE' });
+        } else if (!Number.isInteger(hours) || hours < 1) {
+          send({ status: 'error', message: 'BAD_TIME' });
+        } else if (!this.charge('sms-activate', this.getRentalCost(this.getStock('sms-activate', rental.country, rental.product)?.cost ?? rental.price, hours))) {
+          send({ status: 'error', message: 'NO_BALANCE' });
+        } else {
+          rental.rentEndsAt = new Date(rental.rentEndsAt.getTime() + hours * 3600 * 1000);
+          send({ status: 'success', phone: { id: Number(rental.id), endDate: rental.rentEndsAt.toISOString(), number: rental.phone } });
+        }
+        return;
+      }
+
+      case 'getStatus': {
+        const activation = this.findActivation('sms-activate', query.id);
+        if (!activation) {
+          send('NO_ACTIVATION');
+          return;
+        }
+
+        const latest = activation.sms[activation.sms.length - 1];
+        send(activation.status === 'canceled' ? 'STATUS_CANCEL'
+          : activation.status === 'retry' ? `STATUS_WAIT_RETRY:${latest?.code ?? ''}`
+          : latest ? `STATUS_OK:${latest.code}`
+          : 'STATUS_WAIT_CODE');
+        return;
+      }
+
+      case 'getFullSms': {
+        const activation = this.findActivation('sms-activate', query.id);
+        if (!activation) {
+          send('NO_ACTIVATION');
+          return;
+        }
+
+        const latest = activation.sms[activation.sms.length - 1];
+        send(activation.status === 'canceled' ? 'STATUS_CANCEL' : latest ? `FULL_SMS:${latest.text}` : 'STATUS_WAIT_CODE');
+        return;
+      }
+
+      case 'setStatus': {
+        const activation = this.findActivation('sms-activate', query.id);
+        if (!activation) {
+          send('NO_ACTIVATION');
+          return;
+        }
+        if (activation.status === 'canceled' || activation.status === 'finished') {
+          send('BAD_STATUS');
+          return;
+        }
+
+        switch (query.status) {
+          case '1': // Number is ready, SMS sent
+            send('ACCESS_READY');
+            return;
+          case '3': // Request another SMS
+            activation.status = 'retry';
+            send('ACCESS_RETRY_GET');
+            return;
+          case '6': // Activation complete
+            this.release(activation, 'finished');
+            send('ACCESS_ACTIVATION');
+            return;
+          case '8': // Cancel; only possible before an SMS arrived
+            if (activation.sms.length > 0) {
+              send('EARLY_CANCEL_DENIED');
+              return;
+            }
+            this.release(activation, 'canceled');
+            send('ACCESS_CANCEL');
+            return;
+          default:
+            send('BAD_STATUS');
+            return;
+        }
+      }
+
+      default:
+        send('BAD_ACTION');
+    }
+  }
+
+  private findActivation(provider: SimulatedProviderId, id: string | undefined): SimulatedActivation | undefined {
+    const activation = id ? this.activations.get(id) : undefined;
+    return activation?.provider === provider ? activation : undefined;
+  }
+
+  // --- Control API ---
+
+  private controlRouter(): express.Router {
+    const router = express.Router();
+
+    router.post('/reset', (req, res) => {
+      this.reset();
+      res.json({ success: true });
+    });
+
+    router.post('/sms', (req, res) => {
+      const { activationId, phone, text, sender, code } = req.body || {};
+      if (!(activationId || phone) || typeof text !== 'string') {
+        return res.status(400).json({ success: false, error: 'activationId or phone, and text are required' });
+      }
+
+      try {
+        res.json({ success: true, data: this.deliverSms(activationId || phone, text, sender, code) });
+      } catch (error) {
+        res.status(404).json({ success: false, error: error instanceof Error ? error.message : 'Failed to deliver SMS' });
+      }
+    });
+
+    router.post('/stock', (req, res) => {
+      const { provider, country, product, cost, count } = req.body || {};
+      if ((provider !== '5sim' && provider !== 'sms-activate') || !country || !product) {
+        return res.status(400).json({ success: false, error: 'provider, country and product are required' });
+      }
+
+      this.setStock(provider, country, product, {
+        ...(cost !== undefined && { cost: Number(cost) }),
+        ...(count !== undefined && { count: Number(count) })
+      });
+      res.json({ success: true, data: this.getStock(provider, country, product) });
+    });
+
+    router.post('/balance', (req, res) => {
+      const { provider, balance } = req.body || {};
+      if ((provider !== '5sim' && provider !== 'sms-activate') || typeof balance !== 'number') {
+        return res.status(400).json({ success: false, error: 'provider and a numeric balance are required' });
+      }
+
+      this.setBalance(provider, balance);
+      res.json({ success: true, data: { provider, balance } });
+    });
+
+    router.get('/activations', (req, res) => {
+      res.json({ success: true, data: [...this.activations.values()] });
+    });
+
+    return router;
+  }
+}
@@ -0,0 +1,30 @@
+import { Socket } from 'socket.io';
+import { ClientToServerEvents, ServerToClientEvents } from '@vnos/contracts';
+import { VirtualNumberService, virtualNumberService } from '../services/virtualNumberService';
+
+type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+/**
+ * Subscribe a socket to the updates of a number. Only the owner of a number
+ * may join its room; anyone else, or a failed lookup, gets a joinError.
+ */
+export async function joinNumberRoom(
+  socket: ClientSocket,
+  phoneNumber: string,
+  service: VirtualNumberService = virtualNumberService
+): Promise<void> {
+  try {
+    const virtualNumber = await service.getNumberForUser(phoneNumber, socket.data.user.id);
+    if (!virtualNumber) {
+      console.warn(`Client ${socket.id} tried to join room for unowned number: ${phoneNumber}`);
+      socket.emit('joinError', { number: phoneNumber, error: 'Virtual number not found' });
+      return;
+    }
+
+    socket.join(`number-${phoneNumber}`);
+    console.log(`Client ${socket.id} joined room for number: ${phoneNumber}`);
+  } catch (error) {
+    console.error(`[Socket] Error joining room for number ${phoneNumber}:`, error);
+    socket.emit('joinError', { number: phoneNumber, error: 'Failed to join number' });
+  }
+}
@@ -10,7 +10,11 @@ const options = {
       description: `API for managing virtual phone numbers and OTP services via multiple providers (5SIM, Twilio, SMS-Activate)
 
 ## 🔐 Authentication
-**No client-side authentication required!** All API keys (5SIM, Twilio, SMS-Activate) are configured server-side in environment variables.
+Every \`/api\` call needs a **user API key**, sent as \`Authorization: Bearer <key>\` or \`X-API-Key: <key>\`.
+Users only see and manage the numbers they bought. An admin creates users with \`POST /api/users\`;
+the first admin is created from \`ADMIN_API_KEY\` when the database has no users.
+
+Provider API keys (5SIM, Twilio, SMS-Activate) stay server-side in environment variables:
 
 - **5SIM API Key**: Set \`FIVESIM_API_KEY\` in your backend \`.env\` file
 - **Twilio Credentials**: Set \`TWILIO_ACCOUNT_SID\` and \`TWILIO_AUTH_TOKEN\`
@@ -20,7 +24,7 @@ const options = {
 1. Configure your provider API keys in the backend \`.env\` file
 2. Start the server: \`npm run dev\`
 3. Test endpoints directly from this Swagger UI
-4. No need to pass API keys in requests - backend handles authentication automatically
+4. Authorize with your user API key - provider keys are handled by the backend
 
 ## 💡 How It Works
 - Client sends requests to your backend API
@@ -79,6 +83,13 @@ const options = {
               },
               description: 'List of received OTPs'
             },
+            messages: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/SmsMessage'
+              },
+              description: 'Every SMS received on the number'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -89,14 +100,119 @@ const options = {
               format: 'date-time',
               description: 'When the number expires'
             },
+            smsDeadline: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Activations only: when the number is auto-cancelled if no OTP has arrived, per its lifetime policy'
+            },
             status: {
               type: 'string',
-              enum: ['active', 'expired', 'cancelled'],
+              enum: ['pending', 'waiting_sms', 'sms_received', 'completed', 'cancelled', 'refunded', 'expired', 'failed'],
               description: 'Current status of the virtual number'
+            },
+            mode: {
+              type: 'string',
+              enum: ['activation', 'rental'],
+              description: 'One-shot activation, or a rental leased until expiresAt'
+            },
+            reactivatedFrom: {
+              type: 'string',
+              description: 'Id of the earlier record of this number, when it was reactivated'
             }
           },
           required: ['id', 'number', 'provider', 'country', 'product', 'otps', 'createdAt', 'expiresAt', 'status']
         },
+        PurchaseAttempt: {
+          type: 'object',
+          properties: {
+            provider: {
+              type: 'string',
+              description: 'Provider that was tried'
+            },
+            product: {
+              type: 'string',
+              description: 'Catalog product id that was requested'
+            },
+            country: {
+              type: 'string',
+              description: 'Catalog country id that was requested'
+            },
+            success: {
+              type: 'boolean',
+              description: 'Whether this provider fulfilled the purchase'
+            },
+            price: {
+              type: 'number',
+              description: 'Price charged when the attempt succeeded'
+            },
+            error: {
+              type: 'string',
+              description: 'Why the provider could not supply the number'
+            }
+          },
+          required: ['provider', 'product', 'country', 'success']
+        },
+        BulkPurchaseItem: {
+          type: 'object',
+          properties: {
+            index: {
+              type: 'integer',
+              description: 'Position of the number in the order'
+            },
+            success: {
+              type: 'boolean',
+              description: 'Whether a number was bought'
+            },
+            virtualNumber: {
+              $ref: '#/components/schemas/VirtualNumber'
+            },
+            attempts: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/PurchaseAttempt'
+              }
+            },
+            error: {
+              type: 'string',
+              description: 'Why no number was bought'
+            },
+            rolledBack: {
+              type: 'boolean',
+              description: 'The number was cancelled because another purchase failed (allOrNothing)'
+            }
+          },
+          required: ['index', 'success', 'attempts']
+        },
+        BulkPurchaseResult: {
+          type: 'object',
+          properties: {
+            requested: {
+              type: 'integer'
+            },
+            purchased: {
+              type: 'integer',
+              description: 'Numbers kept after any rollback'
+            },
+            failed: {
+              type: 'integer'
+            },
+            totalPrice: {
+              type: 'number',
+              description: 'Price of the numbers kept, in the wallet currency'
+            },
+            rolledBack: {
+              type: 'boolean',
+              description: 'A purchase failed under allOrNothing and the bought numbers were cancelled'
+            },
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BulkPurchaseItem'
+              }
+            }
+          },
+          required: ['requested', 'purchased', 'failed', 'totalPrice', 'rolledBack', 'items']
+        },
         OTP: {
           type: 'object',
           properties: {
@@ -120,10 +236,129 @@ const options = {
             source: {
               type: 'string',
               description: 'Source provider of the OTP'
+            },
+            messageId: {
+              type: 'string',
+              description: 'Id of the SMS message the code was extracted from'
+            },
+            confidence: {
+              type: 'number',
+              description: 'How sure the extractor is that this is the code (0-1); 1 when the provider supplied it',
+              example: 0.95
             }
           },
           required: ['id', 'code', 'receivedAt']
         },
+        SmsMessage: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the message'
+            },
+            providerMessageId: {
+              type: 'string',
+              description: "Provider's id for the message"
+            },
+            sender: {
+              type: 'string',
+              description: 'Sender id or number, empty if the provider does not report it'
+            },
+            text: {
+              type: 'string',
+              description: 'Full message text'
+            },
+            receivedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the message was received'
+            }
+          },
+          required: ['id', 'providerMessageId', 'sender', 'text', 'receivedAt']
+        },
+        WebhookEndpoint: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the endpoint'
+            },
+            url: {
+              type: 'string',
+              description: 'URL the events are POSTed to'
+            },
+            events: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['number.created', 'otp.received', 'number.expired', 'number.cancelled']
+              },
+              description: 'Events sent to the endpoint; empty means all of them'
+            },
+            description: {
+              type: 'string',
+              description: 'Note about what the endpoint is for'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the endpoint was registered'
+            }
+          },
+          required: ['id', 'url', 'events', 'createdAt']
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the delivery, sent as X-Vnos-Delivery'
+            },
+            endpointId: {
+              type: 'string',
+              description: 'Endpoint the event is sent to'
+            },
+            event: {
+              type: 'string',
+              enum: ['number.created', 'otp.received', 'number.expired', 'number.cancelled', 'webhook.test']
+            },
+            payload: {
+              type: 'string',
+              description: 'The exact JSON body that is signed and sent'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'delivered', 'failed'],
+              description: 'pending until the endpoint answers with a 2xx (delivered) or the last retry fails (failed)'
+            },
+            attempts: {
+              type: 'integer',
+              description: 'How many times the delivery was sent'
+            },
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the next retry is due'
+            },
+            lastStatusCode: {
+              type: 'integer',
+              description: 'HTTP status the endpoint answered the latest attempt with'
+            },
+            lastError: {
+              type: 'string',
+              description: 'Why the latest attempt failed'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            deliveredAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          },
+          required: ['id', 'endpointId', 'event', 'payload', 'status', 'attempts', 'createdAt']
+        },
         Provider: {
           type: 'object',
           properties: {
@@ -461,7 +696,12 @@ const options = {
           type: 'apiKey',
           in: 'header',
           name: 'X-API-Key',
-          description: 'Server-side API key (configured in environment variables)'
+          description: 'User API key'
+        },
+        BearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'User API key as a Bearer token'
         }
       }
     },
@@ -481,11 +721,42 @@ const options = {
       {
         name: 'OTPs',
         description: 'Operations for managing OTPs'
+      },
+      {
+        name: 'Users',
+        description: 'User accounts and API keys'
+      },
+      {
+        name: 'Wallet',
+        description: 'Per-user balance and transaction ledger'
+      },
+      {
+        name: 'Catalog',
+        description: 'Cross-provider service catalog'
+      },
+      {
+        name: 'OTP Rules',
+        description: 'Per-service OTP extraction rules'
+      },
+      {
+        name: 'Mock Provider',
+        description: 'Script the free mock provider: inject SMS, latency, failures and stock'
+      },
+      {
+        name: 'Webhooks',
+        description: 'Callbacks from push-based providers such as Twilio'
+      },
+      {
+        name: 'Webhook Endpoints',
+        description: 'Your own endpoints, notified with signed JSON when numbers are bought, receive OTPs, expire or are cancelled'
       }
     ],
     security: [
       {
         ServerAuth: []
+      },
+      {
+        BearerAuth: []
       }
     ]
   },
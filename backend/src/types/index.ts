@@ -1,50 +1,322 @@
+import type { Server } from 'socket.io';
+import {
+  ClientToServerEvents,
+  NumberMode,
+  UserRole,
+  VirtualNumberStatus,
+  WalletTransactionStatus,
+  WalletTransactionType,
+  WebhookDeliveryStatus,
+  ServerToClientEvents,
+  WebhookEventType
+} from '@vnos/contracts';
+
+// The Socket.IO server, set by index.ts for the services that push events
+declare global {
+  var io: Server<ClientToServerEvents, ServerToClientEvents>;
+}
+
+// Value sets shared with API clients; the wire formats of the types below are in @vnos/contracts
+export type {
+  NumberMode,
+  UserRole,
+  VirtualNumberStatus,
+  WalletTransactionStatus,
+  WalletTransactionType,
+  WebhookDeliveryStatus,
+  WebhookEventType
+};
+
 export interface OTP {
   id: string;
   code: string;
   receivedAt: Date;
   isUsed?: boolean;
   source?: string; // Add source property for tracking where OTP came from
+  messageId?: string; // SmsMessage the code was extracted from
+  confidence?: number; // 0-1; 1 when the provider supplied the code itself
 }
 
-export interface VirtualNumber {
+// A full SMS received on a virtual number
+export interface SmsMessage {
   id: string;
+  providerMessageId: string; // Provider-side id, unique per number
+  sender: string;
+  text: string;
+  receivedAt: Date;
+}
+
+// Everything a provider needs to check, resend or cancel an activation,
+// including ones bought before the current process started
+export interface ProviderActivation {
   number: string;
-  provider: string;
-  country: string;
+  activationId: string; // Provider-side activation/order id
   product: string;
+  country: string;
+  purchasedAt: Date;
+  mode?: NumberMode; // Unset means activation
+}
+
+export interface VirtualNumber extends ProviderActivation {
+  id: string;
+  userId?: string; // Owner; unset for numbers bought before user accounts existed
+  provider: string;
+  mode: NumberMode;
+  price?: number; // Amount debited from the owner's wallet, including rental extensions
   otps: OTP[];
+  messages: SmsMessage[];
   createdAt: Date;
-  expiresAt: Date;
-  status: 'active' | 'expired' | 'cancelled';
+  expiresAt: Date; // When the number stops receiving SMS, from its lifetime policy or rental period
+  smsDeadline?: Date; // Activations: auto-cancelled (and refunded) if no OTP has arrived by then
+  status: VirtualNumberStatus;
+  reactivatedFrom?: string; // Id of the earlier record this is a follow-up activation of
 }
 
-export interface CreateVirtualNumberResponse {
-  success: boolean;
-  data?: VirtualNumber;
-  error?: string;
+export interface StatusTransition {
+  from: VirtualNumberStatus | null;
+  to: VirtualNumberStatus;
+  changedAt: Date;
 }
 
-export interface GetOTPsResponse {
-  success: boolean;
-  data?: OTP[];
+export interface User {
+  id: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+  createdAt: Date;
+}
+
+// API key metadata - the key itself is only ever stored as a hash
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // First characters of the key, shown so users can tell keys apart
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface WalletTransaction {
+  id: string;
+  userId: string;
+  type: WalletTransactionType;
+  amount: number; // Signed: debits are negative, credits and refunds positive
+  currency: string;
+  status: WalletTransactionStatus;
+  virtualNumberId?: string;
+  description: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WalletBalance {
+  balance: number; // Committed funds minus pending reservations
+  pending: number; // Funds currently reserved for purchases in progress
+  currency: string;
+}
+
+export type PriceSyncStatus = 'running' | 'completed' | 'failed';
+
+// One run of the price sync job; snapshots are versioned by sync id
+export interface PriceSync {
+  id: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  status: PriceSyncStatus;
+  snapshotCount: number;
   error?: string;
 }
 
-export interface CancelNumberResponse {
+// A provider's price and stock for a catalog service in one country, as of one sync
+export interface PriceSnapshot {
+  syncId: number;
+  provider: string;
+  serviceId: string;
+  countryId: string;
+  cost: number; // In the wallet currency at the time of the sync
+  currency: string;
+  count: number;
+  syncedAt: Date;
+}
+
+// A user's URL that receives signed webhook events
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  secret: string; // Signs deliveries; only shown to the owner when the endpoint is created
+  events: WebhookEventType[]; // Empty subscribes to every event
+  description?: string;
+  createdAt: Date;
+}
+
+// One event sent (or to be sent) to one endpoint, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEventType;
+  payload: string; // The exact JSON body that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+// One provider tried while fulfilling a purchase
+export interface PurchaseAttempt {
+  provider: string;
+  product: string;
+  country: string;
   success: boolean;
+  price?: number;
   error?: string;
 }
 
-export interface ResendOTPResponse {
+export interface PurchaseResult {
+  virtualNumber: VirtualNumber;
+  attempts: PurchaseAttempt[];
+}
+
+// Several numbers for the same product, bought in one request
+export interface BulkPurchaseOrder {
+  product: string;
+  country: string;
+  operator?: string;
+  quantity: number;
+  maxTotalPrice?: number; // Wallet currency, across all numbers
+  allOrNothing?: boolean; // Cancel the numbers already bought if any purchase fails
+}
+
+// Outcome of one number in a bulk purchase
+export interface BulkPurchaseItem {
+  index: number;
   success: boolean;
+  virtualNumber?: VirtualNumber;
+  attempts: PurchaseAttempt[];
   error?: string;
+  rolledBack?: boolean; // Bought, then cancelled because another purchase failed
 }
 
+export interface BulkPurchaseResult {
+  requested: number;
+  purchased: number; // Numbers kept after any rollback
+  failed: number;
+  totalPrice: number; // Price of the numbers kept
+  rolledBack: boolean;
+  items: BulkPurchaseItem[];
+}
+
+// Outcome of waiting for an OTP: the OTP, or why none came
+export interface WaitForOtpResult {
+  otp?: OTP;
+  status: VirtualNumberStatus; // The number's status when the wait ended
+  timedOut: boolean;
+}
+
+// An SMS as reported by a provider, polled or pushed to a webhook
+export interface ProviderSms {
+  messageId: string; // Provider-side message id, stable across polls
+  sender: string;
+  text: string;
+  receivedAt: Date;
+  code?: string; // OTP the provider extracted itself, if it reports one
+}
+
+// How a provider delivers incoming SMS: pushed to our webhooks, or pulled by polling its API
+export type OtpDeliveryMode = 'push' | 'pull';
+
 // Mock API provider interface - replace with real provider later
 export interface VirtualNumberProvider {
-  requestNumber(productId?: string, countryId?: string, operatorId?: string): Promise<string>;
-  checkOtps(phoneNumber: string): Promise<OTP[]>;
-  cancelNumber(phoneNumber: string): Promise<boolean>;
-  resendOtp(phoneNumber: string): Promise<boolean>;
+  readonly delivery: OtpDeliveryMode;
+  // Numbers are kept (and billed) until released, so expired ones are finished too
+  readonly releaseOnExpiry?: boolean;
+  // Cancelling only releases the number; the provider keeps what it charged, so users aren't refunded
+  readonly keepsChargeOnCancel?: boolean;
+  requestNumber(productId?: string, countryId?: string, operatorId?: string): Promise<ProviderActivation>;
+  // Every SMS received on the activation so far
+  checkMessages(activation: ProviderActivation): Promise<ProviderSms[]>;
+  cancelNumber(activation: ProviderActivation): Promise<boolean>;
+  // Tell the provider a number that got its SMS is done with, releasing it early
+  finishNumber?(activation: ProviderActivation): Promise<boolean>;
+  resendOtp(activation: ProviderActivation): Promise<boolean>;
+  // Buy a follow-up activation on a number that already received its SMS (same phone
+  // number, new activation id). Throws ProviderSupplyError when that isn't possible.
+  // Providers that can't reuse numbers leave it out.
+  reactivateNumber?(activation: ProviderActivation): Promise<ProviderActivation>;
+  // Rentals, for providers that lease numbers. Prices are for the whole period; rentNumber
+  // and extendRental throw ProviderSupplyError when the provider can't supply it.
+  getRentalPrice?(productId: string, countryId: string, hours: number): Promise<{ cost: number; count: number } | null>;
+  rentNumber?(productId: string, countryId: string, hours: number): Promise<ProviderActivation>;
+  extendRental?(activation: ProviderActivation, hours: number): Promise<void>;
   getAvailableProducts(countryId: string): Promise<Array<{ id: string; name: string; cost: number; count: number }>>;
-} 
\ No newline at end of file
+  getProductPrice(productId: string, countryId: string): Promise<{ cost: number; count: number } | null>;
+} 
+
+// Storage for virtual numbers - SQLite by default, see RepositoryFactory
+export interface VirtualNumberRepository {
+  save(virtualNumber: VirtualNumber): Promise<void>;
+  findByNumber(phoneNumber: string): Promise<VirtualNumber | undefined>;
+  findByStatus(status: VirtualNumberStatus | VirtualNumberStatus[], userId?: string): Promise<VirtualNumber[]>;
+  addOtps(virtualNumberId: string, otps: OTP[]): Promise<void>;
+  addMessages(virtualNumberId: string, messages: SmsMessage[]): Promise<void>;
+  updateStatus(virtualNumberId: string, status: VirtualNumberStatus): Promise<void>;
+  getStatusHistory(virtualNumberId: string): Promise<StatusTransition[]>;
+  delete(virtualNumberId: string): Promise<boolean>;
+}
+
+// Storage for user accounts and their API keys
+export interface UserRepository {
+  createUser(user: User): Promise<void>;
+  findUserById(userId: string): Promise<User | undefined>;
+  countUsers(): Promise<number>;
+  createApiKey(apiKey: ApiKey, keyHash: string): Promise<void>;
+  findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  listApiKeys(userId: string): Promise<ApiKey[]>;
+  touchApiKey(apiKeyId: string): Promise<void>;
+  revokeApiKey(userId: string, apiKeyId: string): Promise<boolean>;
+}
+
+// Versioned price and stock snapshots written by the price sync job
+export interface PriceSnapshotRepository {
+  startSync(startedAt: Date): Promise<number>;
+  finishSync(syncId: number, status: PriceSyncStatus, snapshotCount: number, error?: string): Promise<void>;
+  saveSnapshots(snapshots: PriceSnapshot[]): Promise<void>;
+  // Most recent sync that completed
+  getLatestSync(): Promise<PriceSync | undefined>;
+  getSnapshots(syncId: number): Promise<PriceSnapshot[]>;
+  getHistory(serviceId: string, countryId: string, since: Date, provider?: string): Promise<PriceSnapshot[]>;
+  // Deletes syncs (and their snapshots) that started before the cutoff; returns how many were removed
+  pruneBefore(cutoff: Date): Promise<number>;
+}
+
+// Append-only wallet ledger
+export interface WalletRepository {
+  // Inserts the transaction unless it would take the balance below zero; returns whether it was inserted
+  insertIfFunded(transaction: WalletTransaction): Promise<boolean>;
+  insert(transaction: WalletTransaction): Promise<void>;
+  updateStatus(transactionId: string, status: WalletTransactionStatus, virtualNumberId?: string): Promise<void>;
+  getBalance(userId: string): Promise<{ balance: number; pending: number }>;
+  list(userId: string, limit: number, offset: number): Promise<WalletTransaction[]>;
+  findByVirtualNumber(virtualNumberId: string, type: WalletTransactionType): Promise<WalletTransaction | undefined>;
+  // Reservations still pending that were made before the given time
+  findPendingBefore(createdBefore: Date): Promise<WalletTransaction[]>;
+}
+
+// Webhook endpoints and their durable delivery queue
+export interface WebhookRepository {
+  createEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  findEndpoint(endpointId: string): Promise<WebhookEndpoint | undefined>;
+  listEndpoints(userId: string): Promise<WebhookEndpoint[]>;
+  // Endpoints of the user subscribed to the event
+  findSubscribers(userId: string, event: WebhookEventType): Promise<WebhookEndpoint[]>;
+  deleteEndpoint(userId: string, endpointId: string): Promise<boolean>;
+  insertDelivery(delivery: WebhookDelivery): Promise<void>;
+  updateDelivery(delivery: WebhookDelivery): Promise<void>;
+  // Pending deliveries whose next attempt is due, oldest first
+  findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  listDeliveries(endpointId: string, limit: number, offset: number): Promise<WebhookDelivery[]>;
+}
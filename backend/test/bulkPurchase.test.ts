@@ -0,0 +1,100 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { VirtualNumberService } from '../src/services/virtualNumberService';
+
+describe('Bulk purchases', () => {
+  let harness: ServiceHarness;
+  let userId: string;
+
+  /**
+   * Start the service with BULK_PURCHASE_CONCURRENCY set, which it reads on creation
+   */
+  async function startService(concurrency: number): Promise<VirtualNumberService> {
+    process.env.BULK_PURCHASE_CONCURRENCY = String(concurrency);
+    try {
+      return await harness.startService();
+    } finally {
+      delete process.env.BULK_PURCHASE_CONCURRENCY;
+    }
+  }
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    harness = new ServiceHarness();
+    userId = await harness.createUser(5);
+  });
+
+  afterEach(() => harness.close());
+
+  it('buys every number, BULK_PURCHASE_CONCURRENCY at a time', async t => {
+    const service = await startService(2);
+    harness.provider.setScenario({ latencyMs: 20 });
+    const requestNumber = harness.provider.requestNumber.bind(harness.provider);
+    let running = 0;
+    let peak = 0;
+    t.mock.method(harness.provider, 'requestNumber', async (...args: Parameters<typeof requestNumber>) => {
+      peak = Math.max(peak, ++running);
+      try {
+        return await requestNumber(...args);
+      } finally {
+        running--;
+      }
+    });
+
+    const result = await service.requestBulkNumbers({ product: 'whatsapp', country: 'india', quantity: 5 }, userId);
+
+    assert.equal(peak, 2);
+    assert.deepEqual([result.requested, result.purchased, result.failed, result.totalPrice], [5, 5, 0, 0.5]);
+    assert.deepEqual(result.items.map(item => item.index), [0, 1, 2, 3, 4]);
+    assert.equal(new Set(result.items.map(item => item.virtualNumber!.number)).size, 5);
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.5);
+  });
+
+  it('stops buying at the maximum total price, even with purchases in flight', async () => {
+    const service = await startService(4);
+    harness.provider.setScenario({ latencyMs: 20 });
+
+    const result = await service.requestBulkNumbers({ product: 'whatsapp', country: 'india', quantity: 4, maxTotalPrice: 0.25 }, userId);
+
+    assert.deepEqual([result.purchased, result.failed, result.totalPrice, result.rolledBack], [2, 2, 0.2, false]);
+    for (const item of result.items.filter(item => !item.success)) {
+      assert.match(item.error!, /exceeds the remaining budget/);
+    }
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 4.8, pending: 0, currency: 'USD' });
+  });
+
+  it('keeps the numbers it got when some purchases fail', async () => {
+    const service = await startService(1);
+    harness.provider.setScenario({ balance: 0.25 });
+
+    const result = await service.requestBulkNumbers({ product: 'whatsapp', country: 'india', quantity: 4 }, userId);
+
+    assert.deepEqual(result.items.map(item => item.success), [true, true, false, false]);
+    assert.deepEqual([result.purchased, result.failed, result.rolledBack], [2, 2, false]);
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.8);
+  });
+
+  it('cancels and refunds the numbers it got when all-or-nothing fails', async () => {
+    const service = await startService(1);
+    harness.provider.setScenario({ balance: 0.25 });
+
+    const result = await service.requestBulkNumbers({ product: 'whatsapp', country: 'india', quantity: 4, allOrNothing: true }, userId);
+
+    assert.equal(result.rolledBack, true);
+    assert.deepEqual([result.purchased, result.failed, result.totalPrice], [0, 2, 0]);
+    assert.deepEqual(result.items.map(item => [item.success, item.rolledBack]), [
+      [true, true],
+      [true, true],
+      [false, undefined],
+      [false, undefined]
+    ]);
+    assert.equal(result.items[3].error, 'Not attempted because another purchase failed');
+    for (const item of result.items.slice(0, 2)) {
+      assert.equal((await service.getNumber(item.virtualNumber!.number))?.status, 'refunded');
+    }
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 5, pending: 0, currency: 'USD' });
+  });
+});
@@ -0,0 +1,129 @@
+import twilio from 'twilio';
+import { TwilioVirtualNumberProvider } from '../src/services/twilioProvider';
+
+// The provider refuses to start without credentials; the fake client never checks them
+process.env.TWILIO_ACCOUNT_SID ??= 'AC00000000000000000000000000000000';
+process.env.TWILIO_AUTH_TOKEN ??= 'test-token';
+
+interface FakeMessage {
+  sid: string;
+  to: string;
+  from: string;
+  body: string;
+  dateCreated: Date;
+}
+
+/**
+ * The part of the Twilio REST client TwilioVirtualNumberProvider uses, backed
+ * by in-memory numbers, messages, prices and balance
+ */
+export class FakeTwilioClient {
+  accountBalance = 20;
+  stock = 5;
+  readonly prices = new Map<string, number>(); // Monthly price of a local number by ISO country
+  readonly owned = new Map<string, string>(); // Number by SID
+  readonly released: string[] = []; // SIDs of removed numbers, in order
+  private readonly messageLog: FakeMessage[] = [];
+  private nextId = 1;
+
+  constructor() {
+    this.reset();
+  }
+
+  reset(): void {
+    this.accountBalance = 20;
+    this.stock = 5;
+    this.prices.clear();
+    this.prices.set('IN', 1.15);
+    this.prices.set('US', 1.15);
+    this.owned.clear();
+    this.released.length = 0;
+    this.messageLog.length = 0;
+  }
+
+  /**
+   * A TwilioVirtualNumberProvider that talks to this client
+   */
+  createProvider(): TwilioVirtualNumberProvider {
+    return this.attach(new TwilioVirtualNumberProvider());
+  }
+
+  /**
+   * Make an existing provider, e.g. ProviderFactory's, talk to this client
+   */
+  attach(provider: TwilioVirtualNumberProvider): TwilioVirtualNumberProvider {
+    provider['client'] = this as unknown as twilio.Twilio;
+    return provider;
+  }
+
+  /**
+   * Send an SMS to one of the account's numbers
+   */
+  receiveSms(to: string, body: string): void {
+    this.messageLog.push({ sid: this.sid('SM'), to, from: '+15005550006', body, dateCreated: new Date() });
+  }
+
+  readonly balance = {
+    fetch: async () => ({ balance: this.accountBalance.toFixed(2), currency: 'USD' })
+  };
+
+  readonly pricing = {
+    v1: {
+      phoneNumbers: {
+        countries: (isoCountry: string) => ({
+          fetch: async () => {
+            const price = this.prices.get(isoCountry);
+            if (price === undefined) {
+              throw notFound(`No pricing for ${isoCountry}`);
+            }
+            return { priceUnit: 'USD', phoneNumberPrices: [{ numberType: 'local', currentPrice: price }] };
+          }
+        })
+      }
+    }
+  };
+
+  availablePhoneNumbers(isoCountry: string) {
+    return {
+      local: {
+        list: async ({ limit }: { limit: number }) => this.prices.has(isoCountry)
+          ? Array.from({ length: Math.min(limit, this.stock) }, (_, index) => ({ phoneNumber: `+1555${String(this.nextId + index).padStart(7, '0')}` }))
+          : []
+      }
+    };
+  }
+
+  readonly incomingPhoneNumbers = Object.assign(
+    (sid: string) => ({
+      remove: async () => {
+        if (!this.owned.delete(sid)) {
+          throw notFound(`Number ${sid} not found`);
+        }
+        this.released.push(sid);
+        return true;
+      }
+    }),
+    {
+      create: async ({ phoneNumber }: { phoneNumber: string }) => {
+        const sid = this.sid('PN');
+        this.owned.set(sid, phoneNumber);
+        this.stock--;
+        return { sid, phoneNumber };
+      }
+    }
+  );
+
+  readonly messages = {
+    list: async ({ to, dateSentAfter }: { to: string; dateSentAfter?: Date }) => this.messageLog
+      .filter(message => message.to === to && (!dateSentAfter || message.dateCreated >= dateSentAfter))
+      .map(message => ({ ...message }))
+  };
+
+  private sid(prefix: string): string {
+    return `${prefix}${String(this.nextId++).padStart(32, '0')}`;
+  }
+}
+
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { status: 404 });
+}
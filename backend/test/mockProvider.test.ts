@@ -0,0 +1,88 @@
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockVirtualNumberProvider } from '../src/services/mockProvider';
+
+describe('Mock provider scenarios', () => {
+  const provider = new MockVirtualNumberProvider();
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+    provider.reset();
+  });
+
+  it('fails the same calls for the same seed', async () => {
+    const outcomes = async () => {
+      provider.setScenario({ failureRate: 0.5, seed: 42 });
+      const results: boolean[] = [];
+      for (let i = 0; i < 10; i++) {
+        results.push(await provider.requestNumber('whatsapp', 'india').then(() => true, () => false));
+      }
+      return results;
+    };
+
+    const first = await outcomes();
+    assert.deepEqual(await outcomes(), first);
+    assert.ok(first.includes(true) && first.includes(false));
+  });
+
+  it('fails SMS checks with the scripted failures', async () => {
+    const activation = await provider.requestNumber('whatsapp', 'india');
+    provider.setScenario({ failureRate: 1 });
+
+    await assert.rejects(provider.checkMessages(activation));
+  });
+
+  it('adds the configured latency to every call', async () => {
+    provider.setScenario({ latencyMs: 50 });
+
+    const start = Date.now();
+    await provider.getProductPrice('whatsapp', 'india');
+
+    assert.ok(Date.now() - start >= 45);
+  });
+
+  it('follows the resend behaviour', async () => {
+    const activation = await provider.requestNumber('whatsapp', 'india');
+
+    provider.setScenario({ resend: 'reject' });
+    assert.equal(await provider.resendOtp(activation), false);
+
+    provider.setScenario({ resend: 'accept' });
+    assert.equal(await provider.resendOtp(activation), true);
+    assert.equal((await provider.checkMessages(activation)).length, 0);
+
+    provider.setScenario({ resend: 'deliver' });
+    assert.equal(await provider.resendOtp(activation), true);
+    assert.match((await provider.checkMessages(activation))[0].text, /\d{6}/);
+  });
+
+  it('sends an OTP after a purchase when autoOtpDelayMs is set', async () => {
+    provider.setScenario({ autoOtpDelayMs: 10 });
+    const activation = await provider.requestNumber('whatsapp', 'india');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    assert.equal((await provider.checkMessages(activation)).length, 1);
+  });
+
+  it('gives back what a number cost when it is cancelled', async () => {
+    provider.setScenario({ balance: 5 });
+    const rental = await provider.rentNumber('whatsapp', 'india', 48);
+    await provider.extendRental(rental, 24);
+    const activation = await provider.requestNumber('whatsapp', 'india');
+    provider.setScenario({ price: 1 });
+
+    assert.equal(await provider.cancelNumber(rental), true);
+    assert.equal(provider.getScenario().balance, 4.9);
+    assert.equal(await provider.cancelNumber(activation), true);
+    assert.equal(provider.getScenario().balance, 5);
+  });
+
+  it('reports out-of-stock services with a zero count', async () => {
+    provider.setScenario({ outOfStock: ['whatsapp'] });
+
+    assert.deepEqual(await provider.getProductPrice('whatsapp', 'india'), { cost: 0.1, count: 0 });
+    assert.equal((await provider.getProductPrice('amazon', 'india'))?.count, 1000);
+  });
+});
@@ -0,0 +1,159 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { ProviderFactory } from '../src/services/providerFactory';
+import { TwilioVirtualNumberProvider } from '../src/services/twilioProvider';
+import { VirtualNumberService } from '../src/services/virtualNumberService';
+import { VirtualNumber, VirtualNumberStatus } from '../src/types';
+import { FakeTwilioClient } from './fakeTwilioClient';
+
+describe('Number lifetime', () => {
+  let harness: ServiceHarness;
+  let service: VirtualNumberService;
+  let userId: string;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    harness = new ServiceHarness();
+    userId = await harness.createUser(5);
+  });
+
+  afterEach(() => harness.close());
+
+  describe('Expiry loop', () => {
+    /**
+     * Buy mock numbers whose lifetime ended a second ago
+     */
+    async function expiredNumbers(count: number): Promise<VirtualNumber[]> {
+      service = await harness.startService();
+      const numbers: VirtualNumber[] = [];
+      for (let i = 0; i < count; i++) {
+        const { virtualNumber } = await service.requestNumber('whatsapp', 'india', undefined, userId);
+        virtualNumber.expiresAt = new Date(Date.now() - 1000);
+        numbers.push(virtualNumber);
+      }
+      return numbers;
+    }
+
+    it("expires the other numbers when one of them fails, and retries it next time", async t => {
+      mock.method(console, 'error', () => {});
+      const [broken, healthy] = await expiredNumbers(2);
+      const updateStatus = harness.numbers.updateStatus.bind(harness.numbers);
+      const failing = t.mock.method(harness.numbers, 'updateStatus', async (id: string, status: VirtualNumberStatus) => {
+        if (id === broken.id) {
+          throw new Error('database is locked');
+        }
+        return updateStatus(id, status);
+      });
+
+      await service['checkExpiredNumbers']();
+
+      assert.equal((await service.getNumber(healthy.number))?.status, 'refunded');
+      failing.mock.restore();
+
+      await service['checkExpiredNumbers']();
+
+      assert.equal((await service.getNumber(broken.number))?.status, 'expired');
+    });
+
+    it("completes a number whose SMS had no code in it instead of refunding it", async () => {
+      const [virtualNumber] = await expiredNumbers(1);
+      harness.provider.injectSms(virtualNumber, 'Welcome to WhatsApp');
+      await service.checkOtps(virtualNumber.number);
+      virtualNumber.expiresAt = new Date(Date.now() - 1000);
+
+      await service['checkExpiredNumbers']();
+
+      assert.equal((await service.getNumber(virtualNumber.number))?.status, 'completed');
+      assert.equal((await harness.wallet.getBalance(userId)).balance, 4.9);
+    });
+
+    it('shares a check that is still running instead of starting another', async t => {
+      await expiredNumbers(1);
+      harness.provider.setScenario({ latencyMs: 20 });
+      const cancel = t.mock.method(harness.provider, 'cancelNumber');
+
+      const first = service['checkExpiredNumbers']();
+      const second = service['checkExpiredNumbers']();
+      await Promise.all([first, second]);
+
+      assert.equal(first, second);
+      assert.equal(cancel.mock.callCount(), 1);
+    });
+  });
+
+  describe('Twilio numbers', () => {
+    const twilioClient = new FakeTwilioClient();
+
+    beforeEach(() => {
+      twilioClient.reset();
+      twilioClient.owned.set('PN0001', '+15550001111');
+      twilioClient.attach(ProviderFactory.getProvider('twilio') as TwilioVirtualNumberProvider);
+    });
+
+    /**
+     * Store a Twilio number that ran out of time a minute ago, and start the service on it
+     */
+    async function expiredTwilioNumber(): Promise<VirtualNumber> {
+      const virtualNumber: VirtualNumber = {
+        id: uuidv4(),
+        number: '+15550001111',
+        activationId: 'PN0001',
+        product: 'whatsapp',
+        country: 'usa',
+        purchasedAt: new Date(Date.now() - 20 * 60 * 1000),
+        userId,
+        provider: 'twilio',
+        mode: 'activation',
+        price: 1,
+        otps: [],
+        messages: [],
+        createdAt: new Date(Date.now() - 20 * 60 * 1000),
+        expiresAt: new Date(Date.now() - 60 * 1000),
+        status: 'waiting_sms'
+      };
+      await harness.numbers.save(virtualNumber);
+      service = await harness.startService();
+      return virtualNumber;
+    }
+
+    it('releases a number that got its OTP when it completes', async () => {
+      const virtualNumber = await expiredTwilioNumber();
+      await service.receiveInboundSms('twilio', virtualNumber.number, {
+        messageId: 'SM0001',
+        sender: 'WhatsApp',
+        text: 'Your WhatsApp code is 123-456',
+        receivedAt: new Date()
+      });
+
+      await service['checkExpiredNumbers']();
+
+      assert.equal((await service.getNumber(virtualNumber.number))?.status, 'completed');
+      assert.deepEqual(twilioClient.released, ['PN0001']);
+    });
+
+    it('releases a number that expires without an OTP, without refunding it', async () => {
+      const virtualNumber = await expiredTwilioNumber();
+      const { balance } = await harness.wallet.getBalance(userId);
+
+      await service['checkExpiredNumbers']();
+
+      assert.equal((await service.getNumber(virtualNumber.number))?.status, 'expired');
+      assert.deepEqual(twilioClient.released, ['PN0001']);
+      assert.equal((await harness.wallet.getBalance(userId)).balance, balance);
+    });
+
+    it("doesn't refund a number the owner cancels", async () => {
+      const virtualNumber = await expiredTwilioNumber();
+      const { balance } = await harness.wallet.getBalance(userId);
+
+      assert.equal(await service.cancelNumber(virtualNumber.number), true);
+
+      assert.equal((await service.getNumber(virtualNumber.number))?.status, 'cancelled');
+      assert.deepEqual(twilioClient.released, ['PN0001']);
+      assert.equal((await harness.wallet.getBalance(userId)).balance, balance);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import './testEnv';
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ProviderSimulator } from '../src/simulator/providerSimulator';
+import virtualNumbersRouter from '../src/routes/virtualNumbers';
+import { RepositoryFactory } from '../src/repositories/repositoryFactory';
+import { ProviderFactory } from '../src/services/providerFactory';
+import { virtualNumberService } from '../src/services/virtualNumberService';
+import { walletService } from '../src/services/walletService';
+import { joinNumberRoom } from '../src/sockets/numberRooms';
+import { User, VirtualNumber } from '../src/types';
+
+const simulator = new ProviderSimulator();
+
+/**
+ * Just enough of a socket.io socket to see what joinNumberRoom did with it
+ */
+function fakeSocket(user: User) {
+  const socket = {
+    id: `socket-${user.id.slice(0, 8)}`,
+    data: { user },
+    rooms: [] as string[],
+    emitted: [] as Array<[string, unknown]>,
+    join(room: string) {
+      socket.rooms.push(room);
+    },
+    emit(event: string, payload: unknown) {
+      socket.emitted.push([event, payload]);
+      return true;
+    }
+  };
+  return socket;
+}
+
+describe('Number ownership', () => {
+  let server: Server;
+  let baseUrl: string;
+  let owner: User;
+  let other: User;
+  let caller: User;
+  let virtualNumber: VirtualNumber;
+
+  async function createUser(name: string): Promise<User> {
+    const user: User = { id: uuidv4(), name, role: 'user', createdAt: new Date() };
+    await RepositoryFactory.getUserRepository().createUser(user);
+    await walletService.addFunds(user.id, 1, 'credit', 'Test funds');
+    return user;
+  }
+
+  const request = (path: string, method = 'GET') => fetch(`${baseUrl}${path}`, { method });
+  const numberPath = () => `/${encodeURIComponent(virtualNumber.number)}`;
+
+  before(async () => {
+    await simulator.listen();
+    process.env.SMS_ACTIVATE_API_KEY = simulator.apiKey;
+    process.env.SMS_ACTIVATE_BASE_URL = simulator.getProviderBaseUrl('sms-activate');
+
+    owner = await createUser('Owner');
+    other = await createUser('Other');
+
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = caller;
+      next();
+    });
+    app.use('/api/virtual-numbers', virtualNumbersRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/virtual-numbers`;
+  });
+
+  after(() => {
+    server.close();
+    simulator.close();
+    virtualNumberService.cleanup();
+  });
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    ProviderFactory.setSelectedProvider('mock');
+    ({ virtualNumber } = await virtualNumberService.requestNumber('whatsapp', 'india', undefined, owner.id));
+    caller = other;
+  });
+
+  it("leaves another user's numbers out of the list", async () => {
+    const response = await request('');
+
+    assert.equal(response.status, 200);
+    const { data } = await response.json() as { data: VirtualNumber[] };
+    assert.ok(!data.some(listed => listed.number === virtualNumber.number));
+  });
+
+  it("answers 404 for every route on another user's number", async () => {
+    for (const [path, method] of [
+      [numberPath(), 'GET'],
+      [`${numberPath()}/otps`, 'GET'],
+      [`${numberPath()}/resend`, 'POST'],
+      [numberPath(), 'DELETE']
+    ]) {
+      const response = await request(path, method);
+
+      assert.equal(response.status, 404, `${method} ${path}`);
+      assert.deepEqual(await response.json(), { success: false, error: 'Virtual number not found' });
+    }
+
+    assert.equal((await virtualNumberService.getNumber(virtualNumber.number))?.status, 'waiting_sms');
+  });
+
+  it('serves the owner', async () => {
+    caller = owner;
+
+    assert.equal((await request(numberPath())).status, 200);
+    assert.equal((await request(`${numberPath()}/otps`)).status, 200);
+    assert.equal((await request(numberPath(), 'DELETE')).status, 200);
+  });
+
+  it("doesn't let a user join the room of another user's number", async () => {
+    const socket = fakeSocket(other);
+
+    await joinNumberRoom(socket as any, virtualNumber.number);
+
+    assert.deepEqual(socket.rooms, []);
+    assert.deepEqual(socket.emitted, [['joinError', { number: virtualNumber.number, error: 'Virtual number not found' }]]);
+  });
+
+  it('lets the owner join the room of their number', async () => {
+    const socket = fakeSocket(owner);
+
+    await joinNumberRoom(socket as any, virtualNumber.number);
+
+    assert.deepEqual(socket.rooms, [`number-${virtualNumber.number}`]);
+    assert.deepEqual(socket.emitted, []);
+  });
+
+  it('answers a failed lookup with a joinError', async t => {
+    t.mock.method(virtualNumberService, 'getNumberForUser', async () => {
+      throw new Error('database is locked');
+    });
+    const socket = fakeSocket(owner);
+
+    await joinNumberRoom(socket as any, virtualNumber.number);
+
+    assert.deepEqual(socket.rooms, []);
+    assert.deepEqual(socket.emitted, [['joinError', { number: virtualNumber.number, error: 'Failed to join number' }]]);
+  });
+
+  it("doesn't change the selected provider when a user lists SMS-Activate's countries and services", async () => {
+    assert.equal((await request('/countries')).status, 200);
+    assert.equal((await request('/services/22')).status, 200);
+    assert.equal((await request('/price/whatsapp/india')).status, 200);
+    assert.equal((await request('/providers/sms-activate/select', 'POST')).status, 403);
+
+    assert.equal(ProviderFactory.getSelectedProvider(), 'mock');
+  });
+
+  it('changes the selected provider when an admin selects one', async () => {
+    caller = { ...other, role: 'admin' };
+
+    assert.equal((await request('/providers/sms-activate/select', 'POST')).status, 200);
+
+    assert.equal(ProviderFactory.getSelectedProvider(), 'sms-activate');
+  });
+});
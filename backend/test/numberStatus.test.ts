@@ -0,0 +1,117 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NumberStateError, VirtualNumberService } from '../src/services/virtualNumberService';
+import { VirtualNumber } from '../src/types';
+
+describe('Number status', () => {
+  let harness: ServiceHarness;
+  let service: VirtualNumberService;
+  let userId: string;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    harness = new ServiceHarness();
+    service = await harness.startService();
+    userId = await harness.createUser(5);
+  });
+
+  afterEach(() => harness.close());
+
+  async function buyNumber(): Promise<VirtualNumber> {
+    const { virtualNumber } = await service.requestNumber('whatsapp', 'india', undefined, userId);
+    return virtualNumber;
+  }
+
+  async function receiveOtp(virtualNumber: VirtualNumber): Promise<void> {
+    harness.provider.injectSms(virtualNumber, 'Your WhatsApp code: 482-913');
+    await service.checkOtps(virtualNumber.number);
+  }
+
+  async function transitions(virtualNumber: VirtualNumber): Promise<Array<[string | null, string]>> {
+    return (await service.getStatusHistory(virtualNumber.number)).map(({ from, to }) => [from, to]);
+  }
+
+  it('records every step of a number that gets its OTP and is completed', async () => {
+    const virtualNumber = await buyNumber();
+    await receiveOtp(virtualNumber);
+    await service.completeNumber(virtualNumber.number);
+
+    assert.deepEqual(await transitions(virtualNumber), [
+      [null, 'pending'],
+      ['pending', 'waiting_sms'],
+      ['waiting_sms', 'sms_received'],
+      ['sms_received', 'completed']
+    ]);
+    const history = await service.getStatusHistory(virtualNumber.number);
+    assert.ok(history.every((step, index) => index === 0 || step.changedAt >= history[index - 1].changedAt));
+  });
+
+  it('records the refund of a number cancelled before its OTP', async () => {
+    const virtualNumber = await buyNumber();
+
+    assert.equal(await service.cancelNumber(virtualNumber.number), true);
+
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'refunded');
+    assert.deepEqual((await transitions(virtualNumber)).slice(2), [
+      ['waiting_sms', 'cancelled'],
+      ['cancelled', 'refunded']
+    ]);
+  });
+
+  it("doesn't refund a number cancelled after its OTP", async () => {
+    const virtualNumber = await buyNumber();
+    await receiveOtp(virtualNumber);
+
+    assert.equal(await service.cancelNumber(virtualNumber.number), true);
+
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'cancelled');
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.9);
+  });
+
+  it("doesn't refund a number whose SMS had no code in it", async () => {
+    const virtualNumber = await buyNumber();
+    harness.provider.injectSms(virtualNumber, 'Welcome to WhatsApp');
+    await service.checkOtps(virtualNumber.number);
+
+    assert.equal(await service.cancelNumber(virtualNumber.number), true);
+
+    assert.deepEqual((await service.getNumber(virtualNumber.number))?.otps, []);
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'cancelled');
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.9);
+  });
+
+  it("won't complete a number that hasn't received an SMS", async () => {
+    const virtualNumber = await buyNumber();
+
+    await assert.rejects(service.completeNumber(virtualNumber.number), /hasn't received an SMS yet/);
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'waiting_sms');
+  });
+
+  it('leaves finished numbers as they are', async () => {
+    const virtualNumber = await buyNumber();
+    await receiveOtp(virtualNumber);
+    await service.completeNumber(virtualNumber.number);
+    const history = await transitions(virtualNumber);
+
+    assert.equal(await service.cancelNumber(virtualNumber.number), false);
+    await assert.rejects(service.completeNumber(virtualNumber.number), NumberStateError);
+    await assert.rejects(service['setStatus'](virtualNumber, 'waiting_sms'), /can't go from completed to waiting_sms/);
+
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'completed');
+    assert.deepEqual(await transitions(virtualNumber), history);
+  });
+
+  it('keeps the history across restarts', async () => {
+    const virtualNumber = await buyNumber();
+    await receiveOtp(virtualNumber);
+
+    const restarted = await harness.startService();
+    await restarted.completeNumber(virtualNumber.number);
+
+    assert.deepEqual((await restarted.getStatusHistory(virtualNumber.number)).map(step => step.to), [
+      'pending', 'waiting_sms', 'sms_received', 'completed'
+    ]);
+  });
+});
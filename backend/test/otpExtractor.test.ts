@@ -0,0 +1,133 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  compileOtpRule,
+  extractOtp,
+  findOtpCandidates,
+  getOtpRuleServiceIds,
+  getOtpRules,
+  OtpRuleError
+} from '../src/services/otpExtractor';
+
+describe('OTP extraction', () => {
+  const rulesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'otp-rules-'));
+  let skippedRules: ReturnType<typeof mock.method>;
+
+  // OTP_RULES_FILE is read once, on the first lookup of the rules
+  before(() => {
+    mock.method(console, 'log', () => {});
+    skippedRules = mock.method(console, 'error', () => {});
+    const rulesFile = path.join(rulesDir, 'otp-rules.json');
+    fs.writeFileSync(rulesFile, JSON.stringify({
+      acme: [
+        { id: 'acme', pattern: 'ACME:(\\d{5})', confidence: 0.99 },
+        { id: 'acme-broken', pattern: '(\\d{5}', confidence: 0.9 },
+        { id: 'acme-overconfident', pattern: '(\\d{5})', confidence: 2 }
+      ]
+    }));
+    process.env.OTP_RULES_FILE = rulesFile;
+  });
+
+  after(() => {
+    delete process.env.OTP_RULES_FILE;
+    fs.rmSync(rulesDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.OTP_MIN_CONFIDENCE;
+  });
+
+  it('finds codes after and before a keyword', () => {
+    assert.equal(extractOtp('Your OTP is 482913. Do not share it.')?.code, '482913');
+    assert.equal(extractOtp('482913 is your login code')?.code, '482913');
+    assert.equal(extractOtp('Use code: AB12CD to sign in')?.code, 'AB12CD');
+  });
+
+  it('joins hyphenated and spaced codes', () => {
+    assert.equal(extractOtp('Your verification code is 482-913')?.code, '482913');
+    assert.equal(extractOtp('Sign in with 482-913')?.code, '482913');
+    assert.equal(extractOtp('Your code is 4829 1377')?.code, '48291377');
+  });
+
+  it("doesn't take years or dates for codes", () => {
+    assert.equal(extractOtp('Your pin is ready. Order 2024 shipped'), null);
+    assert.equal(extractOtp('Your pin is ready, order 2024 shipped'), null);
+    assert.equal(extractOtp('Offer valid till 12-01-2025'), null);
+    assert.equal(extractOtp('Valid till 2025. Your OTP is 482913')?.code, '482913');
+  });
+
+  it("doesn't take amounts for codes", () => {
+    assert.equal(extractOtp('Rs. 1500 has been credited to your account'), null);
+    assert.equal(extractOtp('Get 2500% more data with your pin'), null);
+    assert.equal(extractOtp('Rs. 1500 debited. OTP 4829 to confirm')?.code, '4829');
+  });
+
+  it("doesn't take parts of phone numbers for codes", () => {
+    assert.equal(extractOtp('Call +91 98765 43210 for help'), null);
+    assert.equal(extractOtp('Questions? Call 1800 555 0199. Your OTP is 731904')?.code, '731904');
+  });
+
+  it('prefers the service rule for the number', () => {
+    const extraction = extractOtp('Your WhatsApp code: 482-913. You can also tap this link: v.whatsapp.com/482913', 'whatsapp');
+
+    assert.equal(extraction?.code, '482913');
+    assert.equal(extraction?.ruleId, 'whatsapp');
+    assert.equal(extraction?.confidence, 0.99);
+  });
+
+  it('resolves service aliases and falls back to the defaults for unknown services', () => {
+    assert.equal(extractOtp('G-482913 is your Google verification code', 'GOOGLE')?.ruleId, 'google');
+    assert.equal(extractOtp('Your OTP is 482913', 'no-such-service')?.ruleId, 'keyword-before-code');
+  });
+
+  it('scores every candidate, best first, keeping the best score of each code', () => {
+    const candidates = findOtpCandidates('Order 2024: your OTP is 482913', getOtpRules());
+
+    assert.deepEqual(candidates.map(candidate => candidate.code), ['482913', '2024']);
+    assert.equal(candidates[0].ruleId, 'keyword-before-code');
+    assert.equal(candidates[0].index, 24);
+    assert.ok(candidates[1].confidence < 0.4);
+  });
+
+  it('finds nothing in text without digits', () => {
+    assert.deepEqual(findOtpCandidates('Welcome to the service', getOtpRules()), []);
+    assert.equal(extractOtp('Welcome to the service'), null);
+  });
+
+  it('uses OTP_MIN_CONFIDENCE as the cut-off, including 0', () => {
+    process.env.OTP_MIN_CONFIDENCE = '0';
+    assert.equal(extractOtp('Your pin is ready. Order 2024 shipped')?.code, '2024');
+
+    process.env.OTP_MIN_CONFIDENCE = '1';
+    assert.equal(extractOtp('Your OTP is 4829'), null);
+
+    process.env.OTP_MIN_CONFIDENCE = 'high';
+    assert.equal(extractOtp('Your OTP is 482913')?.code, '482913');
+  });
+
+  it('compiles rules, always matching globally', () => {
+    const rule = compileOtpRule({ id: 'acme', pattern: 'acme (\\d{4})', flags: 'ig', confidence: 0.9 });
+
+    assert.equal(rule.regex.flags, 'gi');
+    assert.deepEqual(findOtpCandidates('ACME 4829 and acme 1377', [rule]).map(candidate => candidate.code), ['4829', '1377']);
+  });
+
+  it('rejects rules without an id or pattern, with an invalid pattern or an out of range confidence', () => {
+    assert.throws(() => compileOtpRule({ id: '', pattern: '(\\d{4})', confidence: 0.5 }), OtpRuleError);
+    assert.throws(() => compileOtpRule({ id: 'empty', pattern: '', confidence: 0.5 }), OtpRuleError);
+    assert.throws(() => compileOtpRule({ id: 'broken', pattern: '(\\d{4}', confidence: 0.5 }), /invalid pattern/);
+    assert.throws(() => compileOtpRule({ id: 'negative', pattern: '(\\d{4})', confidence: -0.1 }), /between 0 and 1/);
+    assert.throws(() => compileOtpRule({ id: 'overconfident', pattern: '(\\d{4})', confidence: 1.5 }), /between 0 and 1/);
+  });
+
+  it('loads valid rules from OTP_RULES_FILE and skips invalid ones', () => {
+    assert.deepEqual(getOtpRules('acme').map(rule => rule.id).slice(0, 1), ['acme']);
+    assert.ok(!getOtpRules('acme').some(rule => rule.id.startsWith('acme-')));
+    assert.ok(getOtpRuleServiceIds().includes('acme'));
+    assert.equal(skippedRules.mock.callCount(), 2);
+    assert.equal(extractOtp('ACME:48291 welcome', 'acme')?.ruleId, 'acme');
+  });
+});
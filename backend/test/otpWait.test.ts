@@ -0,0 +1,123 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import virtualNumbersRouter from '../src/routes/virtualNumbers';
+import { RepositoryFactory } from '../src/repositories/repositoryFactory';
+import { ProviderFactory } from '../src/services/providerFactory';
+import { virtualNumberService, VirtualNumberService } from '../src/services/virtualNumberService';
+import { walletService } from '../src/services/walletService';
+import { VirtualNumber } from '../src/types';
+
+describe('Waiting for OTPs', () => {
+  let harness: ServiceHarness;
+  let service: VirtualNumberService;
+  let virtualNumber: VirtualNumber;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    harness = new ServiceHarness();
+    service = await harness.startService();
+    ({ virtualNumber } = await service.requestNumber('whatsapp', 'india', undefined, await harness.createUser()));
+  });
+
+  afterEach(() => harness.close());
+
+  /**
+   * Deliver an SMS to the number and let the service pick it up, after a delay
+   */
+  function receiveOtpLater(code: string, delayMs: number): void {
+    setTimeout(() => {
+      harness.provider.injectSms(virtualNumber, `Your verification code is ${code}`);
+      service.checkOtps(virtualNumber.number);
+    }, delayMs);
+  }
+
+  it('wakes up as soon as an OTP arrives', async () => {
+    const started = Date.now();
+    receiveOtpLater('482913', 50);
+
+    const result = await service.waitForOtp(virtualNumber.number, undefined, 5000);
+
+    assert.equal(result.otp?.code, '482913');
+    assert.deepEqual([result.status, result.timedOut], ['sms_received', false]);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('returns an OTP that already arrived straight away, and waits for the one after it', async () => {
+    harness.provider.injectSms(virtualNumber, 'Your verification code is 482913');
+    const first = await service.waitForOtp(virtualNumber.number, undefined, 5000);
+    assert.equal(first.otp?.code, '482913');
+
+    receiveOtpLater('551177', 50);
+    const second = await service.waitForOtp(virtualNumber.number, first.otp!.id, 5000);
+
+    assert.equal(second.otp?.code, '551177');
+  });
+
+  it('times out while the number is still active', async () => {
+    const started = Date.now();
+
+    const result = await service.waitForOtp(virtualNumber.number, undefined, 100);
+
+    assert.deepEqual(result, { status: 'waiting_sms', timedOut: true });
+    assert.ok(Date.now() - started >= 100);
+  });
+
+  it('stops waiting when the number is cancelled', async () => {
+    setTimeout(() => service.cancelNumber(virtualNumber.number), 50);
+
+    const result = await service.waitForOtp(virtualNumber.number, undefined, 5000);
+
+    assert.deepEqual(result, { status: 'cancelled', timedOut: false });
+  });
+
+  it('stops waiting when the caller gives up', async () => {
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(), 50);
+    const started = Date.now();
+
+    const result = await service.waitForOtp(virtualNumber.number, undefined, 5000, abort.signal);
+
+    assert.equal(result.otp, undefined);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  describe('GET /:number/otps/wait', () => {
+    let server: Server;
+    let baseUrl: string;
+    let userId: string;
+
+    before(async () => {
+      userId = uuidv4();
+      await RepositoryFactory.getUserRepository().createUser({ id: userId, name: 'Waiter', role: 'user', createdAt: new Date() });
+      await walletService.addFunds(userId, 1, 'credit', 'Test funds');
+
+      const app = express();
+      app.use((req, _res, next) => {
+        req.user = { id: userId, name: 'Waiter', role: 'user', createdAt: new Date() };
+        next();
+      });
+      app.use('/api/virtual-numbers', virtualNumbersRouter);
+      server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/virtual-numbers`;
+    });
+
+    after(() => server.close());
+
+    it('answers 400 for an `after` that is not an OTP of the number', async () => {
+      ProviderFactory.setSelectedProvider('mock');
+      const { virtualNumber: owned } = await virtualNumberService.requestNumber('whatsapp', 'india', undefined, userId);
+
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(owned.number)}/otps/wait?timeout=1&after=no-such-otp`);
+
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), { success: false, error: 'OTP no-such-otp was not received on this number' });
+    });
+  });
+});
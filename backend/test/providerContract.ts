@@ -0,0 +1,218 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { VirtualNumberProvider, ProviderActivation } from '../src/types';
+import { ProviderSupplyError } from '../src/services/providerErrors';
+
+/**
+ * Drives a provider's backend (simulator, fake client...) for the contract suite
+ */
+export interface ProviderContractHarness {
+  createProvider(): VirtualNumberProvider;
+  product: string; // Catalog service id the backend stocks
+  country: string; // Catalog country id the backend stocks
+  reset(): void;
+  deliverSms(activation: ProviderActivation, text: string): void;
+  setStock(count: number): void;
+  setBalance(balance: number): void;
+  removeProduct(): void;
+  resends?: boolean; // False for providers that can't ask the sender for another SMS
+  rejectsUnknownChecks?: boolean; // True for providers that answer an SMS check on an unknown activation with an error
+}
+
+/**
+ * Behaviour every VirtualNumberProvider must have, whichever API is behind it
+ */
+export function describeProviderContract(name: string, harness: ProviderContractHarness): void {
+  describe(`${name} provider contract`, () => {
+    let provider: VirtualNumberProvider;
+
+    beforeEach(() => {
+      harness.reset();
+      provider = harness.createProvider();
+    });
+
+    it('declares how OTPs are delivered', () => {
+      assert.ok(provider.delivery === 'push' || provider.delivery === 'pull');
+    });
+
+    it('lists products with numeric price and stock', async () => {
+      const products = await provider.getAvailableProducts(harness.country);
+
+      assert.ok(products.length > 0);
+      for (const product of products) {
+        assert.equal(typeof product.id, 'string');
+        assert.equal(typeof product.cost, 'number');
+        assert.equal(typeof product.count, 'number');
+      }
+    });
+
+    it('prices a stocked product and returns null for unknown ones', async () => {
+      const price = await provider.getProductPrice(harness.product, harness.country);
+      assert.ok(price);
+      assert.ok(price.cost > 0);
+      assert.ok(price.count > 0);
+
+      assert.equal(await provider.getProductPrice('no-such-product', harness.country), null);
+    });
+
+    it('buys a number for a catalog product and country', async () => {
+      const activation = await provider.requestNumber(harness.product, harness.country);
+
+      assert.match(activation.number, /^\+?\d{8,15}$/);
+      assert.ok(activation.activationId);
+      assert.equal(activation.product, harness.product);
+      assert.equal(activation.country, harness.country);
+      assert.ok(activation.purchasedAt instanceof Date);
+    });
+
+    it('returns no messages before an SMS arrives', async () => {
+      const activation = await provider.requestNumber(harness.product, harness.country);
+
+      assert.deepEqual(await provider.checkMessages(activation), []);
+    });
+
+    it('returns received SMS with stable message ids', async () => {
+      const activation = await provider.requestNumber(harness.product, harness.country);
+      harness.deliverSms(activation, 'Your verification code is 482913');
+
+      const first = await provider.checkMessages(activation);
+      const second = await provider.checkMessages(activation);
+
+      assert.equal(first.length, 1);
+      assert.match(first[0].text, /482913/);
+      assert.ok(first[0].receivedAt instanceof Date);
+      assert.deepEqual(second.map(sms => sms.messageId), first.map(sms => sms.messageId));
+    });
+
+    it('reports an SMS received after a resend under a new message id', async () => {
+      const activation = await provider.requestNumber(harness.product, harness.country);
+      harness.deliverSms(activation, 'Your verification code is 482913');
+      const [first] = await provider.checkMessages(activation);
+
+      assert.equal(await provider.resendOtp(activation), harness.resends ?? true);
+      harness.deliverSms(activation, 'Your verification code is 551177');
+      const messages = await provider.checkMessages(activation);
+
+      const latest = messages.find(sms => sms.text.includes('551177'));
+      assert.ok(latest);
+      assert.notEqual(latest.messageId, first.messageId);
+    });
+
+    it('cancels a number that has not received an SMS', async () => {
+      const activation = await provider.requestNumber(harness.product, harness.country);
+
+      assert.equal(await provider.cancelNumber(activation), true);
+    });
+
+    it('finishes a number that received an SMS', async t => {
+      if (!provider.finishNumber) {
+        return t.skip('provider does not finish numbers');
+      }
+      const activation = await provider.requestNumber(harness.product, harness.country);
+      harness.deliverSms(activation, 'Your verification code is 482913');
+      await provider.checkMessages(activation);
+
+      assert.equal(await provider.finishNumber(activation), true);
+      assert.equal(await provider.finishNumber(activation), false);
+    });
+
+    it('reactivates a used number under a new activation id', async t => {
+      if (!provider.reactivateNumber) {
+        return t.skip('provider does not reuse numbers');
+      }
+      const activation = await provider.requestNumber(harness.product, harness.country);
+      harness.deliverSms(activation, 'Your verification code is 482913');
+      await provider.checkMessages(activation);
+
+      const reactivated = await provider.reactivateNumber(activation);
+      assert.equal(reactivated.number, activation.number);
+      assert.notEqual(reactivated.activationId, activation.activationId);
+      assert.deepEqual(await provider.checkMessages(reactivated), []);
+
+      harness.deliverSms(reactivated, 'Your verification code is 551177');
+      const [sms] = await provider.checkMessages(reactivated);
+      assert.match(sms.text, /551177/);
+    });
+
+    it('fails with unsupported when reactivating a number that never received an SMS', async t => {
+      if (!provider.reactivateNumber) {
+        return t.skip('provider does not reuse numbers');
+      }
+      const activation = await provider.requestNumber(harness.product, harness.country);
+
+      await assert.rejects(provider.reactivateNumber(activation), (error: unknown) =>
+        error instanceof ProviderSupplyError && error.reason === 'unsupported'
+      );
+    });
+
+    it('rents a number that keeps receiving SMS', async t => {
+      if (!provider.rentNumber || !provider.getRentalPrice) {
+        return t.skip('provider does not rent numbers');
+      }
+      const price = await provider.getRentalPrice(harness.product, harness.country, 24);
+      assert.ok(price);
+      assert.ok(price.cost > 0);
+
+      const rental = await provider.rentNumber(harness.product, harness.country, 24);
+      assert.match(rental.number, /^\+?\d{8,15}$/);
+      assert.equal(rental.mode, 'rental');
+
+      harness.deliverSms(rental, 'Your verification code is 482913');
+      harness.deliverSms(rental, 'Your verification code is 551177');
+      const messages = await provider.checkMessages(rental);
+
+      assert.equal(messages.length, 2);
+      assert.notEqual(messages[0].messageId, messages[1].messageId);
+    });
+
+    it('extends a rental', async t => {
+      if (!provider.rentNumber || !provider.extendRental) {
+        return t.skip('provider does not extend rentals');
+      }
+      const rental = await provider.rentNumber(harness.product, harness.country, 24);
+
+      await provider.extendRental(rental, 24);
+    });
+
+    it('returns false instead of throwing when cancelling unknown activations', async () => {
+      const unknown: ProviderActivation = {
+        number: '+919999999999',
+        activationId: '1',
+        product: harness.product,
+        country: harness.country,
+        purchasedAt: new Date()
+      };
+
+      assert.equal(await provider.cancelNumber(unknown), false);
+      if (harness.rejectsUnknownChecks) {
+        await assert.rejects(provider.checkMessages(unknown));
+      } else {
+        assert.deepEqual(await provider.checkMessages(unknown), []);
+      }
+    });
+
+    it('fails with no_numbers when the product is out of stock', async () => {
+      harness.setStock(0);
+
+      await assert.rejects(provider.requestNumber(harness.product, harness.country), (error: unknown) =>
+        error instanceof ProviderSupplyError && error.reason === 'no_numbers'
+      );
+    });
+
+    it('fails with no_balance when the account is empty', async () => {
+      harness.setBalance(0);
+
+      await assert.rejects(provider.requestNumber(harness.product, harness.country), (error: unknown) =>
+        error instanceof ProviderSupplyError && error.reason === 'no_balance'
+      );
+    });
+
+    it('fails with unsupported when the product is not offered', async () => {
+      harness.removeProduct();
+
+      await assert.rejects(provider.requestNumber(harness.product, harness.country), (error: unknown) =>
+        error instanceof ProviderSupplyError && error.reason === 'unsupported'
+      );
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProviderSimulator, SimulatedProviderId } from '../src/simulator/providerSimulator';
+import { getProviderCountryCode, getProviderProductCode } from '../src/config/catalog';
+import { FiveSimProvider } from '../src/services/fiveSimProvider';
+import { SMSActivateProvider } from '../src/services/smsActivateProvider';
+import { MockVirtualNumberProvider } from '../src/services/mockProvider';
+import { ProviderActivation, VirtualNumberProvider } from '../src/types';
+import { describeProviderContract, ProviderContractHarness } from './providerContract';
+import { FakeTwilioClient } from './fakeTwilioClient';
+
+const simulator = new ProviderSimulator();
+
+before(async () => {
+  // Providers log every request and response; keep the test output readable
+  mock.method(console, 'log', () => {});
+
+  await simulator.listen();
+  process.env.FIVESIM_API_KEY = simulator.apiKey;
+  process.env.FIVESIM_BASE_URL = simulator.getProviderBaseUrl('5sim');
+  process.env.SMS_ACTIVATE_API_KEY = simulator.apiKey;
+  process.env.SMS_ACTIVATE_BASE_URL = simulator.getProviderBaseUrl('sms-activate');
+});
+
+after(() => simulator.close());
+
+/**
+ * Harness for a provider backed by the simulator
+ */
+function simulatorHarness(providerId: SimulatedProviderId, createProvider: () => VirtualNumberProvider): ProviderContractHarness {
+  const product = 'whatsapp';
+  const country = 'india';
+  const productCode = () => getProviderProductCode(providerId, product, country)!;
+  const countryCode = () => getProviderCountryCode(providerId, country)!;
+
+  return {
+    createProvider,
+    product,
+    country,
+    reset: () => simulator.reset(),
+    deliverSms: (activation, text) => simulator.deliverSms(activation.activationId, text),
+    setStock: count => simulator.setStock(providerId, countryCode(), productCode(), { count }),
+    setBalance: balance => simulator.setBalance(providerId, balance),
+    removeProduct: () => simulator.removeProduct(providerId, countryCode(), productCode())
+  };
+}
+
+describeProviderContract('5SIM', simulatorHarness('5sim', () => new FiveSimProvider()));
+describe('5SIM', () => {
+  it('throws when checking SMS fails, so polling backs off', async () => {
+    const activation: ProviderActivation = {
+      number: '+919999999999',
+      activationId: '1',
+      product: 'whatsapp',
+      country: 'india',
+      purchasedAt: new Date()
+    };
+    process.env.FIVESIM_API_KEY = 'revoked-key';
+    try {
+      await assert.rejects(new FiveSimProvider().checkMessages(activation), /401/);
+    } finally {
+      process.env.FIVESIM_API_KEY = simulator.apiKey;
+    }
+  });
+});
+
+describeProviderContract('SMS-Activate', {
+  ...simulatorHarness('sms-activate', () => new SMSActivateProvider()),
+  rejectsUnknownChecks: true
+});
+describe('SMS-Activate', () => {
+  const activation: ProviderActivation = {
+    number: '+919999999999',
+    activationId: '1',
+    product: 'whatsapp',
+    country: 'india',
+    purchasedAt: new Date()
+  };
+
+  it('throws when checking SMS fails, so polling backs off', async () => {
+    process.env.SMS_ACTIVATE_API_KEY = 'revoked-key';
+    try {
+      await assert.rejects(new SMSActivateProvider().checkMessages(activation), /BAD_KEY/);
+    } finally {
+      process.env.SMS_ACTIVATE_API_KEY = simulator.apiKey;
+    }
+  });
+
+  it("lists a country's operators from the configured API", async () => {
+    assert.deepEqual(await new SMSActivateProvider().getOperators('22'), ['any', 'virtual21']);
+    assert.deepEqual(await new SMSActivateProvider().getOperators('9999'), []);
+  });
+
+  it('throws for an activation SMS-Activate no longer knows', async () => {
+    await assert.rejects(new SMSActivateProvider().checkMessages({ ...activation, activationId: 'no-such-activation' }), /NO_ACTIVATION/);
+  });
+});
+
+const mockProvider = new MockVirtualNumberProvider();
+describeProviderContract('Mock', {
+  createProvider: () => mockProvider,
+  product: 'whatsapp',
+  country: 'india',
+  reset: () => mockProvider.reset(),
+  deliverSms: (activation, text) => mockProvider.injectSms(activation, text),
+  setStock: count => mockProvider.setScenario(count > 0 ? { stock: count } : { outOfStock: ['whatsapp'] }),
+  setBalance: balance => mockProvider.setScenario({ balance }),
+  removeProduct: () => mockProvider.setScenario({ unavailable: ['whatsapp'] })
+});
+
+const twilioClient = new FakeTwilioClient();
+describeProviderContract('Twilio', {
+  createProvider: () => twilioClient.createProvider(),
+  product: 'whatsapp',
+  country: 'india',
+  reset: () => twilioClient.reset(),
+  deliverSms: (activation, text) => twilioClient.receiveSms(activation.number, text),
+  setStock: count => { twilioClient.stock = count; },
+  setBalance: balance => { twilioClient.accountBalance = balance; },
+  removeProduct: () => { twilioClient.prices.delete('IN'); },
+  resends: false
+});
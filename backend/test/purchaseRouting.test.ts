@@ -0,0 +1,130 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProviderSimulator } from '../src/simulator/providerSimulator';
+import { SqlitePriceSnapshotRepository } from '../src/repositories/sqlitePriceSnapshotRepository';
+import { PriceSyncService } from '../src/services/priceSyncService';
+import { getProviderCountryCode, getProviderProductCode } from '../src/config/catalog';
+import { ProviderFailoverError } from '../src/services/providerErrors';
+import { InsufficientFundsError } from '../src/services/walletService';
+import { VirtualNumberService } from '../src/services/virtualNumberService';
+
+const simulator = new ProviderSimulator();
+
+/**
+ * Set the price and stock of WhatsApp numbers in India on the simulated 5SIM
+ */
+function setFiveSimStock(stock: { cost?: number; count?: number }): void {
+  const country = getProviderCountryCode('5sim', 'india')!;
+  simulator.setStock('5sim', country, getProviderProductCode('5sim', 'whatsapp', 'india')!, stock);
+}
+
+describe('Purchase routing', () => {
+  let harness: ServiceHarness;
+  let service: VirtualNumberService;
+  let userId: string;
+
+  before(async () => {
+    await simulator.listen();
+    process.env.FIVESIM_API_KEY = simulator.apiKey;
+    process.env.FIVESIM_BASE_URL = simulator.getProviderBaseUrl('5sim');
+    process.env.PROVIDER_FAILOVER_ORDER = 'mock,5sim';
+  });
+
+  after(() => simulator.close());
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    simulator.reset();
+    harness = new ServiceHarness();
+    service = await harness.startService();
+    userId = await harness.createUser(5);
+  });
+
+  afterEach(() => {
+    delete process.env.FIVESIM_CURRENCY;
+    delete process.env.EXCHANGE_RATES;
+    harness.close();
+  });
+
+  it('buys from the selected provider when it has stock', async () => {
+    const { virtualNumber, attempts } = await service.requestNumber('whatsapp', 'india', undefined, userId);
+
+    assert.equal(virtualNumber.provider, 'mock');
+    assert.equal(attempts.length, 1);
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.9);
+  });
+
+  it('fails over to the next provider when the selected one is out of stock', async () => {
+    harness.provider.setScenario({ outOfStock: ['whatsapp'] });
+
+    const { virtualNumber, attempts } = await service.requestNumber('whatsapp', 'india', undefined, userId);
+
+    assert.equal(virtualNumber.provider, '5sim');
+    assert.deepEqual(attempts.map(attempt => [attempt.provider, attempt.success]), [['mock', false], ['5sim', true]]);
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 4.5, pending: 0, currency: 'USD' });
+  });
+
+  it('reports every provider and charges nothing when none can supply', async () => {
+    harness.provider.setScenario({ outOfStock: ['whatsapp'] });
+    setFiveSimStock({ count: 0 });
+
+    await assert.rejects(
+      service.requestNumber('whatsapp', 'india', undefined, userId),
+      (error: unknown) => error instanceof ProviderFailoverError && error.attempts.every(attempt => !attempt.success) && error.attempts.length === 2
+    );
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 5, pending: 0, currency: 'USD' });
+  });
+
+  it("doesn't fail over when the wallet can't pay", async () => {
+    const poorUser = await harness.createUser(0.05);
+    const buy = mock.method(harness.provider, 'requestNumber');
+
+    await assert.rejects(service.requestNumber('whatsapp', 'india', undefined, poorUser), InsufficientFundsError);
+    assert.equal(buy.mock.callCount(), 0);
+  });
+
+  it('buys from the cheapest provider in the wallet currency', async () => {
+    process.env.FIVESIM_CURRENCY = 'RUB';
+    process.env.EXCHANGE_RATES = 'RUB:0.01';
+    setFiveSimStock({ cost: 5 }); // 0.05 USD, cheaper than the mock's 0.1
+
+    const { virtualNumber } = await service.requestCheapestNumber('whatsapp', 'india', undefined, userId);
+
+    assert.equal(virtualNumber.provider, '5sim');
+    assert.equal(virtualNumber.price, 0.05);
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 4.95);
+  });
+
+  it('skips providers above the maximum price', async () => {
+    setFiveSimStock({ cost: 0.05 });
+
+    const { virtualNumber, attempts } = await service.requestCheapestNumber('whatsapp', 'india', 0.08, userId);
+
+    assert.equal(virtualNumber.provider, '5sim');
+    assert.deepEqual(attempts.map(attempt => [attempt.provider, attempt.success, attempt.error]), [
+      ['mock', false, 'Price 0.1 exceeds maximum 0.08'],
+      ['5sim', true, undefined]
+    ]);
+  });
+
+  it('syncs prices in the wallet currency', async () => {
+    process.env.FIVESIM_CURRENCY = 'RUB';
+    process.env.EXCHANGE_RATES = 'RUB:0.01';
+    setFiveSimStock({ cost: 20 });
+    const priceSync = new PriceSyncService(new SqlitePriceSnapshotRepository(harness.db));
+
+    await priceSync.syncNow();
+
+    const { prices } = await priceSync.getLatestPrices();
+    const whatsapp = prices
+      .filter(price => price.serviceId === 'whatsapp' && price.countryId === 'india')
+      .map(({ provider, cost, currency }) => ({ provider, cost, currency }));
+    assert.deepEqual(whatsapp.sort((a, b) => a.cost - b.cost), [
+      { provider: 'mock', cost: 0.1, currency: 'USD' },
+      { provider: '5sim', cost: 0.2, currency: 'USD' }
+    ]);
+  });
+});
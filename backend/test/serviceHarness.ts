@@ -0,0 +1,70 @@
+import './testEnv';
+import { after } from 'node:test';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { migrate } from '../src/db/database';
+import { SqliteUserRepository } from '../src/repositories/sqliteUserRepository';
+import { SqliteVirtualNumberRepository } from '../src/repositories/sqliteVirtualNumberRepository';
+import { SqliteWalletRepository } from '../src/repositories/sqliteWalletRepository';
+import { SqliteWebhookRepository } from '../src/repositories/sqliteWebhookRepository';
+import { MockVirtualNumberProvider } from '../src/services/mockProvider';
+import { ProviderFactory } from '../src/services/providerFactory';
+import { VirtualNumberService, virtualNumberService } from '../src/services/virtualNumberService';
+import { WalletService } from '../src/services/walletService';
+import { WebhookService } from '../src/services/webhookService';
+
+// The shared instance starts its expiry loop when imported; tests use their own
+after(() => virtualNumberService.cleanup());
+
+/**
+ * Services wired to a fresh in-memory database, buying from the mock provider
+ */
+export class ServiceHarness {
+  readonly db = new Database(':memory:');
+  readonly users = new SqliteUserRepository(this.db);
+  readonly numbers = new SqliteVirtualNumberRepository(this.db);
+  readonly ledger = new SqliteWalletRepository(this.db);
+  readonly webhookRepository = new SqliteWebhookRepository(this.db);
+  readonly wallet = new WalletService(this.ledger);
+  readonly webhooks = new WebhookService(this.webhookRepository);
+  readonly provider = ProviderFactory.getProvider('mock') as MockVirtualNumberProvider;
+  private readonly services: VirtualNumberService[] = [];
+
+  constructor() {
+    this.db.pragma('foreign_keys = ON');
+    migrate(this.db);
+    this.provider.reset();
+    ProviderFactory.setSelectedProvider('mock');
+  }
+
+  /**
+   * Start a VirtualNumberService on this database. Starting another one is
+   * what a restart of the backend looks like.
+   */
+  async startService(): Promise<VirtualNumberService> {
+    const service = new VirtualNumberService(this.numbers, this.wallet, this.webhooks);
+    this.services.push(service);
+    await service.ready;
+    return service;
+  }
+
+  /**
+   * Create a user and credit their wallet
+   */
+  async createUser(balance: number = 10): Promise<string> {
+    const id = uuidv4();
+    await this.users.createUser({ id, name: `User ${id.slice(0, 8)}`, role: 'user', createdAt: new Date() });
+    if (balance > 0) {
+      await this.wallet.addFunds(id, balance, 'credit', 'Test funds');
+    }
+    return id;
+  }
+
+  close(): void {
+    for (const service of this.services) {
+      service.cleanup();
+    }
+    this.webhooks.stop();
+    this.db.close();
+  }
+}
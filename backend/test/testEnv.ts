@@ -0,0 +1,4 @@
+// Services open the shared database and read their settings when they're first
+// imported, so service tests import this before anything from src
+process.env.DATABASE_PATH = ':memory:';
+process.env.PROVIDER_FAILOVER_ORDER = 'mock';
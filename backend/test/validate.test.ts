@@ -0,0 +1,90 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import express from 'express';
+import { NumberParamsSchema, RequestNumberBodySchema, WaitForOtpQuerySchema } from '@vnos/contracts';
+import { validate, ValidRequest } from '../src/middleware/validate';
+
+describe('Request validation', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/numbers', validate({ body: RequestNumberBodySchema }), (req, res) => {
+      res.json({ success: true, data: req.body });
+    });
+    app.get('/numbers/:number/wait', validate({ params: NumberParamsSchema, query: WaitForOtpQuerySchema }), (
+      req: ValidRequest<{ params: typeof NumberParamsSchema; query: typeof WaitForOtpQuerySchema }>,
+      res
+    ) => {
+      res.json({ success: true, data: { number: req.params.number, ...req.query } });
+    });
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const post = (body: unknown) =>
+    fetch(`${baseUrl}/numbers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+  it('passes the parsed body on with defaults filled in', async () => {
+    const response = await post({ product: 'amazon' });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      success: true,
+      data: { product: 'amazon', country: 'india', mode: 'activation' }
+    });
+  });
+
+  it('rejects invalid bodies with every problem in the error', async () => {
+    const response = await post({ mode: 'rental', maxPrice: -1 });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: 'Product ID is required; maxPrice must be a positive number'
+    });
+  });
+
+  it('checks rules that span fields', async () => {
+    const response = await post({ product: 'amazon', mode: 'rental', provider: 'auto' });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: 'hours is required for rentals; provider: Best-price routing is only available for activations'
+    });
+  });
+
+  it('coerces query strings to the contract types', async () => {
+    const response = await fetch(`${baseUrl}/numbers/%2B15550000001/wait?timeout=30`);
+
+    assert.deepEqual(await response.json(), {
+      success: true,
+      data: { number: '+15550000001', timeout: 30 }
+    });
+  });
+
+  it('rejects query strings that are not whole numbers', async () => {
+    const response = await fetch(`${baseUrl}/numbers/%2B15550000001/wait?timeout=soon`);
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      success: false,
+      error: 'timeout must be a whole number'
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { InsufficientFundsError } from '../src/services/walletService';
+import { VirtualNumber } from '../src/types';
+
+describe('Wallet', () => {
+  let harness: ServiceHarness;
+  let userId: string;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    harness = new ServiceHarness();
+    userId = await harness.createUser(1);
+  });
+
+  afterEach(() => harness.close());
+
+  /**
+   * Store a number as a purchase that was still going on when the backend stopped
+   */
+  async function interruptedPurchase(reservation: 'pending' | 'committed'): Promise<VirtualNumber> {
+    const activation = await harness.provider.requestNumber('whatsapp', 'india');
+    const virtualNumber: VirtualNumber = {
+      ...activation,
+      id: uuidv4(),
+      userId,
+      provider: 'mock',
+      mode: 'activation',
+      price: 0.25,
+      otps: [],
+      messages: [],
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+      status: 'pending'
+    };
+    const { id } = await harness.wallet.reserve(userId, 0.25, 'Purchase', virtualNumber.id);
+    await harness.numbers.save(virtualNumber);
+    if (reservation === 'committed') {
+      await harness.wallet.commit(id, virtualNumber.id);
+    }
+    return virtualNumber;
+  }
+
+  it('holds reservations until they are committed or released', async () => {
+    const first = await harness.wallet.reserve(userId, 0.4, 'First', uuidv4());
+    const second = await harness.wallet.reserve(userId, 0.5, 'Second', uuidv4());
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 0.1, pending: 0.9, currency: 'USD' });
+
+    await harness.wallet.commit(first.id, first.virtualNumberId!);
+    await harness.wallet.release(second.id);
+
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 0.6, pending: 0, currency: 'USD' });
+  });
+
+  it("won't reserve more than the balance", async () => {
+    await assert.rejects(
+      harness.wallet.reserve(userId, 1.5, 'Too much', uuidv4()),
+      (error: unknown) => error instanceof InsufficientFundsError && error.required === 1.5 && error.available === 1
+    );
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 1);
+  });
+
+  it('refunds a number only once', async () => {
+    const virtualNumber = { id: uuidv4(), number: '+15550000001', userId, price: 0.3 } as VirtualNumber;
+
+    assert.ok(await harness.wallet.refund(virtualNumber, 'cancelled'));
+    assert.equal(await harness.wallet.refund(virtualNumber, 'cancelled'), null);
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 1.3);
+  });
+
+  it('releases the reservation of a purchase interrupted by a restart and gives the number back', async () => {
+    const virtualNumber = await interruptedPurchase('pending');
+    const cancel = mock.method(harness.provider, 'cancelNumber');
+
+    const service = await harness.startService();
+
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'failed');
+    assert.equal(cancel.mock.callCount(), 1);
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 1, pending: 0, currency: 'USD' });
+  });
+
+  it('refunds an interrupted purchase that was already charged', async () => {
+    const virtualNumber = await interruptedPurchase('committed');
+
+    const service = await harness.startService();
+
+    assert.equal((await service.getNumber(virtualNumber.number))?.status, 'failed');
+    assert.equal((await harness.wallet.getBalance(userId)).balance, 1);
+  });
+
+  it('releases reservations left by purchases that never got a number', async () => {
+    const createdAt = new Date(Date.now() - 10 * 60 * 1000);
+    await harness.ledger.insert({
+      id: uuidv4(),
+      userId,
+      type: 'debit',
+      amount: -0.5,
+      currency: 'USD',
+      status: 'pending',
+      virtualNumberId: uuidv4(),
+      description: 'Purchase that never finished',
+      createdAt,
+      updatedAt: createdAt
+    });
+    await harness.wallet.reserve(userId, 0.2, 'Purchase in progress', uuidv4());
+
+    await harness.startService();
+
+    assert.deepEqual(await harness.wallet.getBalance(userId), { balance: 0.8, pending: 0.2, currency: 'USD' });
+  });
+});
@@ -0,0 +1,176 @@
+import { ServiceHarness } from './serviceHarness';
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { WebhookService, WebhookValidationError } from '../src/services/webhookService';
+import { WebhookEndpoint } from '../src/types';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let receiver: Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let harness: ServiceHarness;
+
+  /**
+   * A WebhookService on the harness database, created with the given settings
+   */
+  function createService(env: Record<string, string>): WebhookService {
+    Object.assign(process.env, env);
+    try {
+      return new WebhookService(harness.webhookRepository);
+    } finally {
+      for (const name of Object.keys(env)) {
+        delete process.env[name];
+      }
+    }
+  }
+
+  before(async () => {
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    receiver.listen(0, '127.0.0.1');
+    await new Promise(resolve => receiver.once('listening', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  after(() => receiver.close());
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    received = [];
+    responseStatus = 200;
+    harness = new ServiceHarness();
+  });
+
+  afterEach(() => harness.close());
+
+  describe('delivery', () => {
+    let service: WebhookService;
+    let userId: string;
+    let endpoint: WebhookEndpoint;
+
+    beforeEach(async () => {
+      service = createService({ WEBHOOK_ALLOW_PRIVATE_URLS: 'true', WEBHOOK_MAX_ATTEMPTS: '3' });
+      userId = await harness.createUser();
+      endpoint = await service.createEndpoint(userId, { url: receiverUrl, events: ['otp.received'], secret: 'a-secret-of-16-chars' });
+    });
+
+    it('signs every delivery with the endpoint secret', async () => {
+      const delivery = await service.sendTest(endpoint);
+
+      assert.equal(delivery.status, 'delivered');
+      const [{ headers, body }] = received;
+      const expected = crypto.createHmac('sha256', 'a-secret-of-16-chars').update(`${headers['x-vnos-timestamp']}.${body}`).digest('hex');
+      assert.equal(headers['x-vnos-signature'], `sha256=${expected}`);
+      assert.equal(headers['x-vnos-event'], 'webhook.test');
+      assert.equal(headers['x-vnos-delivery'], delivery.id);
+      assert.ok(Math.abs(Number(headers['x-vnos-timestamp']) - Date.now() / 1000) < 5);
+      assert.deepEqual(JSON.parse(body).data, { endpointId: endpoint.id });
+    });
+
+    it('only sends the events an endpoint subscribed to', async () => {
+      await service.dispatch(userId, 'number.created', { number: '+15550001111' });
+      await service.dispatch(userId, 'otp.received', { code: '482913' });
+      await service.processDue();
+
+      assert.deepEqual(received.map(({ headers }) => headers['x-vnos-event']), ['otp.received']);
+      assert.deepEqual(JSON.parse(received[0].body).data, { code: '482913' });
+    });
+
+    it('retries failed deliveries with exponential backoff and gives up after the last attempt', async () => {
+      responseStatus = 503;
+      const delivery = await service.sendTest(endpoint);
+      const delays: number[] = [];
+      delays.push(delivery.nextAttemptAt!.getTime() - Date.now());
+
+      await service['attempt'](delivery, endpoint);
+      delays.push(delivery.nextAttemptAt!.getTime() - Date.now());
+
+      assert.equal(delivery.status, 'pending');
+      assert.deepEqual(delays.map(delay => Math.round(delay / 1000)), [30, 60]);
+
+      await service['attempt'](delivery, endpoint);
+
+      const [stored] = await service.listDeliveries(endpoint.id);
+      assert.equal(stored.status, 'failed');
+      assert.equal(stored.attempts, 3);
+      assert.equal(stored.lastStatusCode, 503);
+      assert.equal(stored.lastError, 'Endpoint answered HTTP 503');
+      assert.equal(stored.nextAttemptAt, undefined);
+      assert.equal(received.length, 3);
+    });
+
+    it('delivers a retry once the endpoint recovers', async () => {
+      responseStatus = 500;
+      const delivery = await service.sendTest(endpoint);
+
+      responseStatus = 204;
+      await service['attempt'](delivery, endpoint);
+
+      const [stored] = await service.listDeliveries(endpoint.id);
+      assert.equal(stored.status, 'delivered');
+      assert.equal(stored.attempts, 2);
+      assert.ok(stored.deliveredAt);
+    });
+  });
+
+  describe('private addresses', () => {
+    it('refuses endpoints on loopback, private and link-local addresses', async () => {
+      const userId = await harness.createUser();
+      for (const url of [
+        receiverUrl,
+        'http://localhost:5000/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.8/hooks',
+        'http://172.16.4.1/hooks',
+        'https://192.168.1.20/hooks',
+        'http://2130706433/hooks',
+        'http://[::1]/hooks',
+        'http://[fd12::1]/hooks',
+        'http://[fe80::1]/hooks',
+        'http://[::ffff:127.0.0.1]/hooks'
+      ]) {
+        await assert.rejects(harness.webhooks.createEndpoint(userId, { url }), WebhookValidationError, url);
+      }
+
+      await harness.webhooks.createEndpoint(userId, { url: 'https://93.184.216.34/hooks' });
+      await harness.webhooks.createEndpoint(userId, { url: 'https://[2606:4700::1111]/hooks' });
+    });
+
+    it('checks the address again before sending', async () => {
+      const userId = await harness.createUser();
+      const allowed = createService({ WEBHOOK_ALLOW_PRIVATE_URLS: 'true' });
+      const endpoint = await allowed.createEndpoint(userId, { url: receiverUrl });
+
+      const delivery = await harness.webhooks.sendTest(endpoint);
+
+      assert.equal(delivery.status, 'pending');
+      assert.match(delivery.lastError!, /must not point to a private address/);
+      assert.equal(received.length, 0);
+    });
+
+    it('sends to private addresses when WEBHOOK_ALLOW_PRIVATE_URLS is set', async () => {
+      const allowed = createService({ WEBHOOK_ALLOW_PRIVATE_URLS: 'true' });
+      const endpoint = await allowed.createEndpoint(await harness.createUser(), { url: receiverUrl });
+
+      assert.equal((await allowed.sendTest(endpoint)).status, 'delivered');
+      assert.equal(received.length, 1);
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { parseArgs, ParseArgsConfig } from 'util';
+import { CatalogProviderId, CatalogService, VnosAuthError, VnosApiError, VnosClient, VnosError } from '@vnos/sdk';
+import { formatAmount, formatTable, formatTimeLeft } from './format';
+
+type OptionValues = Record<string, string | boolean | undefined>;
+
+// What a command produced: `data` is printed with --json, `text` otherwise
+interface CommandResult {
+  data: unknown;
+  text: string;
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  options?: ParseArgsConfig['options'];
+  run(client: VnosClient, args: string[], values: OptionValues): Promise<CommandResult>;
+}
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+
+/**
+ * Bad arguments; reported with a pointer to the help text
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const GLOBAL_OPTIONS: ParseArgsConfig['options'] = {
+  json: { type: 'boolean' },
+  url: { type: 'string' },
+  'api-key': { type: 'string' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+const COMMANDS: Record<string, Command> = {
+  buy: {
+    usage: 'buy <service> [--country <id>] [--operator <id>] [--cheapest [--max-price <amount>]]',
+    summary: 'Buy a number for a service',
+    options: {
+      country: { type: 'string' },
+      operator: { type: 'string' },
+      cheapest: { type: 'boolean' },
+      'max-price': { type: 'string' }
+    },
+    async run(client, args, values) {
+      const product = requireArg(args, 'service');
+      if (values['max-price'] !== undefined && !values.cheapest) {
+        throw new UsageError('--max-price only applies with --cheapest');
+      }
+
+      const number = await client.requestNumber({
+        product,
+        country: stringOption(values.country) ?? 'india',
+        operator: stringOption(values.operator),
+        provider: values.cheapest ? 'auto' : undefined,
+        maxPrice: values['max-price'] !== undefined ? parsePositiveNumber(values['max-price'], '--max-price') : undefined
+      });
+
+      const price = number.price !== undefined ? ` for ${formatAmount(number.price)}` : '';
+      return {
+        data: number,
+        text: `${number.number}  ${number.product} (${number.country}) from ${number.provider}${price}, expires ${formatTimeLeft(number.expiresAt)}`
+      };
+    }
+  },
+
+  wait: {
+    usage: 'wait <number> [--timeout <seconds>] [--after <otp id>]',
+    summary: 'Wait for the next OTP on a number and print it',
+    options: {
+      timeout: { type: 'string' },
+      after: { type: 'string' }
+    },
+    async run(client, args, values) {
+      const number = requireArg(args, 'number');
+      const timeout = values.timeout !== undefined ? parsePositiveInteger(values.timeout, '--timeout') : 120;
+
+      const otp = await client.waitForOtp(number, { timeout, after: stringOption(values.after) });
+      return { data: otp, text: otp.code };
+    }
+  },
+
+  list: {
+    usage: 'list',
+    summary: 'List your active numbers',
+    async run(client) {
+      const numbers = await client.listNumbers();
+      if (numbers.length === 0) {
+        return { data: numbers, text: 'No active numbers' };
+      }
+
+      const rows = numbers.map(number => [
+        number.number,
+        number.product,
+        number.country,
+        number.provider,
+        number.status,
+        formatTimeLeft(number.expiresAt),
+        number.otps[number.otps.length - 1]?.code ?? '-'
+      ]);
+      return {
+        data: numbers,
+        text: formatTable(['NUMBER', 'SERVICE', 'COUNTRY', 'PROVIDER', 'STATUS', 'EXPIRES', 'LAST OTP'], rows)
+      };
+    }
+  },
+
+  cancel: {
+    usage: 'cancel <number>',
+    summary: 'Cancel a number; it is refunded if no OTP arrived',
+    async run(client, args) {
+      const number = requireArg(args, 'number');
+      await client.cancel(number);
+      return { data: { number, cancelled: true }, text: `Cancelled ${number}` };
+    }
+  },
+
+  providers: {
+    usage: 'providers',
+    summary: 'List providers; * marks the one purchases go to',
+    async run(client) {
+      const [providers, selected] = await Promise.all([client.listProviders(), client.getSelectedProvider()]);
+      const data = providers.map(provider => ({ ...provider, selected: provider.id === selected.providerId }));
+
+      const rows = data.map(provider => [provider.selected ? '*' : '', provider.id, provider.name, provider.cost]);
+      return { data, text: formatTable(['', 'ID', 'NAME', 'COST'], rows) };
+    }
+  },
+
+  prices: {
+    usage: 'prices <service> [--country <id>] [--provider <id>]',
+    summary: 'Show synced prices and stock for a service, cheapest first',
+    options: {
+      country: { type: 'string' },
+      provider: { type: 'string' }
+    },
+    async run(client, args, values) {
+      const query = requireArg(args, 'service');
+      const catalog = await client.getCatalog({
+        q: query,
+        country: stringOption(values.country),
+        provider: stringOption(values.provider) as CatalogProviderId | undefined // The backend rejects unknown ones
+      });
+
+      const service = findService(catalog.services, query);
+      // Synced prices are all in the wallet currency, so they compare directly
+      const prices = [...service.prices].sort((a, b) => a.cost - b.cost);
+      const data = { service: service.id, name: service.name, prices, lastSyncedAt: catalog.lastSyncedAt };
+      if (prices.length === 0) {
+        return { data, text: `No prices synced for ${service.name} yet` };
+      }
+
+      const rows = prices.map(price => [price.provider, price.country, formatAmount(price.cost, price.currency), String(price.count)]);
+      return { data, text: formatTable(['PROVIDER', 'COUNTRY', 'COST', 'STOCK'], rows) };
+    }
+  },
+
+  balance: {
+    usage: 'balance',
+    summary: 'Show your wallet balance',
+    async run(client) {
+      const balance = await client.getBalance();
+      const pending = balance.pending ? ` (${formatAmount(balance.pending, balance.currency)} reserved)` : '';
+      return { data: balance, text: `${formatAmount(balance.balance, balance.currency)}${pending}` };
+    }
+  }
+};
+
+/**
+ * Run the CLI with the arguments after `vnos` and return the exit code:
+ * 0 on success, 1 when the request failed and 2 for bad arguments
+ */
+export async function run(argv: string[], io: CliIo): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    (name ? io.stdout : io.stderr)(helpText());
+    return name ? 0 : 2;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr(`vnos: unknown command "${name}"\n\n${helpText()}`);
+    return 2;
+  }
+
+  let values: OptionValues;
+  let args: string[];
+  try {
+    const parsed = parseArgs({
+      args: rest,
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true
+    });
+    values = parsed.values as OptionValues;
+    args = parsed.positionals;
+  } catch (error) {
+    io.stderr(`vnos: ${error instanceof Error ? error.message : error}\nUsage: vnos ${command.usage}`);
+    return 2;
+  }
+
+  if (values.help) {
+    io.stdout(`Usage: vnos ${command.usage}\n\n${command.summary}`);
+    return 0;
+  }
+
+  const apiKey = stringOption(values['api-key']) ?? io.env.VNOS_API_KEY;
+  const client = new VnosClient({
+    baseUrl: stringOption(values.url) ?? io.env.VNOS_API_URL ?? 'http://localhost:5000',
+    apiKey,
+    fetch: io.fetch
+  });
+
+  try {
+    const result = await command.run(client, args, values);
+    io.stdout(values.json ? JSON.stringify(result.data, null, 2) : result.text);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`vnos: ${error.message}\nUsage: vnos ${command.usage}`);
+      return 2;
+    }
+
+    let message = error instanceof Error ? error.message : String(error);
+    if (error instanceof VnosAuthError && !apiKey) {
+      message += ' (set VNOS_API_KEY or pass --api-key)';
+    }
+    if (values.json) {
+      io.stderr(JSON.stringify({
+        error: {
+          name: error instanceof VnosError ? error.name : 'Error',
+          message,
+          status: error instanceof VnosApiError ? error.status : undefined
+        }
+      }, null, 2));
+    } else {
+      io.stderr(`vnos: ${message}`);
+    }
+    return 1;
+  }
+}
+
+function helpText(): string {
+  // Options are left to each command's --help
+  const synopses = Object.values(COMMANDS).map(command => command.usage.replace(/ \[.*$/, ''));
+  const width = Math.max(...synopses.map(synopsis => synopsis.length));
+  return [
+    'Usage: vnos <command> [options]',
+    '',
+    'Commands:',
+    ...Object.values(COMMANDS).map((command, i) => `  ${synopses[i].padEnd(width)}  ${command.summary}`),
+    '',
+    'Run `vnos <command> --help` for its options.',
+    '',
+    'Options:',
+    '  --json             Print JSON instead of text (errors go to stderr as JSON too)',
+    '  --url <url>        Backend URL (default $VNOS_API_URL or http://localhost:5000)',
+    '  --api-key <key>    API key (default $VNOS_API_KEY)',
+    '  -h, --help         Show help'
+  ].join('\n');
+}
+
+/**
+ * Pick the service the user meant: an exact id or alias match, or the only search result
+ */
+function findService(services: CatalogService[], query: string): CatalogService {
+  const wanted = query.toLowerCase();
+  const exact = services.find(service =>
+    service.id.toLowerCase() === wanted || service.aliases.some(alias => alias.toLowerCase() === wanted)
+  );
+  if (exact) {
+    return exact;
+  }
+  if (services.length === 1) {
+    return services[0];
+  }
+  if (services.length === 0) {
+    throw new UsageError(`Unknown service "${query}"`);
+  }
+  throw new UsageError(`"${query}" matches several services: ${services.map(service => service.id).join(', ')}`);
+}
+
+function requireArg(args: string[], name: string): string {
+  if (!args[0]) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return args[0];
+}
+
+function stringOption(value: string | boolean | undefined): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parsePositiveNumber(value: string | boolean | undefined, name: string): number {
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new UsageError(`${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(value: string | boolean | undefined, name: string): number {
+  const parsed = Number(value);
+  if (typeof value !== 'string' || !Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${name} must be a whole number of seconds`);
+  }
+  return parsed;
+}
@@ -0,0 +1,37 @@
+/**
+ * Plain-text output helpers
+ */
+
+/**
+ * Lay rows out in left-aligned columns under a header row
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length))
+  );
+  return [headers, ...rows]
+    .map(row => row.map((cell, column) => (cell ?? '').padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Time left until an ISO timestamp, e.g. "in 14m" or "in 2h 5m"
+ */
+export function formatTimeLeft(iso: string, now: number = Date.now()): string {
+  const minutes = Math.ceil((new Date(iso).getTime() - now) / 60000);
+  if (minutes <= 0) {
+    return 'expired';
+  }
+  if (minutes < 60) {
+    return `in ${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `in ${hours}h ${minutes % 60}m` : `in ${hours}h`;
+}
+
+/**
+ * An amount with two decimals and its currency
+ */
+export function formatAmount(amount: number, currency?: string): string {
+  return currency ? `${amount.toFixed(2)} ${currency}` : amount.toFixed(2);
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * vnos - buy virtual numbers and wait for OTPs from a terminal
+ */
+import { run } from './cli';
+
+run(process.argv.slice(2), {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  env: process.env
+}).then(code => {
+  process.exitCode = code;
+});
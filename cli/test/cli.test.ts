@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { run } from '../src/cli';
+
+interface RecordedRequest {
+  url: URL;
+  method: string;
+  headers: Headers;
+  body?: unknown;
+}
+
+/**
+ * Run the CLI against canned responses and collect what it printed
+ */
+async function vnos(argv: string[], responses: Array<{ status?: number; body: unknown }> = [], env: Record<string, string> = { VNOS_API_KEY: 'vnos_key' }) {
+  const requests: RecordedRequest[] = [];
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const fetch = async (input: string | URL | Request, init: RequestInit = {}) => {
+    requests.push({
+      url: new URL(String(input)),
+      method: init.method ?? 'GET',
+      headers: new Headers(init.headers),
+      body: init.body ? JSON.parse(String(init.body)) : undefined
+    });
+    const next = responses.shift();
+    if (!next) {
+      throw new Error('No response left');
+    }
+    return new Response(JSON.stringify(next.body), { status: next.status ?? 200 });
+  };
+
+  const code = await run(argv, {
+    stdout: text => stdout.push(text),
+    stderr: text => stderr.push(text),
+    env,
+    fetch: fetch as typeof globalThis.fetch
+  });
+  return { code, requests, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+const number = {
+  id: 'vn-1',
+  number: '+919000000001',
+  activationId: 'act-1',
+  provider: '5sim',
+  product: 'amazon',
+  country: 'india',
+  mode: 'activation',
+  price: 12.5,
+  otps: [],
+  messages: [],
+  purchasedAt: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 20 * 60000).toISOString(),
+  status: 'waiting_sms'
+};
+
+describe('vnos', () => {
+  it('buys a number and prints it as JSON', async () => {
+    const result = await vnos(['buy', 'amazon', '--country', 'india', '--json', '--url', 'http://vnos.test'], [
+      { status: 201, body: { success: true, data: number, attempts: [] } }
+    ]);
+
+    assert.equal(result.code, 0);
+    assert.equal(result.requests[0].url.href, 'http://vnos.test/api/virtual-numbers');
+    assert.equal(result.requests[0].headers.get('authorization'), 'Bearer vnos_key');
+    assert.deepEqual(result.requests[0].body, { product: 'amazon', country: 'india' });
+    assert.equal(JSON.parse(result.stdout).number, '+919000000001');
+  });
+
+  it('buys from the cheapest provider with a price cap', async () => {
+    const result = await vnos(['buy', 'amazon', '--cheapest', '--max-price', '20'], [
+      { status: 201, body: { success: true, data: number, attempts: [] } }
+    ]);
+
+    assert.equal(result.code, 0);
+    assert.deepEqual(result.requests[0].body, { product: 'amazon', country: 'india', provider: 'auto', maxPrice: 20 });
+    assert.match(result.stdout, /^\+919000000001 {2}amazon \(india\) from 5sim for 12\.50/);
+  });
+
+  it('prints just the code when waiting for an OTP', async () => {
+    const result = await vnos(['wait', '+919000000001', '--timeout', '30'], [
+      { body: { success: true, data: { otp: { id: 'otp-1', code: '482913', receivedAt: new Date().toISOString() }, status: 'sms_received' } } }
+    ]);
+
+    assert.equal(result.code, 0);
+    assert.equal(result.stdout, '482913');
+    assert.equal(result.requests[0].url.searchParams.get('timeout'), '30');
+  });
+
+  it('shows prices for a service by alias, cheapest first', async () => {
+    const service = {
+      id: 'telegram',
+      name: 'Telegram',
+      category: 'Messaging',
+      aliases: ['tg'],
+      providers: {},
+      countries: ['india'],
+      prices: [
+        { provider: '5sim', country: 'india', cost: 18, currency: 'RUB', count: 40 },
+        { provider: 'sms-activate', country: 'india', cost: 0.12, currency: 'USD', count: 2480 }
+      ]
+    };
+    const result = await vnos(['prices', 'tg'], [
+      { body: { success: true, data: { services: [service], countries: [], categories: [], lastSyncedAt: null } } }
+    ]);
+
+    assert.equal(result.code, 0);
+    assert.equal(result.requests[0].url.searchParams.get('q'), 'tg');
+    assert.deepEqual(result.stdout.split('\n'), [
+      'PROVIDER      COUNTRY  COST       STOCK',
+      'sms-activate  india    0.12 USD   2480',
+      '5sim          india    18.00 RUB  40'
+    ]);
+  });
+
+  it('reports API errors on stderr with exit code 1', async () => {
+    const result = await vnos(['buy', 'amazon'], [
+      { status: 402, body: { success: false, error: 'Insufficient wallet balance' } }
+    ]);
+
+    assert.equal(result.code, 1);
+    assert.equal(result.stdout, '');
+    assert.equal(result.stderr, 'vnos: Insufficient wallet balance');
+  });
+
+  it('reports errors as JSON with --json', async () => {
+    const result = await vnos(['cancel', '+919000000001', '--json'], [
+      { status: 404, body: { success: false, error: 'Virtual number not found' } }
+    ]);
+
+    assert.equal(result.code, 1);
+    assert.deepEqual(JSON.parse(result.stderr), {
+      error: { name: 'VnosNotFoundError', message: 'Virtual number not found', status: 404 }
+    });
+  });
+
+  it('points at the API key when unauthenticated without one', async () => {
+    const result = await vnos(['balance'], [{ status: 401, body: { success: false, error: 'Authentication required' } }], {});
+
+    assert.equal(result.code, 1);
+    assert.equal(result.stderr, 'vnos: Authentication required (set VNOS_API_KEY or pass --api-key)');
+  });
+
+  it('rejects bad arguments with exit code 2', async () => {
+    assert.equal((await vnos(['wait'])).code, 2);
+    assert.equal((await vnos(['wait', '+919000000001', '--timeout', 'soon'])).code, 2);
+    assert.equal((await vnos(['buy', 'amazon', '--max-price', '5'])).code, 2);
+    assert.equal((await vnos(['buy', 'amazon', '--cheapest', '--max-price', '0'])).code, 2);
+    assert.equal((await vnos(['list', '--colour'])).code, 2);
+    assert.equal((await vnos(['teleport'])).code, 2);
+  });
+});
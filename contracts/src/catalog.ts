@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { isoDate, queryInteger } from './common';
+
+export const CatalogProviderIdSchema = z.enum(['5sim', 'sms-activate', 'twilio', 'mock']);
+
+// GET /api/catalog
+export const CatalogQuerySchema = z.object({
+  category: z.string().min(1).optional(),
+  country: z.string().min(1).optional(), // Catalog id or provider code; prices are limited to it too
+  provider: CatalogProviderIdSchema.optional(),
+  q: z.string().min(1).optional() // Search by name, id or alias
+});
+
+// A provider's cached price and stock for a catalog service in one country
+export const CatalogPriceSchema = z.object({
+  provider: z.string(),
+  country: z.string(),
+  cost: z.number(), // In the wallet currency
+  currency: z.string(),
+  count: z.number()
+});
+
+export const CatalogServiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: z.string(),
+  aliases: z.array(z.string()),
+  providers: z.record(CatalogProviderIdSchema, z.string()), // The provider's own code for the service
+  countries: z.array(z.string()),
+  prices: z.array(CatalogPriceSchema)
+});
+
+export const CatalogCountrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  providers: z.record(CatalogProviderIdSchema, z.string())
+});
+
+export const CatalogSchema = z.object({
+  services: z.array(CatalogServiceSchema),
+  countries: z.array(CatalogCountrySchema),
+  categories: z.array(z.string()),
+  lastSyncedAt: isoDate.nullable()
+});
+
+// One run of the price sync job
+export const PriceSyncSchema = z.object({
+  id: z.number().int(),
+  startedAt: isoDate,
+  finishedAt: isoDate.optional(),
+  status: z.enum(['running', 'completed', 'failed']),
+  snapshotCount: z.number().int(),
+  error: z.string().optional()
+});
+
+// GET /api/catalog/:serviceId/history
+export const PriceHistoryParamsSchema = z.object({
+  serviceId: z.string().min(1)
+});
+
+export const PriceHistoryQuerySchema = z.object({
+  country: z.string().min(1).default('india'),
+  days: queryInteger('days', 1, 365).default(7),
+  provider: CatalogProviderIdSchema.optional()
+});
+
+export const PriceHistorySchema = z.object({
+  serviceId: z.string(),
+  countryId: z.string(),
+  points: z.array(z.object({
+    provider: z.string(),
+    cost: z.number(),
+    currency: z.string(),
+    count: z.number(),
+    syncedAt: isoDate
+  }))
+});
+
+// GET /api/virtual-numbers/indian-services: the Indian service list with SMS-Activate's synced India prices
+export const IndianServiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: z.string(),
+  smsActivateId: z.string(),
+  description: z.string(),
+  expectedCount: z.number(),
+  priority: z.enum(['high', 'medium', 'low']),
+  realTimeData: z.object({
+    cost: z.number(),
+    count: z.number(),
+    usdCost: z.number(),
+    inrCost: z.number(),
+    available: z.boolean()
+  })
+});
+
+const IndianServicesSummarySchema = z.object({
+  total: z.number().int(),
+  available: z.number().int(),
+  unavailable: z.number().int()
+});
+
+export const IndianServicesSchema = z.object({
+  services: z.array(IndianServiceSchema),
+  categorized: z.record(z.string(), z.array(IndianServiceSchema)),
+  summary: IndianServicesSummarySchema.extend({ categories: z.number().int() }),
+  lastSyncedAt: isoDate.nullable()
+});
+
+export const IndianServicesCategoryParamsSchema = z.object({
+  category: z.string().min(1)
+});
+
+export const IndianServicesCategorySchema = z.object({
+  category: z.string(),
+  services: z.array(IndianServiceSchema),
+  summary: IndianServicesSummarySchema,
+  lastSyncedAt: isoDate.nullable()
+});
+
+export type CatalogProviderId = z.infer<typeof CatalogProviderIdSchema>;
+export type CatalogQuery = z.input<typeof CatalogQuerySchema>;
+export type CatalogPrice = z.output<typeof CatalogPriceSchema>;
+export type CatalogService = z.output<typeof CatalogServiceSchema>;
+export type CatalogCountry = z.output<typeof CatalogCountrySchema>;
+export type Catalog = z.output<typeof CatalogSchema>;
+export type PriceSync = z.output<typeof PriceSyncSchema>;
+export type PriceHistoryQuery = z.input<typeof PriceHistoryQuerySchema>;
+export type PriceHistory = z.output<typeof PriceHistorySchema>;
+export type IndianService = z.output<typeof IndianServiceSchema>;
+export type IndianServices = z.output<typeof IndianServicesSchema>;
+export type IndianServicesCategory = z.output<typeof IndianServicesCategorySchema>;
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+/**
+ * A point in time. It travels as an ISO 8601 string; the backend may hand over
+ * a Date, which is turned into the same string JSON.stringify would send.
+ */
+export const isoDate = z
+  .union([z.date(), z.string().datetime({ offset: true })])
+  .transform(value => (value instanceof Date ? value.toISOString() : value));
+
+/**
+ * A whole number from a query string, e.g. `?limit=20`
+ */
+export function queryInteger(name: string, min: number, max?: number) {
+  const number = z.coerce
+    .number({ invalid_type_error: `${name} must be a whole number` })
+    .int(`${name} must be a whole number`)
+    .min(min, `${name} must be at least ${min}`);
+  return max === undefined ? number : number.max(max, `${name} must be at most ${max}`);
+}
+
+// Paging for lists that are newest first
+export const PaginationQuerySchema = z.object({
+  limit: queryInteger('limit', 1, 200).default(50),
+  offset: queryInteger('offset', 0).default(0)
+});
+
+// Every failed request: the message, plus route-specific details such as `attempts`
+export const ApiErrorSchema = z
+  .object({
+    success: z.literal(false),
+    error: z.string()
+  })
+  .passthrough();
+
+// Requests that succeed without returning anything
+export const ApiMessageSchema = z.object({
+  success: z.literal(true),
+  message: z.string()
+});
+
+/**
+ * The envelope of a request that returns data
+ */
+export function apiDataSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.literal(true),
+    data
+  });
+}
+
+// What the sender passes for a schema (a Date where a date goes, say); the receiver gets z.output
+export type Payload<S extends z.ZodTypeAny> = z.input<S>;
+
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+export type ApiMessage = z.infer<typeof ApiMessageSchema>;
+export type PaginationQuery = z.input<typeof PaginationQuerySchema>;
+
+/**
+ * Everything a route may answer with, for data of type T
+ */
+export type ApiResponse<T = never> = { success: true; data: T } | ApiMessage | ApiError;
+
+/**
+ * Human-readable summary of a failed parse, e.g. "product: Required; hours must be a whole number".
+ * Messages that already name their field aren't prefixed with it again.
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => {
+      const field = issue.path[issue.path.length - 1];
+      const named = field === undefined || issue.message.toLowerCase().includes(String(field).toLowerCase());
+      return named ? issue.message : `${issue.path.join('.')}: ${issue.message}`;
+    })
+    .join('; ');
+}
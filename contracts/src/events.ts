@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+import { OtpSchema, SmsMessageSchema, VirtualNumberStatusSchema } from './numbers';
+
+// Socket.IO events the backend sends to the rooms of subscribed numbers, by name
+export const VnosEventSchemas = {
+  otpUpdate: z.object({ number: z.string(), otps: z.array(OtpSchema), timestamp: isoDate }),
+  smsUpdate: z.object({ number: z.string(), messages: z.array(SmsMessageSchema), timestamp: isoDate }),
+  statusUpdate: z.object({ number: z.string(), from: VirtualNumberStatusSchema, to: VirtualNumberStatusSchema, timestamp: isoDate }),
+  numberExpired: z.object({ number: z.string(), timestamp: isoDate }),
+  rentalExpiring: z.object({ number: z.string(), expiresAt: isoDate, timestamp: isoDate }),
+  joinError: z.object({ number: z.string(), error: z.string() }) // Subscribed to a number the user doesn't own
+};
+
+export type VnosEventName = keyof typeof VnosEventSchemas;
+
+// Payloads as clients receive them
+export type VnosEventMap = { [E in VnosEventName]: z.output<(typeof VnosEventSchemas)[E]> };
+
+// Socket.IO's typed-events maps, for the server and client
+export type ServerToClientEvents = { [E in VnosEventName]: (payload: z.input<(typeof VnosEventSchemas)[E]>) => void };
+
+export interface ClientToServerEvents {
+  joinNumber: (number: string) => void;
+  leaveNumber: (number: string) => void;
+}
@@ -0,0 +1,18 @@
+/**
+ * Virtual Number OTP Service API contracts
+ *
+ * zod schemas for every request and response of the REST API and for the
+ * socket events. The backend validates requests with them and types its
+ * responses against them; the SDK checks responses with them. Exported
+ * types are the JSON as it travels, with dates as ISO 8601 strings.
+ */
+export * from './common';
+export * from './numbers';
+export * from './providers';
+export * from './catalog';
+export * from './wallet';
+export * from './users';
+export * from './webhooks';
+export * from './otpRules';
+export * from './mock';
+export * from './events';
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+import { OtpSchema } from './numbers';
+
+export const MockResendBehaviourSchema = z.enum(['accept', 'reject', 'deliver']);
+
+// How the mock provider behaves; see backend/src/services/mockProvider.ts
+export const MockScenarioSchema = z.object({
+  latencyMs: z.number(),
+  failureRate: z.number(),
+  seed: z.number().nullable(),
+  outOfStock: z.array(z.string()),
+  unavailable: z.array(z.string()),
+  balance: z.number().nullable(),
+  price: z.number(),
+  stock: z.number(),
+  resend: MockResendBehaviourSchema,
+  autoOtpDelayMs: z.number().nullable()
+});
+
+const serviceIds = (name: string) =>
+  z.array(z.string(), { invalid_type_error: `${name} must be a list of service ids` })
+    .transform(ids => ids.map(id => id.toLowerCase()));
+
+const nonNegative = (message: string) => z.number({ invalid_type_error: message }).min(0, message);
+
+// PUT /mock/scenario (admin only): only the fields sent change
+export const MockScenarioUpdateSchema = z.object({
+  latencyMs: nonNegative('latencyMs must be a non-negative number').optional(),
+  failureRate: nonNegative('failureRate must be between 0 and 1').max(1, 'failureRate must be between 0 and 1').optional(),
+  seed: z.number({ invalid_type_error: 'seed must be a number or null' }).nullable().optional(),
+  outOfStock: serviceIds('outOfStock').optional(),
+  unavailable: serviceIds('unavailable').optional(),
+  balance: nonNegative('balance must be a non-negative number or null').nullable().optional(),
+  price: nonNegative('price must be a non-negative number').optional(),
+  stock: nonNegative('stock must be a non-negative number').optional(),
+  resend: z.enum(MockResendBehaviourSchema.options, {
+    errorMap: () => ({ message: `resend must be one of ${MockResendBehaviourSchema.options.join(', ')}` })
+  }).optional(),
+  autoOtpDelayMs: nonNegative('autoOtpDelayMs must be a non-negative number or null').nullable().optional()
+});
+
+// POST /mock/numbers/:number/sms
+export const MockSmsBodySchema = z.object({
+  text: z.string({ required_error: 'text is required' }).min(1, 'text is required'),
+  sender: z.string().min(1).optional()
+});
+
+// An SMS as the provider reports it
+export const ProviderSmsSchema = z.object({
+  messageId: z.string(),
+  sender: z.string(),
+  text: z.string(),
+  receivedAt: isoDate,
+  code: z.string().optional()
+});
+
+export const MockSmsResultSchema = z.object({
+  sms: ProviderSmsSchema,
+  otps: z.array(OtpSchema) // Every OTP on the number after the check
+});
+
+// POST /webhooks/twilio/sms: Twilio's form fields; it sends many more, which are kept
+export const TwilioSmsBodySchema = z
+  .object({
+    MessageSid: z.string({ required_error: 'MessageSid is required' }).min(1, 'MessageSid is required'),
+    To: z.string({ required_error: 'To is required' }).min(1, 'To is required'),
+    From: z.string().optional(),
+    Body: z.string().optional()
+  })
+  .passthrough();
+
+export type MockScenario = z.output<typeof MockScenarioSchema>;
+export type MockScenarioUpdate = z.input<typeof MockScenarioUpdateSchema>;
+export type MockSmsBody = z.input<typeof MockSmsBodySchema>;
+export type MockSmsResult = z.output<typeof MockSmsResultSchema>;
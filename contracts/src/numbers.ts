@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { isoDate, queryInteger } from './common';
+
+// See backend/src/services/numberStateMachine.ts for the allowed transitions
+export const VirtualNumberStatusSchema = z.enum([
+  'pending',
+  'waiting_sms',
+  'sms_received',
+  'completed',
+  'cancelled',
+  'refunded',
+  'expired',
+  'failed'
+]);
+
+// Statuses in which a number can still receive SMS
+export const ACTIVE_STATUSES: VirtualNumberStatus[] = ['pending', 'waiting_sms', 'sms_received'];
+
+// activation: one-shot, lives a few minutes for a single OTP
+// rental: leased for hours to weeks, receives any number of SMS and can be extended
+export const NumberModeSchema = z.enum(['activation', 'rental']);
+
+export const OtpSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  receivedAt: isoDate,
+  isUsed: z.boolean().optional(),
+  source: z.string().optional(), // Provider the code came from
+  messageId: z.string().optional(), // SmsMessage the code was extracted from
+  confidence: z.number().min(0).max(1).optional() // 1 when the provider supplied the code itself
+});
+
+// A full SMS received on a virtual number
+export const SmsMessageSchema = z.object({
+  id: z.string(),
+  providerMessageId: z.string(),
+  sender: z.string(),
+  text: z.string(),
+  receivedAt: isoDate
+});
+
+export const VirtualNumberSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  activationId: z.string(), // Provider-side activation/order id
+  provider: z.string(),
+  product: z.string(),
+  country: z.string(),
+  mode: NumberModeSchema,
+  price: z.number().optional(), // Amount debited from the owner's wallet, including rental extensions
+  otps: z.array(OtpSchema),
+  messages: z.array(SmsMessageSchema),
+  purchasedAt: isoDate,
+  createdAt: isoDate,
+  expiresAt: isoDate,
+  smsDeadline: isoDate.optional(), // Activations: auto-cancelled (and refunded) if no OTP has arrived by then
+  status: VirtualNumberStatusSchema,
+  reactivatedFrom: z.string().optional() // Id of the earlier record this is a follow-up activation of
+});
+
+export const StatusTransitionSchema = z.object({
+  from: VirtualNumberStatusSchema.nullable(),
+  to: VirtualNumberStatusSchema,
+  changedAt: isoDate
+});
+
+// One provider tried while fulfilling a purchase
+export const PurchaseAttemptSchema = z.object({
+  provider: z.string(),
+  product: z.string(),
+  country: z.string(),
+  success: z.boolean(),
+  price: z.number().optional(),
+  error: z.string().optional()
+});
+
+export const NumberParamsSchema = z.object({
+  number: z.string().min(1)
+});
+
+// POST /api/virtual-numbers
+export const RequestNumberBodySchema = z
+  .object({
+    product: z.string({ required_error: 'Product ID is required' }).min(1, 'Product ID is required'), // Catalog service id, e.g. "amazon"
+    country: z.string().min(1).default('india'),
+    operator: z.string().min(1).optional(),
+    provider: z.literal('auto', {
+      errorMap: () => ({ message: 'Provider must be "auto" or omitted to use the selected provider' })
+    }).optional(), // Buy from the cheapest provider instead of the selected one
+    maxPrice: z.number().positive('maxPrice must be a positive number').optional(), // With provider "auto", in the wallet currency
+    mode: NumberModeSchema.default('activation'),
+    hours: z.number().int('hours must be a whole number').min(1, 'hours must be at least 1').optional() // Rental period, required for rentals
+  })
+  .superRefine((body, ctx) => {
+    if (body.mode === 'rental' && body.hours === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['hours'], message: 'hours is required for rentals' });
+    }
+    if (body.mode === 'rental' && body.provider === 'auto') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['provider'], message: 'Best-price routing is only available for activations' });
+    }
+  });
+
+// The purchase answer carries every provider tried next to the number
+export const RequestNumberResponseSchema = z.object({
+  success: z.literal(true),
+  data: VirtualNumberSchema,
+  attempts: z.array(PurchaseAttemptSchema)
+});
+
+// POST /api/virtual-numbers/bulk
+export const BulkPurchaseBodySchema = z.object({
+  product: z.string({ required_error: 'Product ID is required' }).min(1, 'Product ID is required'),
+  country: z.string().min(1).default('india'),
+  operator: z.string().min(1).optional(),
+  quantity: z.number({ required_error: 'quantity is required' }).int('quantity must be a whole number').min(1, 'quantity must be at least 1'),
+  maxTotalPrice: z.number().positive('maxTotalPrice must be a positive number').optional(), // Wallet currency, across all numbers
+  allOrNothing: z.boolean().default(false) // Cancel the numbers already bought if any purchase fails
+});
+
+// Outcome of one number in a bulk purchase
+export const BulkPurchaseItemSchema = z.object({
+  index: z.number().int(),
+  success: z.boolean(),
+  virtualNumber: VirtualNumberSchema.optional(),
+  attempts: z.array(PurchaseAttemptSchema),
+  error: z.string().optional(),
+  rolledBack: z.boolean().optional() // Bought, then cancelled because another purchase failed
+});
+
+export const BulkPurchaseResultSchema = z.object({
+  requested: z.number().int(),
+  purchased: z.number().int(), // Numbers kept after any rollback
+  failed: z.number().int(),
+  totalPrice: z.number(), // Price of the numbers kept
+  rolledBack: z.boolean(),
+  items: z.array(BulkPurchaseItemSchema)
+});
+
+// GET /api/virtual-numbers/:number/otps/wait
+export const WaitForOtpQuerySchema = z.object({
+  timeout: queryInteger('timeout', 1).default(60), // Seconds; the backend caps it with OTP_WAIT_MAX_SECONDS
+  after: z.string().min(1).optional() // Id of an OTP already used; only a later one is returned
+});
+
+export const OtpWaitResultSchema = z.object({
+  otp: OtpSchema,
+  status: VirtualNumberStatusSchema
+});
+
+// POST /api/virtual-numbers/:number/extend
+export const ExtendRentalBodySchema = z.object({
+  hours: z.number({ required_error: 'hours is required' }).int('hours must be a whole number').min(1, 'hours must be at least 1')
+});
+
+export type VirtualNumberStatus = z.infer<typeof VirtualNumberStatusSchema>;
+export type NumberMode = z.infer<typeof NumberModeSchema>;
+export type OTP = z.output<typeof OtpSchema>;
+export type SmsMessage = z.output<typeof SmsMessageSchema>;
+export type VirtualNumber = z.output<typeof VirtualNumberSchema>;
+export type StatusTransition = z.output<typeof StatusTransitionSchema>;
+export type PurchaseAttempt = z.output<typeof PurchaseAttemptSchema>;
+export type RequestNumberBody = z.input<typeof RequestNumberBodySchema>;
+export type BulkPurchaseBody = z.input<typeof BulkPurchaseBodySchema>;
+export type BulkPurchaseResult = z.output<typeof BulkPurchaseResultSchema>;
+export type WaitForOtpQuery = z.input<typeof WaitForOtpQuerySchema>;
+export type OtpWaitResult = z.output<typeof OtpWaitResultSchema>;
+export type ExtendRentalBody = z.input<typeof ExtendRentalBodySchema>;
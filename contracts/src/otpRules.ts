@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// A pattern that pulls OTP codes out of SMS text
+export const OtpRuleSchema = z.object({
+  id: z.string(),
+  pattern: z.string(),
+  flags: z.string(),
+  confidence: z.number(), // 0-1, before context adjustments
+  description: z.string().optional()
+});
+
+// GET /api/otp-rules (admin only)
+export const OtpRulesQuerySchema = z.object({
+  serviceId: z.string().min(1).optional()
+});
+
+export const OtpRulesSchema = z.object({
+  serviceId: z.string().nullable(),
+  rules: z.array(OtpRuleSchema),
+  services: z.array(z.string()) // Services with rules of their own
+});
+
+// POST /api/otp-rules/test (admin only): try the rules, or a custom one, on some text
+export const OtpRuleTestBodySchema = z.object({
+  text: z.string({ required_error: 'text is required' }).min(1, 'text is required'),
+  serviceId: z.string().min(1).optional(),
+  rule: z.object({
+    pattern: z.string({ required_error: 'rule.pattern is required' }).min(1, 'rule.pattern is required'),
+    flags: z.string().optional(),
+    confidence: z.number().min(0).max(1).optional(),
+    description: z.string().optional()
+  }).optional()
+});
+
+export const OtpCandidateSchema = z.object({
+  code: z.string(),
+  confidence: z.number(),
+  ruleId: z.string(),
+  index: z.number().int() // Position of the match in the text
+});
+
+export const OtpRuleTestResultSchema = z.object({
+  code: z.string().nullable(),
+  confidence: z.number().nullable(),
+  ruleId: z.string().nullable(),
+  candidates: z.array(OtpCandidateSchema) // Best first
+});
+
+export type OtpRule = z.output<typeof OtpRuleSchema>;
+export type OtpRules = z.output<typeof OtpRulesSchema>;
+export type OtpRuleTestBody = z.input<typeof OtpRuleTestBodySchema>;
+export type OtpCandidate = z.output<typeof OtpCandidateSchema>;
+export type OtpRuleTestResult = z.output<typeof OtpRuleTestResultSchema>;
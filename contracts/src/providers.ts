@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+
+export const ProviderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cost: z.string(), // Human-readable price range
+  features: z.array(z.string())
+});
+
+export const ProviderStatusSchema = z.object({
+  providerId: z.string(),
+  available: z.boolean(),
+  reason: z.string().optional()
+});
+
+export const SelectedProviderSchema = z.object({
+  providerId: z.string(),
+  providerName: z.string(),
+  selectedAt: isoDate
+});
+
+export const SelectProviderResultSchema = z.object({
+  providerId: z.string(),
+  providerName: z.string()
+});
+
+export const ProviderParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+export const ProviderCountryParamsSchema = z.object({
+  id: z.string().min(1),
+  countryId: z.string().min(1)
+});
+
+// A catalog country a provider sells numbers in
+export const ProviderCountrySchema = z.object({
+  id: z.string(),
+  name: z.string()
+});
+
+// A service a provider sells in one country, at the provider's live price
+export const ProviderProductSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  cost: z.number(),
+  count: z.number()
+});
+
+export const CountryDetailsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  products: z.array(ProviderProductSchema)
+});
+
+// GET /api/virtual-numbers/price/:product/:country
+export const ProductPriceParamsSchema = z.object({
+  product: z.string().min(1),
+  country: z.string().min(1)
+});
+
+export const ProductPriceSchema = z.object({
+  product: z.string(),
+  country: z.string(),
+  usdCost: z.number(),
+  inrCost: z.number(),
+  count: z.number(),
+  currency: z.string()
+});
+
+// GET /api/virtual-numbers/smsactivate/operators
+export const OperatorsQuerySchema = z.object({
+  country: z.string({ required_error: 'country is required' }).min(1, 'country is required') // SMS-Activate country code
+});
+
+// SMS-Activate's operator codes for the country
+export const OperatorsSchema = z.array(z.string());
+
+// GET /api/virtual-numbers/services/:country; like /countries and /balance it passes
+// SMS-Activate's own answer through, so its data is untyped
+export const SmsActivateServicesParamsSchema = z.object({
+  country: z.string().min(1)
+});
+
+export type Provider = z.output<typeof ProviderSchema>;
+export type ProviderStatus = z.output<typeof ProviderStatusSchema>;
+export type SelectedProvider = z.output<typeof SelectedProviderSchema>;
+export type SelectProviderResult = z.output<typeof SelectProviderResultSchema>;
+export type ProviderCountry = z.output<typeof ProviderCountrySchema>;
+export type ProviderProduct = z.output<typeof ProviderProductSchema>;
+export type CountryDetails = z.output<typeof CountryDetailsSchema>;
+export type ProductPrice = z.output<typeof ProductPriceSchema>;
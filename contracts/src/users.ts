@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+
+export const UserRoleSchema = z.enum(['admin', 'user']);
+
+export const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().optional(),
+  role: UserRoleSchema,
+  createdAt: isoDate
+});
+
+// API key metadata; the key itself is only shown when it's created
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  prefix: z.string(), // First characters of the key, shown so users can tell keys apart
+  createdAt: isoDate,
+  lastUsedAt: isoDate.optional(),
+  revokedAt: isoDate.optional()
+});
+
+export const CreatedApiKeySchema = ApiKeySchema.extend({
+  key: z.string()
+});
+
+// POST /api/users (admin only)
+export const CreateUserBodySchema = z.object({
+  name: z.string({ required_error: 'Name is required' }).min(1, 'Name is required'),
+  email: z.string().email().optional(),
+  role: z.enum(UserRoleSchema.options, {
+    errorMap: () => ({ message: 'Role must be either admin or user' })
+  }).default('user')
+});
+
+export const CreatedUserSchema = z.object({
+  user: UserSchema,
+  apiKey: CreatedApiKeySchema
+});
+
+// POST /api/users/me/api-keys
+export const CreateApiKeyBodySchema = z.object({
+  name: z.string().min(1).default('default')
+});
+
+export const ApiKeyParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+export type UserRole = z.infer<typeof UserRoleSchema>;
+export type User = z.output<typeof UserSchema>;
+export type ApiKey = z.output<typeof ApiKeySchema>;
+export type CreatedApiKey = z.output<typeof CreatedApiKeySchema>;
+export type CreateUserBody = z.input<typeof CreateUserBodySchema>;
+export type CreatedUser = z.output<typeof CreatedUserSchema>;
+export type CreateApiKeyBody = z.input<typeof CreateApiKeyBodySchema>;
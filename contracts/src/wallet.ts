@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+
+export const WalletBalanceSchema = z.object({
+  balance: z.number(), // Committed funds minus pending reservations
+  pending: z.number(), // Funds currently reserved for purchases in progress
+  currency: z.string()
+});
+
+export const WalletTransactionTypeSchema = z.enum(['credit', 'debit', 'refund', 'adjustment']);
+
+// pending: funds reserved for a purchase in progress
+// committed: final
+// released: reservation dropped because the purchase failed; doesn't count towards the balance
+export const WalletTransactionStatusSchema = z.enum(['pending', 'committed', 'released']);
+
+export const WalletTransactionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: WalletTransactionTypeSchema,
+  amount: z.number(), // Signed: debits are negative, credits and refunds positive
+  currency: z.string(),
+  status: WalletTransactionStatusSchema,
+  virtualNumberId: z.string().optional(),
+  description: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate
+});
+
+// POST /api/wallet/users/:userId/transactions (admin only)
+export const WalletUserParamsSchema = z.object({
+  userId: z.string().min(1)
+});
+
+export const AddFundsBodySchema = z
+  .object({
+    type: z.enum(['credit', 'adjustment'], {
+      errorMap: () => ({ message: 'Type must be either credit or adjustment' })
+    }).default('credit'),
+    amount: z.number({ required_error: 'Amount is required' }).finite(),
+    description: z.string().optional()
+  })
+  .superRefine((body, ctx) => {
+    if (body.type === 'credit' && body.amount <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Amount must be a positive number' });
+    }
+    if (body.type === 'adjustment' && body.amount === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Amount must be a non-zero number' });
+    }
+  });
+
+export type WalletBalance = z.output<typeof WalletBalanceSchema>;
+export type WalletTransactionType = z.infer<typeof WalletTransactionTypeSchema>;
+export type WalletTransactionStatus = z.infer<typeof WalletTransactionStatusSchema>;
+export type WalletTransaction = z.output<typeof WalletTransactionSchema>;
+export type AddFundsBody = z.input<typeof AddFundsBodySchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { isoDate } from './common';
+
+export const WebhookEventTypeSchema = z.enum(['number.created', 'otp.received', 'number.expired', 'number.cancelled', 'webhook.test']);
+
+// A user's URL that receives signed webhook events; the secret is left out
+export const WebhookEndpointSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  events: z.array(WebhookEventTypeSchema), // Empty subscribes to every event
+  description: z.string().optional(),
+  createdAt: isoDate
+});
+
+// Only returned when the endpoint is created
+export const CreatedWebhookEndpointSchema = WebhookEndpointSchema.extend({
+  secret: z.string()
+});
+
+// pending: queued or waiting for a retry
+// delivered: the endpoint answered with a 2xx
+// failed: gave up after the last attempt
+export const WebhookDeliveryStatusSchema = z.enum(['pending', 'delivered', 'failed']);
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  endpointId: z.string(),
+  event: WebhookEventTypeSchema,
+  payload: z.string(), // The exact JSON body that is signed and sent
+  status: WebhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  nextAttemptAt: isoDate.optional(),
+  lastStatusCode: z.number().int().optional(),
+  lastError: z.string().optional(),
+  createdAt: isoDate,
+  deliveredAt: isoDate.optional()
+});
+
+// POST /api/webhooks; the service checks the URL scheme and secret length
+export const CreateWebhookBodySchema = z.object({
+  url: z.string({ required_error: 'url is required' }).min(1, 'url is required'),
+  events: z.array(WebhookEventTypeSchema).optional(),
+  description: z.string().optional(),
+  secret: z.string().optional() // Generated when left out
+});
+
+export const WebhookEndpointParamsSchema = z.object({
+  id: z.string().min(1)
+});
+
+export type WebhookEventType = z.infer<typeof WebhookEventTypeSchema>;
+export type WebhookEndpoint = z.output<typeof WebhookEndpointSchema>;
+export type CreatedWebhookEndpoint = z.output<typeof CreatedWebhookEndpointSchema>;
+export type WebhookDeliveryStatus = z.infer<typeof WebhookDeliveryStatusSchema>;
+export type WebhookDelivery = z.output<typeof WebhookDeliverySchema>;
+export type CreateWebhookBody = z.input<typeof CreateWebhookBodySchema>;
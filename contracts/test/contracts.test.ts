@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AddFundsBodySchema,
+  ApiErrorSchema,
+  formatIssues,
+  MockScenarioUpdateSchema,
+  PaginationQuerySchema,
+  RequestNumberBodySchema,
+  VirtualNumberSchema,
+  VnosEventSchemas
+} from '../src';
+
+const virtualNumber = {
+  id: 'vn-1',
+  number: '+15550000001',
+  activationId: 'act-1',
+  provider: 'mock',
+  product: 'amazon',
+  country: 'usa',
+  mode: 'activation',
+  otps: [],
+  messages: [],
+  purchasedAt: new Date('2024-01-01T12:00:00.000Z'),
+  createdAt: new Date('2024-01-01T12:00:00.000Z'),
+  expiresAt: '2024-01-01T12:20:00.000Z',
+  status: 'waiting_sms'
+};
+
+describe('Contracts', () => {
+  it('sends dates as ISO strings whether it gets Dates or strings', () => {
+    const parsed = VirtualNumberSchema.parse(virtualNumber);
+
+    assert.equal(parsed.purchasedAt, '2024-01-01T12:00:00.000Z');
+    assert.equal(parsed.expiresAt, '2024-01-01T12:20:00.000Z');
+    assert.equal(VirtualNumberSchema.safeParse({ ...virtualNumber, expiresAt: 'tomorrow' }).success, false);
+  });
+
+  it('drops fields that are not part of the contract', () => {
+    const parsed = VirtualNumberSchema.parse({ ...virtualNumber, userId: 'user-1', isActive: true });
+
+    assert.equal('userId' in parsed, false);
+    assert.equal('isActive' in parsed, false);
+  });
+
+  it('fills in request defaults', () => {
+    assert.deepEqual(RequestNumberBodySchema.parse({ product: 'amazon' }), {
+      product: 'amazon',
+      country: 'india',
+      mode: 'activation'
+    });
+    assert.deepEqual(AddFundsBodySchema.parse({ amount: 10 }), { type: 'credit', amount: 10 });
+  });
+
+  it('requires hours for rentals', () => {
+    const result = RequestNumberBodySchema.safeParse({ product: 'amazon', mode: 'rental' });
+
+    assert.equal(result.success, false);
+    assert.equal(formatIssues(result.error!), 'hours is required for rentals');
+  });
+
+  it('only allows negative amounts for adjustments', () => {
+    assert.equal(AddFundsBodySchema.safeParse({ type: 'credit', amount: -5 }).success, false);
+    assert.equal(AddFundsBodySchema.safeParse({ type: 'adjustment', amount: -5 }).success, true);
+    assert.equal(AddFundsBodySchema.safeParse({ type: 'adjustment', amount: 0 }).success, false);
+  });
+
+  it('reads paging from query strings', () => {
+    assert.deepEqual(PaginationQuerySchema.parse({}), { limit: 50, offset: 0 });
+    assert.deepEqual(PaginationQuerySchema.parse({ limit: '20', offset: '40' }), { limit: 20, offset: 40 });
+
+    const result = PaginationQuerySchema.safeParse({ limit: '500', offset: '-1' });
+    assert.equal(formatIssues(result.error!), 'limit must be at most 200; offset must be at least 0');
+  });
+
+  it('names the field when the message does not', () => {
+    const result = RequestNumberBodySchema.safeParse({ product: 'amazon', country: 7 });
+
+    assert.equal(formatIssues(result.error!), 'country: Expected string, received number');
+  });
+
+  it('lowercases mock service ids', () => {
+    assert.deepEqual(MockScenarioUpdateSchema.parse({ outOfStock: ['WhatsApp'] }), { outOfStock: ['whatsapp'] });
+    assert.equal(
+      formatIssues(MockScenarioUpdateSchema.safeParse({ resend: 'maybe' }).error!),
+      'resend must be one of accept, reject, deliver'
+    );
+  });
+
+  it('keeps route-specific details on errors', () => {
+    const error = ApiErrorSchema.parse({ success: false, error: 'No provider could supply amazon', attempts: [] });
+
+    assert.deepEqual(error, { success: false, error: 'No provider could supply amazon', attempts: [] });
+    assert.equal(ApiErrorSchema.safeParse({ success: false, message: 'Failed' }).success, false);
+  });
+
+  it('describes socket event payloads', () => {
+    const payload = VnosEventSchemas.statusUpdate.parse({
+      number: '+15550000001',
+      from: 'waiting_sms',
+      to: 'sms_received',
+      timestamp: new Date('2024-01-01T12:01:00.000Z')
+    });
+
+    assert.equal(payload.timestamp, '2024-01-01T12:01:00.000Z');
+  });
+});
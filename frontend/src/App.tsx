@@ -1,29 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { VirtualNumber } from './types';
-import { ApiService } from './services/api';
+import { VirtualNumber, ACTIVE_STATUSES, IndianService } from './types';
+import { ApiService, signOut } from './services/api';
 import { socketService } from './services/socket';
 import { VirtualNumberSlot } from './components/VirtualNumberSlot';
 
-import { Phone, Plus, Wifi, WifiOff, AlertCircle, CheckCircle, Copy, Clock, MessageCircle } from 'lucide-react';
-import productsData from './data/products.json';
-
-// Interface for real Indian services from SMS-Activate API
-interface IndianService {
-  id: string;
-  name: string;
-  category: string;
-  smsActivateId: string;
-  description: string;
-  expectedCount: number;
-  priority: string;
-  realTimeData: {
-    cost: number;
-    count: number;
-    usdCost: number;
-    inrCost: number;
-    available: boolean;
-  };
-}
+import { Phone, Plus, Wifi, WifiOff, AlertCircle, CheckCircle, Copy, Clock, MessageCircle, LogOut } from 'lucide-react';
 
 function App() {
   const [virtualNumbers, setVirtualNumbers] = useState<VirtualNumber[]>([]);
@@ -45,6 +26,9 @@ function App() {
   const [isLoadingIndianServices, setIsLoadingIndianServices] = useState(true);
   const [indianServicesError, setIndianServicesError] = useState<string | null>(null);
   
+  // Catalog services for the selected country and provider
+  const [catalogProducts, setCatalogProducts] = useState<Array<{ id: string; name: string; icon: string }>>([]);
+
   // State for country dropdown
   const [showCountryDropdown, setShowCountryDropdown] = useState<boolean>(false);
 
@@ -56,63 +40,53 @@ function App() {
         setIndianServicesError(null);
         
         console.log('[Worker] Fetching Indian services from SMS-Activate API...');
-        const response = await fetch('http://localhost:5000/api/virtual-numbers/indian-services');
+        const { services } = await ApiService.getIndianServices();
+        console.log(`[Worker] Successfully fetched ${services.length} Indian services`);
+        setRealIndianServices(services);
         
-        if (!response.ok) {
-          throw new Error(`Failed to fetch Indian services: ${response.status}`);
-        }
+        // Update products state with real data
+        const realProducts = services.map((service: IndianService) => ({
+          id: service.id,
+          name: service.name,
+          description: service.description,
+          icon: getServiceIcon(service.name),
+          realTimeData: service.realTimeData
+        }));
         
-        const data = await response.json();
+        setApiProducts(realProducts.map((product: any) => ({
+          id: product.id,
+          name: product.name,
+          cost: product.realTimeData?.inrCost || 0,
+          count: product.realTimeData?.count || 0
+        })));
         
-        if (data.success && data.data && data.data.services) {
-          console.log(`[Worker] Successfully fetched ${data.data.services.length} Indian services`);
-          setRealIndianServices(data.data.services);
-          
-          // Update products state with real data
-          const realProducts = data.data.services.map((service: IndianService) => ({
-            id: service.id,
-            name: service.name,
-            description: service.description,
-            icon: getServiceIcon(service.name),
-            realTimeData: service.realTimeData
-          }));
-          
-          setApiProducts(realProducts.map((product: any) => ({
-            id: product.id,
-            name: product.name,
-            cost: product.realTimeData?.inrCost || 0,
-            count: product.realTimeData?.count || 0
-          })));
-          
-          // Set first available product as selected
-          if (realProducts.length > 0) {
-            setSelectedProduct(realProducts[0].id);
-            const firstProductOperators = getProductOperators(realProducts[0].id, 'sms-activate', 'india');
-            setOperators(firstProductOperators);
-          }
-          
-          // Update product prices
-          const newPrices = new Map<string, { usdCost: number; inrCost: number; count: number }>();
-          realProducts.forEach((product: any) => {
-            if (product.realTimeData) {
-              newPrices.set(product.id, {
-                usdCost: product.realTimeData.usdCost,
-                inrCost: product.realTimeData.inrCost,
-                count: product.realTimeData.count
-              });
-            }
-          });
-          setProductPrices(newPrices);
-          
-        } else {
-          throw new Error('Invalid response format from Indian services API');
+        // Set first available product as selected
+        if (realProducts.length > 0) {
+          setSelectedProduct(realProducts[0].id);
+          const firstProductOperators = getProductOperators(realProducts[0].id, 'sms-activate', 'india');
+          setOperators(firstProductOperators);
         }
+        
+        // Update product prices
+        const newPrices = new Map<string, { usdCost: number; inrCost: number; count: number }>();
+        realProducts.forEach((product: any) => {
+          if (product.realTimeData) {
+            newPrices.set(product.id, {
+              usdCost: product.realTimeData.usdCost,
+              inrCost: product.realTimeData.inrCost,
+              count: product.realTimeData.count
+            });
+          }
+        });
+        setProductPrices(newPrices);
+        
       } catch (error) {
         console.error('[Worker] Error fetching Indian services:', error);
         setIndianServicesError(error instanceof Error ? error.message : 'Failed to fetch Indian services');
         
-        // Fallback to hardcoded products if API fails
-        const fallbackProducts = getProductsForCountry('india', 'sms-activate');
+        // Fall back to the catalog (without live prices) if the API fails
+        const fallbackProducts = await ApiService.getCatalogServices({ country: 'india', provider: 'sms-activate' })
+          .catch(() => []);
         setApiProducts(fallbackProducts.map(product => ({
           id: product.id,
           name: product.name,
@@ -302,62 +276,19 @@ function App() {
     }
   };
 
-  // Get products based on selected country and provider
-  const getProductsForCountry = (country: string, provider: string) => {
-    if (provider === 'sms-activate') {
-      // SMS-Activate provider - use Indian services
-      if (country === 'india') {
-        return [
-          { id: 'amazon', name: 'Amazon', icon: '📦' },
-          { id: 'flipkart', name: 'Flipkart', icon: '🛒' },
-          { id: 'jiomart', name: 'JioMart', icon: '🛍️' },
-          { id: 'dmart', name: 'DMart', icon: '🏪' },
-          { id: 'vishalmart', name: 'VishalMart', icon: '🏬' },
-          { id: 'paytm', name: 'Paytm', icon: '💳' },
-          { id: 'phonepe', name: 'PhonePe', icon: '📱' },
-          { id: 'swiggy', name: 'Swiggy', icon: '🍔' },
-          { id: 'zomato', name: 'Zomato', icon: '🍕' },
-          { id: 'uber', name: 'Uber', icon: '🚗' },
-          { id: 'ola', name: 'Ola', icon: '🚙' },
-          { id: 'disneyhotstar', name: 'Disney+ Hotstar', icon: '🎬' },
-          { id: 'netflix', name: 'Netflix', icon: '📺' },
-          { id: 'dream11', name: 'Dream11', icon: '🎮' },
-          { id: '1mg', name: '1mg', icon: '💊' }
-        ];
-      } else {
-        // For other countries with SMS-Activate, show generic services
-        return [
-          { id: 'uber', name: 'Uber', icon: '🚗' },
-          { id: 'facebook', name: 'Facebook', icon: '📘' },
-          { id: 'google', name: 'Google', icon: '🔍' },
-          { id: 'whatsapp', name: 'WhatsApp', icon: '💬' }
-        ];
-      }
-    } else if (country === 'usa') {
-      // 5SIM provider for USA
-      return [
-        { id: 'uber', name: 'Uber', icon: '🚗' },
-        { id: 'facebook', name: 'Facebook', icon: '📘' },
-        { id: 'google', name: 'Google', icon: '🔍' },
-        { id: 'twitter', name: 'Twitter', icon: '🐦' },
-        { id: 'whatsapp', name: 'WhatsApp', icon: '💬' }
-      ];
-    } else {
-      // 5SIM provider for India
-      return [
-        { id: 'zomato', name: 'Zomato', icon: '🍕' },
-        { id: 'uber', name: 'Uber', icon: '🚗' },
-        { id: 'ola', name: 'Ola', icon: '🚙' },
-        { id: 'paytm', name: 'Paytm', icon: '💳' },
-        { id: 'phonepe', name: 'PhonePe', icon: '📱' },
-        { id: 'amazon', name: 'Amazon', icon: '📦' },
-        { id: 'flipkart', name: 'Flipkart', icon: '🛒' },
-        { id: 'swiggy', name: 'Swiggy', icon: '🍔' },
-        { id: 'meesho', name: 'Meesho', icon: '🛍️' },
-        { id: 'snapdeal', name: 'Snapdeal', icon: '📱' }
-      ];
-    }
-  };
+  // Load the catalog whenever country or provider changes
+  useEffect(() => {
+    ApiService.getCatalogServices({ country: selectedCountry, provider: selectedProvider })
+      .then(services => setCatalogProducts(services.map(service => ({
+        id: service.id,
+        name: service.name,
+        icon: getServiceIcon(service.name)
+      }))))
+      .catch(error => {
+        console.error('Failed to load catalog:', error);
+        setCatalogProducts([]);
+      });
+  }, [selectedCountry, selectedProvider]);
 
   // Get current products - prioritize real Indian services if available
   const getCurrentProducts = () => {
@@ -369,8 +300,8 @@ function App() {
         icon: getServiceIcon(service.name)
       }));
     } else {
-      // Fallback to hardcoded products
-      return getProductsForCountry(selectedCountry, selectedProvider);
+      // Fall back to the catalog
+      return catalogProducts;
     }
   };
 
@@ -395,7 +326,7 @@ function App() {
         setSelectedProduct(newProducts[0].id);
       }
     }
-  }, [selectedCountry, selectedProvider, realIndianServices]);
+  }, [selectedCountry, selectedProvider, realIndianServices, catalogProducts]);
 
   // Auto-set India when SMS-Activate is selected
   useEffect(() => {
@@ -507,31 +438,22 @@ function App() {
         const countryCode = selectedCountry === 'india' ? '22' : '1';
         
         // Fetch operators from your backend API
-        const response = await fetch(`http://localhost:5000/api/virtual-numbers/smsactivate/operators?country=${countryCode}`);
+        const operatorNames = await ApiService.getOperators(countryCode);
         
-        if (!response.ok) {
-          throw new Error(`Backend error: ${response.status}`);
-        }
+        // Convert the operator names to the format expected by your UI
+        const apiOperators = operatorNames.map((operatorName, index) => ({
+          id: operatorName,
+          name: operatorName.charAt(0).toUpperCase() + operatorName.slice(1), // Capitalize first letter
+          description: 'SMS-Activate operator',
+          price: '0.20', // Default price, you can update this later
+          selected: index === 0 // Select first operator by default
+        }));
         
-        const data = await response.json();
+        console.log(`[Frontend] Successfully fetched ${apiOperators.length} operators from SMS-Activate:`, apiOperators);
         
-        if (data.success && data.operators) {
-          // Convert the operator names to the format expected by your UI
-          const apiOperators = data.operators.map((operatorName: string, index: number) => ({
-            id: operatorName,
-            name: operatorName.charAt(0).toUpperCase() + operatorName.slice(1), // Capitalize first letter
-            price: '0.20', // Default price, you can update this later
-            selected: index === 0 // Select first operator by default
-          }));
-          
-          console.log(`[Frontend] Successfully fetched ${apiOperators.length} operators from SMS-Activate:`, apiOperators);
-          
-          // Update the operators state with dynamic operators from API
-          setOperators(apiOperators);
-          setSelectedOperator(apiOperators[0]?.id || 'any');
-        } else {
-          console.error('[Frontend] Backend returned error:', data.error);
-        }
+        // Update the operators state with dynamic operators from API
+        setOperators(apiOperators);
+        setSelectedOperator(apiOperators[0]?.id || 'any');
       }
       
       console.log(`Successfully switched to provider: ${providerId}`);
@@ -579,7 +501,7 @@ function App() {
       try {
         // Check if the number is still active
         const virtualNumber = virtualNumbers.find(num => num.number === phoneNumber);
-        if (!virtualNumber || virtualNumber.status !== 'active') {
+        if (!virtualNumber || !ACTIVE_STATUSES.includes(virtualNumber.status)) {
           clearInterval(pollInterval);
           return;
         }
@@ -587,11 +509,14 @@ function App() {
         // Check for new OTPs
         const otps = await ApiService.checkOtps(phoneNumber);
         if (otps.length > 0) {
-          // Update the virtual number with new OTPs
+          // Fetch the full SMS the OTPs were extracted from
+          const messages = await ApiService.getMessages(phoneNumber);
+
+          // Update the virtual number with new OTPs and messages
           setVirtualNumbers(prev => 
             prev.map(num => 
               num.number === phoneNumber 
-                ? { ...num, otps: [...num.otps, ...otps] }
+                ? { ...num, otps: [...num.otps, ...otps], messages }
                 : num
             )
           );
@@ -708,6 +633,15 @@ function App() {
                   {isConnected ? 'Connected' : 'Disconnected'}
                 </span>
               </div>
+
+              <button
+                onClick={signOut}
+                className="flex items-center space-x-1 text-sm text-gray-300 hover:text-white transition-colors"
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+                <span>Sign out</span>
+              </button>
             </div>
           </div>
         </div>
@@ -959,6 +893,14 @@ function App() {
                     <Copy className="w-5 h-5" />
                   </button>
                 </div>
+                {(() => {
+                  const message = virtualNumbers[0].messages?.find(m => m.id === virtualNumbers[0].otps[0].messageId);
+                  return message && (
+                    <p className="mt-2 text-sm text-green-100 break-words">
+                      <span className="font-medium">{message.sender || 'Unknown sender'}:</span> {message.text}
+                    </p>
+                  );
+                })()}
               </div>
             </div>
           )}
@@ -33,7 +33,7 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
             statuses.set(provider.id, status);
           } catch (error) {
             console.error(`Failed to get status for provider ${provider.id}:`, error);
-            statuses.set(provider.id, { available: false, reason: 'Failed to check status' });
+            statuses.set(provider.id, { providerId: provider.id, available: false, reason: 'Failed to check status' });
           }
         }
         setProviderStatuses(statuses);
@@ -91,7 +91,7 @@ export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
   return (
     <div className="flex space-x-3">
       {providers.map((provider) => {
-        const status = providerStatuses.get(provider.id) || { available: false, reason: 'Unknown' };
+        const status = providerStatuses.get(provider.id) || { providerId: provider.id, available: false, reason: 'Unknown' };
         const isSelected = selectedProvider === provider.id;
         
         return (
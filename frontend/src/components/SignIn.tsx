@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { signIn } from '../services/api';
+import { Phone, AlertCircle } from 'lucide-react';
+
+/**
+ * Asks for the user's API key before the app loads anything
+ */
+export const SignIn: React.FC = () => {
+  const [apiKey, setApiKey] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      await signIn(apiKey.trim());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Sign in failed');
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-6">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-purple-600 rounded-lg flex items-center justify-center">
+            <Phone className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-white">VirtNum India</h1>
+            <p className="text-sm text-gray-400">Sign in with your API key</p>
+          </div>
+        </div>
+
+        <input
+          type="password"
+          placeholder="API key"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          autoFocus
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent mb-4"
+        />
+
+        {error && (
+          <div className="flex items-center space-x-2 text-sm text-red-400 mb-4">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!apiKey.trim() || isSigningIn}
+          className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 rounded-lg transition-colors"
+        >
+          {isSigningIn ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
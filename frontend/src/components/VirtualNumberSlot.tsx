@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { VirtualNumber, OTP } from '../types';
+import { ACTIVE_STATUSES, VirtualNumber, OTP, SmsMessage } from '../types';
 import { ApiService } from '../services/api';
 import { socketService } from '../services/socket';
 import { Phone, Clock, X, RefreshCw, Copy, Check } from 'lucide-react';
@@ -16,9 +16,11 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
   onRemove,
 }) => {
   const [otps, setOtps] = useState<OTP[]>(virtualNumber.otps);
+  const [messages, setMessages] = useState<SmsMessage[]>(virtualNumber.messages || []);
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [copiedOTP, setCopiedOTP] = useState<string | null>(null);
+  const isActive = ACTIVE_STATUSES.includes(virtualNumber.status);
 
   // Calculate time remaining
   useEffect(() => {
@@ -37,10 +39,17 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
 
   // Handle expiration
   useEffect(() => {
-    if (timeLeft === 0 && virtualNumber.isActive) {
+    if (timeLeft === 0 && isActive) {
       onRemove(virtualNumber.number);
     }
-  }, [timeLeft, virtualNumber.isActive, virtualNumber.number, onRemove]);
+  }, [timeLeft, isActive, virtualNumber.number, onRemove]);
+
+  // Load the SMS received so far
+  useEffect(() => {
+    ApiService.getMessages(virtualNumber.number)
+      .then(setMessages)
+      .catch(error => console.error('Failed to load messages:', error));
+  }, [virtualNumber.number]);
 
   // WebSocket listeners
   useEffect(() => {
@@ -56,6 +65,15 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
       }
     };
 
+    const handleSmsUpdate = (data: { number: string; messages: SmsMessage[] }) => {
+      if (data.number === virtualNumber.number) {
+        setMessages(prev => [
+          ...prev,
+          ...data.messages.filter(message => !prev.some(existing => existing.id === message.id))
+        ]);
+      }
+    };
+
     const handleNumberExpired = (data: { number: string }) => {
       if (data.number === virtualNumber.number) {
         onRemove(virtualNumber.number);
@@ -63,11 +81,13 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
     };
 
     socketService.onOTPUpdate(handleOTPUpdate);
+    socketService.onSmsUpdate(handleSmsUpdate);
     socketService.onNumberExpired(handleNumberExpired);
 
     return () => {
       socketService.leaveNumber(virtualNumber.number);
       socketService.offOTPUpdate();
+      socketService.offSmsUpdate();
       socketService.offNumberExpired();
     };
   }, [virtualNumber.number, virtualNumber, otps, onUpdate, onRemove]);
@@ -177,11 +197,33 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
         )}
       </div>
 
+      {/* Full SMS Messages */}
+      {messages.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Messages:</h4>
+          <div className="space-y-2">
+            {messages.map((message) => (
+              <div key={message.id} className="bg-gray-50 p-3 rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-medium text-gray-700">
+                    {message.sender || 'Unknown sender'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(message.receivedAt).toLocaleTimeString()}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-800 break-words">{message.text}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex space-x-3">
         <button
           onClick={handleResendOTP}
-          disabled={isLoading || !virtualNumber.isActive}
+          disabled={isLoading || !isActive}
           className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <RefreshCw className="w-4 h-4" />
@@ -189,7 +231,7 @@ export const VirtualNumberSlot: React.FC<VirtualNumberSlotProps> = ({
         </button>
         <button
           onClick={handleCancel}
-          disabled={isLoading || !virtualNumber.isActive}
+          disabled={isLoading || !isActive}
           className="btn-danger flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <X className="w-4 h-4" />
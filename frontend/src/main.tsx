@@ -1,10 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { SignIn } from './components/SignIn'
+import { getStoredApiKey } from './services/api'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {getStoredApiKey() ? <App /> : <SignIn />}
   </React.StrictMode>,
 ) 
\ No newline at end of file
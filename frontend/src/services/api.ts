@@ -1,21 +1,59 @@
-import { 
-  VirtualNumber, 
-  OTP, 
-  CreateVirtualNumberResponse, 
-  GetOTPsResponse, 
-  CancelNumberResponse, 
-  ResendOTPResponse,
+import { VnosClient, VnosAuthError, SelectedProvider, CatalogProviderId } from '@vnos/sdk';
+import {
+  VirtualNumber,
+  OTP,
+  SmsMessage,
   Provider,
   ProviderStatus,
-  ProvidersResponse,
-  ProviderStatusResponse,
-  SelectProviderResponse,
-  Country,
-  Product,
-  CountryDetails
+  ProviderCountry,
+  ProviderProduct,
+  CountryDetails,
+  ProductPrice,
+  IndianServices,
+  CatalogService
 } from '../types';
 
-const API_BASE_URL = 'http://localhost:5000/api';
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+
+// Each user signs in with their own API key; it is kept in this browser only,
+// never built into the bundle
+const API_KEY_STORAGE_KEY = 'vnos.apiKey';
+
+/**
+ * The API key the user signed in with, if any
+ */
+export function getStoredApiKey(): string | null {
+  return localStorage.getItem(API_KEY_STORAGE_KEY);
+}
+
+/**
+ * Check an API key against the backend and keep it for this browser. The page
+ * reloads, so the shared client and its socket start over with the new key.
+ */
+export async function signIn(apiKey: string): Promise<void> {
+  try {
+    await new VnosClient({ baseUrl: API_BASE_URL, apiKey }).getBalance();
+  } catch (error) {
+    throw new Error(error instanceof VnosAuthError ? 'Invalid API key' : 'Could not reach the server');
+  }
+
+  localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  window.location.reload();
+}
+
+/**
+ * Forget the API key and go back to the sign-in form
+ */
+export function signOut(): void {
+  localStorage.removeItem(API_KEY_STORAGE_KEY);
+  window.location.reload();
+}
+
+// Shared SDK client; VITE_API_URL points it at a backend other than the local one
+export const vnosClient = new VnosClient({
+  baseUrl: API_BASE_URL,
+  apiKey: getStoredApiKey() ?? undefined
+});
 
 /**
  * API Service for Virtual Number Operations
@@ -28,28 +66,16 @@ export class ApiService {
    */
   static async getSelectedProvider(): Promise<string | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/selected`);
-      const result = await response.json();
-      
-      if (result.success && result.data) {
-        return result.data.providerId;
-      }
-      return null;
+      return (await vnosClient.getSelectedProvider()).providerId;
     } catch (error) {
       console.error('Failed to get selected provider:', error);
       return null;
     }
   }
 
-  static async getSelectedProviderDetails(): Promise<{ providerId: string; status: any; selectedAt: string } | null> {
+  static async getSelectedProviderDetails(): Promise<SelectedProvider | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/selected`);
-      const result = await response.json();
-      
-      if (result.success && result.data) {
-        return result.data;
-      }
-      return null;
+      return await vnosClient.getSelectedProvider();
     } catch (error) {
       console.error('Failed to get selected provider details:', error);
       return null;
@@ -60,112 +86,56 @@ export class ApiService {
    * Get all available providers
    */
   static async getProviders(): Promise<Provider[]> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers`);
-    const data: ProvidersResponse = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch providers');
-    }
-
-    return data.data || [];
+    return vnosClient.listProviders();
   }
 
   /**
    * Get status of a specific provider
    */
   static async getProviderStatus(providerId: string): Promise<ProviderStatus> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/${encodeURIComponent(providerId)}/status`);
-    const data: ProviderStatusResponse = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch provider status');
-    }
-
-    return data.data!;
+    return vnosClient.getProviderStatus(providerId);
   }
 
   /**
    * Select a specific provider
    */
   static async selectProvider(providerId: string): Promise<{ providerId: string; providerName: string }> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/${encodeURIComponent(providerId)}/select`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data: SelectProviderResponse = await response.json();
-    
-    if (!data.success || !data.data) {
-      throw new Error(data.error || 'Failed to select provider');
-    }
-
-    return data.data;
+    return vnosClient.selectProvider(providerId);
   }
 
   /**
    * Request a new virtual number
    */
-  static async requestNumber(): Promise<VirtualNumber> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data: CreateVirtualNumberResponse = await response.json();
-    
-    if (!data.success || !data.data) {
-      throw new Error(data.error || 'Failed to request virtual number');
-    }
-
-    return data.data;
+  static async requestNumber(productId: string, countryId: string = 'india'): Promise<VirtualNumber> {
+    return vnosClient.requestNumber({ product: productId, country: countryId });
   }
 
   /**
    * Get all active virtual numbers
    */
   static async getActiveNumbers(): Promise<VirtualNumber[]> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers`);
-    const data = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch virtual numbers');
-    }
-
-    return data.data || [];
+    return vnosClient.listNumbers();
   }
 
   /**
    * Get OTPs for a specific number
    */
   static async getOTPs(number: string): Promise<OTP[]> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/${encodeURIComponent(number)}/otps`);
-    const data: GetOTPsResponse = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to fetch OTPs');
-    }
+    return vnosClient.getOtps(number);
+  }
 
-    return data.data || [];
+  /**
+   * Get every SMS received on a specific number
+   */
+  static async getMessages(number: string): Promise<SmsMessage[]> {
+    return vnosClient.getMessages(number);
   }
 
   /**
    * Cancel/Release a virtual number
    */
   static async cancelNumber(number: string): Promise<boolean> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/${encodeURIComponent(number)}`, {
-      method: 'DELETE',
-    });
-
-    const data: CancelNumberResponse = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to cancel number');
-    }
-
+    await vnosClient.cancel(number);
     return true;
   }
 
@@ -173,19 +143,7 @@ export class ApiService {
    * Resend OTP for a number
    */
   static async resendOTP(number: string): Promise<boolean> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/${encodeURIComponent(number)}/resend`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    const data: ResendOTPResponse = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to resend OTP');
-    }
-
+    await vnosClient.resend(number);
     return true;
   }
 
@@ -193,40 +151,21 @@ export class ApiService {
    * Get a specific virtual number
    */
   static async getNumber(number: string): Promise<VirtualNumber> {
-    const response = await fetch(`${API_BASE_URL}/virtual-numbers/${encodeURIComponent(number)}`);
-    const data = await response.json();
-    
-    if (!data.success || !data.data) {
-      throw new Error(data.error || 'Virtual number not found');
-    }
-
-    return data.data;
+    return vnosClient.getNumber(number);
   }
 
-  static async getProviderCountries(providerId: string): Promise<Country[]> {
+  static async getProviderCountries(providerId: string): Promise<ProviderCountry[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/${providerId}/countries`);
-      const result = await response.json();
-      
-      if (result.success) {
-        return result.data || [];
-      }
-      return [];
+      return await vnosClient.getProviderCountries(providerId);
     } catch (error) {
       console.error(`Failed to get countries for provider ${providerId}:`, error);
       return [];
     }
   }
 
-  static async getProviderProducts(providerId: string, countryId: string): Promise<Product[]> {
+  static async getProviderProducts(providerId: string, countryId: string): Promise<ProviderProduct[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/${providerId}/countries/${countryId}/products`);
-      const result = await response.json();
-      
-      if (result.success) {
-        return result.data || [];
-      }
-      return [];
+      return await vnosClient.getProviderProducts(providerId, countryId);
     } catch (error) {
       console.error(`Failed to get products for provider ${providerId} and country ${countryId}:`, error);
       return [];
@@ -235,40 +174,38 @@ export class ApiService {
 
   static async getCountryDetails(providerId: string, countryId: string): Promise<CountryDetails | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/providers/${providerId}/countries/${countryId}/details`);
-      const result = await response.json();
-      
-      if (result.success) {
-        return result.data || null;
-      }
-      return null;
+      return await vnosClient.getCountryDetails(providerId, countryId);
     } catch (error) {
       console.error(`Failed to get country details for provider ${providerId} and country ${countryId}:`, error);
       return null;
     }
   }
 
+  /**
+   * Get the Indian services SMS-Activate stocks, with live prices
+   */
+  static async getIndianServices(): Promise<IndianServices> {
+    return vnosClient.getIndianServices();
+  }
+
+  /**
+   * Get the SMS-Activate operators for a country code
+   */
+  static async getOperators(countryCode: string): Promise<string[]> {
+    return vnosClient.getOperators(countryCode);
+  }
+
+  /**
+   * Get catalog services, optionally limited to a country and provider
+   */
+  static async getCatalogServices(filter: { country?: string; provider?: string } = {}): Promise<CatalogService[]> {
+    // The backend rejects providers the catalog doesn't know
+    return (await vnosClient.getCatalog({ ...filter, provider: filter.provider as CatalogProviderId | undefined })).services;
+  }
+
   static async requestVirtualNumber(productId: string, countryId: string = 'india', operatorId?: string): Promise<VirtualNumber> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          product: productId,
-          country: countryId,
-          operator: operatorId
-        })
-      });
-      
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to request virtual number');
-      }
-      
-      return data.data;
+      return await vnosClient.requestNumber({ product: productId, country: countryId, operator: operatorId });
     } catch (error) {
       console.error('Failed to request virtual number:', error);
       throw error;
@@ -277,20 +214,7 @@ export class ApiService {
 
   static async checkOtps(phoneNumber: string): Promise<OTP[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/virtual-numbers/${phoneNumber}/otps`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-      
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to check OTPs');
-      }
-      
-      return data.data;
+      return await vnosClient.getOtps(phoneNumber);
     } catch (error) {
       console.error('Failed to check OTPs:', error);
       throw error;
@@ -300,28 +224,12 @@ export class ApiService {
   /**
    * Get real-time product price from 5SIM
    */
-  static async getProductPrice(productId: string, countryId: string = 'usa'): Promise<{ usdCost: number; inrCost: number; count: number }> {
+  static async getProductPrice(productId: string, countryId: string = 'usa'): Promise<ProductPrice> {
     try {
-      const response = await fetch(`${API_BASE_URL}/price/${productId}/${countryId}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to get price: ${response.status}`);
-      }
-      
-      const result = await response.json();
-      
-      if (result.success && result.data) {
-        return {
-          usdCost: result.data.usdCost,
-          inrCost: result.data.inrCost,
-          count: result.data.count
-        };
-      } else {
-        throw new Error(result.message || 'Failed to get product price');
-      }
+      return await vnosClient.getProductPrice(productId, countryId);
     } catch (error) {
       console.error('Error getting product price:', error);
       throw error;
     }
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
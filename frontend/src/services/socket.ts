@@ -1,107 +1,110 @@
-import { io, Socket } from 'socket.io-client';
-import { OTP } from '../types';
+import { VnosEventMap, VnosEventName } from '@vnos/sdk';
+import { vnosClient } from './api';
 
 /**
  * WebSocket Service for Real-time Updates
- * 
- * Handles WebSocket connections for live OTP updates and number status changes
+ *
+ * Handles WebSocket connections for live OTP updates and number status changes.
+ * The SDK's event client does the work: it reconnects by itself and joins the
+ * numbers again afterwards.
  */
 export class SocketService {
-  private socket: Socket | null = null;
+  private events = vnosClient.events;
   private isConnected = false;
+  private removers = new Map<VnosEventName, Array<() => void>>();
+  private removeConnectionListener: (() => void) | null = null;
 
   /**
    * Connect to the WebSocket server
    */
   connect(): void {
-    if (this.socket && this.isConnected) {
-      return;
+    if (!this.removeConnectionListener) {
+      this.removeConnectionListener = this.events.onConnectionChange(connected => {
+        console.log(connected ? 'Connected to WebSocket server' : 'Disconnected from WebSocket server');
+        this.isConnected = connected;
+      });
     }
-
-    this.socket = io('http://localhost:5000', {
-      transports: ['websocket', 'polling'],
-      timeout: 20000,
-    });
-
-    this.socket.on('connect', () => {
-      console.log('Connected to WebSocket server');
-      this.isConnected = true;
-    });
-
-    this.socket.on('disconnect', () => {
-      console.log('Disconnected from WebSocket server');
-      this.isConnected = false;
-    });
-
-    this.socket.on('connect_error', (error) => {
-      console.error('WebSocket connection error:', error);
-      this.isConnected = false;
-    });
+    this.events.connect();
   }
 
   /**
    * Disconnect from the WebSocket server
    */
   disconnect(): void {
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
-      this.isConnected = false;
-    }
+    this.events.disconnect();
+    this.removeConnectionListener?.();
+    this.removeConnectionListener = null;
+    this.isConnected = false;
   }
 
   /**
    * Join a room for a specific virtual number
    */
   joinNumber(number: string): void {
-    if (this.socket && this.isConnected) {
-      this.socket.emit('joinNumber', number);
-    }
+    this.events.subscribe(number);
   }
 
   /**
    * Leave a room for a specific virtual number
    */
   leaveNumber(number: string): void {
-    if (this.socket && this.isConnected) {
-      this.socket.emit('leaveNumber', number);
-    }
+    this.events.unsubscribe(number);
   }
 
   /**
    * Listen for OTP updates
    */
-  onOTPUpdate(callback: (data: { number: string; otps: OTP[] }) => void): void {
-    if (this.socket) {
-      this.socket.on('otpUpdate', callback);
-    }
+  onOTPUpdate(callback: (data: VnosEventMap['otpUpdate']) => void): void {
+    this.listen('otpUpdate', callback);
+  }
+
+  /**
+   * Listen for newly received SMS messages
+   */
+  onSmsUpdate(callback: (data: VnosEventMap['smsUpdate']) => void): void {
+    this.listen('smsUpdate', callback);
+  }
+
+  /**
+   * Listen for status changes
+   */
+  onStatusUpdate(callback: (data: VnosEventMap['statusUpdate']) => void): void {
+    this.listen('statusUpdate', callback);
   }
 
   /**
    * Listen for number expiration
    */
-  onNumberExpired(callback: (data: { number: string }) => void): void {
-    if (this.socket) {
-      this.socket.on('numberExpired', callback);
-    }
+  onNumberExpired(callback: (data: VnosEventMap['numberExpired']) => void): void {
+    this.listen('numberExpired', callback);
   }
 
   /**
    * Remove OTP update listener
    */
   offOTPUpdate(): void {
-    if (this.socket) {
-      this.socket.off('otpUpdate');
-    }
+    this.removeAll('otpUpdate');
+  }
+
+  /**
+   * Remove SMS update listener
+   */
+  offSmsUpdate(): void {
+    this.removeAll('smsUpdate');
+  }
+
+  /**
+   * Remove status update listener
+   */
+  offStatusUpdate(): void {
+    this.removeAll('statusUpdate');
   }
 
   /**
    * Remove number expired listener
    */
   offNumberExpired(): void {
-    if (this.socket) {
-      this.socket.off('numberExpired');
-    }
+    this.removeAll('numberExpired');
   }
 
   /**
@@ -110,7 +113,20 @@ export class SocketService {
   getConnected(): boolean {
     return this.isConnected;
   }
+
+  private listen<E extends VnosEventName>(event: E, callback: (data: VnosEventMap[E]) => void): void {
+    const removers = this.removers.get(event) ?? [];
+    removers.push(this.events.on(event, callback));
+    this.removers.set(event, removers);
+  }
+
+  private removeAll(event: VnosEventName): void {
+    for (const remove of this.removers.get(event) ?? []) {
+      remove();
+    }
+    this.removers.delete(event);
+  }
 }
 
 // Export singleton instance
-export const socketService = new SocketService(); 
\ No newline at end of file
+export const socketService = new SocketService();
@@ -1,8 +1,16 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      // Build the SDK and contracts from source rather than their compiled CommonJS output
+      '@vnos/sdk': fileURLToPath(new URL('../sdk/src', import.meta.url)),
+      '@vnos/contracts': fileURLToPath(new URL('../contracts/src', import.meta.url))
+    }
+  },
   server: {
     port: 3000,
     proxy: {
@@ -0,0 +1,438 @@
+import { z } from 'zod';
+import {
+  CatalogSchema,
+  CountryDetailsSchema,
+  CreatedWebhookEndpointSchema,
+  formatIssues,
+  IndianServicesSchema,
+  OperatorsSchema,
+  OtpSchema,
+  OtpWaitResultSchema,
+  ProductPriceSchema,
+  ProviderCountrySchema,
+  ProviderProductSchema,
+  ProviderSchema,
+  ProviderStatusSchema,
+  RequestNumberBody,
+  SelectedProviderSchema,
+  SelectProviderResultSchema,
+  SmsMessageSchema,
+  StatusTransitionSchema,
+  VirtualNumberSchema,
+  WalletBalanceSchema,
+  WalletTransactionSchema,
+  WebhookDeliverySchema,
+  WebhookEndpointSchema
+} from '@vnos/contracts';
+import {
+  Catalog,
+  CatalogQuery,
+  CountryDetails,
+  CreatedWebhookEndpoint,
+  CreateWebhookBody,
+  IndianServices,
+  OTP,
+  ProductPrice,
+  Provider,
+  ProviderCountry,
+  ProviderProduct,
+  ProviderStatus,
+  SelectedProvider,
+  SelectProviderResult,
+  SmsMessage,
+  StatusTransition,
+  VirtualNumber,
+  WalletBalance,
+  WalletTransaction,
+  WebhookDelivery,
+  WebhookEndpoint
+} from './types';
+import { createApiError, VnosApiError, VnosContractError, VnosNetworkError, VnosTimeoutError } from './errors';
+import { VnosEvents } from './events';
+
+export interface VnosClientOptions {
+  baseUrl?: string; // Backend origin (default http://localhost:5000)
+  apiKey?: string; // Sent as a Bearer token and in the socket handshake
+  fetch?: typeof fetch; // Defaults to the global fetch
+  timeoutMs?: number; // Per request, except the long-polls in waitForOtp (default 30000)
+}
+
+// Catalog service id, country, and for rentals the hours; see RequestNumberBodySchema
+export type RequestNumberOptions = RequestNumberBody;
+
+export interface WaitForOtpOptions {
+  timeout?: number; // Seconds to wait in total (default 120)
+  after?: string; // Id of an OTP already used; only a later one is returned
+  signal?: AbortSignal;
+  pollSeconds?: number; // Longest single long-poll request, kept under proxy timeouts (default 60)
+}
+
+// Envelope every backend response comes in, before its data is checked; see ApiResponse in @vnos/contracts
+interface ResponseBody {
+  success: boolean;
+  data?: unknown;
+  error?: string;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Virtual Number OTP Service client
+ *
+ * Typed wrapper around the REST API for browsers and Node (18+). Failed calls
+ * throw a VnosApiError subclass matching the response status (see ./errors),
+ * and data that doesn't match the API contracts throws a VnosContractError;
+ * `events` gives the real-time socket events for the same backend and key.
+ */
+export class VnosClient {
+  readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+  private eventsClient: VnosEvents | null = null;
+
+  constructor(options: VnosClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || 'http://localhost:5000').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  /**
+   * Socket events for this backend, sharing the client's API key. Call `events.connect()` to start.
+   */
+  get events(): VnosEvents {
+    if (!this.eventsClient) {
+      this.eventsClient = new VnosEvents({ baseUrl: this.baseUrl, apiKey: this.apiKey });
+    }
+    return this.eventsClient;
+  }
+
+  /**
+   * Buy a number from the selected provider, the cheapest one, or rent one
+   */
+  async requestNumber(options: RequestNumberOptions): Promise<VirtualNumber> {
+    return this.data(VirtualNumberSchema, 'POST', '/api/virtual-numbers', { body: options });
+  }
+
+  /**
+   * List the user's active numbers
+   */
+  async listNumbers(): Promise<VirtualNumber[]> {
+    return this.data(z.array(VirtualNumberSchema), 'GET', '/api/virtual-numbers');
+  }
+
+  /**
+   * Get one of the user's numbers, active or not
+   */
+  async getNumber(number: string): Promise<VirtualNumber> {
+    return this.data(VirtualNumberSchema, 'GET', this.numberPath(number));
+  }
+
+  /**
+   * Check a number for new OTPs and return all of them
+   */
+  async getOtps(number: string): Promise<OTP[]> {
+    return this.data(z.array(OtpSchema), 'GET', this.numberPath(number, 'otps'));
+  }
+
+  /**
+   * Get every SMS received on a number, oldest first
+   */
+  async getMessages(number: string): Promise<SmsMessage[]> {
+    return this.data(z.array(SmsMessageSchema), 'GET', this.numberPath(number, 'messages'));
+  }
+
+  /**
+   * Get a number's status transitions, oldest first
+   */
+  async getHistory(number: string): Promise<StatusTransition[]> {
+    return this.data(z.array(StatusTransitionSchema), 'GET', this.numberPath(number, 'history'));
+  }
+
+  /**
+   * Wait for a number's next OTP: its first one, or the first after `after`.
+   * Throws VnosTimeoutError when none arrives in time and VnosStateError when
+   * the number expires or is cancelled first.
+   */
+  async waitForOtp(number: string, options: WaitForOtpOptions = {}): Promise<OTP> {
+    const timeout = options.timeout ?? 120;
+    const deadline = Date.now() + timeout * 1000;
+    const timedOut = () => new VnosTimeoutError(`No OTP received on ${number} within ${timeout} seconds`);
+
+    for (;;) {
+      const remaining = Math.floor((deadline - Date.now()) / 1000);
+      if (remaining < 1) {
+        throw timedOut();
+      }
+
+      const wait = Math.min(remaining, options.pollSeconds ?? 60);
+      try {
+        const result = await this.data(OtpWaitResultSchema, 'GET', this.numberPath(number, 'otps/wait'), {
+          query: { timeout: wait, after: options.after },
+          signal: options.signal,
+          timeoutMs: (wait + 30) * 1000
+        });
+        return result.otp;
+      } catch (error) {
+        if (!(error instanceof VnosApiError && error.status === 408)) {
+          throw error;
+        }
+        // The server gave up on this long-poll; start the next one unless it waited out the rest of the time
+        if (wait === remaining) {
+          throw timedOut();
+        }
+      }
+    }
+  }
+
+  /**
+   * Ask the provider to send the SMS again
+   */
+  async resend(number: string): Promise<void> {
+    await this.request('POST', this.numberPath(number, 'resend'));
+  }
+
+  /**
+   * Cancel a number; it's refunded if no OTP arrived
+   */
+  async cancel(number: string): Promise<void> {
+    await this.request('DELETE', this.numberPath(number));
+  }
+
+  /**
+   * Finish a number with the provider once done with its code
+   */
+  async complete(number: string): Promise<VirtualNumber> {
+    return this.data(VirtualNumberSchema, 'POST', this.numberPath(number, 'complete'));
+  }
+
+  /**
+   * Add hours to a rental
+   */
+  async extend(number: string, hours: number): Promise<VirtualNumber> {
+    return this.data(VirtualNumberSchema, 'POST', this.numberPath(number, 'extend'), { body: { hours } });
+  }
+
+  /**
+   * Buy a follow-up activation on a used number
+   */
+  async reactivate(number: string): Promise<VirtualNumber> {
+    return this.data(VirtualNumberSchema, 'POST', this.numberPath(number, 'reactivate'));
+  }
+
+  /**
+   * List the providers numbers can be bought from
+   */
+  async listProviders(): Promise<Provider[]> {
+    return this.data(z.array(ProviderSchema), 'GET', '/api/virtual-numbers/providers');
+  }
+
+  /**
+   * Get the provider new purchases go to
+   */
+  async getSelectedProvider(): Promise<SelectedProvider> {
+    return this.data(SelectedProviderSchema, 'GET', '/api/virtual-numbers/providers/selected');
+  }
+
+  /**
+   * Check whether a provider is available
+   */
+  async getProviderStatus(providerId: string): Promise<ProviderStatus> {
+    return this.data(ProviderStatusSchema, 'GET', `${this.providerPath(providerId)}/status`);
+  }
+
+  /**
+   * Send new purchases to a provider
+   */
+  async selectProvider(providerId: string): Promise<SelectProviderResult> {
+    return this.data(SelectProviderResultSchema, 'POST', `${this.providerPath(providerId)}/select`);
+  }
+
+  /**
+   * List the catalog countries a provider sells numbers in
+   */
+  async getProviderCountries(providerId: string): Promise<ProviderCountry[]> {
+    return this.data(z.array(ProviderCountrySchema), 'GET', `${this.providerPath(providerId)}/countries`);
+  }
+
+  /**
+   * List the services a provider sells in a country, at its live prices
+   */
+  async getProviderProducts(providerId: string, countryId: string): Promise<ProviderProduct[]> {
+    return this.data(z.array(ProviderProductSchema), 'GET', `${this.providerPath(providerId)}/countries/${encodeURIComponent(countryId)}/products`);
+  }
+
+  /**
+   * Get a provider's country with the services it sells there
+   */
+  async getCountryDetails(providerId: string, countryId: string): Promise<CountryDetails> {
+    return this.data(CountryDetailsSchema, 'GET', `${this.providerPath(providerId)}/countries/${encodeURIComponent(countryId)}/details`);
+  }
+
+  /**
+   * Get the selected provider's live price for a product in a country
+   */
+  async getProductPrice(product: string, country: string): Promise<ProductPrice> {
+    return this.data(ProductPriceSchema, 'GET', `/api/virtual-numbers/price/${encodeURIComponent(product)}/${encodeURIComponent(country)}`);
+  }
+
+  /**
+   * List SMS-Activate's operators for one of its country codes, e.g. "22" for India
+   */
+  async getOperators(country: string): Promise<string[]> {
+    return this.data(OperatorsSchema, 'GET', '/api/virtual-numbers/smsactivate/operators', { query: { country } });
+  }
+
+  /**
+   * Get the Indian services with SMS-Activate's synced prices, grouped by category
+   */
+  async getIndianServices(): Promise<IndianServices> {
+    return this.data(IndianServicesSchema, 'GET', '/api/virtual-numbers/indian-services');
+  }
+
+  /**
+   * Get the service catalog with cached prices, optionally filtered
+   */
+  async getCatalog(filter: CatalogQuery = {}): Promise<Catalog> {
+    return this.data(CatalogSchema, 'GET', '/api/catalog', { query: filter });
+  }
+
+  /**
+   * Get the user's wallet balance
+   */
+  async getBalance(): Promise<WalletBalance> {
+    return this.data(WalletBalanceSchema, 'GET', '/api/wallet');
+  }
+
+  /**
+   * List the user's wallet transactions, newest first
+   */
+  async listTransactions(limit?: number, offset?: number): Promise<WalletTransaction[]> {
+    return this.data(z.array(WalletTransactionSchema), 'GET', '/api/wallet/transactions', { query: { limit, offset } });
+  }
+
+  /**
+   * Register a webhook endpoint; the returned secret is only shown this once
+   */
+  async createWebhook(options: CreateWebhookBody): Promise<CreatedWebhookEndpoint> {
+    return this.data(CreatedWebhookEndpointSchema, 'POST', '/api/webhooks', { body: options });
+  }
+
+  /**
+   * List the user's webhook endpoints
+   */
+  async listWebhooks(): Promise<WebhookEndpoint[]> {
+    return this.data(z.array(WebhookEndpointSchema), 'GET', '/api/webhooks');
+  }
+
+  /**
+   * Delete a webhook endpoint
+   */
+  async deleteWebhook(endpointId: string): Promise<void> {
+    await this.request('DELETE', `/api/webhooks/${encodeURIComponent(endpointId)}`);
+  }
+
+  /**
+   * List a webhook endpoint's deliveries, newest first
+   */
+  async listWebhookDeliveries(endpointId: string, limit?: number, offset?: number): Promise<WebhookDelivery[]> {
+    return this.data(z.array(WebhookDeliverySchema), 'GET', `/api/webhooks/${encodeURIComponent(endpointId)}/deliveries`, { query: { limit, offset } });
+  }
+
+  /**
+   * Send a test event to a webhook endpoint and return the delivery
+   */
+  async testWebhook(endpointId: string): Promise<WebhookDelivery> {
+    return this.data(WebhookDeliverySchema, 'POST', `/api/webhooks/${encodeURIComponent(endpointId)}/test`);
+  }
+
+  private numberPath(number: string, action?: string): string {
+    return `/api/virtual-numbers/${encodeURIComponent(number)}${action ? `/${action}` : ''}`;
+  }
+
+  private providerPath(providerId: string): string {
+    return `/api/virtual-numbers/providers/${encodeURIComponent(providerId)}`;
+  }
+
+  /**
+   * Send a request and return its data, checked against the contract schema
+   */
+  private async data<S extends z.ZodTypeAny>(schema: S, method: string, path: string, options: RequestOptions = {}): Promise<z.output<S>> {
+    const response = await this.request(method, path, options);
+    const result = schema.safeParse(response.data);
+    if (!result.success) {
+      throw new VnosContractError(`${method} ${path} returned unexpected data: ${formatIssues(result.error)}`, response);
+    }
+    return result.data;
+  }
+
+  /**
+   * Send a request and unwrap the response envelope, throwing on anything but success
+   */
+  private async request(method: string, path: string, options: RequestOptions = {}): Promise<ResponseBody> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined && value !== '') {
+        query.set(key, String(value));
+      }
+    }
+    const search = query.toString();
+    const url = `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    // Abort on the caller's signal or our own timeout, whichever comes first
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    options.signal?.addEventListener('abort', abort);
+
+    let response: Response;
+    let body: ResponseBody | undefined;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal
+      });
+      body = await response.json().catch(() => undefined) as ResponseBody | undefined;
+    } catch (error) {
+      if (timedOut) {
+        throw new VnosTimeoutError(`${method} ${path} timed out after ${timeoutMs} ms`);
+      }
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      throw new VnosNetworkError(`Could not reach ${this.baseUrl}: ${error instanceof Error ? error.message : error}`, error);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+
+    if (!body && response.ok) {
+      throw new VnosNetworkError(`${method} ${path} did not return a JSON API response`);
+    }
+    if (!response.ok || !body?.success) {
+      throw createApiError(response.status, body?.error || `${method} ${path} failed with HTTP ${response.status}`, body);
+    }
+    return body;
+  }
+}
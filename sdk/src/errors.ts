@@ -0,0 +1,109 @@
+/**
+ * Base class of every error the SDK throws
+ */
+export class VnosError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VnosError';
+  }
+}
+
+/**
+ * The backend answered with an error; `body` is its parsed JSON, when there was any
+ */
+export class VnosApiError extends VnosError {
+  constructor(message: string, public readonly status: number, public readonly body?: unknown) {
+    super(message);
+    this.name = 'VnosApiError';
+  }
+}
+
+/**
+ * Missing or invalid API key (401), or not allowed to do this (403)
+ */
+export class VnosAuthError extends VnosApiError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'VnosAuthError';
+  }
+}
+
+/**
+ * The wallet can't cover the purchase (402)
+ */
+export class VnosInsufficientFundsError extends VnosApiError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'VnosInsufficientFundsError';
+  }
+}
+
+/**
+ * The number (or other resource) doesn't exist or belongs to someone else (404)
+ */
+export class VnosNotFoundError extends VnosApiError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'VnosNotFoundError';
+  }
+}
+
+/**
+ * The number is in a state that doesn't allow this, e.g. it already expired (409)
+ */
+export class VnosStateError extends VnosApiError {
+  constructor(message: string, status: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'VnosStateError';
+  }
+}
+
+/**
+ * The backend answered with data that doesn't match the API contracts, e.g. a
+ * backend of another version; `body` is the response as received
+ */
+export class VnosContractError extends VnosError {
+  constructor(message: string, public readonly body: unknown) {
+    super(message);
+    this.name = 'VnosContractError';
+  }
+}
+
+/**
+ * Nothing arrived before the deadline, or the request took too long
+ */
+export class VnosTimeoutError extends VnosError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VnosTimeoutError';
+  }
+}
+
+/**
+ * The backend couldn't be reached or didn't answer with JSON
+ */
+export class VnosNetworkError extends VnosError {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'VnosNetworkError';
+  }
+}
+
+/**
+ * Build the error for a failed response, by status code
+ */
+export function createApiError(status: number, message: string, body?: unknown): VnosApiError {
+  switch (status) {
+    case 401:
+    case 403:
+      return new VnosAuthError(message, status, body);
+    case 402:
+      return new VnosInsufficientFundsError(message, status, body);
+    case 404:
+      return new VnosNotFoundError(message, status, body);
+    case 409:
+      return new VnosStateError(message, status, body);
+    default:
+      return new VnosApiError(message, status, body);
+  }
+}
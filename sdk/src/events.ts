@@ -0,0 +1,143 @@
+import { io, Socket } from 'socket.io-client';
+import { VnosEventSchemas } from '@vnos/contracts';
+import { VnosEventMap, VnosEventName } from './types';
+
+const EVENT_NAMES = Object.keys(VnosEventSchemas) as VnosEventName[];
+
+export interface VnosEventsOptions {
+  baseUrl: string;
+  apiKey?: string;
+  reconnectionDelayMs?: number; // First delay before reconnecting (default 1000)
+  reconnectionDelayMaxMs?: number; // Longest delay between reconnection attempts (default 10000)
+}
+
+/**
+ * Real-time events for numbers over the backend's Socket.IO connection.
+ *
+ * The connection reconnects on its own after network drops and server
+ * restarts, and every subscribed number is joined again each time it comes
+ * back, so listeners keep getting events without any extra work.
+ */
+export class VnosEvents {
+  private socket: Socket | null = null;
+  private readonly numbers = new Set<string>();
+  private readonly listeners = new Map<VnosEventName, Set<(payload: any) => void>>();
+  private readonly connectionListeners = new Set<(connected: boolean) => void>();
+
+  constructor(private readonly options: VnosEventsOptions) {}
+
+  /**
+   * Open the connection; calling it again while connected does nothing
+   */
+  connect(): void {
+    if (this.socket) {
+      return;
+    }
+
+    const socket = io(this.options.baseUrl, {
+      transports: ['websocket', 'polling'],
+      auth: { apiKey: this.options.apiKey },
+      reconnection: true,
+      reconnectionDelay: this.options.reconnectionDelayMs ?? 1000,
+      reconnectionDelayMax: this.options.reconnectionDelayMaxMs ?? 10000
+    });
+
+    socket.on('connect', () => {
+      // Rooms don't survive a reconnect, so join them again
+      for (const number of this.numbers) {
+        socket.emit('joinNumber', number);
+      }
+      this.notifyConnection(true);
+    });
+
+    socket.on('disconnect', reason => {
+      this.notifyConnection(false);
+      // The client only reconnects by itself after transport errors, not when the server closed the socket
+      if (reason === 'io server disconnect') {
+        socket.connect();
+      }
+    });
+
+    for (const event of EVENT_NAMES) {
+      socket.on(event, (payload: unknown) => {
+        for (const listener of [...this.listeners.get(event) ?? []]) {
+          listener(payload);
+        }
+      });
+    }
+
+    this.socket = socket;
+  }
+
+  /**
+   * Close the connection. Subscriptions and listeners are kept for the next connect().
+   */
+  disconnect(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+      this.notifyConnection(false);
+    }
+  }
+
+  /**
+   * Whether the connection is currently open
+   */
+  get connected(): boolean {
+    return this.socket?.connected ?? false;
+  }
+
+  /**
+   * Receive events for a number; it stays subscribed across reconnects
+   */
+  subscribe(number: string): void {
+    this.numbers.add(number);
+    if (this.socket?.connected) {
+      this.socket.emit('joinNumber', number);
+    }
+  }
+
+  /**
+   * Stop receiving events for a number
+   */
+  unsubscribe(number: string): void {
+    this.numbers.delete(number);
+    if (this.socket?.connected) {
+      this.socket.emit('leaveNumber', number);
+    }
+  }
+
+  /**
+   * Listen for an event on every subscribed number; returns a function that removes the listener
+   */
+  on<E extends VnosEventName>(event: E, listener: (payload: VnosEventMap[E]) => void): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<E extends VnosEventName>(event: E, listener: (payload: VnosEventMap[E]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Listen for the connection opening and closing; returns a function that removes the listener
+   */
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private notifyConnection(connected: boolean): void {
+    for (const listener of [...this.connectionListeners]) {
+      listener(connected);
+    }
+  }
+}
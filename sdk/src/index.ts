@@ -0,0 +1,11 @@
+/**
+ * Virtual Number OTP Service SDK
+ *
+ * REST client, socket events, typed errors and the API's JSON types.
+ */
+export { VnosClient } from './client';
+export type { VnosClientOptions, RequestNumberOptions, WaitForOtpOptions } from './client';
+export { VnosEvents } from './events';
+export type { VnosEventsOptions } from './events';
+export * from './errors';
+export * from './types';
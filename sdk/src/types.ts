@@ -0,0 +1,47 @@
+/**
+ * API Types
+ *
+ * The JSON the backend sends and accepts, from the shared contracts in
+ * @vnos/contracts, with dates as the ISO 8601 strings they travel as.
+ */
+export { ACTIVE_STATUSES } from '@vnos/contracts';
+export type {
+  ApiError,
+  ApiResponse,
+  Catalog,
+  CatalogCountry,
+  CatalogPrice,
+  CatalogProviderId,
+  CatalogQuery,
+  CatalogService,
+  CountryDetails,
+  CreatedWebhookEndpoint,
+  CreateWebhookBody,
+  IndianService,
+  IndianServices,
+  NumberMode,
+  OTP,
+  OtpWaitResult,
+  ProductPrice,
+  Provider,
+  ProviderCountry,
+  ProviderProduct,
+  ProviderStatus,
+  PurchaseAttempt,
+  SelectedProvider,
+  SelectProviderResult,
+  SmsMessage,
+  StatusTransition,
+  VirtualNumber,
+  VirtualNumberStatus,
+  VnosEventMap,
+  VnosEventName,
+  WalletBalance,
+  WalletTransaction,
+  WalletTransactionStatus,
+  WalletTransactionType,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType
+} from '@vnos/contracts';
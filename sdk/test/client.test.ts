@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  VnosClient,
+  VnosContractError,
+  VnosInsufficientFundsError,
+  VnosNetworkError,
+  VnosNotFoundError,
+  VnosStateError,
+  VnosTimeoutError
+} from '../src';
+
+interface RecordedRequest {
+  url: URL;
+  method: string;
+  headers: Headers;
+  body?: unknown;
+}
+
+/**
+ * A fetch that answers from a list of canned responses and records the requests
+ */
+function fakeFetch(responses: Array<{ status?: number; body: unknown } | Error>) {
+  const requests: RecordedRequest[] = [];
+  const fetch = async (input: string | URL | Request, init: RequestInit = {}) => {
+    requests.push({
+      url: new URL(String(input)),
+      method: init.method ?? 'GET',
+      headers: new Headers(init.headers),
+      body: init.body ? JSON.parse(String(init.body)) : undefined
+    });
+
+    const next = responses.shift();
+    if (!next) {
+      throw new Error('No response left');
+    }
+    if (next instanceof Error) {
+      throw next;
+    }
+    return new Response(JSON.stringify(next.body), { status: next.status ?? 200 });
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+const otp = { id: 'otp-1', code: '482913', receivedAt: '2024-01-01T12:00:00.000Z' };
+
+const virtualNumber = {
+  id: 'vn-1',
+  number: '+919000000001',
+  activationId: 'act-1',
+  provider: '5sim',
+  product: 'amazon',
+  country: 'india',
+  mode: 'activation',
+  otps: [],
+  messages: [],
+  purchasedAt: '2024-01-01T12:00:00.000Z',
+  createdAt: '2024-01-01T12:00:00.000Z',
+  expiresAt: '2024-01-01T12:20:00.000Z',
+  status: 'waiting_sms'
+};
+
+describe('VnosClient', () => {
+  it('sends the API key and body and unwraps the response', async () => {
+    const { fetch, requests } = fakeFetch([{ body: { success: true, data: virtualNumber, attempts: [] } }]);
+    const client = new VnosClient({ baseUrl: 'http://vnos.test/', apiKey: 'vnos_key', fetch });
+
+    const number = await client.requestNumber({ product: 'amazon', country: 'india' });
+
+    assert.equal(number.number, '+919000000001');
+    assert.equal(requests[0].url.href, 'http://vnos.test/api/virtual-numbers');
+    assert.equal(requests[0].method, 'POST');
+    assert.equal(requests[0].headers.get('authorization'), 'Bearer vnos_key');
+    assert.deepEqual(requests[0].body, { product: 'amazon', country: 'india' });
+  });
+
+  it('rejects data that does not match the contract', async () => {
+    const { fetch } = fakeFetch([{ body: { success: true, data: [{ ...virtualNumber, status: 'active' }] } }]);
+    const client = new VnosClient({ fetch });
+
+    await assert.rejects(client.listNumbers(), (error: unknown) =>
+      error instanceof VnosContractError &&
+      error.message === `GET /api/virtual-numbers returned unexpected data: 0.status: Invalid enum value. Expected 'pending' | 'waiting_sms' | 'sms_received' | 'completed' | 'cancelled' | 'refunded' | 'expired' | 'failed', received 'active'`
+    );
+  });
+
+  it('throws an error class matching the response status', async () => {
+    const { fetch } = fakeFetch([
+      { status: 402, body: { success: false, error: 'Insufficient wallet balance' } },
+      { status: 404, body: { success: false, error: 'Virtual number not found' } },
+      { status: 409, body: { success: false, error: 'Number is expired' } }
+    ]);
+    const client = new VnosClient({ fetch });
+
+    await assert.rejects(client.requestNumber({ product: 'amazon' }), (error: unknown) =>
+      error instanceof VnosInsufficientFundsError && error.status === 402 && error.message === 'Insufficient wallet balance'
+    );
+    await assert.rejects(client.getNumber('+1'), VnosNotFoundError);
+    await assert.rejects(client.complete('+1'), VnosStateError);
+  });
+
+  it('throws a network error when the backend is unreachable', async () => {
+    const { fetch } = fakeFetch([new TypeError('fetch failed')]);
+    const client = new VnosClient({ fetch });
+
+    await assert.rejects(client.listNumbers(), VnosNetworkError);
+  });
+
+  it('keeps long-polling until an OTP arrives', async () => {
+    const { fetch, requests } = fakeFetch([
+      { status: 408, body: { success: false, error: 'No OTP received within 5 seconds' } },
+      { body: { success: true, data: { otp, status: 'sms_received' } } }
+    ]);
+    const client = new VnosClient({ fetch });
+
+    const received = await client.waitForOtp('+919000000001', { timeout: 30, after: 'otp-0', pollSeconds: 5 });
+
+    assert.equal(received.code, '482913');
+    assert.equal(requests.length, 2);
+    assert.equal(requests[0].url.pathname, '/api/virtual-numbers/%2B919000000001/otps/wait');
+    assert.equal(requests[0].url.searchParams.get('timeout'), '5');
+    assert.equal(requests[0].url.searchParams.get('after'), 'otp-0');
+  });
+
+  it('gives up waiting once the timeout has passed', async () => {
+    const { fetch } = fakeFetch([{ status: 408, body: { success: false, error: 'No OTP received within 1 seconds' } }]);
+    const client = new VnosClient({ fetch });
+
+    await assert.rejects(client.waitForOtp('+919000000001', { timeout: 1 }), VnosTimeoutError);
+  });
+
+  it('reports a number that ended while waiting', async () => {
+    const { fetch } = fakeFetch([{ status: 409, body: { success: false, error: "Number is cancelled and won't receive more OTPs" } }]);
+    const client = new VnosClient({ fetch });
+
+    await assert.rejects(client.waitForOtp('+919000000001'), VnosStateError);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { VnosEvents } from '../src';
+
+/**
+ * Resolve once the condition holds, checking every few milliseconds
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('VnosEvents', () => {
+  const httpServer = createServer();
+  const io = new Server(httpServer);
+  const joins: string[] = [];
+  let baseUrl: string;
+
+  before(async () => {
+    io.use((socket, next) => {
+      next(socket.handshake.auth?.apiKey === 'vnos_key' ? undefined : new Error('Authentication required'));
+    });
+    io.on('connection', socket => {
+      socket.on('joinNumber', (number: string) => {
+        joins.push(number);
+        socket.join(`number-${number}`);
+      });
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    io.close();
+  });
+
+  it('delivers events for subscribed numbers and re-joins them after a reconnect', async () => {
+    const events = new VnosEvents({ baseUrl, apiKey: 'vnos_key', reconnectionDelayMs: 50 });
+    const otps: string[] = [];
+    events.on('otpUpdate', payload => otps.push(...payload.otps.map(otp => otp.code)));
+
+    events.subscribe('+919000000001');
+    events.connect();
+    await waitFor(() => joins.length === 1);
+
+    io.to('number-+919000000001').emit('otpUpdate', {
+      number: '+919000000001',
+      otps: [{ id: 'otp-1', code: '482913', receivedAt: new Date().toISOString() }],
+      timestamp: new Date().toISOString()
+    });
+    await waitFor(() => otps.length === 1);
+
+    // Kick every client; the room membership is gone until the client joins again
+    io.disconnectSockets(true);
+    await waitFor(() => joins.length === 2);
+    assert.deepEqual(joins, ['+919000000001', '+919000000001']);
+
+    io.to('number-+919000000001').emit('otpUpdate', {
+      number: '+919000000001',
+      otps: [{ id: 'otp-2', code: '551177', receivedAt: new Date().toISOString() }],
+      timestamp: new Date().toISOString()
+    });
+    await waitFor(() => otps.length === 2);
+    assert.deepEqual(otps, ['482913', '551177']);
+
+    events.disconnect();
+  });
+
+  it('reports connection changes', async () => {
+    const events = new VnosEvents({ baseUrl, apiKey: 'vnos_key' });
+    const changes: boolean[] = [];
+    events.onConnectionChange(connected => changes.push(connected));
+
+    events.connect();
+    await waitFor(() => events.connected);
+    events.disconnect();
+
+    assert.deepEqual(changes, [true, false]);
+  });
+});